@@ -0,0 +1,185 @@
+// Gyneo service worker
+// Keeps the app shell cached so Gyneo opens offline (the data itself is in Firestore's own
+// IndexedDB cache), and delivers the reminders the app schedules. The app rebuilds the
+// schedule whenever logs or settings change and posts it here; this worker only stores it
+// and shows what is due.
+
+const SHELL_CACHE = 'gyneo-shell-v1';
+// Cached alongside index.html ('/'). Built assets have hashed names and are found in the page.
+const SHELL_FILES = ['/manifest.webmanifest', '/icon.png', '/icon-192.png', '/icon-512.png', '/icon-maskable-512.png'];
+
+const REMINDER_CACHE = 'gyneo-reminders';
+const REMINDER_KEY = '/__reminders';
+const PERIODIC_SYNC_TAG = 'gyneo-reminders';
+// Reminders found more than this late (device off, browser closed) are dropped, not shown
+const GRACE_MS = 12 * 60 * 60 * 1000;
+// Timers only run while the worker is awake, so only arm the ones that are close
+const TIMER_WINDOW_MS = 5 * 60 * 1000;
+
+let timers = [];
+
+// --- Stored State: { reminders, delivered } ---
+
+const loadState = async () => {
+  const cache = await caches.open(REMINDER_CACHE);
+  const response = await cache.match(REMINDER_KEY);
+  return response ? response.json() : { reminders: [], delivered: [] };
+};
+
+const saveState = async (state) => {
+  const cache = await caches.open(REMINDER_CACHE);
+  await cache.put(REMINDER_KEY, new Response(JSON.stringify(state), {
+    headers: { 'Content-Type': 'application/json' }
+  }));
+};
+
+// --- Delivery ---
+
+const supportsTriggers = () => 'showTrigger' in Notification.prototype && 'TimestampTrigger' in self;
+
+const show = (reminder, trigger) => self.registration.showNotification(reminder.title, {
+  body: reminder.body,
+  tag: reminder.id,
+  icon: '/icon.png',
+  badge: '/icon.png',
+  ...(trigger ? { showTrigger: new self.TimestampTrigger(reminder.fireAt) } : {})
+});
+
+const deliverDue = async () => {
+  const state = await loadState();
+  const now = Date.now();
+  const due = state.reminders.filter(r =>
+    r.fireAt <= now && r.fireAt > now - GRACE_MS && !state.delivered.includes(r.id)
+  );
+  if (due.length === 0) return;
+  await Promise.all(due.map(r => show(r, false)));
+  state.delivered.push(...due.map(r => r.id));
+  await saveState(state);
+};
+
+const armTimers = (reminders) => {
+  timers.forEach(clearTimeout);
+  const now = Date.now();
+  timers = reminders
+    .filter(r => r.fireAt > now && r.fireAt - now <= TIMER_WINDOW_MS)
+    .map(r => setTimeout(deliverDue, r.fireAt - now));
+};
+
+const schedule = async (reminders) => {
+  const previous = await loadState();
+  const ids = new Set(reminders.map(r => r.id));
+  // Forget deliveries for reminders that are no longer scheduled, keep the rest
+  const state = { reminders, delivered: previous.delivered.filter(id => ids.has(id)) };
+
+  if (supportsTriggers()) {
+    // Cancel pending notifications that dropped out of the schedule (predictions moved)
+    const pending = await self.registration.getNotifications({ includeTriggered: false });
+    pending.filter(n => !ids.has(n.tag)).forEach(n => n.close());
+    // Re-showing with the same tag replaces the pending one, picking up a new time or text
+    const upcoming = reminders.filter(r => r.fireAt > Date.now());
+    await Promise.all(upcoming.map(r => show(r, true)));
+    state.delivered = [...new Set([...state.delivered, ...upcoming.map(r => r.id)])];
+  }
+
+  await saveState(state);
+  await deliverDue();
+  armTimers(reminders);
+};
+
+// --- App Shell ---
+
+const assetsIn = (html) => [...html.matchAll(/(?:src|href)="(\/assets\/[^"]+)"/g)].map(m => m[1]);
+
+// Caches a fresh index.html along with the scripts and styles it loads, and drops the assets
+// of earlier builds. Runs on install and again whenever a navigation gets a new page.
+const cacheShell = async (response) => {
+  const cache = await caches.open(SHELL_CACHE);
+  const html = await response.clone().text();
+  const assets = assetsIn(html);
+  await cache.addAll(assets);
+  await cache.put('/', response);
+  const keep = new Set(['/', ...SHELL_FILES, ...assets].map(url => new URL(url, self.location.origin).href));
+  const cached = await cache.keys();
+  await Promise.all(cached.filter(request => !keep.has(request.url)).map(request => cache.delete(request)));
+};
+
+const precache = async () => {
+  const cache = await caches.open(SHELL_CACHE);
+  await cache.addAll(SHELL_FILES);
+  const page = await fetch('/', { cache: 'no-cache' });
+  if (page.ok) await cacheShell(page);
+};
+
+// Every route is the same page. Network first, so a new build shows up as soon as there is a connection
+const handleNavigation = async (request) => {
+  try {
+    const response = await fetch(request);
+    if (response.ok && new URL(response.url).origin === self.location.origin) {
+      cacheShell(response.clone()).catch(e => console.error('Caching the app shell failed:', e));
+    }
+    return response;
+  } catch (e) {
+    const cached = await caches.match('/', { cacheName: SHELL_CACHE });
+    if (cached) return cached;
+    throw e;
+  }
+};
+
+const handleShellFile = async (request) => {
+  const cached = await caches.match(request, { cacheName: SHELL_CACHE });
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(SHELL_CACHE);
+    await cache.put(request, response.clone());
+  }
+  return response;
+};
+
+const clearOldShells = async () => {
+  const names = await caches.keys();
+  await Promise.all(names
+    .filter(name => name.startsWith('gyneo-shell-') && name !== SHELL_CACHE)
+    .map(name => caches.delete(name)));
+};
+
+// --- Events ---
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(precache().catch(e => console.error('Precaching failed:', e)).then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(clearOldShells().then(() => self.clients.claim()).then(deliverDue));
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  // Firestore, Auth and fonts go straight to the network; Firebase's auth handler lives under /__/
+  if (request.method !== 'GET' || url.origin !== self.location.origin || url.pathname.startsWith('/__/')) return;
+  if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(request));
+  } else if (url.pathname.startsWith('/assets/') || SHELL_FILES.includes(url.pathname)) {
+    event.respondWith(handleShellFile(request));
+  }
+});
+
+self.addEventListener('message', (event) => {
+  const { type, reminders } = event.data || {};
+  if (type === 'reminders:schedule') event.waitUntil(schedule(reminders || []));
+  if (type === 'reminders:check') event.waitUntil(deliverDue());
+});
+
+self.addEventListener('periodicsync', (event) => {
+  if (event.tag === PERIODIC_SYNC_TAG) event.waitUntil(deliverDue());
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    if (windows.length > 0) return windows[0].focus();
+    return self.clients.openWindow('/');
+  })());
+});
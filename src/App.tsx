@@ -1,24 +1,24 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import {
   Heart,
   Calendar as CalendarIcon,
-  Droplet,
   Activity,
   ChevronLeft,
   ChevronRight,
   Plus,
   X,
-  Smile,
-  Frown,
-  Meh,
   Thermometer,
-  Moon,
-  Coffee,
+  Camera,
   Save,
+  Pill,
+  Check,
+  BarChart3,
+  Search,
   Menu,
-  Cloud,
   LogOut,
-  Settings as SettingsIcon
+  Lock,
+  Settings as SettingsIcon,
+  Users
 } from 'lucide-react';
 
 // Firebase Imports
@@ -26,23 +26,149 @@ import { initializeApp } from 'firebase/app';
 import {
   getAuth,
   onAuthStateChanged,
+  type Auth,
   type User,
   GoogleAuthProvider,
+  deleteUser,
+  reauthenticateWithPopup,
   signInWithPopup
 } from 'firebase/auth';
 import {
-  getFirestore,
-  collection,
-  query,
-  orderBy,
-  onSnapshot,
-  deleteDoc,
-  doc,
+  initializeFirestore,
+  clearIndexedDbPersistence,
+  connectFirestoreEmulator,
+  persistentLocalCache,
+  persistentMultipleTabManager,
+  terminate,
   Timestamp,
-  setDoc,
-  enableIndexedDbPersistence
+  type Firestore
 } from 'firebase/firestore';
 
+import type {
+  CatalogItem,
+  ContraceptionProfile,
+  DailyLog,
+  LogData,
+  LoggedSymptom,
+  Pregnancy,
+  PregnancyOutcome,
+  ReminderSettings as Reminders,
+  TemperatureReading,
+  TemperatureUnit,
+  UserSettings,
+  WeekStart
+} from './types';
+import { addDays, diffDays, formatDate, parseDate } from './lib/dates';
+import {
+  CYCLE_LENGTH_RANGE,
+  forecastCycles,
+  formatDaysUntil,
+  PERIOD_LENGTH_RANGE,
+  summarizeCycles
+} from './lib/cycleEngine';
+import { MUCUS_TYPES } from './lib/fertility';
+import { getLogDayStatus } from './lib/calendar';
+import { compressImage } from './lib/images';
+import { mergeLog, toLogData, type ImportMode, type ParsedImport } from './lib/backup';
+import CycleWheel from './components/CycleWheel';
+import Calendar from './components/Calendar';
+import TemperatureChart from './components/TemperatureChart';
+import DataBackup from './components/DataBackup';
+import TrackerImport from './components/TrackerImport';
+import CalendarExport from './components/CalendarExport';
+import ReminderSettings from './components/ReminderSettings';
+import ContraceptionSettings from './components/ContraceptionSettings';
+import PregnancySettings from './components/PregnancySettings';
+import PregnancyView from './components/PregnancyView';
+import Insights from './components/Insights';
+import SymptomPatterns from './components/SymptomPatterns';
+import DoctorReport from './components/DoctorReport';
+import WhatToExpect from './components/WhatToExpect';
+import CatalogSettings from './components/CatalogSettings';
+import { CatalogIcon } from './components/catalogIcons';
+import NoteEditor from './components/NoteEditor';
+import LogSearch from './components/LogSearch';
+import EncryptionSettings from './components/EncryptionSettings';
+import EncryptionUnlock from './components/EncryptionUnlock';
+import AppLockScreen from './components/AppLockScreen';
+import AppLockSettings from './components/AppLockSettings';
+import SyncStatus from './components/SyncStatus';
+import GuestUpgrade from './components/GuestUpgrade';
+import GuestAccount from './components/GuestAccount';
+import DeleteData from './components/DeleteData';
+import SharingSettings from './components/SharingSettings';
+import SharedDashboard from './components/SharedDashboard';
+import ShareInvite from './components/ShareInvite';
+import { formatTemperature, fromCelsius, isPlausibleTemperature, toCelsius } from './lib/temperature';
+import { buildReminderSchedule, normalizeReminderSettings } from './lib/reminders';
+import { scheduleReminders } from './lib/notifications';
+import {
+  getDailyTask,
+  getMissedPillGuidance,
+  getNextRenewal,
+  getPackPosition,
+  type MissedPillGuidance
+} from './lib/contraception';
+import { getActivePregnancy, getDueDate, getLastEndedPregnancy } from './lib/pregnancy';
+import {
+  loadAppLock,
+  registerFailure,
+  registerSuccess,
+  saveAppLock,
+  type AppLock
+} from './lib/appLock';
+import {
+  createEncryption,
+  decryptLog,
+  encryptLog,
+  finishRotation,
+  isEncryptedLog,
+  rotateEncryption,
+  unlockWithPassphrase,
+  UnreadableLogsError,
+  type DataKeys,
+  type EncryptionConfig
+} from './lib/encryption';
+import { GUEST_ID, isGuest, planUpgrade, setGuest, type LocalData, type UpgradeChoice } from './lib/guest';
+import { createMemoryStorage, type StoredItem, type StoredLogData, type UserStorage } from './lib/storage';
+import { createFirestoreStorage } from './lib/firestoreStorage';
+import { createIndexedDbStorage } from './lib/indexedDbStorage';
+import {
+  buildSharedData,
+  clearInviteId,
+  pickShared,
+  readInviteId,
+  type Share,
+  type SharePermissions,
+  type SharingRepository
+} from './lib/sharing';
+import { createFirestoreSharing } from './lib/firestoreSharing';
+import { useCollection, useDocument } from './hooks/useStorage';
+import {
+  createTranslator,
+  getDefaultWeekStart,
+  getDeviceLocales,
+  getWeekdayLabels,
+  LANGUAGES,
+  resolveLanguage,
+  resolveLocale,
+  WEEK_STARTS,
+  type Translator
+} from './lib/i18n';
+import { I18nContext, useI18n } from './hooks/useI18n';
+import {
+  DEFAULT_MOOD_CATALOG,
+  DEFAULT_SYMPTOM_CATALOG,
+  MAX_SYMPTOMS_PER_DAY,
+  SEVERITY_LEVELS,
+  SYMPTOM_CATEGORIES,
+  getMoodCatalog,
+  getSymptomCatalog,
+  hasLegacySymptoms,
+  normalizeSymptoms,
+  translateItemName
+} from './lib/symptoms';
+
 // --- Configuration & Types ---
 
 console.log("App.tsx module executing");
@@ -64,382 +190,473 @@ const getAppId = () => {
   return 'gyneo-default';
 };
 
-// Initialize Firebase only if config is valid to prevent crash during dev without env
-let app: any;
-let auth: any;
-let db: any;
+// If Firebase can't start, accounts are unavailable but guest mode still works
+let auth: Auth | null = null;
+let db: Firestore | null = null;
 
 try {
-  const firebaseConfig = getFirebaseConfig();
-  app = initializeApp(firebaseConfig);
+  const app = initializeApp(getFirebaseConfig());
   auth = getAuth(app);
-  db = getFirestore(app);
-  enableIndexedDbPersistence(db).catch((err) => {
-    if (err.code == 'failed-precondition') {
-      console.log('Persistence failed: Multiple tabs open');
-    } else if (err.code == 'unimplemented') {
-      console.log('Persistence not supported');
-    }
+  // Offline cache shared by every open tab. Where IndexedDB is unavailable Firestore falls back to memory.
+  db = initializeFirestore(app, {
+    localCache: persistentLocalCache({ tabManager: persistentMultipleTabManager() })
   });
+  // e.g. VITE_FIRESTORE_EMULATOR_HOST=localhost:8080 to run against the local emulator
+  const emulator = import.meta.env.VITE_FIRESTORE_EMULATOR_HOST;
+  if (emulator) {
+    const [host, port] = emulator.split(':');
+    connectFirestoreEmulator(db, host, Number(port));
+  }
   console.log("Firebase initialized successfully");
 } catch (error) {
   console.error("Firebase initialization failed:", error);
-  // Establish mock/empty objects to prevent immediate crash, though functionality will break
-  app = {} as any;
-  auth = {} as any;
-  db = {} as any;
+  auth = null;
+  db = null;
 }
 const appId = getAppId();
 
-// --- Types ---
+// VITE_STORAGE=memory keeps everything in memory instead of Firestore and IndexedDB, to try the app
+// out without touching real data. Nothing survives a reload.
+const inMemory = import.meta.env.VITE_STORAGE === 'memory';
 
-interface UserSettings {
-  cycleLength: number; // Default 28
-  periodLength: number; // Default 5
-}
+const storages = new Map<string, UserStorage>();
 
-interface DailyLog {
-  id: string;
-  date: string; // YYYY-MM-DD
-  flow: 'Light' | 'Medium' | 'Heavy' | 'Spotting' | null;
-  mood: string | null;
-  symptoms: string[];
-  createdAt: Timestamp;
-}
-
-// --- Date Helpers ---
-
-const formatDate = (date: Date): string => {
-  const y = date.getFullYear();
-  const m = String(date.getMonth() + 1).padStart(2, '0');
-  const d = String(date.getDate()).padStart(2, '0');
-  return `${y}-${m}-${d}`;
-};
-
-const getDaysBetween = (start: Date, end: Date): number => {
-  const oneDay = 24 * 60 * 60 * 1000;
-  return Math.round(Math.abs((start.getTime() - end.getTime()) / oneDay));
+// One instance per user, so subscriptions stay put across renders
+const getStorage = (uid: string): UserStorage => {
+  if (!storages.has(uid)) {
+    storages.set(uid, inMemory ? createMemoryStorage()
+      : uid === GUEST_ID ? createIndexedDbStorage()
+        : createFirestoreStorage(db!, appId, uid));
+  }
+  return storages.get(uid)!;
 };
 
-// --- Components ---
-
-const CycleWheel = ({
-  currentDay,
-  cycleLength,
-  periodLength,
-  isPeriodToday,
-  daysUntilNext
-}: {
-  currentDay: number,
-  cycleLength: number,
-  periodLength: number,
-  isPeriodToday: boolean,
-  daysUntilNext: number
-}) => {
-  // Simple circular progress calculation
-  const radius = 120;
-  const circumference = 2 * Math.PI * radius;
-  // Cap progress at 100% for visual sanity, though cycles can vary
-  const progress = Math.min(currentDay / cycleLength, 1);
-  const dashoffset = circumference - progress * circumference;
-
-  // Calculate phases for the ring (Visual approximation)
-  const periodArc = (periodLength / cycleLength) * circumference;
-
-  return (
-    <div className="relative flex items-center justify-center py-8">
-      {/* Outer decorative ring */}
-      <div className="absolute w-[300px] h-[300px] rounded-full border-[20px] border-pink-50"></div>
-
-      {/* SVG Progress */}
-      <svg width="300" height="300" className="transform -rotate-90">
-        {/* Background Track */}
-        <circle
-          cx="150" cy="150" r={radius}
-          stroke="#fce7f3" // pink-100
-          strokeWidth="24"
-          fill="transparent"
-        />
-
-        {/* Period Phase Segment (Static visual guide) */}
-        <circle
-          cx="150" cy="150" r={radius}
-          stroke="#fbcfe8" // pink-200
-          strokeWidth="24"
-          fill="transparent"
-          strokeDasharray={`${periodArc} ${circumference}`}
-          className="opacity-50"
-        />
-
-        {/* Progress Indicator */}
-        <circle
-          cx="150" cy="150" r={radius}
-          stroke="#ec4899" // pink-500
-          strokeWidth="24"
-          fill="transparent"
-          strokeDasharray={circumference}
-          strokeDashoffset={dashoffset}
-          strokeLinecap="round"
-          className="transition-all duration-1000 ease-out"
-        />
-      </svg>
+const sharings = new Map<string, SharingRepository>();
 
-      {/* Center Content */}
-      <div className="absolute flex flex-col items-center text-center animate-fade-in">
-        {isPeriodToday ? (
-          <div className="bg-rose-500 text-white p-3 rounded-full mb-2 shadow-lg shadow-rose-200">
-            <Droplet size={32} fill="white" />
-          </div>
-        ) : (
-          <div className="text-pink-400 mb-1">Day</div>
-        )}
+// Sharing needs Firestore: there's none for guests or with VITE_STORAGE=memory
+const sharingAvailable = !!db && !inMemory;
 
-        <h2 className="text-6xl font-bold text-pink-600 font-serif">{currentDay}</h2>
-        <p className="text-pink-400 text-sm font-medium uppercase tracking-wider mt-1">of {cycleLength} Days</p>
-
-        <div className="mt-4 bg-white/80 backdrop-blur-sm px-4 py-1 rounded-full border border-pink-100 shadow-sm">
-          <span className="text-rose-500 font-bold">{daysUntilNext} Days</span> <span className="text-pink-400 text-xs">until next period</span>
-        </div>
-      </div>
-    </div>
-  );
+const getSharing = (uid: string): SharingRepository | null => {
+  if (!sharingAvailable) return null;
+  if (!sharings.has(uid)) sharings.set(uid, createFirestoreSharing(db!, appId, uid));
+  return sharings.get(uid)!;
 };
 
-const Calendar = ({
-  logs,
-  settings,
-  onTogglePeriod
-}: {
-  logs: DailyLog[],
-  settings: UserSettings,
-  onTogglePeriod: (date: string) => void
-}) => {
-  const [viewDate, setViewDate] = useState(new Date());
-
-  // Calculate Calendar Grid
-  const getDaysInMonth = (year: number, month: number) => new Date(year, month + 1, 0).getDate();
-  const getFirstDayOfMonth = (year: number, month: number) => new Date(year, month, 1).getDay();
-
-  const daysInMonth = getDaysInMonth(viewDate.getFullYear(), viewDate.getMonth());
-  const startDay = getFirstDayOfMonth(viewDate.getFullYear(), viewDate.getMonth());
-
-  const days = Array.from({ length: 42 }, (_, i) => {
-    const day = i - startDay + 1;
-    if (day > 0 && day <= daysInMonth) return day;
-    return null;
-  });
-
-  // Prediction Logic for Visuals
-  // Find last period start to project future
-  const periodDays = logs.filter(l => l.flow).map(l => l.date).sort();
-  const lastPeriodStart = periodDays.length > 0 ? periodDays[periodDays.length - 1] : null;
-
-  // Helper to check status of a specific date
-  const getDateStatus = (day: number) => {
-    const dateStr = formatDate(new Date(viewDate.getFullYear(), viewDate.getMonth(), day));
-    const log = logs.find(l => l.date === dateStr);
-
-    const isPeriod = !!log?.flow;
-    const isToday = dateStr === formatDate(new Date());
-
-    // Simple prediction logic (visual only)
-    let isPredicted = false;
-    let isFertile = false;
-
-    if (lastPeriodStart) {
-      const lastStart = new Date(lastPeriodStart);
-      const current = new Date(dateStr);
-      const diffTime = Math.abs(current.getTime() - lastStart.getTime());
-      const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-
-      // If date is in future
-      if (current > new Date()) {
-        // Next period prediction
-        const nextCycleStart = diffDays % settings.cycleLength;
-        if (nextCycleStart < settings.periodLength && diffDays > 0) {
-          // This is a simplistic repeating check, real apps use more complex logic
-          // For this demo, we'll just project the NEXT cycle
-          const daysSinceLast = getDaysBetween(lastStart, current);
-          if (daysSinceLast >= settings.cycleLength && daysSinceLast < settings.cycleLength + settings.periodLength) {
-            isPredicted = true;
-          }
-        }
-
-        // Fertile window (approx days 12-16 before next period)
-        const dayOfCycle = diffDays % settings.cycleLength;
-        // Ovulation is roughly 14 days before next period
-        const ovulationDay = settings.cycleLength - 14;
-        if (dayOfCycle >= ovulationDay - 4 && dayOfCycle <= ovulationDay + 1) {
-          isFertile = true;
-        }
+const signOut = () => auth?.signOut();
+
+const DEFAULT_SETTINGS: UserSettings = { cycleLength: 28, periodLength: 5 };
+
+const clamp = (value: number, range: { min: number, max: number }) => Math.min(Math.max(value, range.min), range.max);
+
+// Decrypts what it can. `pending` are logs to write again: plaintext ones once encryption is on
+// (from before it was, or from a device that didn't know yet) and ones under a previous key.
+// `unreadable` counts encrypted logs that opened with neither key.
+const readStoredLogs = async (stored: StoredItem<StoredLogData>[], keys: DataKeys | null) => {
+  const logs: DailyLog[] = [];
+  const pending: LogData[] = [];
+  let unreadable = 0;
+  for (const { id, data } of stored) {
+    let log: LogData;
+    if (isEncryptedLog(data)) {
+      if (!keys) continue;
+      try {
+        const opened = await decryptLog(keys, data);
+        log = opened.log;
+        if (opened.stale) pending.push(log);
+      } catch (e) {
+        console.error("Decrypting log failed:", id, e);
+        unreadable++;
+        continue;
       }
+    } else {
+      log = data as LogData;
+      if (keys) pending.push(log);
     }
+    logs.push({ id, ...log, symptoms: normalizeSymptoms(log.symptoms) } as DailyLog);
+  }
+  // Newest first, whatever order the backend gave them in
+  logs.sort((a, b) => b.date.localeCompare(a.date));
+  return { logs, pending: pending.map(l => ({ ...l, symptoms: normalizeSymptoms(l.symptoms) })), unreadable };
+};
 
-    return { dateStr, isPeriod, isToday, isPredicted, isFertile };
-  };
-
-  return (
-    <div className="bg-white rounded-3xl shadow-xl shadow-pink-100/50 p-6 animate-slide-up">
-      <div className="flex justify-between items-center mb-6">
-        <button
-          onClick={() => setViewDate(new Date(viewDate.getFullYear(), viewDate.getMonth() - 1, 1))}
-          className="p-2 bg-pink-50 rounded-full text-pink-600 hover:bg-pink-100 transition-colors"
-        >
-          <ChevronLeft size={20} />
-        </button>
-        <h3 className="text-xl font-bold text-slate-700">
-          {viewDate.toLocaleString('default', { month: 'long', year: 'numeric' })}
-        </h3>
-        <button
-          onClick={() => setViewDate(new Date(viewDate.getFullYear(), viewDate.getMonth() + 1, 1))}
-          className="p-2 bg-pink-50 rounded-full text-pink-600 hover:bg-pink-100 transition-colors"
-        >
-          <ChevronRight size={20} />
-        </button>
-      </div>
+// One-line description of what was logged for a day, e.g. "Medium flow · Happy · Cramps (Mild)"
+const describeLog = (log: DailyLog, { t, locale }: Translator): string => {
+  const parts = [
+    log.flow ? t('log.flowSummary', { flow: t(`flow.${log.flow}`) }) : null,
+    log.mood ? translateItemName(log.mood, t) : null,
+    log.symptoms.length > 0 ? log.symptoms.map(s => `${translateItemName(s.name, t)} (${t(`severity.${s.severity}`)})`).join(', ') : null,
+    log.temperature ? formatTemperature(toCelsius(log.temperature), log.temperature.unit) : null,
+    log.mucus ? t('log.mucusSummary', { mucus: t(`mucus.${log.mucus}`) }) : null,
+    log.lhTest ? t('log.lhSummary', { result: t(`test.${log.lhTest.result}`).toLocaleLowerCase(locale) }) : null,
+    log.pregnancyTest ? t('log.pregnancyTestSummary', { result: t(`test.${log.pregnancyTest}`).toLocaleLowerCase(locale) }) : null,
+    log.contraceptionTaken ? t('log.contraceptionDone') : null,
+    log.note ? t('log.noteSummary') : null,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' · ') : t('log.nothingYet');
+};
 
-      <div className="grid grid-cols-7 gap-2 mb-2">
-        {['S', 'M', 'T', 'W', 'T', 'F', 'S'].map((d, i) => (
-          <div key={i} className="text-center text-xs font-bold text-pink-300">{d}</div>
-        ))}
-      </div>
+// Nothing left worth keeping, the document can be deleted
+const isEmptyLog = (log: Partial<DailyLog>): boolean =>
+  !log.flow && !log.mood && (!log.symptoms || log.symptoms.length === 0) &&
+  !log.temperature && !log.mucus && !log.lhTest && !log.pregnancyTest && !log.contraceptionTaken && !log.note;
 
-      <div className="grid grid-cols-7 gap-2">
-        {days.map((day, i) => {
-          if (!day) return <div key={i} className="h-10"></div>;
-
-          const { dateStr, isPeriod, isToday, isPredicted, isFertile } = getDateStatus(day);
-
-          return (
-            <button
-              key={i}
-              onClick={() => onTogglePeriod(dateStr)}
-              className={`
-                h-10 rounded-full flex items-center justify-center text-sm relative transition-all
-                ${isToday ? 'ring-2 ring-pink-400 font-bold' : ''}
-                ${isPeriod
-                  ? 'bg-rose-500 text-white shadow-md shadow-rose-200'
-                  : isPredicted
-                    ? 'bg-pink-100 text-pink-600 border border-pink-200 border-dashed'
-                    : isFertile
-                      ? 'bg-purple-50 text-purple-600'
-                      : 'hover:bg-pink-50 text-slate-600'}
-              `}
-            >
-              {day}
-              {isFertile && !isPeriod && <div className="absolute bottom-1 w-1 h-1 bg-purple-400 rounded-full"></div>}
-            </button>
-          );
-        })}
-      </div>
+// Shows a saved reading in the unit the user currently prefers
+const readingToInput = (reading: TemperatureReading | null | undefined, unit: TemperatureUnit): string =>
+  reading ? fromCelsius(toCelsius(reading), unit).toFixed(2) : '';
 
-      <div className="flex justify-center gap-4 mt-6 text-xs text-slate-400">
-        <div className="flex items-center gap-1"><div className="w-3 h-3 rounded-full bg-rose-500"></div> Period</div>
-        <div className="flex items-center gap-1"><div className="w-3 h-3 rounded-full bg-pink-100 border border-dashed border-pink-300"></div> Predicted</div>
-        <div className="flex items-center gap-1"><div className="w-3 h-3 rounded-full bg-purple-100"></div> Fertile</div>
-      </div>
-    </div>
-  );
-};
+// --- Components ---
 
 const DailyLogger = ({
   date,
   existingLog,
-  onSave
+  temperatureUnit,
+  contraception,
+  missedPills,
+  symptomCatalog,
+  moodCatalog,
+  onSave,
+  onChangeDate
 }: {
   date: string,
   existingLog: DailyLog | undefined,
-  onSave: (data: Partial<DailyLog>) => void
+  temperatureUnit: TemperatureUnit,
+  contraception: ContraceptionProfile | undefined,
+  missedPills: MissedPillGuidance | null,
+  symptomCatalog: CatalogItem[],
+  moodCatalog: CatalogItem[],
+  onSave: (data: Partial<DailyLog>) => void,
+  onChangeDate: (date: string) => void
 }) => {
+  const i18n = useI18n();
+  const { t, formatDate: formatLocalDate } = i18n;
+  const shortDate = (value: string) => formatLocalDate(parseDate(value), { month: 'short', day: 'numeric' });
+  const today = formatDate(new Date());
+  // Days after today can't be logged, only planned ahead
+  const isPlanned = date > today;
+  const task = getDailyTask(contraception, date);
+  const pack = getPackPosition(contraception, date);
+  const nextRenewal = getNextRenewal(contraception, date);
+
   const [mood, setMood] = useState(existingLog?.mood || null);
   const [flow, setFlow] = useState(existingLog?.flow || null);
-  const [symptoms, setSymptoms] = useState<string[]>(existingLog?.symptoms || []);
+  const [symptoms, setSymptoms] = useState<LoggedSymptom[]>(existingLog?.symptoms || []);
+  const [temperature, setTemperature] = useState(readingToInput(existingLog?.temperature, temperatureUnit));
+  const [temperatureTime, setTemperatureTime] = useState(existingLog?.temperature?.time || '');
+  const [disturbed, setDisturbed] = useState(existingLog?.temperature?.disturbed || false);
+  const [mucus, setMucus] = useState(existingLog?.mucus || null);
+  const [lhResult, setLhResult] = useState(existingLog?.lhTest?.result || null);
+  const [lhPhoto, setLhPhoto] = useState(existingLog?.lhTest?.photo || null);
+  const [pregnancyTest, setPregnancyTest] = useState(existingLog?.pregnancyTest || null);
+  const [taken, setTaken] = useState(existingLog?.contraceptionTaken || false);
+  const [note, setNote] = useState(existingLog?.note || '');
+
+  const handleStripPhoto = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      setLhPhoto(await compressImage(file));
+    } catch (e) {
+      console.error("Photo upload failed:", e);
+      alert(t('log.photoFailed'));
+    }
+  };
 
-  useEffect(() => {
-    setMood(existingLog?.mood || null);
-    setFlow(existingLog?.flow || null);
-    setSymptoms(existingLog?.symptoms || []);
-  }, [existingLog]);
-
-  const toggleSymptom = (sym: string) => {
-    if (symptoms.includes(sym)) {
-      setSymptoms(symptoms.filter(s => s !== sym));
-    } else {
-      setSymptoms([...symptoms, sym]);
+  // Each tap steps up the severity, after Severe the symptom is cleared
+  const cycleSymptom = (name: string) => {
+    const current = symptoms.find(s => s.name === name);
+    if (!current) {
+      if (symptoms.length < MAX_SYMPTOMS_PER_DAY) setSymptoms([...symptoms, { name, severity: SEVERITY_LEVELS[0] }]);
+      return;
     }
+    const next = SEVERITY_LEVELS[SEVERITY_LEVELS.indexOf(current.severity) + 1];
+    setSymptoms(next
+      ? symptoms.map(s => s.name === name ? { ...s, severity: next } : s)
+      : symptoms.filter(s => s.name !== name));
   };
 
+  // Hidden items still show on days they were logged, as do names no longer in the list
+  const symptomGroups = [
+    ...SYMPTOM_CATEGORIES.map(category => ({
+      label: t(`category.${category}`),
+      items: symptomCatalog.filter(i => i.category === category && (!i.hidden || symptoms.some(s => s.name === i.name))),
+    })),
+    {
+      label: t('log.otherSymptoms'),
+      items: symptoms
+        .filter(s => !symptomCatalog.some(i => i.name === s.name))
+        .map(s => ({ name: s.name, icon: '', category: 'Physical' as const, hidden: false })),
+    },
+  ].filter(group => group.items.length > 0);
+  const moods = moodCatalog.filter(m => !m.hidden || m.name === mood);
+  if (mood && !moods.some(m => m.name === mood)) moods.push({ name: mood, icon: '', category: 'Emotional', hidden: false });
+
   const handleSave = () => {
-    onSave({ date, mood, flow, symptoms });
+    const value = parseFloat(temperature);
+    const reading: TemperatureReading | null = !isPlanned && !isNaN(value)
+      ? { value, unit: temperatureUnit, time: temperatureTime || null, disturbed }
+      : null;
+    if (reading && !isPlausibleTemperature(reading.value, reading.unit)) {
+      alert(t('log.implausibleTemperature', { value: `${temperature}°${temperatureUnit}` }));
+      return;
+    }
+    onSave({
+      date,
+      mood,
+      flow: isPlanned ? null : flow,
+      symptoms,
+      temperature: reading,
+      mucus: isPlanned ? null : mucus,
+      lhTest: !isPlanned && lhResult ? { result: lhResult, photo: lhPhoto } : null,
+      pregnancyTest: isPlanned ? null : pregnancyTest,
+      contraceptionTaken: !isPlanned && !!task && taken,
+      note: note.trim() ? note : null,
+      planned: isPlanned
+    });
   };
 
-  const SymptomChip = ({ label, icon: Icon }: { label: string, icon: any }) => (
-    <button
-      onClick={() => toggleSymptom(label)}
-      className={`
-        flex flex-col items-center justify-center p-3 rounded-xl border transition-all
-        ${symptoms.includes(label)
-          ? 'bg-pink-500 text-white border-pink-600 shadow-md'
-          : 'bg-white text-slate-500 border-slate-100 hover:border-pink-200'}
-      `}
-    >
-      <Icon size={20} className="mb-1" />
-      <span className="text-[10px] font-medium">{label}</span>
-    </button>
-  );
-
   return (
     <div className="bg-white rounded-3xl shadow-xl shadow-pink-100/50 p-6 animate-slide-up">
       <div className="flex justify-between items-center mb-6">
-        <h3 className="text-lg font-bold text-slate-700">Log for {new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}</h3>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => onChangeDate(addDays(date, -1))}
+            className="p-1 rounded-full text-pink-400 hover:bg-pink-50"
+          >
+            <ChevronLeft size={18} className="rtl:rotate-180" />
+          </button>
+          <h3 className="text-lg font-bold text-slate-700">
+            {t(isPlanned ? 'log.planFor' : 'log.logFor', { date: shortDate(date) })}
+          </h3>
+          <button
+            onClick={() => onChangeDate(addDays(date, 1))}
+            disabled={date >= today}
+            className="p-1 rounded-full text-pink-400 hover:bg-pink-50 disabled:opacity-30 disabled:hover:bg-transparent"
+          >
+            <ChevronRight size={18} className="rtl:rotate-180" />
+          </button>
+        </div>
         <button
           onClick={handleSave}
           className="flex items-center gap-2 bg-rose-500 text-white px-4 py-2 rounded-full text-sm font-bold shadow-lg shadow-rose-200 active:scale-95 transition-all"
         >
-          <Save size={16} /> Save
+          <Save size={16} /> {t('log.save')}
         </button>
       </div>
 
+      {existingLog && (
+        <div className="mb-6 bg-pink-50 rounded-xl px-4 py-2 text-xs text-pink-500">
+          <span className="font-bold uppercase tracking-wider">{t(existingLog.planned ? 'log.planned' : 'log.logged')}:</span> {describeLog(existingLog, i18n)}
+        </div>
+      )}
+
       <div className="space-y-6">
-        {/* Flow Section */}
-        <div>
-          <label className="text-xs font-bold text-pink-400 uppercase tracking-wider mb-3 block">Flow Intensity</label>
-          <div className="flex justify-between bg-pink-50 p-1 rounded-xl">
-            {['Spotting', 'Light', 'Medium', 'Heavy'].map((level) => (
+        {/* Contraception Section */}
+        {!isPlanned && (pack || nextRenewal) && (
+          <div>
+            <label className="text-xs font-bold text-pink-400 uppercase tracking-wider mb-3 block">{t('log.contraception')}</label>
+            {task && (
               <button
-                key={level}
-                onClick={() => setFlow(level as any)}
+                onClick={() => setTaken(!taken)}
                 className={`
-                  flex-1 py-2 rounded-lg text-sm font-medium transition-all
-                  ${flow === level ? 'bg-white text-rose-500 shadow-sm' : 'text-pink-300 hover:text-pink-500'}
+                  w-full flex items-center justify-between p-3 rounded-xl border transition-all
+                  ${taken ? 'bg-pink-100 border-pink-300 text-pink-600' : 'bg-white border-slate-100 text-slate-400'}
                 `}
               >
-                {level}
+                <span className="flex items-center gap-2 text-sm font-medium"><Pill size={18} /> {t(`contraception.task.${task}`)}</span>
+                {taken && <Check size={18} />}
               </button>
-            ))}
+            )}
+            {pack && (
+              <p className="text-xs text-slate-400 mt-2">
+                {t(pack.isBreak ? 'log.packBreak' : 'log.pack', { pack: pack.pack, day: pack.day })}
+              </p>
+            )}
+            {nextRenewal && (
+              <p className="text-xs text-slate-400">
+                {t('log.nextInjection', { date: shortDate(nextRenewal) })}
+              </p>
+            )}
+            {missedPills && date === today && (
+              <div className="mt-3 bg-amber-50 border border-amber-200 rounded-xl p-3 text-xs text-amber-700 space-y-1">
+                <p className="font-bold">
+                  {t('log.missedPills', { count: missedPills.missed.length })}
+                </p>
+                <ul className="list-disc ps-4 space-y-1">
+                  {missedPills.advice.map(advice => (
+                    <li key={advice}>{t(`contraception.advice.${advice}`, { count: missedPills.needed })}</li>
+                  ))}
+                </ul>
+                {missedPills.backupUntil && (
+                  <p>
+                    {t('log.backupUntil', { date: shortDate(missedPills.backupUntil) })}
+                  </p>
+                )}
+                <p className="text-amber-500">{t('log.checkLeaflet')}</p>
+              </div>
+            )}
           </div>
-        </div>
+        )}
+
+        {/* Flow Section */}
+        {isPlanned ? (
+          <p className="text-xs text-slate-400">{t('log.futureDay')}</p>
+        ) : (
+          <div>
+            <label className="text-xs font-bold text-pink-400 uppercase tracking-wider mb-3 block">{t('log.flow')}</label>
+            <div className="flex justify-between bg-pink-50 p-1 rounded-xl">
+              {(['Spotting', 'Light', 'Medium', 'Heavy'] as const).map((level) => (
+                <button
+                  key={level}
+                  onClick={() => setFlow(flow === level ? null : level)}
+                  className={`
+                    flex-1 py-2 rounded-lg text-sm font-medium transition-all
+                    ${flow === level ? 'bg-white text-rose-500 shadow-sm' : 'text-pink-300 hover:text-pink-500'}
+                  `}
+                >
+                  {t(`flow.${level}`)}
+                </button>
+              ))}
+            </div>
+            {flow && <p className="text-xs text-slate-400 mt-2">{t('log.flowHint')}</p>}
+          </div>
+        )}
+
+        {/* Temperature Section */}
+        {!isPlanned && (
+          <div>
+            <label className="text-xs font-bold text-pink-400 uppercase tracking-wider mb-3 block">{t('log.temperature')}</label>
+            <div className="flex items-center gap-2">
+              <div className="flex-1 flex items-center bg-pink-50 rounded-xl px-3">
+                <Thermometer size={18} className="text-pink-300" />
+                <input
+                  type="number"
+                  step="0.01"
+                  inputMode="decimal"
+                  placeholder={temperatureUnit === 'F' ? '97.70' : '36.50'}
+                  value={temperature}
+                  onChange={(e) => setTemperature(e.target.value)}
+                  className="w-full bg-transparent border-none p-2 text-rose-500 font-bold outline-none"
+                />
+                <span className="text-pink-300 text-sm">°{temperatureUnit}</span>
+              </div>
+              <input
+                type="time"
+                value={temperatureTime}
+                onChange={(e) => setTemperatureTime(e.target.value)}
+                className="bg-pink-50 rounded-xl p-2 text-sm text-slate-500 outline-none"
+              />
+            </div>
+            <label className="flex items-center gap-2 mt-2 text-xs text-slate-400">
+              <input
+                type="checkbox"
+                checked={disturbed}
+                onChange={(e) => setDisturbed(e.target.checked)}
+                className="accent-rose-500"
+              />
+              {t('log.disturbed')}
+            </label>
+          </div>
+        )}
+
+        {/* Fertility Signs Section */}
+        {!isPlanned && (
+          <div className="space-y-4">
+            <div>
+              <label className="text-xs font-bold text-pink-400 uppercase tracking-wider mb-3 block">{t('log.mucus')}</label>
+              <div className="flex flex-wrap gap-2">
+                {MUCUS_TYPES.map((type) => (
+                  <button
+                    key={type}
+                    onClick={() => setMucus(mucus === type ? null : type)}
+                    className={`
+                      px-3 py-1.5 rounded-full text-xs font-medium border transition-all
+                      ${mucus === type ? 'bg-sky-100 border-sky-300 text-sky-600' : 'bg-white border-slate-100 text-slate-400'}
+                    `}
+                  >
+                    {t(`mucus.${type}`)}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <label className="text-xs font-bold text-pink-400 uppercase tracking-wider mb-3 block">{t('log.lhTest')}</label>
+              <div className="flex items-center gap-2">
+                <div className="flex-1 flex bg-pink-50 p-1 rounded-xl">
+                  {(['Negative', 'High', 'Peak'] as const).map((result) => (
+                    <button
+                      key={result}
+                      onClick={() => setLhResult(lhResult === result ? null : result)}
+                      className={`
+                        flex-1 py-2 rounded-lg text-sm font-medium transition-all
+                        ${lhResult === result ? 'bg-white text-amber-500 shadow-sm' : 'text-pink-300 hover:text-pink-500'}
+                      `}
+                    >
+                      {t(`test.${result}`)}
+                    </button>
+                  ))}
+                </div>
+                {lhResult && (
+                  lhPhoto ? (
+                    <div className="relative">
+                      <img src={lhPhoto} alt={t('log.stripPhoto')} className="w-10 h-10 rounded-lg object-cover border border-pink-100" />
+                      <button
+                        onClick={() => setLhPhoto(null)}
+                        className="absolute -top-1 -end-1 bg-white rounded-full text-slate-400 shadow"
+                      >
+                        <X size={12} />
+                      </button>
+                    </div>
+                  ) : (
+                    <label className="p-2 bg-pink-50 rounded-xl text-pink-400 cursor-pointer hover:text-pink-600">
+                      <Camera size={20} />
+                      <input
+                        type="file"
+                        accept="image/*"
+                        capture="environment"
+                        className="hidden"
+                        onChange={(e) => handleStripPhoto(e.target.files?.[0])}
+                      />
+                    </label>
+                  )
+                )}
+              </div>
+            </div>
+
+            <div>
+              <label className="text-xs font-bold text-pink-400 uppercase tracking-wider mb-3 block">{t('log.pregnancyTest')}</label>
+              <div className="flex bg-pink-50 p-1 rounded-xl">
+                {(['Negative', 'Positive'] as const).map((result) => (
+                  <button
+                    key={result}
+                    onClick={() => setPregnancyTest(pregnancyTest === result ? null : result)}
+                    className={`
+                      flex-1 py-2 rounded-lg text-sm font-medium transition-all
+                      ${pregnancyTest === result ? 'bg-white text-rose-500 shadow-sm' : 'text-pink-300 hover:text-pink-500'}
+                    `}
+                  >
+                    {t(`test.${result}`)}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
 
         {/* Mood Section */}
         <div>
-          <label className="text-xs font-bold text-pink-400 uppercase tracking-wider mb-3 block">Mood</label>
-          <div className="flex justify-between gap-2">
-            {[
-              { label: 'Happy', icon: Smile },
-              { label: 'Neutral', icon: Meh },
-              { label: 'Sad', icon: Frown },
-              { label: 'Tired', icon: Moon },
-            ].map((m) => (
+          <label className="text-xs font-bold text-pink-400 uppercase tracking-wider mb-3 block">{t('log.mood')}</label>
+          <div className="grid grid-cols-4 gap-2">
+            {moods.map((m) => (
               <button
-                key={m.label}
-                onClick={() => setMood(m.label)}
+                key={m.name}
+                onClick={() => setMood(m.name)}
                 className={`
-                  flex-1 flex flex-col items-center p-3 rounded-xl border transition-all
-                  ${mood === m.label ? 'bg-pink-100 border-pink-300 text-pink-600' : 'bg-white border-slate-100 text-slate-400'}
+                  flex flex-col items-center p-3 rounded-xl border transition-all
+                  ${mood === m.name ? 'bg-pink-100 border-pink-300 text-pink-600' : 'bg-white border-slate-100 text-slate-400'}
                 `}
               >
-                <m.icon size={24} className="mb-1" />
-                <span className="text-[10px]">{m.label}</span>
+                <CatalogIcon name={m.icon} size={24} className="mb-1" />
+                <span className="text-[10px] text-center leading-tight">{translateItemName(m.name, t)}</span>
               </button>
             ))}
           </div>
@@ -447,14 +664,50 @@ const DailyLogger = ({
 
         {/* Symptoms Section */}
         <div>
-          <label className="text-xs font-bold text-pink-400 uppercase tracking-wider mb-3 block">Symptoms</label>
-          <div className="grid grid-cols-4 gap-2">
-            <SymptomChip label="Cramps" icon={Activity} />
-            <SymptomChip label="Headache" icon={Thermometer} />
-            <SymptomChip label="Bloating" icon={Cloud} />
-            <SymptomChip label="Cravings" icon={Coffee} />
+          <label className="text-xs font-bold text-pink-400 uppercase tracking-wider mb-1 block">{t('log.symptoms')}</label>
+          <p className="text-xs text-slate-400 mb-3">{t('log.symptomsHint')}</p>
+          <div className="space-y-3">
+            {symptomGroups.map(group => (
+              <div key={group.label}>
+                <p className="text-[10px] font-bold text-slate-300 uppercase tracking-wider mb-1">{group.label}</p>
+                <div className="grid grid-cols-4 gap-2">
+                  {group.items.map(entry => {
+                    const logged = symptoms.find(s => s.name === entry.name);
+                    const level = logged ? SEVERITY_LEVELS.indexOf(logged.severity) + 1 : 0;
+                    return (
+                      <button
+                        key={entry.name}
+                        onClick={() => cycleSymptom(entry.name)}
+                        className={`
+                          flex flex-col items-center justify-center p-3 rounded-xl border transition-all
+                          ${logged
+                            ? 'bg-pink-500 text-white border-pink-600 shadow-md'
+                            : 'bg-white text-slate-500 border-slate-100 hover:border-pink-200'}
+                        `}
+                      >
+                        <CatalogIcon name={entry.icon} size={20} className="mb-1" />
+                        <span className="text-[10px] font-medium text-center leading-tight">{translateItemName(entry.name, t)}</span>
+                        {logged && (
+                          <span className="flex gap-0.5 mt-1" title={t(`severity.${logged.severity}`)}>
+                            {SEVERITY_LEVELS.map((_, i) => (
+                              <span key={i} className={`w-1.5 h-1.5 rounded-full ${i < level ? 'bg-white' : 'bg-pink-300'}`} />
+                            ))}
+                          </span>
+                        )}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
           </div>
         </div>
+
+        {/* Notes Section */}
+        <div>
+          <label className="text-xs font-bold text-pink-400 uppercase tracking-wider mb-3 block">{t('log.notes')}</label>
+          <NoteEditor value={note} onChange={setNote} />
+        </div>
       </div>
     </div>
   );
@@ -463,39 +716,78 @@ const DailyLogger = ({
 // --- Settings Component ---
 const SettingsForm = ({
   settings,
+  lastPeriodStart,
   onSave
 }: {
   settings: UserSettings,
+  lastPeriodStart: string | null,
   onSave: (data: UserSettings) => void
 }) => {
+  const { t, locale } = useI18n();
+  const activePregnancy = getActivePregnancy(settings.pregnancies, formatDate(new Date()));
   const [cycleLength, setCycleLength] = useState(settings.cycleLength);
   const [periodLength, setPeriodLength] = useState(settings.periodLength);
+  const [temperatureUnit, setTemperatureUnit] = useState<TemperatureUnit>(settings.temperatureUnit ?? 'C');
+  const [reminders, setReminders] = useState<Reminders | undefined>(settings.reminders);
+  const [contraception, setContraception] = useState<ContraceptionProfile | undefined>(settings.contraception);
+  const [pregnancy, setPregnancy] = useState<Pregnancy | null>(activePregnancy);
+  const [symptomCatalog, setSymptomCatalog] = useState(getSymptomCatalog(settings));
+  const [moodCatalog, setMoodCatalog] = useState(getMoodCatalog(settings));
+  const [language, setLanguage] = useState(settings.language ?? '');
+  const [weekStart, setWeekStart] = useState<WeekStart | null>(settings.weekStart ?? null);
+  // The usual first day for the language picked here, which may not be saved yet
+  const languageLocale = resolveLocale(resolveLanguage(language || undefined, getDeviceLocales()), getDeviceLocales());
+  const weekdays = getWeekdayLabels(locale, 0, 'long');
 
   const handleSave = () => {
-    onSave({ cycleLength: parseInt(String(cycleLength)), periodLength: parseInt(String(periodLength)) });
+    const data: UserSettings = {
+      ...settings,
+      cycleLength: clamp(parseInt(String(cycleLength)), CYCLE_LENGTH_RANGE),
+      periodLength: clamp(parseInt(String(periodLength)), PERIOD_LENGTH_RANGE),
+      temperatureUnit
+    };
+    // Firestore rejects undefined fields, so turning reminders off removes the key
+    if (reminders) data.reminders = normalizeReminderSettings(reminders);
+    else delete data.reminders;
+    if (contraception) data.contraception = contraception;
+    else delete data.contraception;
+    if (pregnancy) {
+      const previous = settings.pregnancies ?? [];
+      data.pregnancies = activePregnancy ? [...previous.slice(0, -1), pregnancy] : [...previous, pregnancy];
+    }
+    // Untouched built-in lists aren't saved, so they pick up new defaults
+    if (symptomCatalog !== DEFAULT_SYMPTOM_CATALOG) data.symptomCatalog = symptomCatalog;
+    if (moodCatalog !== DEFAULT_MOOD_CATALOG) data.moodCatalog = moodCatalog;
+    if (language) data.language = language;
+    else delete data.language;
+    if (weekStart !== null) data.weekStart = weekStart;
+    else delete data.weekStart;
+    onSave(data);
   };
 
   return (
     <div className="bg-white rounded-3xl shadow-xl shadow-pink-100/50 p-6 animate-slide-up">
       <div className="flex justify-between items-center mb-6">
-        <h3 className="text-xl font-bold text-slate-700">Settings</h3>
+        <h3 className="text-xl font-bold text-slate-700">{t('settings.title')}</h3>
         <button
           onClick={handleSave}
           className="flex items-center gap-2 bg-rose-500 text-white px-4 py-2 rounded-full text-sm font-bold shadow-lg shadow-rose-200 active:scale-95 transition-all"
         >
-          <Save size={16} /> Save Changes
+          <Save size={16} /> {t('settings.save')}
         </button>
       </div>
 
       <div className="space-y-6">
         <div>
           <label className="block text-sm font-bold text-slate-700 mb-2">
-            Average Cycle Length (Days)
+            {t('settings.cycleLength')}
           </label>
-          <p className="text-xs text-slate-400 mb-3">The number of days between the start of one period and the next.</p>
+          <p className="text-xs text-slate-400 mb-3">{t('settings.cycleLengthHint')}</p>
           <div className="flex items-center gap-4">
             <input
               type="number"
+              min={CYCLE_LENGTH_RANGE.min}
+              max={CYCLE_LENGTH_RANGE.max}
               value={cycleLength}
               onChange={(e) => setCycleLength(parseInt(e.target.value) || 0)}
               className="flex-1 bg-pink-50 border-none rounded-xl p-4 text-center text-2xl font-bold text-rose-500 focus:ring-2 focus:ring-rose-200 outline-none"
@@ -505,18 +797,97 @@ const SettingsForm = ({
 
         <div>
           <label className="block text-sm font-bold text-slate-700 mb-2">
-            Period Duration (Days)
+            {t('settings.periodLength')}
           </label>
-          <p className="text-xs text-slate-400 mb-3">How many days your period usually lasts.</p>
+          <p className="text-xs text-slate-400 mb-3">{t('settings.periodLengthHint')}</p>
           <div className="flex items-center gap-4">
             <input
               type="number"
+              min={PERIOD_LENGTH_RANGE.min}
+              max={PERIOD_LENGTH_RANGE.max}
               value={periodLength}
               onChange={(e) => setPeriodLength(parseInt(e.target.value) || 0)}
               className="flex-1 bg-pink-50 border-none rounded-xl p-4 text-center text-2xl font-bold text-rose-500 focus:ring-2 focus:ring-rose-200 outline-none"
             />
           </div>
         </div>
+
+        <div>
+          <label className="block text-sm font-bold text-slate-700 mb-2">
+            {t('settings.temperatureUnit')}
+          </label>
+          <p className="text-xs text-slate-400 mb-3">{t('settings.temperatureUnitHint')}</p>
+          <div className="flex bg-pink-50 p-1 rounded-xl">
+            {(['C', 'F'] as const).map((unit) => (
+              <button
+                key={unit}
+                onClick={() => setTemperatureUnit(unit)}
+                className={`
+                  flex-1 py-2 rounded-lg text-sm font-medium transition-all
+                  ${temperatureUnit === unit ? 'bg-white text-rose-500 shadow-sm' : 'text-pink-300 hover:text-pink-500'}
+                `}
+              >
+                °{unit}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-bold text-slate-700 mb-2">
+            {t('settings.language')}
+          </label>
+          <p className="text-xs text-slate-400 mb-3">{t('settings.languageHint')}</p>
+          <select
+            value={language}
+            onChange={(e) => setLanguage(e.target.value)}
+            className="w-full bg-pink-50 rounded-xl p-3 text-sm text-slate-600 outline-none"
+          >
+            <option value="">{t('settings.deviceLanguage')}</option>
+            {LANGUAGES.map(l => <option key={l.id} value={l.id}>{l.label}</option>)}
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-sm font-bold text-slate-700 mb-2">
+            {t('settings.weekStart')}
+          </label>
+          <p className="text-xs text-slate-400 mb-3">{t('settings.weekStartHint')}</p>
+          <select
+            value={weekStart ?? ''}
+            onChange={(e) => setWeekStart(e.target.value === '' ? null : Number(e.target.value) as WeekStart)}
+            className="w-full bg-pink-50 rounded-xl p-3 text-sm text-slate-600 outline-none"
+          >
+            <option value="">{t('settings.weekStartDefault', { day: weekdays[getDefaultWeekStart(languageLocale)] })}</option>
+            {WEEK_STARTS.map(day => <option key={day} value={day}>{weekdays[day]}</option>)}
+          </select>
+        </div>
+
+        <ContraceptionSettings value={contraception} onChange={setContraception} />
+
+        <PregnancySettings
+          value={pregnancy}
+          ongoing={!!activePregnancy}
+          defaultLmp={lastPeriodStart}
+          onChange={setPregnancy}
+        />
+
+        <CatalogSettings
+          title={t('log.symptoms')}
+          description={t('settings.symptomsHint')}
+          value={symptomCatalog}
+          onChange={setSymptomCatalog}
+        />
+
+        <CatalogSettings
+          title={t('settings.moods')}
+          description={t('settings.moodsHint')}
+          value={moodCatalog}
+          defaultCategory="Emotional"
+          onChange={setMoodCatalog}
+        />
+
+        <ReminderSettings value={reminders} onChange={setReminders} />
       </div>
     </div>
   );
@@ -524,28 +895,38 @@ const SettingsForm = ({
 
 
 // --- Login Component ---
-const GoogleSignInButton = () => {
-  const handleGoogleSignIn = async () => {
-    const provider = new GoogleAuthProvider();
-    try {
-      await signInWithPopup(auth, provider);
-    } catch (error) {
-      console.error("Google Sign-In failed:", error);
-    }
-  };
+const signInWithGoogle = async () => {
+  if (!auth) return;
+  const provider = new GoogleAuthProvider();
+  try {
+    await signInWithPopup(auth, provider);
+  } catch (error) {
+    console.error("Google Sign-In failed:", error);
+  }
+};
 
+// Asks for the password even while the browser still has a Google session, so holding the device isn't enough
+const reauthenticate = (user: User) => {
+  const provider = new GoogleAuthProvider();
+  provider.setCustomParameters({ prompt: 'login' });
+  return reauthenticateWithPopup(user, provider);
+};
+
+const GoogleSignInButton = () => {
+  const { t } = useI18n();
   return (
     <button
-      onClick={handleGoogleSignIn}
+      onClick={signInWithGoogle}
       className="flex items-center justify-center gap-3 bg-white text-slate-700 px-6 py-3 rounded-full shadow-md hover:shadow-lg transition-all text-lg font-medium"
     >
-      <img src="https://www.gstatic.com/firebasejs/ui/2.0.0/images/auth/google.svg" alt="Google logo" className="w-6 h-6" />
-      Sign in with Google
+      <img src="https://www.gstatic.com/firebasejs/ui/2.0.0/images/auth/google.svg" alt={t('login.googleLogo')} className="w-6 h-6" />
+      {t('login.google')}
     </button>
   );
 };
 
-const LoginScreen = () => {
+const LoginScreen = ({ onUseWithoutAccount }: { onUseWithoutAccount: () => void }) => {
+  const { t } = useI18n();
   return (
     <div className="min-h-screen bg-gradient-to-br from-pink-100 to-rose-200 flex items-center justify-center p-4">
       <div className="bg-white rounded-3xl shadow-2xl p-8 md:p-12 text-center max-w-md w-full animate-fade-in">
@@ -555,9 +936,15 @@ const LoginScreen = () => {
           </div>
           <h1 className="font-serif text-4xl font-bold tracking-tight">Gyneo</h1>
         </div>
-        <p className="text-slate-600 mb-8 text-lg">Your personal cycle tracker.</p>
-        <GoogleSignInButton />
-        <p className="text-xs text-slate-400 mt-6">By signing in, you agree to our terms and conditions.</p>
+        <p className="text-slate-600 mb-8 text-lg">{t('login.tagline')}</p>
+        {/* Without Firebase, signing in can't work */}
+        {auth ? <GoogleSignInButton /> : <p className="text-sm text-slate-400">{t('login.unavailable')}</p>}
+        <button onClick={onUseWithoutAccount} className="block mx-auto mt-4 text-sm text-pink-400 hover:text-pink-600">
+          {t('login.guest')}
+        </button>
+        <p className="text-xs text-slate-400 mt-6">
+          {t('login.terms')}
+        </p>
       </div>
     </div>
   );
@@ -565,172 +952,248 @@ const LoginScreen = () => {
 
 // --- Main App Component ---
 
+type View = 'dashboard' | 'calendar' | 'log' | 'insights' | 'search' | 'shared' | 'settings';
+
 export default function Gyneo() {
   const [user, setUser] = useState<User | null>(null);
-  const [view, setView] = useState<'dashboard' | 'calendar' | 'log' | 'settings'>('dashboard');
+  // Using the app without an account, with everything kept on this device
+  const [guest, setGuestMode] = useState(isGuest);
+  const [view, setView] = useState<View>('dashboard');
+  // The signed-in user's data, or the guest's on this device
+  const storage = user ? getStorage(user.uid) : guest ? getStorage(GUEST_ID) : null;
+  const storedLogs = useCollection(storage?.logs ?? null);
+  const storedSettings = useDocument(storage?.settings ?? null);
+  const storedEncryption = useDocument(storage?.encryption ?? null);
+  const sharing = user ? getSharing(user.uid) : null;
+  const ownedShares = useCollection(sharing?.owned ?? null);
+  const receivedShares = useCollection(sharing?.received ?? null);
+  // From an invite link, until it's accepted or closed
+  const [inviteId, setInviteId] = useState(readInviteId);
+  const [invite, setInvite] = useState<{ id: string, source: SharingRepository, share: Share | null } | null>(null);
+  // What each share was last published with, so unchanged data isn't written again
+  const published = useRef(new Map<string, string>());
   const [logs, setLogs] = useState<DailyLog[]>([]);
-  const [settings, setSettings] = useState<UserSettings>({ cycleLength: 28, periodLength: 5 });
-  const [loading, setLoading] = useState(true);
+  // Set once `logs` holds all of that storage's logs, decrypted where needed
+  const [logsFrom, setLogsFrom] = useState<UserStorage | null>(null);
+  // Stored logs that couldn't be decrypted. While there are any, the previous key is kept and
+  // nothing rewrites every log.
+  const [unreadableLogs, setUnreadableLogs] = useState(0);
+  // undefined until loaded, null when encryption is off
+  const encryption = storedEncryption.loaded ? storedEncryption.value : undefined;
+  const [keys, setKeys] = useState<DataKeys | null>(null);
+  // Set while every log is being rewritten (encryption turned on or off, passphrase changed)
+  const bulkWrite = useRef(false);
+  // Set once the account's data is being deleted, so nothing writes it back
+  const wiping = useRef(false);
+  // Without Firebase there's no sign-in to wait for, only guest mode
+  const [appLock, setAppLock] = useState<AppLock | null>(() => auth ? null : loadAppLock(GUEST_ID));
+  const [locked, setLocked] = useState(() => !auth && !!loadAppLock(GUEST_ID));
+  const settings = storedSettings.value ?? DEFAULT_SETTINGS;
+  const [loading, setLoading] = useState(() => !!auth);
   const [sidebarOpen, setSidebarOpen] = useState(false);
+  const [online, setOnline] = useState(() => navigator.onLine);
+  // Writes saved on this device that the server hasn't confirmed yet
+  const pendingWrites = storedLogs.state.pendingWrites || storedSettings.state.pendingWrites;
+  // Day shown in the log view, today unless picked from the calendar
+  const [logDate, setLogDate] = useState(formatDate(new Date()));
+  // Language, date formats and first day of the week for everything below
+  const i18n = useMemo(() => {
+    const language = resolveLanguage(settings.language, getDeviceLocales());
+    return createTranslator(language, resolveLocale(language, getDeviceLocales()), settings.weekStart);
+  }, [settings.language, settings.weekStart]);
+  const { t } = i18n;
+
+  useEffect(() => {
+    document.documentElement.lang = i18n.locale;
+    document.documentElement.dir = i18n.dir;
+  }, [i18n]);
 
   // Dashboard calculations
-  const [currentDay, setCurrentDay] = useState(1);
-  const [daysUntilNext, setDaysUntilNext] = useState(28);
-  const [isPeriodToday, setIsPeriodToday] = useState(false);
+  const summary = useMemo(() => summarizeCycles(logs, settings), [logs, settings]);
+  const { currentDay, cycleLength, periodLength, daysUntilNext, isPeriodToday } = summary;
+  const nextForecast = useMemo(() => forecastCycles(summary, new Date(), 1)[0], [summary]);
+  const dayStatus = useMemo(() => getLogDayStatus(logs, settings), [logs, settings]);
+  // What partners see, once every log has loaded
+  const logsReady = !!storage && logsFrom === storage;
+  const sharedData = useMemo(() => logsReady ? buildSharedData(logs, settings) : null, [logsReady, logs, settings]);
+  const today = formatDate(new Date());
+  const activePregnancy = getActivePregnancy(settings.pregnancies, today);
+  const endedPregnancy = getLastEndedPregnancy(settings.pregnancies, today);
+  const [positiveTestDismissed, setPositiveTestDismissed] = useState(false);
+  // A positive test this cycle that pregnancy mode hasn't picked up yet
+  const positiveTest = !activePregnancy && !positiveTestDismissed && summary.currentCycle
+    ? logs.find(l =>
+      l.pregnancyTest === 'Positive' &&
+      l.date >= summary.currentCycle!.start &&
+      (!endedPregnancy || l.date > endedPregnancy.endedOn!)
+    )
+    : undefined;
+  const missedPills = useMemo(
+    () => getMissedPillGuidance(settings.contraception, logs, formatDate(new Date())),
+    [settings.contraception, logs]
+  );
+
+  // Reminders follow the predictions, so reschedule whenever logs or settings change
+  useEffect(() => {
+    const reminders = (user || guest) && settings.reminders
+      ? buildReminderSchedule(settings.reminders, summary, nextForecast, logs, i18n)
+      : [];
+    scheduleReminders(reminders);
+  }, [user, guest, settings.reminders, summary, nextForecast, logs, i18n]);
 
   // Auth
   useEffect(() => {
     // Just listen for auth state
+    if (!auth) return;
     const unsubscribe = onAuthStateChanged(auth, (u) => {
       setUser(u);
+      // The data key belongs to whoever unlocked it
+      setKeys(null);
+      const lock = u ? loadAppLock(u.uid) : isGuest() ? loadAppLock(GUEST_ID) : null;
+      setAppLock(lock);
+      setLocked(!!lock);
       setLoading(false);
     });
     return unsubscribe;
   }, []);
 
-  // Data Fetching
+  // Auto-lock: after the chosen idle time, or as soon as the page is hidden if asked to.
+  // Timers in background tabs are throttled, so the idle time is also checked on return.
   useEffect(() => {
-    if (!user) return;
+    if (!appLock || locked) return;
+    const idleMs = appLock.autoLockMinutes * 60 * 1000;
+    let lastActive = Date.now();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const restart = () => {
+      lastActive = Date.now();
+      clearTimeout(timer);
+      if (idleMs > 0) timer = setTimeout(() => setLocked(true), idleMs);
+    };
+    const handleVisibility = () => {
+      if (document.hidden ? appLock.lockWhenHidden : idleMs > 0 && Date.now() - lastActive >= idleMs) setLocked(true);
+    };
+    const activity = ['pointerdown', 'keydown', 'scroll', 'touchstart'];
+    activity.forEach(name => window.addEventListener(name, restart, { passive: true }));
+    document.addEventListener('visibilitychange', handleVisibility);
+    restart();
+    return () => {
+      clearTimeout(timer);
+      activity.forEach(name => window.removeEventListener(name, restart));
+      document.removeEventListener('visibilitychange', handleVisibility);
+    };
+  }, [appLock, locked]);
+
+  // The decoy lock screen shouldn't give the app away in the tab title either
+  useEffect(() => {
+    if (!locked || !appLock?.decoy) return;
+    const title = document.title;
+    document.title = t('appLock.decoyName');
+    return () => { document.title = title; };
+  }, [locked, appLock?.decoy, t]);
 
-    // Fetch Settings (Real-time)
-    let unsubscribeSettings: () => void = () => { }; // Initialize with a no-op function
-    try {
-      const docRef = doc(db, 'artifacts', appId, 'users', user.uid, 'settings', 'preferences');
-      unsubscribeSettings = onSnapshot(docRef, (snap) => {
-        if (snap.exists()) {
-          setSettings(snap.data() as UserSettings);
-        } else {
-          // Initialize defaults if missing
-          setDoc(docRef, { cycleLength: 28, periodLength: 5 });
-        }
-      });
-    } catch (e) {
-      console.log("Firestore settings fetch failed (mocking):", e);
-    }
+  useEffect(() => {
+    const handleOnline = () => setOnline(true);
+    const handleOffline = () => setOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
 
-    // Fetch Logs
-    try {
-      const q = query(
-        collection(db, 'artifacts', appId, 'users', user.uid, 'logs'),
-        orderBy('date', 'desc')
-      );
-      const unsubscribe = onSnapshot(q, (snap) => {
-        const fetchedLogs = snap.docs.map(d => ({ id: d.id, ...d.data() } as DailyLog));
-        setLogs(fetchedLogs);
-        calculateCycleStats(fetchedLogs);
-        setLoading(false);
-      }, (err) => {
-        console.error("Firestore error:", err);
-        setLoading(false);
-      });
-      return () => {
-        unsubscribe();
-        if (unsubscribeSettings) unsubscribeSettings();
-      };
-    } catch (e) {
-      console.error("Firestore setup failed:", e);
-      setLoading(false);
+  // New accounts start with the default settings. An empty offline cache doesn't mean there are none.
+  const settingsMissing = storedSettings.loaded && !storedSettings.value && !storedSettings.state.fromCache;
+  useEffect(() => {
+    if (storage && settingsMissing && !wiping.current) {
+      storage.settings.set(DEFAULT_SETTINGS).catch((e) => console.error("Saving default settings failed:", e));
     }
-  }, [user]);
-
-  const calculateCycleStats = (currentLogs: DailyLog[]) => {
-    try {
-      // Find most recent period
-      // Note: In a real app, we would group consecutive logs into cycles.
-      // Here we simplify: find the last log with 'flow' that isn't more than 5 days apart from another flow log
-      const flowLogs = currentLogs.filter(l => l.flow !== null).sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-
-      if (flowLogs.length === 0) {
-        setCurrentDay(1);
-        setDaysUntilNext(28);
-        setIsPeriodToday(false);
-        return;
-      }
-
-      // Last period start logic (simplified)
-      // We assume the most recent flow log is part of the current/last period
-      const lastFlowDate = new Date(flowLogs[0].date);
-      const today = new Date();
-
-      // Calculate Day of Cycle
-      // We need to find the START of this flow group.
-      // Simple approximation: Use the most recent flow date as "Day 1" if we don't have complex grouping logic
-      // Better approximation: Look backwards from the most recent flow log until we find a gap > 7 days
-      let startDate = lastFlowDate;
-      // This logic would ideally iterate backwards to find the true start of the current cycle
-
-      const diffTime = Math.abs(today.getTime() - startDate.getTime());
-      const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-
-      setCurrentDay(diffDays);
-
-      // Automatic Prediction Logic
-      // If we have enough history (at least 2 periods), calculate the average cycle length
-      let predictedCycleLength = settings.cycleLength;
-      if (flowLogs.length >= 2) {
-        // Find gaps between period starts.
-        // Simple logic: Difference between Start of Period A and Start of Period B
-        // This requires grouping logs into "periods"
-
-        const periodStarts: Date[] = [];
-        let currentPeriodGroupDate: Date = new Date(flowLogs[0].date);
-        periodStarts.push(currentPeriodGroupDate);
-
-        for (let i = 1; i < flowLogs.length; i++) {
-          const prevDate = new Date(flowLogs[i - 1].date);
-          const currDate = new Date(flowLogs[i].date);
-          const diffDays = Math.abs((prevDate.getTime() - currDate.getTime()) / (1000 * 60 * 60 * 24));
-
-          // If gap is large (> 7 days), it's a new period start (backwards in time)
-          if (diffDays > 7) {
-            periodStarts.push(currDate);
-          }
-        }
+  }, [storage, settingsMissing]);
 
-        if (periodStarts.length >= 2) {
-          let totalDays = 0;
-          let count = 0;
-          // Calculate average gap
-          for (let i = 0; i < periodStarts.length - 1; i++) {
-            // periodStarts is sorted desc (newest first)
-            // Gap = Start[i] - Start[i+1]
-            const gap = Math.abs((periodStarts[i].getTime() - periodStarts[i + 1].getTime()) / (1000 * 60 * 60 * 24));
-            // Filter out crazy outliers (e.g., missed months -> >45 days)
-            if (gap > 20 && gap < 45) {
-              totalDays += gap;
-              count++;
-            }
-          }
-          if (count > 0) {
-            predictedCycleLength = Math.round(totalDays / count);
+  // Stored logs → logs, rewriting any that are in an outdated shape
+  useEffect(() => {
+    let cancelled = false;
+    readStoredLogs(storedLogs.items, keys).then(async ({ logs: read, pending, unreadable }) => {
+      if (cancelled || bulkWrite.current || wiping.current) return;
+      setLogs(read);
+      setUnreadableLogs(unreadable);
+      const complete = storedLogs.loaded && encryption !== undefined && (!encryption || !!keys);
+      setLogsFrom(complete ? storage : null);
+      if (!storage || !complete) return;
+      try {
+        if (encryption && keys) {
+          const encrypted = await Promise.all(pending.map(log => encryptLog(keys.key, log)));
+          await storage.logs.write(encrypted.map(e => ({ type: 'set', id: e.date, value: e })));
+          // Every log is under the current key now, an interrupted passphrase change is complete.
+          // Logs that didn't open may still need the previous key, so it stays until they do.
+          if (keys.previous && encryption.previousKey && unreadable === 0) {
+            await storage.encryption.set(finishRotation(encryption));
           }
+        } else if (!encryption) {
+          // Logs from before severities held plain symptom names
+          const legacy = storedLogs.items.filter(l => hasLegacySymptoms((l.data as LogData).symptoms));
+          await storage.logs.write(legacy.map(l => ({
+            type: 'merge',
+            id: l.id,
+            value: { symptoms: normalizeSymptoms((l.data as LogData).symptoms) }
+          })));
         }
+      } catch (e) {
+        console.error("Log migration failed:", e);
       }
+    });
+    return () => { cancelled = true; };
+  }, [storedLogs.items, storedLogs.loaded, keys, encryption, storage]);
 
-      setDaysUntilNext(Math.max(0, predictedCycleLength - diffDays));
-
-      // Is period today?
-      const todayStr = formatDate(today);
-      setIsPeriodToday(!!currentLogs.find(l => l.date === todayStr && l.flow));
-    } catch (e) {
-      console.error("Cycle calculation error:", e);
-      // Safe defaults
-      setCurrentDay(1);
-      setDaysUntilNext(28);
+  // Partners see changes as they're logged
+  useEffect(() => {
+    if (!sharing || !sharedData || wiping.current) return;
+    for (const { id, data: share } of ownedShares.items) {
+      const payload = JSON.stringify(pickShared(sharedData, share.permissions));
+      if (published.current.get(id) === payload) continue;
+      published.current.set(id, payload);
+      sharing.publish(id, share.permissions, sharedData).catch((e) => {
+        published.current.delete(id);
+        console.error("Publishing shared data failed:", e);
+      });
     }
-  };
+  }, [sharing, sharedData, ownedShares.items]);
 
-  const handleSaveSettings = async (newSettings: UserSettings) => {
-    if (!user) return;
-    try {
-      const docRef = doc(db, 'artifacts', appId, 'users', user.uid, 'settings', 'preferences');
-      await setDoc(docRef, newSettings);
-    } catch (e) {
-      console.error("Failed to save settings:", e);
-    }
+  // Someone else's invite can't be read once it's accepted, which reads as gone
+  useEffect(() => {
+    if (!sharing || !inviteId) return;
+    sharing.getInvite(inviteId)
+      .catch((e) => {
+        console.error("Opening invite failed:", e);
+        return null;
+      })
+      .then((share) => setInvite({ id: inviteId, source: sharing, share }));
+  }, [sharing, inviteId]);
+
+  // Not awaited: offline, the write only resolves once it reaches the server
+  const handleSaveSettings = (newSettings: UserSettings) => {
+    storage?.settings.set(newSettings).catch((e) => console.error("Failed to save settings:", e));
     setView('dashboard');
   };
 
+  const handleStartPregnancy = (lmp: string) => {
+    const pregnancy: Pregnancy = { lmp, scan: null, endedOn: null, outcome: null };
+    handleSaveSettings({ ...settings, pregnancies: [...(settings.pregnancies ?? []), pregnancy] });
+  };
+
+  const handleEndPregnancy = (outcome: PregnancyOutcome, date: string) => {
+    const pregnancies = settings.pregnancies ?? [];
+    const last = pregnancies[pregnancies.length - 1];
+    handleSaveSettings({ ...settings, pregnancies: [...pregnancies.slice(0, -1), { ...last, endedOn: date, outcome }] });
+  };
+
+  // Turned on by mistake: forget it entirely rather than recording an end
+  const handleUndoPregnancy = () => {
+    const data: UserSettings = { ...settings, pregnancies: (settings.pregnancies ?? []).slice(0, -1) };
+    if (data.pregnancies!.length === 0) delete data.pregnancies;
+    handleSaveSettings(data);
+  };
+
   const handleLogSave = async (data: Partial<DailyLog>) => {
     const dateStr = data.date!;
 
@@ -744,36 +1207,216 @@ export default function Gyneo() {
       return [{ id: dateStr, createdAt: Timestamp.now(), ...data } as DailyLog, ...prev];
     });
 
-    if (!user) return;
+    if (!storage) return;
 
     try {
-      // Use date as the document ID to prevent race conditions with auto-IDs
-      const docRef = doc(db, 'artifacts', appId, 'users', user.uid, 'logs', dateStr);
-
-      // If clearing all data, delete the doc
-      if (!data.flow && !data.mood && (!data.symptoms || data.symptoms.length === 0)) {
-        await deleteDoc(docRef);
+      // Dates are the IDs, so there's never a second log for the same day
+      if (isEmptyLog(data)) {
+        // If clearing all data, delete the log
+        await storage.logs.delete(dateStr);
+      } else if (keys) {
+        // Ciphertext can't be merged field by field, the whole log is written again
+        const existing = logs.find(l => l.date === dateStr);
+        const log = { ...(existing ? toLogData(existing) : {}), ...data } as LogData;
+        await storage.logs.set(dateStr, await encryptLog(keys.key, log));
       } else {
-        // Merge true allows us to create or update without knowing if it exists
-        await setDoc(docRef, { ...data }, { merge: true });
-        console.log("Document successfully written!");
+        // Creates the log or updates it without knowing if it exists
+        await storage.logs.merge(dateStr, toLogData(data as DailyLog));
       }
     } catch (e) {
       console.error("Save failed:", e);
-      alert("Failed to save to cloud. Check console.");
+      alert(t('app.saveFailed'));
     }
   };
 
-  const handleTogglePeriod = async (date: string) => {
-    // Quick toggle for calendar view
-    const existing = logs.find(l => l.date === date);
-    if (existing && existing.flow) {
-      // Turn off
-      handleLogSave({ date, flow: null });
+  // Writes imported logs, and settings when given, wherever this user's data lives
+  const writeImport = async (incoming: LogData[], imported: UserSettings | null, mode: ImportMode) => {
+    if (!storage) return;
+    const existing = new Map(logs.map(l => [l.date, toLogData(l)]));
+    const incomingDates = new Set(incoming.map(l => l.date));
+    const merged = incoming.map(log => mode === 'merge' ? mergeLog(existing.get(log.date), log) : log);
+    const removed = mode === 'replace' ? [...existing.keys()].filter(date => !incomingDates.has(date)) : [];
+
+    const stored = await Promise.all(merged.map(log => keys ? encryptLog(keys.key, log) : log));
+    await storage.logs.write([
+      ...stored.map(value => ({ type: 'set' as const, id: value.date, value })),
+      ...removed.map(date => ({ type: 'delete' as const, id: date })),
+    ]);
+
+    if (imported) await storage.settings.set({ ...settings, ...imported });
+  };
+
+  const handleImport = async (parsed: ParsedImport, mode: ImportMode) => {
+    if (!storage) return;
+    try {
+      await writeImport(parsed.logs, parsed.settings, mode);
+      alert(t('app.imported', { count: parsed.logs.length }));
+    } catch (e) {
+      console.error("Import failed:", e);
+      alert(t('app.importFailed'));
+    }
+  };
+
+  // Rewrites every log, with the given key or in plaintext. Reading logs pauses meanwhile.
+  // Refuses while some logs couldn't be decrypted: they'd be left under a key that's going away.
+  const rewriteLogs = async (key: CryptoKey | null, run: (write: () => Promise<void>) => Promise<void>) => {
+    if (unreadableLogs > 0) throw new UnreadableLogsError(unreadableLogs);
+    const all = logs.map(toLogData);
+    bulkWrite.current = true;
+    try {
+      await run(async () => {
+        const stored = key ? await Promise.all(all.map(log => encryptLog(key, log))) : all;
+        await storage!.logs.write(stored.map(value => ({ type: 'set', id: value.date, value })));
+      });
+    } finally {
+      bulkWrite.current = false;
+    }
+  };
+
+  // The config goes first: logs encrypted under a key that was never saved could not be read again
+  const handleEnableEncryption = async (passphrase: string): Promise<string> => {
+    const created = await createEncryption(passphrase);
+    await rewriteLogs(created.keys.key, async (writeLogs) => {
+      await storage!.encryption.set(created.config);
+      await writeLogs();
+    });
+    setKeys(created.keys);
+    return created.recoveryKey;
+  };
+
+  const handleChangePassphrase = async (current: string, next: string) => {
+    const rotated = await rotateEncryption(encryption!, current, next);
+    await rewriteLogs(rotated.keys.key, async (writeLogs) => {
+      await storage!.encryption.set(rotated.config);
+      await writeLogs();
+      await storage!.encryption.set(finishRotation(rotated.config));
+    });
+    setKeys({ key: rotated.keys.key, previous: null });
+  };
+
+  const handleDisableEncryption = async (passphrase: string) => {
+    await unlockWithPassphrase(encryption!, passphrase);
+    await rewriteLogs(null, async (writeLogs) => {
+      await writeLogs();
+      await storage!.encryption.delete();
+    });
+    setKeys(null);
+  };
+
+  // Unlocked with the recovery key: the new passphrase replaces the forgotten one
+  const handleResetPassphrase = async (config: EncryptionConfig, unlocked: DataKeys) => {
+    await storage!.encryption.set(config);
+    setKeys(unlocked);
+  };
+
+  // The lock is per device, kept in localStorage rather than Firestore
+  const handleAppLockChange = (lock: AppLock | null) => {
+    if (!user && !guest) return;
+    saveAppLock(user ? user.uid : GUEST_ID, lock);
+    setAppLock(lock);
+  };
+
+  // Signing in again is the way past a forgotten PIN. Without an account, the only way is to start over.
+  const handleForgotPin = async () => {
+    if (user) {
+      try {
+        await reauthenticate(user);
+      } catch (e) {
+        // Closed or failed, the lock stays
+        console.error("Re-authentication failed:", e);
+        return;
+      }
     } else {
-      // Turn on (default medium)
-      handleLogSave({ date, flow: 'Medium' });
+      if (!confirm(t('appLock.eraseGuest'))) return;
+      try {
+        await storage!.clear();
+      } catch (e) {
+        console.error("Erasing local data failed:", e);
+        return;
+      }
+      setGuest(false);
+      setGuestMode(false);
     }
+    handleAppLockChange(null);
+    setLocked(false);
+  };
+
+  const handleUseWithoutAccount = () => {
+    setGuest(true);
+    setGuestMode(true);
+    setAppLock(loadAppLock(GUEST_ID));
+  };
+
+  // A guest signed in: the device's data moves into the account and guest mode ends
+  const handleFinishUpgrade = async (local: LocalData, choice: UpgradeChoice) => {
+    const device = getStorage(GUEST_ID);
+    const plan = planUpgrade(local, logs.map(toLogData), choice);
+    await writeImport(plan.logs, plan.settings, plan.mode);
+    const guestLock = loadAppLock(GUEST_ID);
+    if (guestLock && !appLock) handleAppLockChange(guestLock);
+    saveAppLock(GUEST_ID, null);
+    await device.clear();
+    setGuest(false);
+    setGuestMode(false);
+  };
+
+  // Confirmed by signing in again, which deleting the account needs anyway. This device's offline
+  // copy goes too, but Firestore has to be shut down for that, so the app reloads afterwards.
+  const handleDeleteData = async (deleteAccount: boolean) => {
+    if (!user) return;
+    await reauthenticate(user);
+    wiping.current = true;
+    try {
+      await sharing?.clear();
+      await storage!.clear();
+      if (deleteAccount) await deleteUser(user);
+    } catch (e) {
+      wiping.current = false;
+      throw e;
+    }
+    saveAppLock(user.uid, null);
+    await signOut();
+    if (db && !inMemory) {
+      try {
+        await terminate(db);
+        await clearIndexedDbPersistence(db);
+      } catch (e) {
+        // Other open tabs keep the cache in use. It no longer holds anything once they sync.
+        console.error("Clearing the offline cache failed:", e);
+      }
+    }
+    window.location.reload();
+  };
+
+  const sharerName = () => user?.displayName ?? user?.email ?? t('sharing.someone');
+
+  const handleCreateShare = (permissions: SharePermissions) =>
+    sharing!.create(sharerName(), permissions, sharedData ?? buildSharedData(logs, settings));
+
+  const handleChangeShare = (id: string, permissions: SharePermissions) =>
+    sharing!.setPermissions(id, permissions, sharedData ?? buildSharedData(logs, settings));
+
+  const handleRemoveShare = async (id: string) => {
+    await sharing!.remove(id);
+    published.current.delete(id);
+  };
+
+  const handleCloseInvite = () => {
+    clearInviteId();
+    setInviteId(null);
+    if (receivedShares.items.some(s => s.id === inviteId)) setView('shared');
+  };
+
+  const handleAcceptInvite = async () => {
+    await sharing!.accept(inviteId!, sharerName());
+    clearInviteId();
+    setInviteId(null);
+    setView('shared');
+  };
+
+  const openLog = (date: string) => {
+    setLogDate(date);
+    setView('log');
   };
 
   if (loading) return (
@@ -781,191 +1424,435 @@ export default function Gyneo() {
       <div className="animate-pulse flex flex-col items-center text-rose-400">
         <Heart size={48} className="mb-4 fill-current" />
         <h1 className="text-2xl font-serif font-bold">Gyneo</h1>
-        <p className="text-sm">Loading...</p>
+        <p className="text-sm">{t('app.loading')}</p>
       </div>
     </div>
   );
 
-  if (!user) {
-    return <LoginScreen />;
+  if (!user && !guest) {
+    return <LoginScreen onUseWithoutAccount={handleUseWithoutAccount} />;
   }
 
-  return (
-    <div className="min-h-screen bg-pink-50 font-sans text-slate-800 flex overflow-hidden">
-
-      {/* Sidebar / Mobile Drawer */}
-      <aside className={`
-        fixed md:relative z-20 inset-y-0 left-0 w-64 bg-white border-r border-pink-100 transform transition-transform duration-300 ease-in-out
-        ${sidebarOpen ? 'translate-x-0' : '-translate-x-full md:translate-x-0'}
-        flex flex-col shadow-2xl md:shadow-none
-      `}>
-        <div className="p-8 flex items-center gap-3 text-rose-500">
-          <div className="bg-rose-100 p-2 rounded-xl">
-            <Heart className="fill-rose-500" size={24} />
-          </div>
-          <span className="font-serif text-2xl font-bold tracking-tight">Gyneo</span>
-        </div>
-
-        <nav className="flex-1 px-4 space-y-2">
-          {[
-            { id: 'dashboard', icon: Activity, label: 'My Cycle' },
-            { id: 'calendar', icon: CalendarIcon, label: 'Calendar' },
-            { id: 'log', icon: Plus, label: 'Daily Log' },
-            { id: 'settings', icon: SettingsIcon, label: 'Settings' },
-          ].map((item) => (
-            <button
-              key={item.id}
-              onClick={() => { setView(item.id as any); setSidebarOpen(false); }}
-              className={`
-                w-full flex items-center gap-4 px-4 py-3 rounded-2xl font-medium transition-all
-                ${view === item.id
-                  ? 'bg-rose-50 text-rose-600 shadow-sm'
-                  : 'text-slate-400 hover:bg-pink-50 hover:text-pink-500'}
-              `}
-            >
-              <item.icon size={20} />
-              {item.label}
-            </button>
-          ))}
-          <button
-            onClick={() => auth.signOut()}
-            className="w-full flex items-center gap-4 px-4 py-3 rounded-2xl font-medium transition-all text-slate-400 hover:bg-pink-50 hover:text-pink-500"
-          >
-            <LogOut size={20} />
-            Sign Out
-          </button>
-        </nav>
-
-        <div className="p-6">
-          <div className="bg-gradient-to-br from-rose-400 to-pink-500 rounded-2xl p-4 text-white text-center shadow-lg shadow-rose-200">
-            <p className="text-xs opacity-80 mb-1 uppercase tracking-wider font-bold">Next Period</p>
-            <p className="text-2xl font-bold font-serif">In {daysUntilNext} Days</p>
-          </div>
-        </div>
-      </aside>
-
-      {/* Main Content */}
-      <main className="flex-1 flex flex-col h-screen overflow-hidden relative">
-        {/* Header */}
-        <header className="px-6 py-4 bg-white/50 backdrop-blur-md sticky top-0 z-10 flex justify-between items-center md:hidden">
-          <div className="flex items-center gap-2 text-rose-500 font-serif font-bold text-xl">
-            <Heart className="fill-current" size={20} /> Gyneo
-          </div>
-          <button onClick={() => setSidebarOpen(!sidebarOpen)} className="text-slate-500 p-2">
-            {sidebarOpen ? <X /> : <Menu />}
-          </button>
-        </header>
+  if (appLock && locked) {
+    return (
+      <I18nContext.Provider value={i18n}>
+        <AppLockScreen
+          lock={appLock}
+          onUnlock={() => { handleAppLockChange(registerSuccess(appLock)); setLocked(false); }}
+          onFailure={() => handleAppLockChange(registerFailure(appLock, Date.now()))}
+          onForgot={handleForgotPin}
+        />
+      </I18nContext.Provider>
+    );
+  }
 
-        <div className="flex-1 overflow-y-auto p-6 md:p-10 custom-scrollbar">
-          <div className="max-w-lg mx-auto w-full space-y-8">
+  if (inviteId && sharingAvailable) {
+    return (
+      <I18nContext.Provider value={i18n}>
+        <ShareInvite
+          invite={invite && invite.id === inviteId && invite.source === sharing ? invite.share : undefined}
+          uid={user?.uid ?? null}
+          onSignIn={signInWithGoogle}
+          onAccept={handleAcceptInvite}
+          onDecline={handleCloseInvite}
+        />
+      </I18nContext.Provider>
+    );
+  }
 
-            {view === 'dashboard' && (
-              <div className="animate-fade-in space-y-8">
-                <div className="text-center space-y-1">
-                  <h2 className="text-2xl font-bold text-slate-700">Hello, Beautiful</h2>
-                  <p className="text-slate-400 text-sm">Here is your cycle summary for today.</p>
-                </div>
+  if (encryption && !keys) {
+    return (
+      <I18nContext.Provider value={i18n}>
+        <EncryptionUnlock
+          config={encryption}
+          onUnlock={setKeys}
+          onReset={handleResetPassphrase}
+          onSignOut={signOut}
+        />
+      </I18nContext.Provider>
+    );
+  }
 
-                <CycleWheel
-                  currentDay={currentDay}
-                  cycleLength={settings.cycleLength}
-                  periodLength={settings.periodLength}
-                  isPeriodToday={isPeriodToday}
-                  daysUntilNext={daysUntilNext}
-                />
+  if (user && guest) {
+    return (
+      <I18nContext.Provider value={i18n}>
+        <GuestUpgrade
+          email={user.email ?? t('upgrade.yourAccount')}
+          device={getStorage(GUEST_ID)}
+          accountLogs={logsFrom === storage ? logs : null}
+          onFinish={handleFinishUpgrade}
+          onCancel={signOut}
+        />
+      </I18nContext.Provider>
+    );
+  }
 
-                <div className="grid grid-cols-2 gap-4">
-                  <button
-                    onClick={() => setView('log')}
-                    className="bg-white p-4 rounded-2xl shadow-sm border border-pink-100 hover:shadow-md hover:-translate-y-1 transition-all text-left group"
-                  >
-                    <div className="w-10 h-10 rounded-full bg-rose-100 text-rose-500 flex items-center justify-center mb-3 group-hover:bg-rose-500 group-hover:text-white transition-colors">
-                      <Plus size={20} />
-                    </div>
-                    <span className="block text-slate-600 font-bold text-sm">Log Symptoms</span>
-                    <span className="text-xs text-slate-400">How do you feel?</span>
-                  </button>
+  return (
+    <I18nContext.Provider value={i18n}>
+      <div className="min-h-screen bg-pink-50 font-sans text-slate-800 flex overflow-hidden">
+
+        {/* Sidebar / Mobile Drawer */}
+        <aside className={`
+          fixed md:relative z-20 inset-y-0 start-0 w-64 bg-white border-e border-pink-100 transform transition-transform duration-300 ease-in-out
+          ${sidebarOpen ? 'translate-x-0' : '-translate-x-full rtl:translate-x-full md:translate-x-0 md:rtl:translate-x-0'}
+          flex flex-col shadow-2xl md:shadow-none
+        `}>
+          <div className="p-8 flex items-center gap-3 text-rose-500">
+            <div className="bg-rose-100 p-2 rounded-xl">
+              <Heart className="fill-rose-500" size={24} />
+            </div>
+            <span className="font-serif text-2xl font-bold tracking-tight">Gyneo</span>
+          </div>
 
-                  <button
-                    onClick={() => setView('calendar')}
-                    className="bg-white p-4 rounded-2xl shadow-sm border border-pink-100 hover:shadow-md hover:-translate-y-1 transition-all text-left group"
-                  >
-                    <div className="w-10 h-10 rounded-full bg-purple-100 text-purple-500 flex items-center justify-center mb-3 group-hover:bg-purple-500 group-hover:text-white transition-colors">
-                      <CalendarIcon size={20} />
+          <nav className="flex-1 px-4 space-y-2">
+            {([
+              { id: 'dashboard', icon: Activity, label: t('nav.dashboard') },
+              { id: 'calendar', icon: CalendarIcon, label: t('nav.calendar') },
+              { id: 'log', icon: Plus, label: t('nav.log') },
+              { id: 'insights', icon: BarChart3, label: t('nav.insights') },
+              { id: 'search', icon: Search, label: t('nav.search') },
+              ...(sharing ? [{ id: 'shared', icon: Users, label: t('nav.shared') }] as const : []),
+              { id: 'settings', icon: SettingsIcon, label: t('nav.settings') },
+            ] as const).map((item) => (
+              <button
+                key={item.id}
+                onClick={() => {
+                  if (item.id === 'log') setLogDate(formatDate(new Date()));
+                  setView(item.id);
+                  setSidebarOpen(false);
+                }}
+                className={`
+                  w-full flex items-center gap-4 px-4 py-3 rounded-2xl font-medium transition-all
+                  ${view === item.id
+                    ? 'bg-rose-50 text-rose-600 shadow-sm'
+                    : 'text-slate-400 hover:bg-pink-50 hover:text-pink-500'}
+                `}
+              >
+                <item.icon size={20} />
+                {item.label}
+              </button>
+            ))}
+            {appLock && (
+              <button
+                onClick={() => setLocked(true)}
+                className="w-full flex items-center gap-4 px-4 py-3 rounded-2xl font-medium transition-all text-slate-400 hover:bg-pink-50 hover:text-pink-500"
+              >
+                <Lock size={20} />
+                {t('nav.lock')}
+              </button>
+            )}
+            {user && (
+              <button
+                onClick={signOut}
+                className="w-full flex items-center gap-4 px-4 py-3 rounded-2xl font-medium transition-all text-slate-400 hover:bg-pink-50 hover:text-pink-500"
+              >
+                <LogOut size={20} />
+                {t('nav.signOut')}
+              </button>
+            )}
+          </nav>
+
+          <div className="p-6">
+            <div className="bg-gradient-to-br from-rose-400 to-pink-500 rounded-2xl p-4 text-white text-center shadow-lg shadow-rose-200">
+              {activePregnancy ? (
+                <>
+                  <p className="text-xs opacity-80 mb-1 uppercase tracking-wider font-bold">{t('nav.dueDate')}</p>
+                  <p className="text-2xl font-bold font-serif">
+                    {i18n.formatDate(parseDate(getDueDate(activePregnancy)), { month: 'short', day: 'numeric' })}
+                  </p>
+                </>
+              ) : (
+                <>
+                  <p className="text-xs opacity-80 mb-1 uppercase tracking-wider font-bold">
+                    {t(summary.withdrawalBleeds ? 'nav.nextWithdrawal' : 'nav.nextPeriod')}
+                  </p>
+                  <p className="text-2xl font-bold font-serif">
+                    {summary.postpartum && !summary.nextPeriodStart
+                      ? t('nav.notPredicted')
+                      : t('nav.inDays', { count: formatDaysUntil(nextForecast, daysUntilNext) })}
+                  </p>
+                </>
+              )}
+            </div>
+          </div>
+        </aside>
+
+        {/* Main Content */}
+        <main className="flex-1 flex flex-col h-screen overflow-hidden relative">
+          {/* Header */}
+          <header className="px-6 py-4 bg-white/50 backdrop-blur-md sticky top-0 z-10 flex justify-between items-center md:hidden">
+            <div className="flex items-center gap-2 text-rose-500 font-serif font-bold text-xl">
+              <Heart className="fill-current" size={20} /> Gyneo
+            </div>
+            <button onClick={() => setSidebarOpen(!sidebarOpen)} className="text-slate-500 p-2">
+              {sidebarOpen ? <X /> : <Menu />}
+            </button>
+          </header>
+
+          <div className="flex-1 overflow-y-auto p-6 md:p-10 custom-scrollbar">
+            <div className="max-w-lg mx-auto w-full space-y-8">
+              {user && <SyncStatus online={online} pending={pendingWrites} />}
+
+              {view === 'dashboard' && (
+                <div className="animate-fade-in space-y-8">
+                  <div className="text-center space-y-1">
+                    <h2 className="text-2xl font-bold text-slate-700">{t('dashboard.greeting')}</h2>
+                    <p className="text-slate-400 text-sm">{t('dashboard.subtitle')}</p>
+                  </div>
+
+                  {positiveTest && (
+                    <div className="bg-white rounded-2xl p-4 border border-pink-100 shadow-sm space-y-3">
+                      <p className="text-sm text-slate-600">
+                        {t('dashboard.positiveTest')}
+                      </p>
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => setPositiveTestDismissed(true)}
+                          className="flex-1 py-2 rounded-full text-sm font-bold text-slate-400 hover:text-rose-500"
+                        >
+                          {t('dashboard.notNow')}
+                        </button>
+                        <button
+                          onClick={() => handleStartPregnancy(summary.currentCycle!.start)}
+                          className="flex-1 bg-rose-500 text-white py-2 rounded-full text-sm font-bold shadow-lg shadow-rose-200 active:scale-95 transition-all"
+                        >
+                          {t('dashboard.startPregnancy')}
+                        </button>
+                      </div>
                     </div>
-                    <span className="block text-slate-600 font-bold text-sm">View Calendar</span>
-                    <span className="text-xs text-slate-400">Check history</span>
-                  </button>
+                  )}
+
+                  {activePregnancy ? (
+                    <PregnancyView
+                      pregnancy={activePregnancy}
+                      onEnd={handleEndPregnancy}
+                      onUndo={handleUndoPregnancy}
+                    />
+                  ) : (
+                    <>
+                      {summary.postpartum && endedPregnancy && (
+                        <div className="bg-white rounded-2xl p-4 border border-pink-100 shadow-sm">
+                          <p className="text-sm font-bold text-slate-700">
+                            {t('dashboard.recoveryWeek', { week: Math.floor(diffDays(endedPregnancy.endedOn!, today) / 7) + 1 })}
+                          </p>
+                          <p className="text-xs text-slate-400">
+                            {t(summary.currentCycle ? 'dashboard.recoveryCycle' : 'dashboard.recoveryWaiting')}
+                          </p>
+                        </div>
+                      )}
+                      {!(summary.postpartum && !summary.currentCycle) && (
+                        <CycleWheel
+                          currentDay={currentDay}
+                          cycleLength={cycleLength}
+                          periodLength={periodLength}
+                          isPeriodToday={isPeriodToday}
+                          daysUntilNext={daysUntilNext}
+                        />
+                      )}
+                    </>
+                  )}
+
+                  <WhatToExpect logs={logs} summary={summary} />
+
+                  <div className="grid grid-cols-2 gap-4">
+                    <button
+                      onClick={() => openLog(formatDate(new Date()))}
+                      className="bg-white p-4 rounded-2xl shadow-sm border border-pink-100 hover:shadow-md hover:-translate-y-1 transition-all text-start group"
+                    >
+                      <div className="w-10 h-10 rounded-full bg-rose-100 text-rose-500 flex items-center justify-center mb-3 group-hover:bg-rose-500 group-hover:text-white transition-colors">
+                        <Plus size={20} />
+                      </div>
+                      <span className="block text-slate-600 font-bold text-sm">{t('dashboard.logSymptoms')}</span>
+                      <span className="text-xs text-slate-400">{t('dashboard.logSymptomsHint')}</span>
+                    </button>
+
+                    <button
+                      onClick={() => setView('calendar')}
+                      className="bg-white p-4 rounded-2xl shadow-sm border border-pink-100 hover:shadow-md hover:-translate-y-1 transition-all text-start group"
+                    >
+                      <div className="w-10 h-10 rounded-full bg-purple-100 text-purple-500 flex items-center justify-center mb-3 group-hover:bg-purple-500 group-hover:text-white transition-colors">
+                        <CalendarIcon size={20} />
+                      </div>
+                      <span className="block text-slate-600 font-bold text-sm">{t('dashboard.viewCalendar')}</span>
+                      <span className="text-xs text-slate-400">{t('dashboard.viewCalendarHint')}</span>
+                    </button>
+                  </div>
                 </div>
-              </div>
-            )}
-
-            {view === 'calendar' && (
-              <div className="space-y-6">
-                <div className="flex items-center gap-2 mb-4">
-                  <button onClick={() => setView('dashboard')} className="text-slate-400 hover:text-rose-500">
-                    <ChevronLeft />
-                  </button>
-                  <h2 className="text-2xl font-bold text-slate-700">Calendar</h2>
+              )}
+
+              {view === 'calendar' && (
+                <div className="space-y-6">
+                  <div className="flex items-center gap-2 mb-4">
+                    <button onClick={() => setView('dashboard')} className="text-slate-400 hover:text-rose-500">
+                      <ChevronLeft className="rtl:rotate-180" />
+                    </button>
+                    <h2 className="text-2xl font-bold text-slate-700">{t('nav.calendar')}</h2>
+                  </div>
+                  <Calendar
+                    getStatus={dayStatus}
+                    legend={{ period: true, withdrawal: !!settings.contraception, predictions: true, fertile: true, signs: true }}
+                    onSelectDate={openLog}
+                  />
+                  <TemperatureChart
+                    logs={logs}
+                    cycles={summary.cycles}
+                    unit={settings.temperatureUnit ?? 'C'}
+                  />
+                  <CalendarExport summary={summary} uid={user?.uid ?? null} />
                 </div>
-                <Calendar
-                  logs={logs}
-                  settings={settings}
-                  onTogglePeriod={handleTogglePeriod}
-                />
-              </div>
-            )}
-
-            {view === 'log' && (
-              <div className="space-y-6">
-                <div className="flex items-center gap-2 mb-4">
-                  <button onClick={() => setView('dashboard')} className="text-slate-400 hover:text-rose-500">
-                    <ChevronLeft />
-                  </button>
-                  <h2 className="text-2xl font-bold text-slate-700">Daily Log</h2>
+              )}
+
+              {view === 'log' && (
+                <div className="space-y-6">
+                  <div className="flex items-center gap-2 mb-4">
+                    <button onClick={() => setView('dashboard')} className="text-slate-400 hover:text-rose-500">
+                      <ChevronLeft className="rtl:rotate-180" />
+                    </button>
+                    <h2 className="text-2xl font-bold text-slate-700">{t('nav.log')}</h2>
+                  </div>
+                  {/* Keyed on the date, so picking another day starts the form over from that day's log */}
+                  <DailyLogger
+                    key={logDate}
+                    date={logDate}
+                    existingLog={logs.find(l => l.date === logDate)}
+                    temperatureUnit={settings.temperatureUnit ?? 'C'}
+                    contraception={settings.contraception}
+                    missedPills={missedPills}
+                    symptomCatalog={getSymptomCatalog(settings)}
+                    moodCatalog={getMoodCatalog(settings)}
+                    onSave={handleLogSave}
+                    onChangeDate={setLogDate}
+                  />
                 </div>
-                <DailyLogger
-                  date={formatDate(new Date())}
-                  existingLog={logs.find(l => l.date === formatDate(new Date()))}
-                  onSave={handleLogSave}
-                />
-              </div>
-            )}
-
-            {view === 'settings' && (
-              <div className="space-y-6">
-                <div className="flex items-center gap-2 mb-4">
-                  <button onClick={() => setView('dashboard')} className="text-slate-400 hover:text-rose-500">
-                    <ChevronLeft />
-                  </button>
-                  <h2 className="text-2xl font-bold text-slate-700">Settings</h2>
+              )}
+
+              {view === 'insights' && (
+                <div className="space-y-6">
+                  <div className="flex items-center gap-2 mb-4">
+                    <button onClick={() => setView('dashboard')} className="text-slate-400 hover:text-rose-500">
+                      <ChevronLeft className="rtl:rotate-180" />
+                    </button>
+                    <h2 className="text-2xl font-bold text-slate-700">{t('nav.insights')}</h2>
+                  </div>
+                  <Insights summary={summary} settings={settings} />
+                  <SymptomPatterns logs={logs} summary={summary} />
+                  <DoctorReport logs={logs} settings={settings} />
                 </div>
-                <SettingsForm
-                  settings={settings}
-                  onSave={handleSaveSettings}
-                />
-              </div>
-            )}
+              )}
+
+              {view === 'search' && (
+                <div className="space-y-6">
+                  <div className="flex items-center gap-2 mb-4">
+                    <button onClick={() => setView('dashboard')} className="text-slate-400 hover:text-rose-500">
+                      <ChevronLeft className="rtl:rotate-180" />
+                    </button>
+                    <h2 className="text-2xl font-bold text-slate-700">{t('nav.search')}</h2>
+                  </div>
+                  <LogSearch
+                    logs={logs}
+                    symptomCatalog={getSymptomCatalog(settings)}
+                    moodCatalog={getMoodCatalog(settings)}
+                    onOpen={openLog}
+                  />
+                </div>
+              )}
+
+              {view === 'shared' && sharing && (
+                <div className="space-y-6">
+                  <div className="flex items-center gap-2 mb-4">
+                    <button onClick={() => setView('dashboard')} className="text-slate-400 hover:text-rose-500">
+                      <ChevronLeft className="rtl:rotate-180" />
+                    </button>
+                    <h2 className="text-2xl font-bold text-slate-700">{t('nav.shared')}</h2>
+                  </div>
+                  <SharedDashboard
+                    shares={receivedShares.items}
+                    sharing={sharing}
+                    onLeave={handleRemoveShare}
+                  />
+                </div>
+              )}
+
+              {view === 'settings' && (
+                <div className="space-y-6">
+                  <div className="flex items-center gap-2 mb-4">
+                    <button onClick={() => setView('dashboard')} className="text-slate-400 hover:text-rose-500">
+                      <ChevronLeft className="rtl:rotate-180" />
+                    </button>
+                    <h2 className="text-2xl font-bold text-slate-700">{t('nav.settings')}</h2>
+                  </div>
+                  <SettingsForm
+                    settings={settings}
+                    lastPeriodStart={summary.currentCycle?.start ?? null}
+                    onSave={handleSaveSettings}
+                  />
+                  <AppLockSettings
+                    lock={appLock}
+                    uid={user?.uid ?? GUEST_ID}
+                    accountName={user?.email ?? 'Gyneo'}
+                    onChange={handleAppLockChange}
+                  />
+                  {user ? (
+                    <EncryptionSettings
+                      enabled={!!encryption}
+                      unreadableLogs={unreadableLogs}
+                      onEnable={handleEnableEncryption}
+                      onChangePassphrase={handleChangePassphrase}
+                      onDisable={handleDisableEncryption}
+                    />
+                  ) : (
+                    <GuestAccount onLink={signInWithGoogle} />
+                  )}
+                  {sharing && (
+                    <SharingSettings
+                      shares={ownedShares.items}
+                      encrypted={!!encryption}
+                      onCreate={handleCreateShare}
+                      onChange={handleChangeShare}
+                      onRevoke={handleRemoveShare}
+                    />
+                  )}
+                  <DataBackup
+                    logs={logs}
+                    settings={settings}
+                    onImport={handleImport}
+                  />
+                  <TrackerImport
+                    logs={logs}
+                    symptomCatalog={getSymptomCatalog(settings)}
+                    onImport={handleImport}
+                  />
+                  {user && (
+                    <DeleteData
+                      logs={logs}
+                      settings={settings}
+                      online={online}
+                      onDelete={handleDeleteData}
+                    />
+                  )}
+                </div>
+              )}
 
+            </div>
           </div>
-        </div>
-      </main>
+        </main>
 
-      <style>{`
-        @keyframes fadeIn {
-          from { opacity: 0; transform: translateY(10px); }
-          to { opacity: 1; transform: translateY(0); }
-        }
-        .animate-fade-in {
-          animation: fadeIn 0.6s ease-out forwards;
-        }
-        .animate-slide-up {
-          animation: fadeIn 0.4s ease-out forwards;
-        }
-        .custom-scrollbar::-webkit-scrollbar {
-          width: 0px;
-        }
-      `}</style>
-    </div>
+        <style>{`
+          @keyframes fadeIn {
+            from { opacity: 0; transform: translateY(10px); }
+            to { opacity: 1; transform: translateY(0); }
+          }
+          .animate-fade-in {
+            animation: fadeIn 0.6s ease-out forwards;
+          }
+          .animate-slide-up {
+            animation: fadeIn 0.4s ease-out forwards;
+          }
+          .custom-scrollbar::-webkit-scrollbar {
+            width: 0px;
+          }
+        `}</style>
+      </div>
+    </I18nContext.Provider>
   );
 }
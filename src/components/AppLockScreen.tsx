@@ -0,0 +1,132 @@
+import { useEffect, useState } from 'react';
+import { Delete, FingerprintPattern, Heart, NotebookPen } from 'lucide-react';
+
+import {
+  getLockoutSeconds,
+  MAX_PIN_LENGTH,
+  MIN_PIN_LENGTH,
+  verifyPin,
+  verifyPlatformCredential,
+  type AppLock
+} from '../lib/appLock';
+import { useI18n } from '../hooks/useI18n';
+
+// PIN pad in front of the app. In decoy mode nothing on it mentions Gyneo or cycles.
+const AppLockScreen = ({
+  lock,
+  onUnlock,
+  onFailure,
+  onForgot
+}: {
+  lock: AppLock,
+  onUnlock: () => void,
+  onFailure: () => void,
+  onForgot: () => void
+}) => {
+  const { t } = useI18n();
+  const [pin, setPin] = useState('');
+  const [checking, setChecking] = useState(false);
+  const [wrong, setWrong] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+  const waitSeconds = getLockoutSeconds(lock, now);
+
+  // Ticks the lockout countdown
+  useEffect(() => {
+    if (!lock.lockedUntil) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [lock.lockedUntil]);
+
+  const handleBiometric = async () => {
+    if (lock.credentialId && await verifyPlatformCredential(lock.credentialId)) onUnlock();
+  };
+
+  const handleSubmit = async () => {
+    if (pin.length < MIN_PIN_LENGTH || waitSeconds > 0) return;
+    setChecking(true);
+    const ok = await verifyPin(pin, lock.pin);
+    setChecking(false);
+    setPin('');
+    if (ok) {
+      onUnlock();
+    } else {
+      setWrong(true);
+      setNow(Date.now());
+      onFailure();
+    }
+  };
+
+  const press = (digit: string) => {
+    setWrong(false);
+    if (pin.length < MAX_PIN_LENGTH) setPin(pin + digit);
+  };
+
+  const keyClass = 'h-14 rounded-2xl text-xl font-bold transition-all active:scale-95 disabled:opacity-30';
+  const tint = lock.decoy ? 'text-slate-600 bg-slate-100 hover:bg-slate-200' : 'text-rose-500 bg-pink-50 hover:bg-pink-100';
+
+  return (
+    <div className={`min-h-screen flex items-center justify-center p-4 ${lock.decoy ? 'bg-slate-50' : 'bg-gradient-to-br from-pink-100 to-rose-200'}`}>
+      <div className="bg-white rounded-3xl shadow-2xl p-8 max-w-xs w-full animate-fade-in text-center space-y-6">
+        {lock.decoy ? (
+          <div className="flex items-center justify-center gap-2 text-slate-600">
+            <NotebookPen size={24} />
+            <h1 className="text-2xl font-bold">{t('appLock.decoyName')}</h1>
+          </div>
+        ) : (
+          <div className="flex items-center justify-center gap-3 text-rose-500">
+            <Heart className="fill-rose-500" size={24} />
+            <h1 className="font-serif text-3xl font-bold tracking-tight">Gyneo</h1>
+          </div>
+        )}
+
+        <div>
+          <p className="text-sm text-slate-500 mb-3">
+            {waitSeconds > 0 ? t('appLock.wait', { count: waitSeconds }) : wrong ? t('appLock.wrong') : t('appLock.enter')}
+          </p>
+          <div className="flex justify-center gap-2 h-3">
+            {Array.from({ length: Math.max(pin.length, MIN_PIN_LENGTH) }, (_, i) => (
+              <span
+                key={i}
+                className={`w-3 h-3 rounded-full ${i < pin.length ? (lock.decoy ? 'bg-slate-500' : 'bg-rose-500') : 'bg-slate-200'}`}
+              />
+            ))}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-3 gap-3">
+          {['1', '2', '3', '4', '5', '6', '7', '8', '9'].map(digit => (
+            <button key={digit} onClick={() => press(digit)} disabled={waitSeconds > 0} className={`${keyClass} ${tint}`}>
+              {digit}
+            </button>
+          ))}
+          {lock.credentialId ? (
+            <button onClick={handleBiometric} className={`${keyClass} ${tint} flex items-center justify-center`} title={t('appLock.unlockWithDevice')}>
+              <FingerprintPattern size={22} />
+            </button>
+          ) : <span />}
+          <button onClick={() => press('0')} disabled={waitSeconds > 0} className={`${keyClass} ${tint}`}>0</button>
+          <button
+            onClick={() => setPin(pin.slice(0, -1))}
+            className={`${keyClass} text-slate-400 flex items-center justify-center`}
+          >
+            <Delete size={22} />
+          </button>
+        </div>
+
+        <button
+          onClick={handleSubmit}
+          disabled={checking || pin.length < MIN_PIN_LENGTH || waitSeconds > 0}
+          className={`w-full py-3 rounded-full text-sm font-bold text-white active:scale-95 transition-all disabled:opacity-40 ${lock.decoy ? 'bg-slate-600' : 'bg-rose-500 shadow-lg shadow-rose-200'}`}
+        >
+          {checking ? t('appLock.checking') : t('appLock.unlock')}
+        </button>
+
+        <button onClick={onForgot} className="text-xs text-slate-400 hover:text-slate-600">
+          {t('appLock.forgot')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default AppLockScreen;
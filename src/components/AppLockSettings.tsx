@@ -0,0 +1,196 @@
+import { useEffect, useState } from 'react';
+import { ShieldCheck } from 'lucide-react';
+
+import {
+  AUTO_LOCK_OPTIONS,
+  createAppLock,
+  hashPin,
+  isValidPin,
+  MAX_PIN_LENGTH,
+  MIN_PIN_LENGTH,
+  platformAuthenticatorAvailable,
+  registerPlatformCredential,
+  verifyPin,
+  type AppLock
+} from '../lib/appLock';
+import { useI18n } from '../hooks/useI18n';
+
+type Mode = 'idle' | 'set' | 'disable';
+
+// App lock for this device. Changes apply straight away, outside the settings form.
+const AppLockSettings = ({
+  lock,
+  uid,
+  accountName,
+  onChange
+}: {
+  lock: AppLock | null,
+  uid: string,
+  accountName: string,
+  onChange: (lock: AppLock | null) => void
+}) => {
+  const { t } = useI18n();
+  const [mode, setMode] = useState<Mode>('idle');
+  const [current, setCurrent] = useState('');
+  const [pin, setPin] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [biometricAvailable, setBiometricAvailable] = useState(false);
+
+  useEffect(() => {
+    platformAuthenticatorAvailable().then(setBiometricAvailable);
+  }, []);
+
+  const reset = (next: Mode = 'idle') => {
+    setMode(next);
+    setCurrent('');
+    setPin('');
+    setConfirm('');
+    setError(null);
+  };
+
+  // Setting a new PIN or turning the lock off needs the current PIN first
+  const checkCurrent = async () => {
+    if (!lock || await verifyPin(current, lock.pin)) return true;
+    setError(t('appLock.wrongCurrent'));
+    return false;
+  };
+
+  const handleSetPin = async () => {
+    if (!isValidPin(pin)) return setError(t('appLock.pinLength', { min: MIN_PIN_LENGTH, max: MAX_PIN_LENGTH }));
+    if (pin !== confirm) return setError(t('appLock.mismatch'));
+    if (!await checkCurrent()) return;
+    onChange(lock ? { ...lock, pin: await hashPin(pin) } : await createAppLock(pin));
+    reset();
+  };
+
+  const handleDisable = async () => {
+    if (!await checkCurrent()) return;
+    onChange(null);
+    reset();
+  };
+
+  const handleBiometric = async (enabled: boolean) => {
+    if (!lock) return;
+    if (!enabled) return onChange({ ...lock, credentialId: null });
+    try {
+      onChange({ ...lock, credentialId: await registerPlatformCredential(uid, accountName) });
+    } catch (e) {
+      console.error("Authenticator registration failed:", e);
+      alert(t('appLock.deviceFailed'));
+    }
+  };
+
+  const pinInput = (value: string, onInput: (value: string) => void, placeholder: string) => (
+    <input
+      type="password"
+      inputMode="numeric"
+      autoComplete="off"
+      maxLength={MAX_PIN_LENGTH}
+      placeholder={placeholder}
+      value={value}
+      onChange={(e) => onInput(e.target.value.replace(/\D/g, ''))}
+      className="w-full bg-pink-50 rounded-xl p-3 text-sm text-slate-600 outline-none tracking-widest"
+    />
+  );
+
+  return (
+    <div className="bg-white rounded-3xl shadow-xl shadow-pink-100/50 p-6 animate-slide-up">
+      <h3 className="text-xl font-bold text-slate-700 mb-1 flex items-center gap-2">
+        <ShieldCheck size={18} className="text-rose-400" /> {t('appLock.title')}
+      </h3>
+      <p className="text-xs text-slate-400 mb-4">
+        {t('appLock.description')}
+      </p>
+
+      {mode !== 'idle' ? (
+        <div className="space-y-2">
+          {lock && pinInput(current, setCurrent, t('appLock.currentPin'))}
+          {mode === 'set' && pinInput(pin, setPin, lock ? t('appLock.newPin') : t('appLock.pin'))}
+          {mode === 'set' && pinInput(confirm, setConfirm, t('common.repeatIt'))}
+          {error && <p className="text-xs text-rose-500">{error}</p>}
+          <div className="flex gap-2 pt-1">
+            <button onClick={() => reset()} className="flex-1 py-3 rounded-full text-sm font-bold text-slate-400 hover:text-rose-500">
+              {t('common.cancel')}
+            </button>
+            <button
+              onClick={mode === 'set' ? handleSetPin : handleDisable}
+              className="flex-1 bg-rose-500 text-white py-3 rounded-full text-sm font-bold shadow-lg shadow-rose-200 active:scale-95 transition-all"
+            >
+              {mode === 'set' ? t('appLock.savePin') : t('common.turnOff')}
+            </button>
+          </div>
+        </div>
+      ) : !lock ? (
+        <button
+          onClick={() => reset('set')}
+          className="w-full bg-pink-50 text-rose-500 py-3 rounded-xl text-sm font-bold hover:bg-pink-100 transition-colors"
+        >
+          {t('appLock.setPin')}
+        </button>
+      ) : (
+        <div className="space-y-4">
+          <label className="flex items-center justify-between text-sm text-slate-600">
+            <span>{t('appLock.lockAfter')}</span>
+            <select
+              value={lock.autoLockMinutes}
+              onChange={(e) => onChange({ ...lock, autoLockMinutes: Number(e.target.value) })}
+              className="bg-pink-50 rounded-lg p-2 text-sm text-slate-600 outline-none"
+            >
+              {AUTO_LOCK_OPTIONS.map(minutes => (
+                <option key={minutes} value={minutes}>
+                  {minutes === 0 ? t('appLock.whenReopened') : t('appLock.idle', { count: minutes })}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2 text-sm text-slate-600">
+            <input
+              type="checkbox"
+              checked={lock.lockWhenHidden}
+              onChange={(e) => onChange({ ...lock, lockWhenHidden: e.target.checked })}
+              className="accent-rose-500"
+            />
+            {t('appLock.lockWhenHidden')}
+          </label>
+          <label className="flex items-center gap-2 text-sm text-slate-600">
+            <input
+              type="checkbox"
+              checked={lock.decoy}
+              onChange={(e) => onChange({ ...lock, decoy: e.target.checked })}
+              className="accent-rose-500"
+            />
+            {t('appLock.decoy', { name: t('appLock.decoyName') })}
+          </label>
+          {(biometricAvailable || lock.credentialId) && (
+            <label className="flex items-center gap-2 text-sm text-slate-600">
+              <input
+                type="checkbox"
+                checked={!!lock.credentialId}
+                onChange={(e) => handleBiometric(e.target.checked)}
+                className="accent-rose-500"
+              />
+              {t('appLock.biometric')}
+            </label>
+          )}
+          <div className="grid grid-cols-2 gap-3">
+            <button
+              onClick={() => reset('set')}
+              className="bg-pink-50 text-rose-500 py-3 rounded-xl text-sm font-bold hover:bg-pink-100 transition-colors"
+            >
+              {t('appLock.changePin')}
+            </button>
+            <button
+              onClick={() => reset('disable')}
+              className="bg-pink-50 text-slate-400 py-3 rounded-xl text-sm font-bold hover:bg-pink-100 transition-colors"
+            >
+              {t('common.turnOff')}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AppLockSettings;
@@ -0,0 +1,141 @@
+import { useState } from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+
+import { formatDate } from '../lib/dates';
+import type { CalendarLegend, DayStatus } from '../lib/calendar';
+import { getWeekdayLabels } from '../lib/i18n';
+import { useI18n } from '../hooks/useI18n';
+
+// Month grid marking periods, predictions and fertile days as `getStatus` says. Weeks start on the
+// day the user's language or settings say.
+const Calendar = ({
+  getStatus,
+  legend,
+  selected,
+  onSelectDate
+}: {
+  getStatus: (date: string) => DayStatus,
+  legend: CalendarLegend,
+  selected?: string | null,
+  onSelectDate: (date: string) => void
+}) => {
+  const { t, locale, weekStart, formatDate: formatLocalDate } = useI18n();
+  const [viewDate, setViewDate] = useState(new Date());
+
+  // Calculate Calendar Grid
+  const getDaysInMonth = (year: number, month: number) => new Date(year, month + 1, 0).getDate();
+  const getFirstDayOfMonth = (year: number, month: number) => new Date(year, month, 1).getDay();
+
+  const daysInMonth = getDaysInMonth(viewDate.getFullYear(), viewDate.getMonth());
+  // Empty cells before the 1st, counted from the first day of the week
+  const startDay = (getFirstDayOfMonth(viewDate.getFullYear(), viewDate.getMonth()) - weekStart + 7) % 7;
+
+  const days = Array.from({ length: 42 }, (_, i) => {
+    const day = i - startDay + 1;
+    if (day > 0 && day <= daysInMonth) return day;
+    return null;
+  });
+
+  const todayStr = formatDate(new Date());
+
+  return (
+    <div className="bg-white rounded-3xl shadow-xl shadow-pink-100/50 p-6 animate-slide-up">
+      <div className="flex justify-between items-center mb-6">
+        <button
+          onClick={() => setViewDate(new Date(viewDate.getFullYear(), viewDate.getMonth() - 1, 1))}
+          className="p-2 bg-pink-50 rounded-full text-pink-600 hover:bg-pink-100 transition-colors"
+        >
+          <ChevronLeft size={20} className="rtl:rotate-180" />
+        </button>
+        <h3 className="text-xl font-bold text-slate-700">
+          {formatLocalDate(viewDate, { month: 'long', year: 'numeric' })}
+        </h3>
+        <button
+          onClick={() => setViewDate(new Date(viewDate.getFullYear(), viewDate.getMonth() + 1, 1))}
+          className="p-2 bg-pink-50 rounded-full text-pink-600 hover:bg-pink-100 transition-colors"
+        >
+          <ChevronRight size={20} className="rtl:rotate-180" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-7 gap-2 mb-2">
+        {getWeekdayLabels(locale, weekStart).map((d, i) => (
+          <div key={i} className="text-center text-xs font-bold text-pink-300">{d}</div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-7 gap-2">
+        {days.map((day, i) => {
+          if (!day) return <div key={i} className="h-10"></div>;
+
+          const dateStr = formatDate(new Date(viewDate.getFullYear(), viewDate.getMonth(), day));
+          const isToday = dateStr === todayStr;
+          const {
+            isPeriod, isWithdrawal, hasEntry, isPredicted, isPossiblePeriod, isFertile, isPossibleFertile,
+            isOvulation, isLhPositive, isMucusPeak
+          } = getStatus(dateStr);
+
+          return (
+            <button
+              key={i}
+              onClick={() => onSelectDate(dateStr)}
+              className={`
+                h-10 rounded-full flex items-center justify-center text-sm relative transition-all
+                ${isToday ? 'ring-2 ring-pink-400 font-bold' : isOvulation ? 'ring-2 ring-purple-400 font-bold' : selected === dateStr ? 'ring-2 ring-slate-300' : ''}
+                ${isWithdrawal
+                  ? 'bg-rose-200 text-rose-700'
+                  : isPeriod
+                    ? 'bg-rose-500 text-white shadow-md shadow-rose-200'
+                    : isPredicted
+                      ? 'bg-pink-100 text-pink-600 border border-pink-200 border-dashed'
+                      : isPossiblePeriod
+                        ? 'text-pink-500 border border-pink-200 border-dashed'
+                        : isFertile
+                          ? 'bg-purple-50 text-purple-600'
+                          : isPossibleFertile
+                            ? 'text-purple-400'
+                            : 'hover:bg-pink-50 text-slate-600'}
+              `}
+            >
+              {day}
+              {hasEntry && <div className="absolute top-1 w-1 h-1 bg-pink-400 rounded-full"></div>}
+              {isLhPositive && <div className="absolute top-0 end-0 w-2 h-2 bg-amber-400 rounded-full border border-white"></div>}
+              {isMucusPeak && <div className="absolute top-0 start-0 w-2 h-2 bg-sky-400 rounded-full border border-white"></div>}
+              {isFertile && !isPeriod && <div className="absolute bottom-1 w-1 h-1 bg-purple-400 rounded-full"></div>}
+              {isPossibleFertile && !isPeriod && !isPossiblePeriod && <div className="absolute bottom-1 w-1 h-1 bg-purple-200 rounded-full"></div>}
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-wrap justify-center gap-4 mt-6 text-xs text-slate-400">
+        {legend.period && (
+          <div className="flex items-center gap-1"><div className="w-3 h-3 rounded-full bg-rose-500"></div> {t('calendar.period')}</div>
+        )}
+        {legend.withdrawal && (
+          <div className="flex items-center gap-1"><div className="w-3 h-3 rounded-full bg-rose-200"></div> {t('calendar.withdrawal')}</div>
+        )}
+        {legend.predictions && (
+          <>
+            <div className="flex items-center gap-1"><div className="w-3 h-3 rounded-full bg-pink-100 border border-dashed border-pink-300"></div> {t('calendar.likely')}</div>
+            <div className="flex items-center gap-1"><div className="w-3 h-3 rounded-full border border-dashed border-pink-200"></div> {t('calendar.possible')}</div>
+          </>
+        )}
+        {legend.fertile && (
+          <>
+            <div className="flex items-center gap-1"><div className="w-3 h-3 rounded-full bg-purple-100"></div> {t('calendar.fertile')}</div>
+            <div className="flex items-center gap-1"><div className="w-3 h-3 rounded-full ring-2 ring-purple-400"></div> {t('calendar.ovulation')}</div>
+          </>
+        )}
+        {legend.signs && (
+          <>
+            <div className="flex items-center gap-1"><div className="w-3 h-3 rounded-full bg-amber-400"></div> {t('calendar.lhPeak')}</div>
+            <div className="flex items-center gap-1"><div className="w-3 h-3 rounded-full bg-sky-400"></div> {t('calendar.eggWhite')}</div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Calendar;
@@ -0,0 +1,105 @@
+import { useState } from 'react';
+import { CalendarPlus } from 'lucide-react';
+
+import { forecastCycles, type CycleSummary } from '../lib/cycleEngine';
+import { downloadFile } from '../lib/files';
+import {
+  buildCalendarEvents,
+  getCalendarId,
+  getDefaultTitles,
+  getDiscreetTitles,
+  getForecastCount,
+  HORIZON_MONTHS,
+  toIcs,
+  type CalendarTitles
+} from '../lib/ical';
+import { useI18n } from '../hooks/useI18n';
+
+const TITLE_FIELDS: (keyof CalendarTitles)[] = ['period', 'predictedPeriod', 'fertile', 'ovulation'];
+
+// Downloads predictions (and logged periods) as an .ics file for any calendar app. uid is null for guests.
+const CalendarExport = ({ summary, uid }: { summary: CycleSummary, uid: string | null }) => {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const [horizonMonths, setHorizonMonths] = useState(6);
+  const [includeLogged, setIncludeLogged] = useState(true);
+  const [includeFertile, setIncludeFertile] = useState(true);
+  const [discreet, setDiscreet] = useState(false);
+  const [titles, setTitles] = useState<CalendarTitles>(() => getDefaultTitles(i18n));
+
+  if (!summary.nextPeriodStart) return null;
+
+  const handleExport = async () => {
+    const count = getForecastCount(horizonMonths, summary.cycleLength);
+    const events = buildCalendarEvents(summary, forecastCycles(summary, new Date(), count), {
+      titles: discreet ? getDiscreetTitles(i18n) : titles,
+      horizonMonths,
+      includeLogged,
+      includeFertile,
+      calendarId: await getCalendarId(uid),
+    });
+    downloadFile(discreet ? 'calendar.ics' : 'gyneo-cycle.ics', toIcs(events), 'text/calendar');
+  };
+
+  return (
+    <div className="bg-white rounded-3xl shadow-xl shadow-pink-100/50 p-6 animate-slide-up space-y-4">
+      <div>
+        <h3 className="font-bold text-slate-700 flex items-center gap-2">
+          <CalendarPlus size={16} className="text-rose-400" /> {t('calendarExport.heading')}
+        </h3>
+        <p className="text-xs text-slate-400">{t('calendarExport.description')}</p>
+      </div>
+
+      <div className="flex items-center justify-between text-sm text-slate-600">
+        <span>{t('calendarExport.horizon')}</span>
+        <select
+          value={horizonMonths}
+          onChange={(e) => setHorizonMonths(Number(e.target.value))}
+          className="bg-pink-50 rounded-lg p-2 text-sm text-slate-600 outline-none"
+        >
+          {HORIZON_MONTHS.map(months => <option key={months} value={months}>{t('calendarExport.months', { count: months })}</option>)}
+        </select>
+      </div>
+
+      <div className="space-y-2 text-sm text-slate-600">
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={includeLogged} onChange={(e) => setIncludeLogged(e.target.checked)} className="accent-rose-500" />
+          {t('calendarExport.includeLogged')}
+        </label>
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={includeFertile} onChange={(e) => setIncludeFertile(e.target.checked)} className="accent-rose-500" />
+          {t('calendarExport.includeFertile')}
+        </label>
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={discreet} onChange={(e) => setDiscreet(e.target.checked)} className="accent-rose-500" />
+          {t('calendarExport.discreet', { title: t('calendarExport.title.discreet') })}
+        </label>
+      </div>
+
+      {!discreet && (
+        <div className="grid grid-cols-2 gap-2">
+          {TITLE_FIELDS.map(key => (
+            <label key={key} className="text-[10px] font-bold text-pink-400 uppercase tracking-wider">
+              {t(`calendarExport.field.${key}`)}
+              <input
+                type="text"
+                value={titles[key]}
+                onChange={(e) => setTitles({ ...titles, [key]: e.target.value })}
+                className="mt-1 w-full bg-pink-50 rounded-lg p-2 text-sm font-normal normal-case tracking-normal text-slate-600 outline-none"
+              />
+            </label>
+          ))}
+        </div>
+      )}
+
+      <button
+        onClick={handleExport}
+        className="w-full bg-rose-500 text-white py-3 rounded-full text-sm font-bold shadow-lg shadow-rose-200 active:scale-95 transition-all"
+      >
+        {t('calendarExport.download')}
+      </button>
+    </div>
+  );
+};
+
+export default CalendarExport;
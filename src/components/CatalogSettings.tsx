@@ -0,0 +1,159 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronUp, Eye, EyeOff, Plus } from 'lucide-react';
+
+import type { CatalogItem, SymptomCategory } from '../types';
+import { CATEGORY_ICONS, MAX_CATALOG_SIZE, MAX_NAME_LENGTH, SYMPTOM_CATEGORIES, translateItemName } from '../lib/symptoms';
+import { CATALOG_ICONS, CatalogIcon } from './catalogIcons';
+import { useI18n } from '../hooks/useI18n';
+
+// Symptom or mood list inside the settings form: add, hide, reorder and pick icons.
+// Saved together with the other settings.
+const CatalogSettings = ({
+  title,
+  description,
+  value,
+  defaultCategory = 'Physical',
+  onChange
+}: {
+  title: string,
+  description: string,
+  value: CatalogItem[],
+  defaultCategory?: SymptomCategory,
+  onChange: (value: CatalogItem[]) => void
+}) => {
+  const { t } = useI18n();
+  const [name, setName] = useState('');
+  const [category, setCategory] = useState<SymptomCategory>(defaultCategory);
+  const [picking, setPicking] = useState<string | null>(null); // Item whose icon picker is open
+
+  const update = (target: string, changes: Partial<CatalogItem>) =>
+    onChange(value.map(i => i.name === target ? { ...i, ...changes } : i));
+
+  // Swaps with the neighbour in the same category, the order the logger shows
+  const move = (target: string, step: -1 | 1) => {
+    const index = value.findIndex(i => i.name === target);
+    let other = index + step;
+    while (other >= 0 && other < value.length && value[other].category !== value[index].category) other += step;
+    if (other < 0 || other >= value.length) return;
+    const next = [...value];
+    [next[index], next[other]] = [next[other], next[index]];
+    onChange(next);
+  };
+
+  // Hidden items count too: they stay on the days they were logged
+  const full = value.length >= MAX_CATALOG_SIZE;
+
+  const handleAdd = () => {
+    const trimmed = name.trim().slice(0, MAX_NAME_LENGTH);
+    if (!trimmed) return;
+    const existing = value.find(i =>
+      [i.name, translateItemName(i.name, t)].some(n => n.toLowerCase() === trimmed.toLowerCase()));
+    // Adding a hidden item again brings it back rather than creating a twin, also by its translated name
+    if (existing) update(existing.name, { hidden: false });
+    else if (full) return;
+    else onChange([...value, { name: trimmed, icon: CATEGORY_ICONS[category], category, hidden: false }]);
+    setName('');
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-bold text-slate-700 mb-2">{title}</label>
+      <p className="text-xs text-slate-400 mb-3">{description}</p>
+
+      <div className="space-y-3">
+        {SYMPTOM_CATEGORIES.map(group => {
+          const items = value.filter(i => i.category === group);
+          if (items.length === 0) return null;
+          return (
+            <div key={group}>
+              <p className="text-[10px] font-bold text-pink-400 uppercase tracking-wider mb-1">{t(`category.${group}`)}</p>
+              <ul className="space-y-1">
+                {items.map((entry, i) => (
+                  <li key={entry.name} className="bg-pink-50 rounded-xl px-2 py-1">
+                    <div className="flex items-center gap-2">
+                      <button
+                        onClick={() => setPicking(picking === entry.name ? null : entry.name)}
+                        className="p-1.5 rounded-lg bg-white text-pink-400 hover:text-pink-600"
+                        title={t('catalog.changeIcon')}
+                      >
+                        <CatalogIcon name={entry.icon} size={16} />
+                      </button>
+                      <span className={`flex-1 text-sm ${entry.hidden ? 'text-slate-300 line-through' : 'text-slate-600'}`}>
+                        {translateItemName(entry.name, t)}
+                      </span>
+                      <button
+                        onClick={() => move(entry.name, -1)}
+                        disabled={i === 0}
+                        className="p-1 text-pink-300 hover:text-pink-500 disabled:opacity-30"
+                        title={t('catalog.moveUp')}
+                      >
+                        <ChevronUp size={16} />
+                      </button>
+                      <button
+                        onClick={() => move(entry.name, 1)}
+                        disabled={i === items.length - 1}
+                        className="p-1 text-pink-300 hover:text-pink-500 disabled:opacity-30"
+                        title={t('catalog.moveDown')}
+                      >
+                        <ChevronDown size={16} />
+                      </button>
+                      <button
+                        onClick={() => update(entry.name, { hidden: !entry.hidden })}
+                        className="p-1 text-pink-300 hover:text-pink-500"
+                        title={entry.hidden ? t('catalog.show') : t('catalog.hide')}
+                      >
+                        {entry.hidden ? <EyeOff size={16} /> : <Eye size={16} />}
+                      </button>
+                    </div>
+                    {picking === entry.name && (
+                      <div className="flex flex-wrap gap-1 pt-2 pb-1">
+                        {Object.entries(CATALOG_ICONS).map(([iconName, Choice]) => (
+                          <button
+                            key={iconName}
+                            onClick={() => { update(entry.name, { icon: iconName }); setPicking(null); }}
+                            className={`p-1.5 rounded-lg ${entry.icon === iconName ? 'bg-pink-500 text-white' : 'bg-white text-slate-400 hover:text-pink-500'}`}
+                          >
+                            <Choice size={16} />
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex gap-2 mt-3">
+        <input
+          type="text"
+          placeholder={t('catalog.add')}
+          value={name}
+          maxLength={MAX_NAME_LENGTH}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+          className="flex-1 min-w-0 bg-pink-50 rounded-xl p-2 text-sm text-slate-600 outline-none"
+        />
+        <select
+          value={category}
+          onChange={(e) => setCategory(e.target.value as SymptomCategory)}
+          className="bg-pink-50 rounded-xl p-2 text-sm text-slate-600 outline-none"
+        >
+          {SYMPTOM_CATEGORIES.map(c => <option key={c} value={c}>{t(`category.${c}`)}</option>)}
+        </select>
+        <button
+          onClick={handleAdd}
+          disabled={!name.trim() || full}
+          className="p-2 bg-rose-500 text-white rounded-xl disabled:opacity-40"
+        >
+          <Plus size={18} />
+        </button>
+      </div>
+      {full && <p className="text-xs text-slate-400 mt-2">{t('catalog.full', { count: MAX_CATALOG_SIZE })}</p>}
+    </div>
+  );
+};
+
+export default CatalogSettings;
@@ -0,0 +1,63 @@
+import { Pill } from 'lucide-react';
+
+import type { ContraceptionMethod, ContraceptionProfile } from '../types';
+import { formatDate } from '../lib/dates';
+import { CONTRACEPTION_OPTIONS } from '../lib/contraception';
+import type { MessageKey } from '../lib/i18n';
+import { useI18n } from '../hooks/useI18n';
+
+const START_LABELS: Partial<Record<ContraceptionMethod, MessageKey>> = {
+  'hormonal-iud': 'contraception.fittedOn',
+  'copper-iud': 'contraception.fittedOn',
+  implant: 'contraception.fittedOn',
+  injection: 'contraception.lastInjection',
+};
+
+// Contraception profile inside the settings form. Saved together with the other settings.
+const ContraceptionSettings = ({
+  value,
+  onChange
+}: {
+  value: ContraceptionProfile | undefined,
+  onChange: (value: ContraceptionProfile | undefined) => void
+}) => {
+  const { t } = useI18n();
+  const handleMethod = (method: string) => {
+    if (!method) onChange(undefined);
+    else onChange({ method: method as ContraceptionMethod, startDate: value?.startDate ?? formatDate(new Date()) });
+  };
+
+  return (
+    <div>
+      <label className="text-sm font-bold text-slate-700 mb-2 flex items-center gap-2">
+        <Pill size={16} className="text-rose-400" /> {t('contraception.title')}
+      </label>
+      <p className="text-xs text-slate-400 mb-3">
+        {t('contraception.description')}
+      </p>
+      <select
+        value={value?.method ?? ''}
+        onChange={(e) => handleMethod(e.target.value)}
+        className="w-full bg-pink-50 rounded-xl p-3 text-sm text-slate-600 outline-none"
+      >
+        <option value="">{t('contraception.none')}</option>
+        {CONTRACEPTION_OPTIONS.map(method => (
+          <option key={method} value={method}>{t(`contraception.method.${method}`)}</option>
+        ))}
+      </select>
+      {value && (
+        <label className="flex items-center justify-between mt-2 text-sm text-slate-600">
+          <span>{t(START_LABELS[value.method] ?? 'contraception.startedOn')}</span>
+          <input
+            type="date"
+            value={value.startDate}
+            onChange={(e) => e.target.value && onChange({ ...value, startDate: e.target.value })}
+            className="bg-pink-50 rounded-lg p-2 text-sm text-slate-600 outline-none"
+          />
+        </label>
+      )}
+    </div>
+  );
+};
+
+export default ContraceptionSettings;
@@ -0,0 +1,89 @@
+import { Droplet } from 'lucide-react';
+
+import { useI18n } from '../hooks/useI18n';
+
+// Progress through the current cycle, with the countdown to the next period in the middle
+const CycleWheel = ({
+  currentDay,
+  cycleLength,
+  periodLength,
+  isPeriodToday,
+  daysUntilNext
+}: {
+  currentDay: number,
+  cycleLength: number,
+  periodLength: number,
+  isPeriodToday: boolean,
+  daysUntilNext: number
+}) => {
+  const { t } = useI18n();
+  // Simple circular progress calculation
+  const radius = 120;
+  const circumference = 2 * Math.PI * radius;
+  // Cap progress at 100% for visual sanity, though cycles can vary
+  const progress = Math.min(currentDay / cycleLength, 1);
+  const dashoffset = circumference - progress * circumference;
+
+  // Calculate phases for the ring (Visual approximation)
+  const periodArc = (periodLength / cycleLength) * circumference;
+
+  return (
+    <div className="relative flex items-center justify-center py-8">
+      {/* Outer decorative ring */}
+      <div className="absolute w-[300px] h-[300px] rounded-full border-[20px] border-pink-50"></div>
+
+      {/* SVG Progress */}
+      <svg width="300" height="300" className="transform -rotate-90">
+        {/* Background Track */}
+        <circle
+          cx="150" cy="150" r={radius}
+          stroke="#fce7f3" // pink-100
+          strokeWidth="24"
+          fill="transparent"
+        />
+
+        {/* Period Phase Segment (Static visual guide) */}
+        <circle
+          cx="150" cy="150" r={radius}
+          stroke="#fbcfe8" // pink-200
+          strokeWidth="24"
+          fill="transparent"
+          strokeDasharray={`${periodArc} ${circumference}`}
+          className="opacity-50"
+        />
+
+        {/* Progress Indicator */}
+        <circle
+          cx="150" cy="150" r={radius}
+          stroke="#ec4899" // pink-500
+          strokeWidth="24"
+          fill="transparent"
+          strokeDasharray={circumference}
+          strokeDashoffset={dashoffset}
+          strokeLinecap="round"
+          className="transition-all duration-1000 ease-out"
+        />
+      </svg>
+
+      {/* Center Content */}
+      <div className="absolute flex flex-col items-center text-center animate-fade-in">
+        {isPeriodToday ? (
+          <div className="bg-rose-500 text-white p-3 rounded-full mb-2 shadow-lg shadow-rose-200">
+            <Droplet size={32} fill="white" />
+          </div>
+        ) : (
+          <div className="text-pink-400 mb-1">{t('cycle.day')}</div>
+        )}
+
+        <h2 className="text-6xl font-bold text-pink-600 font-serif">{currentDay}</h2>
+        <p className="text-pink-400 text-sm font-medium uppercase tracking-wider mt-1">{t('cycle.ofDays', { count: cycleLength })}</p>
+
+        <div className="mt-4 bg-white/80 backdrop-blur-sm px-4 py-1 rounded-full border border-pink-100 shadow-sm">
+          <span className="text-rose-500 font-bold">{t('cycle.countdown', { count: daysUntilNext })}</span> <span className="text-pink-400 text-xs">{t('cycle.untilNextPeriod')}</span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CycleWheel;
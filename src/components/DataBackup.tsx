@@ -0,0 +1,89 @@
+import { useState } from 'react';
+import { Download, Upload } from 'lucide-react';
+
+import type { DailyLog, UserSettings } from '../types';
+import { downloadFile } from '../lib/files';
+import {
+  backupFilename,
+  parseImport,
+  toCsv,
+  toJsonBackup,
+  type ImportMode,
+  type ParsedImport
+} from '../lib/backup';
+import { useI18n } from '../hooks/useI18n';
+import ImportPreview from './ImportPreview';
+
+// Export every log as a JSON backup or CSV, and restore from either with a preview first
+const DataBackup = ({
+  logs,
+  settings,
+  onImport
+}: {
+  logs: DailyLog[],
+  settings: UserSettings,
+  onImport: (parsed: ParsedImport, mode: ImportMode) => Promise<void>
+}) => {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const [parsed, setParsed] = useState<ParsedImport | null>(null);
+  const [fileName, setFileName] = useState('');
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      setParsed(parseImport(await file.text(), i18n));
+      setFileName(file.name);
+    } catch (e) {
+      console.error("Import parse failed:", e);
+      alert((e as Error).message);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-3xl shadow-xl shadow-pink-100/50 p-6 animate-slide-up">
+      <h3 className="text-xl font-bold text-slate-700 mb-1">{t('backup.title')}</h3>
+      <p className="text-xs text-slate-400 mb-6">{t('backup.description')}</p>
+
+      <div className="grid grid-cols-2 gap-3">
+        <button
+          onClick={() => downloadFile(backupFilename('json'), toJsonBackup(logs, settings), 'application/json')}
+          className="flex items-center justify-center gap-2 bg-pink-50 text-rose-500 py-3 rounded-xl text-sm font-bold hover:bg-pink-100 transition-colors"
+        >
+          <Download size={16} /> {t('backup.json')}
+        </button>
+        <button
+          onClick={() => downloadFile(backupFilename('csv'), toCsv(logs), 'text/csv')}
+          className="flex items-center justify-center gap-2 bg-pink-50 text-rose-500 py-3 rounded-xl text-sm font-bold hover:bg-pink-100 transition-colors"
+        >
+          <Download size={16} /> {t('backup.csv')}
+        </button>
+      </div>
+
+      {!parsed ? (
+        <label className="mt-3 flex items-center justify-center gap-2 border border-dashed border-pink-200 text-pink-400 py-3 rounded-xl text-sm font-bold cursor-pointer hover:bg-pink-50 transition-colors">
+          <Upload size={16} /> {t('backup.import')}
+          <input
+            type="file"
+            accept=".json,.csv,application/json,text/csv"
+            className="hidden"
+            onChange={(e) => { handleFile(e.target.files?.[0]); e.target.value = ''; }}
+          />
+        </label>
+      ) : (
+        <ImportPreview
+          parsed={parsed}
+          fileName={fileName}
+          logs={logs}
+          onApply={async (mode) => {
+            await onImport(parsed, mode);
+            setParsed(null);
+          }}
+          onCancel={() => setParsed(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default DataBackup;
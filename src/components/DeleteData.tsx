@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import { Download, Trash2 } from 'lucide-react';
+
+import type { DailyLog, UserSettings } from '../types';
+import { downloadFile } from '../lib/files';
+import { backupFilename, toJsonBackup } from '../lib/backup';
+import { useI18n } from '../hooks/useI18n';
+
+// Erases everything the account has stored, after a last chance to download it.
+// Signing in again with Google confirms it's really the user.
+const DeleteData = ({
+  logs,
+  settings,
+  online,
+  onDelete
+}: {
+  logs: DailyLog[],
+  settings: UserSettings,
+  online: boolean,
+  onDelete: (deleteAccount: boolean) => Promise<void>
+}) => {
+  const { t } = useI18n();
+  const [open, setOpen] = useState(false);
+  const [exported, setExported] = useState(false);
+  const [deleteAccount, setDeleteAccount] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = () => {
+    downloadFile(backupFilename('json'), toJsonBackup(logs, settings), 'application/json');
+    setExported(true);
+  };
+
+  const handleDelete = async () => {
+    if (!exported && !confirm(t('deleteData.confirmNoBackup'))) return;
+    setBusy(true);
+    setError(null);
+    try {
+      await onDelete(deleteAccount);
+    } catch (e) {
+      console.error("Deleting data failed:", e);
+      const code = (e as { code?: string }).code;
+      setError(code === 'auth/popup-closed-by-user' || code === 'auth/cancelled-popup-request'
+        ? t('deleteData.signInAgain')
+        : t('deleteData.failed'));
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-3xl shadow-xl shadow-pink-100/50 p-6 animate-slide-up">
+      <h3 className="text-xl font-bold text-slate-700 mb-1 flex items-center gap-2">
+        <Trash2 size={18} className="text-rose-400" /> {t('deleteData.title')}
+      </h3>
+      <p className="text-xs text-slate-400 mb-4">
+        {t('deleteData.description')}
+      </p>
+
+      {!open ? (
+        <button
+          onClick={() => setOpen(true)}
+          className="w-full bg-pink-50 text-rose-500 py-3 rounded-xl text-sm font-bold hover:bg-pink-100 transition-colors"
+        >
+          {t('deleteData.open')}
+        </button>
+      ) : (
+        <div className="space-y-3">
+          <button
+            onClick={handleExport}
+            className="w-full flex items-center justify-center gap-2 bg-pink-50 text-rose-500 py-3 rounded-xl text-sm font-bold hover:bg-pink-100 transition-colors"
+          >
+            <Download size={16} /> {exported ? t('deleteData.downloadAgain') : t('deleteData.download')}
+          </button>
+          <label className="flex items-start gap-2 text-sm text-slate-600 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={deleteAccount}
+              onChange={(e) => setDeleteAccount(e.target.checked)}
+              className="accent-rose-500 mt-1"
+            />
+            <span>
+              {t('deleteData.account')}
+              <span className="block text-xs text-slate-400">{t('deleteData.accountDetail')}</span>
+            </span>
+          </label>
+          {!online && <p className="text-xs text-amber-600">{t('deleteData.offline')}</p>}
+          {error && <p className="text-xs text-rose-500">{error}</p>}
+          <div className="flex gap-2 pt-1">
+            <button
+              onClick={() => { setOpen(false); setError(null); }}
+              disabled={busy}
+              className="flex-1 py-3 rounded-full text-sm font-bold text-slate-400 hover:text-rose-500"
+            >
+              {t('common.cancel')}
+            </button>
+            <button
+              onClick={handleDelete}
+              disabled={busy || !online}
+              className="flex-1 bg-rose-500 text-white py-3 rounded-full text-sm font-bold shadow-lg shadow-rose-200 active:scale-95 transition-all disabled:opacity-50"
+            >
+              {busy ? t('deleteData.deleting') : t('deleteData.confirm')}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DeleteData;
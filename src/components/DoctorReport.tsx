@@ -0,0 +1,100 @@
+import { useState } from 'react';
+import { FileText } from 'lucide-react';
+
+import type { DailyLog, UserSettings } from '../types';
+import { formatDate } from '../lib/dates';
+import { downloadFile } from '../lib/files';
+import { buildReport, hasUnprintableText, reportFilename, reportToPdf } from '../lib/report';
+import { createTranslator } from '../lib/i18n';
+import { useI18n } from '../hooks/useI18n';
+
+// Default range: the last six months, usually enough for an appointment
+const defaultStart = () => {
+  const date = new Date();
+  date.setMonth(date.getMonth() - 6);
+  return formatDate(date);
+};
+
+// Builds a PDF summary of a date range to print or send to a doctor. Everything happens on the device.
+const DoctorReport = ({ logs, settings }: { logs: DailyLog[], settings: UserSettings }) => {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const today = formatDate(new Date());
+  const [start, setStart] = useState(defaultStart);
+  const [end, setEnd] = useState(today);
+  const [includeMoods, setIncludeMoods] = useState(true);
+  const [includeNotes, setIncludeNotes] = useState(false);
+
+  const valid = !!start && !!end && start <= end;
+
+  const handleDownload = () => {
+    try {
+      // The PDF fonts only cover Latin text, so right-to-left languages get the report in English
+      const reportI18n = i18n.dir === 'rtl' ? createTranslator('en', 'en', i18n.weekStart) : i18n;
+      const report = buildReport(logs, settings, { range: { start, end }, includeMoods, includeNotes }, reportI18n);
+      if (hasUnprintableText(report, reportI18n) && !confirm(t('report.confirmUnprintable'))) return;
+      downloadFile(reportFilename(report), reportToPdf(report, reportI18n), 'application/pdf');
+    } catch (e) {
+      console.error("Building report failed:", e);
+      alert(t('common.failed'));
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-3xl shadow-xl shadow-pink-100/50 p-6 animate-slide-up space-y-4">
+      <div>
+        <h3 className="font-bold text-slate-700 flex items-center gap-2">
+          <FileText size={16} className="text-rose-400" /> {t('report.heading')}
+        </h3>
+        <p className="text-xs text-slate-400">
+          {t('report.description')}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <label className="text-[10px] font-bold text-pink-400 uppercase tracking-wider">
+          {t('report.from')}
+          <input
+            type="date"
+            value={start}
+            max={end || today}
+            onChange={(e) => setStart(e.target.value)}
+            className="mt-1 w-full bg-pink-50 rounded-lg p-2 text-sm font-normal normal-case tracking-normal text-slate-600 outline-none"
+          />
+        </label>
+        <label className="text-[10px] font-bold text-pink-400 uppercase tracking-wider">
+          {t('report.to')}
+          <input
+            type="date"
+            value={end}
+            min={start}
+            max={today}
+            onChange={(e) => setEnd(e.target.value)}
+            className="mt-1 w-full bg-pink-50 rounded-lg p-2 text-sm font-normal normal-case tracking-normal text-slate-600 outline-none"
+          />
+        </label>
+      </div>
+
+      <div className="space-y-2 text-sm text-slate-600">
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={includeMoods} onChange={(e) => setIncludeMoods(e.target.checked)} className="accent-rose-500" />
+          {t('report.includeMoods')}
+        </label>
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={includeNotes} onChange={(e) => setIncludeNotes(e.target.checked)} className="accent-rose-500" />
+          {t('report.includeNotes')}
+        </label>
+      </div>
+
+      <button
+        onClick={handleDownload}
+        disabled={!valid}
+        className="w-full bg-rose-500 text-white py-3 rounded-full text-sm font-bold shadow-lg shadow-rose-200 active:scale-95 transition-all disabled:opacity-50"
+      >
+        {t('report.download')}
+      </button>
+    </div>
+  );
+};
+
+export default DoctorReport;
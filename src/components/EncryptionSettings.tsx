@@ -0,0 +1,172 @@
+import { useState } from 'react';
+import { Lock, Copy } from 'lucide-react';
+
+import { MIN_PASSPHRASE_LENGTH, UnreadableLogsError, WrongKeyError } from '../lib/encryption';
+import { useI18n } from '../hooks/useI18n';
+
+type Mode = 'idle' | 'enable' | 'change' | 'disable';
+
+// Opt-in end-to-end encryption of logs. Each action rewrites every log straight away,
+// so it sits outside the settings form.
+const EncryptionSettings = ({
+  enabled,
+  unreadableLogs,
+  onEnable,
+  onChangePassphrase,
+  onDisable
+}: {
+  enabled: boolean,
+  unreadableLogs: number,
+  onEnable: (passphrase: string) => Promise<string>,
+  onChangePassphrase: (current: string, next: string) => Promise<void>,
+  onDisable: (passphrase: string) => Promise<void>
+}) => {
+  const { t } = useI18n();
+  const [mode, setMode] = useState<Mode>('idle');
+  const [current, setCurrent] = useState('');
+  const [passphrase, setPassphrase] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [recoveryKey, setRecoveryKey] = useState<string | null>(null);
+
+  const reset = (next: Mode = 'idle') => {
+    setMode(next);
+    setCurrent('');
+    setPassphrase('');
+    setConfirm('');
+    setError(null);
+  };
+
+  const needsNew = mode === 'enable' || mode === 'change';
+  const problem = needsNew && passphrase.length < MIN_PASSPHRASE_LENGTH
+    ? t('encryption.tooShort', { count: MIN_PASSPHRASE_LENGTH })
+    : needsNew && passphrase !== confirm ? t('encryption.mismatch') : null;
+
+  const handleSubmit = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      if (mode === 'enable') setRecoveryKey(await onEnable(passphrase));
+      else if (mode === 'change') await onChangePassphrase(current, passphrase);
+      else if (mode === 'disable') await onDisable(current);
+      reset();
+    } catch (e) {
+      console.error("Encryption change failed:", e);
+      setError(e instanceof WrongKeyError ? t('encryption.wrongPassphrase')
+        : e instanceof UnreadableLogsError ? t('encryption.unreadable', { count: e.count })
+        : t('encryption.failed'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const input = (value: string, onChange: (value: string) => void, placeholder: string, autoComplete = 'new-password') => (
+    <input
+      type="password"
+      autoComplete={autoComplete}
+      placeholder={placeholder}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="w-full bg-pink-50 rounded-xl p-3 text-sm text-slate-600 outline-none"
+    />
+  );
+
+  return (
+    <div className="bg-white rounded-3xl shadow-xl shadow-pink-100/50 p-6 animate-slide-up">
+      <h3 className="text-xl font-bold text-slate-700 mb-1 flex items-center gap-2">
+        <Lock size={18} className="text-rose-400" /> {t('encryption.title')}
+      </h3>
+      <p className="text-xs text-slate-400 mb-4">
+        {enabled ? t('encryption.enabled') : t('encryption.disabled')}
+      </p>
+
+      {recoveryKey && (
+        <div className="bg-amber-50 border border-amber-200 rounded-xl p-4 mb-4 space-y-2">
+          <p className="text-sm font-bold text-amber-700">{t('encryption.saveRecoveryKey')}</p>
+          <p className="text-xs text-amber-700">
+            {t('encryption.recoveryKeyHint')}
+          </p>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 bg-white rounded-lg p-2 text-xs font-mono text-slate-700 break-all">{recoveryKey}</code>
+            <button
+              onClick={() => navigator.clipboard?.writeText(recoveryKey)}
+              className="p-2 text-amber-600 hover:text-amber-800"
+              title={t('common.copy')}
+            >
+              <Copy size={16} />
+            </button>
+          </div>
+          <button
+            onClick={() => setRecoveryKey(null)}
+            className="w-full bg-amber-500 text-white py-2 rounded-full text-sm font-bold"
+          >
+            {t('encryption.saved')}
+          </button>
+        </div>
+      )}
+
+      {enabled && unreadableLogs > 0 && (
+        <p className="bg-amber-50 border border-amber-200 rounded-xl p-3 mb-4 text-xs text-amber-700">
+          {t('encryption.unreadable', { count: unreadableLogs })} {t('encryption.paused')}
+        </p>
+      )}
+
+      {mode === 'idle' ? (
+        enabled ? (
+          <div className="grid grid-cols-2 gap-3">
+            <button
+              onClick={() => reset('change')}
+              disabled={unreadableLogs > 0}
+              className="bg-pink-50 text-rose-500 py-3 rounded-xl text-sm font-bold hover:bg-pink-100 transition-colors disabled:opacity-50"
+            >
+              {t('encryption.change')}
+            </button>
+            <button
+              onClick={() => reset('disable')}
+              disabled={unreadableLogs > 0}
+              className="bg-pink-50 text-slate-400 py-3 rounded-xl text-sm font-bold hover:bg-pink-100 transition-colors disabled:opacity-50"
+            >
+              {t('common.turnOff')}
+            </button>
+          </div>
+        ) : (
+          <button
+            onClick={() => reset('enable')}
+            className="w-full bg-pink-50 text-rose-500 py-3 rounded-xl text-sm font-bold hover:bg-pink-100 transition-colors"
+          >
+            {t('encryption.turnOn')}
+          </button>
+        )
+      ) : (
+        <div className="space-y-2">
+          {mode !== 'enable' && input(current, setCurrent, t('encryption.currentPassphrase'), 'current-password')}
+          {needsNew && input(passphrase, setPassphrase, mode === 'change' ? t('encryption.newPassphrase') : t('encryption.passphrase'))}
+          {needsNew && input(confirm, setConfirm, t('common.repeatIt'))}
+          {mode === 'disable' && (
+            <p className="text-xs text-slate-400">{t('encryption.willDecrypt')}</p>
+          )}
+          {(error || (passphrase && problem)) && <p className="text-xs text-rose-500">{error ?? problem}</p>}
+          <div className="flex gap-2 pt-1">
+            <button
+              onClick={() => reset()}
+              disabled={busy}
+              className="flex-1 py-3 rounded-full text-sm font-bold text-slate-400 hover:text-rose-500"
+            >
+              {t('common.cancel')}
+            </button>
+            <button
+              onClick={handleSubmit}
+              disabled={busy || !!problem || (mode !== 'enable' && !current)}
+              className="flex-1 bg-rose-500 text-white py-3 rounded-full text-sm font-bold shadow-lg shadow-rose-200 active:scale-95 transition-all disabled:opacity-50"
+            >
+              {busy ? t('encryption.working') : mode === 'enable' ? t('encryption.encrypt') : mode === 'change' ? t('encryption.changeShort') : t('common.turnOff')}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EncryptionSettings;
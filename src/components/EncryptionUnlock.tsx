@@ -0,0 +1,128 @@
+import { useState } from 'react';
+import { Heart, Lock } from 'lucide-react';
+
+import {
+  MIN_PASSPHRASE_LENGTH,
+  resetPassphrase,
+  unlockWithPassphrase,
+  WrongKeyError,
+  type DataKeys,
+  type EncryptionConfig
+} from '../lib/encryption';
+import { useI18n } from '../hooks/useI18n';
+
+// Shown after sign-in while the logs are encrypted and the data key is still locked.
+// The recovery key route also sets a new passphrase, since the old one is forgotten.
+const EncryptionUnlock = ({
+  config,
+  onUnlock,
+  onReset,
+  onSignOut
+}: {
+  config: EncryptionConfig,
+  onUnlock: (keys: DataKeys) => void,
+  onReset: (config: EncryptionConfig, keys: DataKeys) => Promise<void>,
+  onSignOut: () => void
+}) => {
+  const { t } = useI18n();
+  const [recovering, setRecovering] = useState(false);
+  const [secret, setSecret] = useState('');
+  const [passphrase, setPassphrase] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const problem = recovering && passphrase.length < MIN_PASSPHRASE_LENGTH
+    ? t('encryption.chooseNew', { count: MIN_PASSPHRASE_LENGTH })
+    : recovering && passphrase !== confirm ? t('encryption.mismatch') : null;
+
+  const handleSubmit = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      if (recovering) {
+        const reset = await resetPassphrase(config, secret, passphrase);
+        await onReset(reset.config, reset.keys);
+      } else {
+        onUnlock(await unlockWithPassphrase(config, secret));
+      }
+    } catch (e) {
+      console.error("Unlock failed:", e);
+      setError(e instanceof WrongKeyError
+        ? t(recovering ? 'encryption.wrongRecoveryKey' : 'encryption.wrongPassphrase')
+        : t('encryption.unlockFailed'));
+      setBusy(false);
+    }
+  };
+
+  const switchMode = () => {
+    setRecovering(!recovering);
+    setSecret('');
+    setError(null);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-pink-100 to-rose-200 flex items-center justify-center p-4">
+      <div className="bg-white rounded-3xl shadow-2xl p-8 text-center max-w-md w-full animate-fade-in space-y-4">
+        <div className="flex items-center justify-center gap-3 text-rose-500">
+          <div className="bg-rose-100 p-3 rounded-xl">
+            <Heart className="fill-rose-500" size={28} />
+          </div>
+          <h1 className="font-serif text-3xl font-bold tracking-tight">Gyneo</h1>
+        </div>
+        <p className="text-slate-600 flex items-center justify-center gap-2">
+          <Lock size={16} className="text-rose-400" /> {t('encryption.locked')}
+        </p>
+
+        <form onSubmit={(e) => { e.preventDefault(); handleSubmit(); }} className="space-y-2 text-start">
+          <input
+            type={recovering ? 'text' : 'password'}
+            autoFocus
+            autoComplete={recovering ? 'off' : 'current-password'}
+            placeholder={recovering ? t('encryption.recoveryKey') : t('encryption.passphrase')}
+            value={secret}
+            onChange={(e) => setSecret(e.target.value)}
+            className={`w-full bg-pink-50 rounded-xl p-3 text-sm text-slate-600 outline-none ${recovering ? 'font-mono' : ''}`}
+          />
+          {recovering && (
+            <>
+              <input
+                type="password"
+                autoComplete="new-password"
+                placeholder={t('encryption.newPassphrase')}
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                className="w-full bg-pink-50 rounded-xl p-3 text-sm text-slate-600 outline-none"
+              />
+              <input
+                type="password"
+                autoComplete="new-password"
+                placeholder={t('common.repeatIt')}
+                value={confirm}
+                onChange={(e) => setConfirm(e.target.value)}
+                className="w-full bg-pink-50 rounded-xl p-3 text-sm text-slate-600 outline-none"
+              />
+            </>
+          )}
+          {(error || (passphrase && problem)) && <p className="text-xs text-rose-500">{error ?? problem}</p>}
+          <button
+            type="submit"
+            disabled={busy || !secret || !!problem}
+            className="w-full bg-rose-500 text-white py-3 rounded-full text-sm font-bold shadow-lg shadow-rose-200 active:scale-95 transition-all disabled:opacity-50"
+          >
+            {busy ? t('encryption.unlocking') : t('appLock.unlock')}
+          </button>
+        </form>
+
+        <div className="flex justify-between text-xs">
+          <button onClick={switchMode} className="text-pink-400 hover:text-pink-600">
+            {recovering ? t('encryption.usePassphrase') : t('encryption.forgot')}
+          </button>
+          <button onClick={onSignOut} className="text-slate-400 hover:text-rose-500">{t('nav.signOut')}</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EncryptionUnlock;
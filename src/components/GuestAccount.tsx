@@ -0,0 +1,24 @@
+import { Smartphone } from 'lucide-react';
+
+import { useI18n } from '../hooks/useI18n';
+
+// Settings card for guest mode, where the data never leaves this device
+const GuestAccount = ({ onLink }: { onLink: () => void }) => {
+  const { t } = useI18n();
+  return (
+    <div className="bg-white rounded-3xl shadow-xl shadow-pink-100/50 p-6 animate-slide-up">
+      <h3 className="text-xl font-bold text-slate-700 mb-1 flex items-center gap-2">
+        <Smartphone size={18} className="text-rose-400" /> {t('guest.title')}
+      </h3>
+      <p className="text-xs text-slate-400 mb-4">{t('guest.description')}</p>
+      <button
+        onClick={onLink}
+        className="w-full bg-pink-50 text-rose-500 py-3 rounded-xl text-sm font-bold hover:bg-pink-100 transition-colors"
+      >
+        {t('guest.link')}
+      </button>
+    </div>
+  );
+};
+
+export default GuestAccount;
@@ -0,0 +1,152 @@
+import { useMemo, useState } from 'react';
+import { CloudUpload, Heart } from 'lucide-react';
+
+import type { DailyLog, LogData } from '../types';
+import { planImport } from '../lib/backup';
+import type { LocalData, UpgradeChoice } from '../lib/guest';
+import type { UserStorage } from '../lib/storage';
+import { useCollection, useDocument } from '../hooks/useStorage';
+import { useI18n } from '../hooks/useI18n';
+
+// Labelled by the upgrade.<id> and upgrade.<id>Detail catalog keys
+const CHOICES: UpgradeChoice[] = ['device', 'account', 'replace', 'discard'];
+
+// Shown once a guest signs in: moves what was logged on this device into the account.
+// `accountLogs` is null until the account's logs have loaded (and been decrypted).
+const GuestUpgrade = ({
+  email,
+  device,
+  accountLogs,
+  onFinish,
+  onCancel
+}: {
+  email: string,
+  device: UserStorage,
+  accountLogs: DailyLog[] | null,
+  onFinish: (local: LocalData, choice: UpgradeChoice) => Promise<void>,
+  onCancel: () => void
+}) => {
+  const { t } = useI18n();
+  const deviceLogs = useCollection(device.logs);
+  const deviceSettings = useDocument(device.settings);
+  const [choice, setChoice] = useState<UpgradeChoice>('device');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Guest logs are never encrypted
+  const local = useMemo<LocalData | null>(
+    () => deviceLogs.loaded && deviceSettings.loaded
+      ? { logs: deviceLogs.items.map(item => item.data as LogData), settings: deviceSettings.value }
+      : null,
+    [deviceLogs.loaded, deviceLogs.items, deviceSettings.loaded, deviceSettings.value]
+  );
+
+  // Against the device's logs: added are only on the device, updated differ, removed are only in the account
+  const plan = useMemo(
+    () => local && accountLogs ? planImport(accountLogs, local.logs, 'replace') : null,
+    [local, accountLogs]
+  );
+  const hasConflicts = !!plan && (plan.updated.length > 0 || plan.removed.length > 0);
+
+  const handleFinish = async () => {
+    if (!local) return;
+    if (choice === 'replace' && plan && plan.removed.length > 0 &&
+      !confirm(t('upgrade.confirmReplace', { count: plan.removed.length }))) {
+      return;
+    }
+    setBusy(true);
+    setError(null);
+    try {
+      await onFinish(local, hasConflicts ? choice : 'device');
+    } catch (e) {
+      console.error("Moving local data failed:", e);
+      setError(t('upgrade.failed'));
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-pink-100 to-rose-200 flex items-center justify-center p-4">
+      <div className="bg-white rounded-3xl shadow-2xl p-8 max-w-md w-full animate-fade-in space-y-5">
+        <div className="flex items-center justify-center gap-3 text-rose-500">
+          <div className="bg-rose-100 p-3 rounded-xl">
+            <Heart className="fill-rose-500" size={28} />
+          </div>
+          <h1 className="font-serif text-3xl font-bold tracking-tight">Gyneo</h1>
+        </div>
+        <div className="text-center">
+          <p className="text-slate-600 flex items-center justify-center gap-2">
+            <CloudUpload size={16} className="text-rose-400" /> {t('upgrade.title', { email })}
+          </p>
+          {plan && local && (
+            <p className="text-xs text-slate-400 mt-1">
+              {t('upgrade.counts', { count: local.logs.length, account: accountLogs!.length })}
+            </p>
+          )}
+        </div>
+
+        {!plan ? (
+          <p className="text-sm text-slate-400 text-center">{error ?? t('upgrade.comparing')}</p>
+        ) : hasConflicts ? (
+          <div className="space-y-3">
+            <ul className="text-sm text-slate-600 space-y-1">
+              <li><span className="font-bold text-emerald-500">{plan.added.length}</span> {t('upgrade.onlyDevice')}</li>
+              <li><span className="font-bold text-slate-400">{plan.removed.length}</span> {t('upgrade.onlyAccount')}</li>
+              <li><span className="font-bold text-amber-500">{plan.updated.length}</span> {t('upgrade.different')}</li>
+            </ul>
+            <div className="space-y-2">
+              {CHOICES.map(id => (
+                <label
+                  key={id}
+                  className={`block p-3 rounded-xl border cursor-pointer transition-colors ${choice === id ? 'border-rose-300 bg-rose-50' : 'border-pink-100 hover:bg-pink-50'}`}
+                >
+                  <span className="flex items-center gap-2 text-sm font-bold text-slate-700">
+                    <input
+                      type="radio"
+                      name="upgrade-choice"
+                      checked={choice === id}
+                      onChange={() => setChoice(id)}
+                      className="accent-rose-500"
+                    />
+                    {t(`upgrade.${id}`)}
+                  </span>
+                  <span className="block text-xs text-slate-400 mt-1 ms-5">{t(`upgrade.${id}Detail`)}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-slate-500 text-center">
+            {plan.added.length > 0
+              ? t('upgrade.willAdd', { count: plan.added.length })
+              : t('upgrade.nothingToAdd')}
+          </p>
+        )}
+
+        {plan && error && <p className="text-xs text-rose-500 text-center">{error}</p>}
+
+        <div className="flex gap-2">
+          <button
+            onClick={onCancel}
+            disabled={busy}
+            className="flex-1 py-3 rounded-full text-sm font-bold text-slate-400 hover:text-rose-500"
+          >
+            {t('upgrade.notNow')}
+          </button>
+          <button
+            onClick={handleFinish}
+            disabled={busy || !plan}
+            className="flex-1 bg-rose-500 text-white py-3 rounded-full text-sm font-bold shadow-lg shadow-rose-200 active:scale-95 transition-all disabled:opacity-50"
+          >
+            {busy ? t('upgrade.moving') : t('import.continue')}
+          </button>
+        </div>
+        <p className="text-xs text-slate-400 text-center">
+          {t('upgrade.notNowHint', { button: t('upgrade.notNow') })}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default GuestUpgrade;
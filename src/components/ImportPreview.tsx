@@ -0,0 +1,105 @@
+import { useMemo, useState } from 'react';
+import { X } from 'lucide-react';
+
+import type { DailyLog } from '../types';
+import { planImport, type ImportMode, type ParsedImport } from '../lib/backup';
+import { useI18n } from '../hooks/useI18n';
+
+// Shows what an import would add, change or delete, and lets the user pick merge or replace
+const ImportPreview = ({
+  parsed,
+  fileName,
+  logs,
+  onApply,
+  onCancel
+}: {
+  parsed: ParsedImport,
+  fileName: string,
+  logs: DailyLog[],
+  onApply: (mode: ImportMode) => Promise<void>,
+  onCancel: () => void
+}) => {
+  const { t } = useI18n();
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [importing, setImporting] = useState(false);
+
+  const plan = useMemo(() => planImport(logs, parsed.logs, mode), [logs, parsed, mode]);
+
+  const handleApply = async () => {
+    if (mode === 'replace' && plan.removed.length > 0 &&
+      !confirm(t('import.confirmReplace', { count: plan.removed.length }))) {
+      return;
+    }
+    setImporting(true);
+    try {
+      await onApply(mode);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="mt-4 bg-pink-50 rounded-2xl p-4 space-y-4">
+      <div className="flex justify-between items-start">
+        <div>
+          <p className="text-sm font-bold text-slate-700">{fileName}</p>
+          <p className="text-xs text-slate-400">
+            {t(parsed.settings ? 'import.inFileWithSettings' : 'import.inFile', { count: parsed.logs.length, format: parsed.format.toUpperCase() })}
+          </p>
+        </div>
+        <button onClick={onCancel} className="text-slate-400 hover:text-rose-500">
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="flex bg-white p-1 rounded-xl">
+        {(['merge', 'replace'] as const).map((m) => (
+          <button
+            key={m}
+            onClick={() => setMode(m)}
+            className={`
+              flex-1 py-2 rounded-lg text-sm font-medium transition-all
+              ${mode === m ? 'bg-rose-500 text-white shadow-sm' : 'text-pink-300 hover:text-pink-500'}
+            `}
+          >
+            {m === 'merge' ? t('import.merge') : t('import.replace')}
+          </button>
+        ))}
+      </div>
+
+      <ul className="text-sm text-slate-600 space-y-1">
+        <li><span className="font-bold text-emerald-500">{plan.added.length}</span> {t('import.added')}</li>
+        <li><span className="font-bold text-amber-500">{plan.updated.length}</span> {t('import.updated')}</li>
+        <li><span className="font-bold text-slate-400">{plan.unchanged.length}</span> {t('import.unchanged')}</li>
+        {mode === 'replace' && (
+          <li><span className="font-bold text-rose-500">{plan.removed.length}</span> {t('import.removed')}</li>
+        )}
+        {parsed.settings && <li>{t('import.restoresSettings')}</li>}
+      </ul>
+
+      {(parsed.duplicates > 0 || parsed.errors.length > 0) && (
+        <div className="text-xs text-slate-500 space-y-1">
+          {parsed.duplicates > 0 && <p>{t('import.duplicates', { count: parsed.duplicates })}</p>}
+          {parsed.errors.length > 0 && (
+            <details>
+              <summary className="cursor-pointer text-rose-500">{t('import.skipped', { count: parsed.errors.length })}</summary>
+              <ul className="mt-1 max-h-32 overflow-y-auto">
+                {parsed.errors.map((error, i) => <li key={i}>{error}</li>)}
+              </ul>
+            </details>
+          )}
+        </div>
+      )}
+
+      <button
+        onClick={handleApply}
+        disabled={importing || parsed.logs.length === 0}
+        className="w-full bg-rose-500 text-white py-3 rounded-full text-sm font-bold shadow-lg shadow-rose-200 active:scale-95 transition-all disabled:opacity-50"
+      >
+        {importing ? t('import.importing') : t('import.apply')}
+      </button>
+    </div>
+  );
+};
+
+export default ImportPreview;
@@ -0,0 +1,162 @@
+import { BarChart3, AlertCircle } from 'lucide-react';
+
+import type { UserSettings } from '../types';
+import type { CycleSummary } from '../lib/cycleEngine';
+import { parseDate } from '../lib/dates';
+import type { Translator } from '../lib/i18n';
+import { describeExclusion, getCycleHistory, getCycleStats } from '../lib/insights';
+import { useI18n } from '../hooks/useI18n';
+
+const WIDTH = 320;
+const HEIGHT = 160;
+const PAD_X = 24;
+const PAD_Y = 16;
+const MAX_CHARTED = 24;
+
+const formatStart = (date: string, i18n: Translator) =>
+  i18n.formatDate(parseDate(date), { month: 'short', day: 'numeric', year: 'numeric' });
+
+const formatDays = (value: number, { t, locale }: Translator) =>
+  t('insights.days', { count: value, days: value.toLocaleString(locale, { maximumFractionDigits: 1 }) });
+
+// Cycle history and statistics, laid out to be shown to a doctor
+const Insights = ({ summary, settings }: { summary: CycleSummary, settings: UserSettings }) => {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const rows = getCycleHistory(summary, settings);
+  const stats = getCycleStats(rows);
+
+  if (rows.length === 0) {
+    return (
+      <div className="bg-white rounded-3xl shadow-xl shadow-pink-100/50 p-6 animate-slide-up text-center text-sm text-slate-400">
+        {t('insights.empty')}
+      </div>
+    );
+  }
+
+  const charted = rows.filter(r => r.cycle.cycleLength !== null).slice(-MAX_CHARTED);
+  const maxLength = Math.max(summary.cycleLength, ...charted.map(r => r.cycle.cycleLength!)) + 5;
+  const slot = (WIDTH - PAD_X * 2) / Math.max(charted.length, 1);
+  const barWidth = Math.min(slot * 0.6, 16);
+  const y = (days: number) => HEIGHT - PAD_Y - (days / maxLength) * (HEIGHT - PAD_Y * 2);
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-3xl shadow-xl shadow-pink-100/50 p-6 animate-slide-up">
+        <h3 className="font-bold text-slate-700 flex items-center gap-2 mb-1">
+          <BarChart3 size={16} className="text-rose-400" /> {t('insights.statistics')}
+        </h3>
+        <p className="text-xs text-slate-400 mb-4">
+          {stats
+            ? t('insights.from', { count: stats.count, date: formatStart(rows[0].cycle.start, i18n) })
+            : t('insights.noStatistics')}
+        </p>
+        {stats && (
+          <div className="grid grid-cols-2 gap-3">
+            {[
+              { label: t('insights.averageCycle'), value: formatDays(Math.round(stats.average * 10) / 10, i18n) },
+              { label: t('insights.variation'), value: stats.deviation !== null ? `± ${formatDays(Math.round(stats.deviation * 10) / 10, i18n)}` : '—' },
+              { label: t('insights.shortest'), value: formatDays(stats.shortest, i18n) },
+              { label: t('insights.longest'), value: formatDays(stats.longest, i18n) },
+              { label: t('insights.averagePeriod'), value: stats.averagePeriod !== null ? formatDays(Math.round(stats.averagePeriod * 10) / 10, i18n) : '—' },
+            ].map(({ label, value }) => (
+              <div key={label} className="bg-pink-50 rounded-2xl p-3">
+                <p className="text-[10px] font-bold text-pink-400 uppercase tracking-wider">{label}</p>
+                <p className="text-lg font-bold text-slate-700">{value}</p>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {charted.length > 0 && (
+        <div className="bg-white rounded-3xl shadow-xl shadow-pink-100/50 p-6 animate-slide-up">
+          <h3 className="font-bold text-slate-700 mb-1">{t('insights.overTime')}</h3>
+          <p className="text-xs text-slate-400 mb-4">{t('insights.chartLegend')}</p>
+          <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full">
+            <text x={2} y={y(maxLength) + 8} className="fill-slate-300 text-[9px]">{maxLength}</text>
+            <text x={2} y={HEIGHT - PAD_Y} className="fill-slate-300 text-[9px]">0</text>
+
+            {stats && (
+              <>
+                <line
+                  x1={PAD_X} x2={WIDTH - PAD_X}
+                  y1={y(stats.average)} y2={y(stats.average)}
+                  stroke="#f9a8d4" strokeDasharray="4 3"
+                />
+                <text x={WIDTH - PAD_X + 2} y={y(stats.average) + 3} className="fill-pink-400 text-[9px]">
+                  {Math.round(stats.average)}
+                </text>
+              </>
+            )}
+
+            {charted.map((row, i) => {
+              const cx = PAD_X + slot * i + slot / 2;
+              const length = row.cycle.cycleLength!;
+              const excluded = row.exclusion !== null;
+              return (
+                <g key={row.cycle.start}>
+                  <title>
+                    {t('insights.bar', { date: formatStart(row.cycle.start, i18n), length, period: row.cycle.periodLength })}
+                    {excluded ? ` (${describeExclusion(row.exclusion!, i18n)})` : ''}
+                  </title>
+                  <rect
+                    x={cx - barWidth / 2} y={y(length)}
+                    width={barWidth} height={y(0) - y(length)}
+                    rx={3}
+                    fill={excluded ? '#e2e8f0' : '#fbcfe8'}
+                  />
+                  <rect
+                    x={cx - barWidth / 2} y={y(row.cycle.periodLength)}
+                    width={barWidth} height={y(0) - y(row.cycle.periodLength)}
+                    rx={3}
+                    fill={excluded ? '#cbd5e1' : '#f43f5e'}
+                  />
+                </g>
+              );
+            })}
+          </svg>
+          <div className="flex justify-between text-[9px] text-slate-300 px-6">
+            <span>{formatStart(charted[0].cycle.start, i18n)}</span>
+            {charted.length > 1 && <span>{formatStart(charted[charted.length - 1].cycle.start, i18n)}</span>}
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white rounded-3xl shadow-xl shadow-pink-100/50 p-6 animate-slide-up">
+        <h3 className="font-bold text-slate-700 mb-4">{t('insights.allCycles')}</h3>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-[10px] font-bold text-pink-400 uppercase tracking-wider text-start">
+              <th className="pb-2">#</th>
+              <th className="pb-2">{t('insights.started')}</th>
+              <th className="pb-2 text-end">{t('insights.cycle')}</th>
+              <th className="pb-2 text-end">{t('insights.period')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {[...rows].reverse().map(({ number, cycle, exclusion }) => (
+              <tr key={cycle.start} className="border-t border-pink-50 align-top">
+                <td className="py-2 text-slate-300">{number}</td>
+                <td className="py-2 text-slate-600">
+                  {formatStart(cycle.start, i18n)}
+                  {exclusion && (
+                    <p className="text-[11px] text-amber-600 flex gap-1 mt-0.5">
+                      <AlertCircle size={12} className="shrink-0 mt-0.5" /> {t('insights.notCounted', { reason: describeExclusion(exclusion, i18n) })}
+                    </p>
+                  )}
+                </td>
+                <td className={`py-2 text-end ${exclusion ? 'text-slate-300' : 'text-slate-700 font-bold'}`}>
+                  {cycle.cycleLength !== null ? cycle.cycleLength : t('insights.ongoing')}
+                </td>
+                <td className="py-2 text-end text-slate-500">{cycle.periodLength}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default Insights;
@@ -0,0 +1,134 @@
+import { useState } from 'react';
+import { Search, ChevronRight } from 'lucide-react';
+
+import type { CatalogItem, DailyLog, FlowLevel } from '../types';
+import { formatDate, parseDate } from '../lib/dates';
+import { EMPTY_QUERY, getSearchTerms, isEmptyQuery, searchLogs, type LogQuery } from '../lib/search';
+import { translateItemName } from '../lib/symptoms';
+import { useI18n } from '../hooks/useI18n';
+import NoteText from './NoteText';
+
+const FLOW_LEVELS: FlowLevel[] = ['Spotting', 'Light', 'Medium', 'Heavy'];
+
+const PERIODS = [null, 1, 3, 6, 12];
+
+// Searches notes and filters days by flow, mood and symptoms; a result opens that day's log
+const LogSearch = ({
+  logs,
+  symptomCatalog,
+  moodCatalog,
+  onOpen
+}: {
+  logs: DailyLog[],
+  symptomCatalog: CatalogItem[],
+  moodCatalog: CatalogItem[],
+  onOpen: (date: string) => void
+}) => {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const [query, setQuery] = useState<LogQuery>(EMPTY_QUERY);
+  const results = searchLogs(logs, query, formatDate(new Date()));
+  const terms = getSearchTerms(query.text);
+
+  const toggleSymptom = (name: string) => setQuery({
+    ...query,
+    symptoms: query.symptoms.includes(name) ? query.symptoms.filter(s => s !== name) : [...query.symptoms, name],
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-3xl shadow-xl shadow-pink-100/50 p-6 animate-slide-up space-y-4">
+        <div className="flex items-center bg-pink-50 rounded-xl px-3">
+          <Search size={18} className="text-pink-300" />
+          <input
+            type="search"
+            autoFocus
+            placeholder={t('search.placeholder')}
+            value={query.text}
+            onChange={(e) => setQuery({ ...query, text: e.target.value })}
+            className="w-full bg-transparent border-none p-3 text-sm text-slate-600 outline-none"
+          />
+        </div>
+
+        <div className="grid grid-cols-3 gap-2">
+          <select
+            value={query.flow ?? ''}
+            onChange={(e) => setQuery({ ...query, flow: (e.target.value || null) as FlowLevel | null })}
+            className="bg-pink-50 rounded-xl p-2 text-xs text-slate-600 outline-none"
+          >
+            <option value="">{t('search.anyFlow')}</option>
+            {FLOW_LEVELS.map(level => <option key={level} value={level}>{t(`flow.${level}`)}</option>)}
+          </select>
+          <select
+            value={query.mood ?? ''}
+            onChange={(e) => setQuery({ ...query, mood: e.target.value || null })}
+            className="bg-pink-50 rounded-xl p-2 text-xs text-slate-600 outline-none"
+          >
+            <option value="">{t('search.anyMood')}</option>
+            {moodCatalog.map(m => <option key={m.name} value={m.name}>{translateItemName(m.name, t)}</option>)}
+          </select>
+          <select
+            value={query.months ?? ''}
+            onChange={(e) => setQuery({ ...query, months: e.target.value ? Number(e.target.value) : null })}
+            className="bg-pink-50 rounded-xl p-2 text-xs text-slate-600 outline-none"
+          >
+            {PERIODS.map(months => (
+              <option key={months ?? 'all'} value={months ?? ''}>
+                {months ? t('search.lastMonths', { count: months }) : t('search.allTime')}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {symptomCatalog.filter(s => !s.hidden || query.symptoms.includes(s.name)).map(({ name }) => (
+            <button
+              key={name}
+              onClick={() => toggleSymptom(name)}
+              className={`
+                px-3 py-1.5 rounded-full text-xs font-medium border transition-all
+                ${query.symptoms.includes(name) ? 'bg-pink-100 border-pink-300 text-pink-600' : 'bg-white border-slate-100 text-slate-400'}
+              `}
+            >
+              {translateItemName(name, t)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {isEmptyQuery(query) ? (
+        <p className="text-center text-sm text-slate-400">{t('search.hint')}</p>
+      ) : (
+        <div className="space-y-3">
+          <p className="text-xs font-bold text-pink-400 uppercase tracking-wider">
+            {t('search.results', { count: results.length })}
+          </p>
+          {results.map(log => (
+            <button
+              key={log.date}
+              onClick={() => onOpen(log.date)}
+              className="w-full text-start bg-white p-4 rounded-2xl shadow-sm border border-pink-100 hover:border-pink-300 transition-all"
+            >
+              <div className="flex justify-between items-center">
+                <span className="font-bold text-slate-700">
+                  {i18n.formatDate(parseDate(log.date), { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' })}
+                </span>
+                <ChevronRight size={16} className="text-pink-300 rtl:rotate-180" />
+              </div>
+              <p className="text-xs text-slate-400 mb-1">
+                {[
+                  log.flow && t('log.flowSummary', { flow: t(`flow.${log.flow}`) }),
+                  log.mood && translateItemName(log.mood, t),
+                  ...log.symptoms.map(s => `${translateItemName(s.name, t)} (${t(`severity.${s.severity}`)})`)
+                ].filter(Boolean).join(' · ')}
+              </p>
+              {log.note && <NoteText note={log.note} terms={terms} />}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LogSearch;
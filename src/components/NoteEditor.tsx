@@ -0,0 +1,51 @@
+import { useRef } from 'react';
+import { Bold, Italic, List } from 'lucide-react';
+
+import { applyFormat, MAX_NOTE_LENGTH } from '../lib/notes';
+import { useI18n } from '../hooks/useI18n';
+
+// Note field in the daily log: a textarea with buttons for the few formatting marks notes support
+const NoteEditor = ({ value, onChange }: { value: string, onChange: (value: string) => void }) => {
+  const { t } = useI18n();
+  const textarea = useRef<HTMLTextAreaElement>(null);
+
+  const format = (kind: 'bold' | 'italic' | 'list') => {
+    const element = textarea.current;
+    if (!element) return;
+    const result = applyFormat(value, element.selectionStart, element.selectionEnd, kind);
+    onChange(result.note.slice(0, MAX_NOTE_LENGTH));
+    // Keep the formatted text selected once React has rendered the new value
+    requestAnimationFrame(() => {
+      element.focus();
+      element.setSelectionRange(result.start, result.end);
+    });
+  };
+
+  return (
+    <div className="bg-pink-50 rounded-xl">
+      <div className="flex gap-1 px-2 pt-2">
+        {([['bold', Bold], ['italic', Italic], ['list', List]] as const).map(([kind, Icon]) => (
+          <button
+            key={kind}
+            onClick={() => format(kind)}
+            title={t(`note.${kind}`)}
+            className="p-1.5 rounded-lg text-pink-300 hover:text-pink-500 hover:bg-white"
+          >
+            <Icon size={14} />
+          </button>
+        ))}
+      </div>
+      <textarea
+        ref={textarea}
+        value={value}
+        maxLength={MAX_NOTE_LENGTH}
+        onChange={(e) => onChange(e.target.value)}
+        rows={4}
+        placeholder={t('note.placeholder')}
+        className="w-full bg-transparent border-none p-3 text-sm text-slate-600 outline-none resize-y"
+      />
+    </div>
+  );
+};
+
+export default NoteEditor;
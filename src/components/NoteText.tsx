@@ -0,0 +1,31 @@
+import { highlight, parseNote, type NoteSpan } from '../lib/notes';
+
+const renderSpan = (span: NoteSpan, key: number, terms: string[]) => {
+  const parts = highlight(span.text, terms).map((segment, i) =>
+    segment.match
+      ? <mark key={i} className="bg-amber-100 text-slate-700 rounded px-0.5">{segment.text}</mark>
+      : segment.text
+  );
+  if (span.bold) return <strong key={key}>{parts}</strong>;
+  if (span.italic) return <em key={key}>{parts}</em>;
+  return <span key={key}>{parts}</span>;
+};
+
+// A saved note with its formatting, search terms highlighted when given
+const NoteText = ({ note, terms = [] }: { note: string, terms?: string[] }) => {
+  const blocks = parseNote(note);
+  return (
+    <div className="text-sm text-slate-600 space-y-1">
+      {blocks.map((block, i) => block.type === 'bullet' ? (
+        <p key={i} className="flex gap-2">
+          <span className="text-pink-300">•</span>
+          <span>{block.spans.map((span, j) => renderSpan(span, j, terms))}</span>
+        </p>
+      ) : (
+        <p key={i}>{block.spans.map((span, j) => renderSpan(span, j, terms))}</p>
+      ))}
+    </div>
+  );
+};
+
+export default NoteText;
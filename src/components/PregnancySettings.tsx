@@ -0,0 +1,110 @@
+import { Baby } from 'lucide-react';
+
+import type { Pregnancy } from '../types';
+import { formatDate, parseDate } from '../lib/dates';
+import { getDueDate } from '../lib/pregnancy';
+import { useI18n } from '../hooks/useI18n';
+
+const newPregnancy = (lmp: string): Pregnancy => ({ lmp, scan: null, endedOn: null, outcome: null });
+
+// Pregnancy mode inside the settings form: turn it on and date it from the last period or a scan.
+// An ongoing pregnancy is ended from the dashboard, which asks how it ended.
+const PregnancySettings = ({
+  value,
+  ongoing,
+  defaultLmp,
+  onChange
+}: {
+  value: Pregnancy | null,
+  ongoing: boolean, // Already saved, so it can't simply be switched off here
+  defaultLmp: string | null,
+  onChange: (value: Pregnancy | null) => void
+}) => {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const today = formatDate(new Date());
+
+  const numberInput = (current: number, max: number, onValue: (n: number) => void) => (
+    <input
+      type="number"
+      min={0}
+      max={max}
+      value={current}
+      onChange={(e) => onValue(Math.min(max, Math.max(0, parseInt(e.target.value) || 0)))}
+      className="w-14 bg-white rounded-lg p-2 text-sm text-center text-slate-600 outline-none"
+    />
+  );
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className="text-sm font-bold text-slate-700 flex items-center gap-2">
+          <Baby size={16} className="text-rose-400" /> {t('pregnancy.mode')}
+        </label>
+        {!ongoing && (
+          <button
+            onClick={() => onChange(value ? null : newPregnancy(defaultLmp ?? today))}
+            className={`
+              px-3 py-1 rounded-full text-xs font-bold transition-all
+              ${value ? 'bg-rose-500 text-white' : 'bg-pink-50 text-pink-400 hover:bg-pink-100'}
+            `}
+          >
+            {value ? t('common.on') : t('common.off')}
+          </button>
+        )}
+      </div>
+      <p className="text-xs text-slate-400 mb-3">
+        {ongoing
+          ? t('pregnancy.pausedHint')
+          : t('pregnancy.modeHint')}
+      </p>
+
+      {value && (
+        <div className="bg-pink-50 rounded-2xl p-4 space-y-3 text-sm text-slate-600">
+          <label className="flex items-center justify-between">
+            <span>{t('pregnancy.lmp')}</span>
+            <input
+              type="date"
+              value={value.lmp}
+              max={today}
+              onChange={(e) => e.target.value && onChange({ ...value, lmp: e.target.value })}
+              className="bg-white rounded-lg p-2 text-sm text-slate-600 outline-none"
+            />
+          </label>
+
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={!!value.scan}
+              onChange={(e) => onChange({ ...value, scan: e.target.checked ? { date: today, weeks: 12, days: 0 } : null })}
+              className="accent-rose-500"
+            />
+            {t('pregnancy.scan')}
+          </label>
+
+          {value.scan && (
+            <div className="flex items-center justify-between gap-2">
+              <input
+                type="date"
+                value={value.scan.date}
+                max={today}
+                onChange={(e) => e.target.value && onChange({ ...value, scan: { ...value.scan!, date: e.target.value } })}
+                className="bg-white rounded-lg p-2 text-sm text-slate-600 outline-none"
+              />
+              <span className="flex items-center gap-1 text-xs">
+                {numberInput(value.scan.weeks, 42, (weeks) => onChange({ ...value, scan: { ...value.scan!, weeks } }))} {t('pregnancy.weeksShort')}
+                {numberInput(value.scan.days, 6, (days) => onChange({ ...value, scan: { ...value.scan!, days } }))} {t('pregnancy.daysShort')}
+              </span>
+            </div>
+          )}
+
+          <p className="text-xs text-slate-400">
+            {t('pregnancy.dueOn', { date: i18n.formatDate(parseDate(getDueDate(value)), { month: 'long', day: 'numeric', year: 'numeric' }) })}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PregnancySettings;
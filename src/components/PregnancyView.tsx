@@ -0,0 +1,153 @@
+import { useState } from 'react';
+import { Baby, Heart } from 'lucide-react';
+
+import type { Pregnancy, PregnancyOutcome } from '../types';
+import { diffDays, formatDate, parseDate } from '../lib/dates';
+import { getDueDate, getGestationalAge, TRIMESTER_STARTS } from '../lib/pregnancy';
+import { useI18n } from '../hooks/useI18n';
+
+const TOTAL_WEEKS = 40;
+
+type Ending = PregnancyOutcome | 'mistake';
+
+// Labelled by the pregnancy.ending.<id> catalog keys
+const ENDINGS: Ending[] = ['birth', 'loss', 'mistake'];
+
+// Replaces the cycle wheel while pregnant: gestational week, trimester and due date.
+// Ending the pregnancy lives behind a quiet link, and never assumes how it ended.
+const PregnancyView = ({
+  pregnancy,
+  onEnd,
+  onUndo
+}: {
+  pregnancy: Pregnancy,
+  onEnd: (outcome: PregnancyOutcome, date: string) => void,
+  onUndo: () => void
+}) => {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const today = formatDate(new Date());
+  const [ending, setEnding] = useState<Ending | null>(null);
+  const [showEnd, setShowEnd] = useState(false);
+  const [endDate, setEndDate] = useState(today);
+
+  const age = getGestationalAge(pregnancy, today);
+  const dueDate = getDueDate(pregnancy);
+  const daysToGo = diffDays(today, dueDate);
+  const progress = Math.min(age.totalDays / (TOTAL_WEEKS * 7), 1);
+
+  const handleConfirm = () => {
+    if (ending === 'mistake') onUndo();
+    else if (ending) onEnd(ending, endDate);
+  };
+
+  return (
+    <div className="bg-white rounded-3xl shadow-xl shadow-pink-100/50 p-6 animate-slide-up space-y-6">
+      <div className="text-center">
+        <div className="inline-flex bg-rose-100 text-rose-500 p-3 rounded-full mb-2">
+          <Baby size={28} />
+        </div>
+        <p className="text-pink-400 text-sm font-medium uppercase tracking-wider">{t('pregnancy.week')}</p>
+        <h2 className="text-6xl font-bold text-pink-600 font-serif">{age.weeks}</h2>
+        <p className="text-pink-400 text-sm mt-1">
+          {age.days > 0
+            ? t('pregnancy.daysAndTrimester', { count: age.days, trimester: age.trimester })
+            : t('pregnancy.trimester', { trimester: age.trimester })}
+        </p>
+      </div>
+
+      <div>
+        <div className="relative h-3 bg-pink-50 rounded-full overflow-hidden">
+          <div className="absolute inset-y-0 start-0 bg-rose-400 rounded-full transition-all duration-1000" style={{ width: `${progress * 100}%` }} />
+          {TRIMESTER_STARTS.slice(1).map(week => (
+            <div key={week} className="absolute inset-y-0 w-0.5 bg-white" style={{ insetInlineStart: `${(week / TOTAL_WEEKS) * 100}%` }} />
+          ))}
+        </div>
+        <div className="flex text-[10px] font-bold text-pink-300 uppercase tracking-wider mt-1">
+          <span style={{ width: `${(TRIMESTER_STARTS[1] / TOTAL_WEEKS) * 100}%` }}>{t('pregnancy.trimester1')}</span>
+          <span style={{ width: `${((TRIMESTER_STARTS[2] - TRIMESTER_STARTS[1]) / TOTAL_WEEKS) * 100}%` }}>{t('pregnancy.trimester2')}</span>
+          <span>{t('pregnancy.trimester3')}</span>
+        </div>
+      </div>
+
+      <div className="bg-pink-50 rounded-2xl p-4 text-center">
+        <p className="text-xs font-bold text-pink-400 uppercase tracking-wider">{t('pregnancy.dueDate')}</p>
+        <p className="text-lg font-bold text-slate-700">
+          {i18n.formatDate(parseDate(dueDate), { month: 'long', day: 'numeric', year: 'numeric' })}
+        </p>
+        <p className="text-xs text-slate-400">
+          {daysToGo > 0 ? t('pregnancy.daysToGo', { count: daysToGo }) : t('pregnancy.anyDay')}
+          {' · '}{pregnancy.scan ? t('pregnancy.byScan') : t('pregnancy.byPeriod')}
+        </p>
+      </div>
+
+      {!showEnd ? (
+        <button onClick={() => setShowEnd(true)} className="w-full text-xs text-slate-400 hover:text-rose-500">
+          {t('pregnancy.ended')}
+        </button>
+      ) : (
+        <div className="space-y-3">
+          <p className="text-sm text-slate-600">{t('pregnancy.endedDescription')}</p>
+          <div className="space-y-2">
+            {ENDINGS.map(id => (
+              <button
+                key={id}
+                onClick={() => setEnding(id)}
+                className={`
+                  w-full text-start px-4 py-3 rounded-xl border text-sm transition-all
+                  ${ending === id ? 'bg-pink-100 border-pink-300 text-pink-600' : 'bg-white border-slate-100 text-slate-500'}
+                `}
+              >
+                {t(`pregnancy.ending.${id}`)}
+              </button>
+            ))}
+          </div>
+
+          {ending === 'loss' && (
+            <p className="text-sm text-slate-500 flex gap-2">
+              <Heart size={16} className="text-rose-300 shrink-0 mt-0.5" />
+              {t('pregnancy.lossNote')}
+            </p>
+          )}
+          {ending === 'birth' && (
+            <p className="text-sm text-slate-500">
+              {t('pregnancy.birthNote')}
+            </p>
+          )}
+
+          {ending && ending !== 'mistake' && (
+            <label className="flex items-center justify-between text-sm text-slate-600">
+              <span>{t('pregnancy.date')}</span>
+              <input
+                type="date"
+                value={endDate}
+                max={today}
+                min={pregnancy.lmp}
+                onChange={(e) => e.target.value && setEndDate(e.target.value)}
+                className="bg-pink-50 rounded-lg p-2 text-sm text-slate-600 outline-none"
+              />
+            </label>
+          )}
+
+          <div className="flex gap-2">
+            <button
+              onClick={() => { setShowEnd(false); setEnding(null); }}
+              className="flex-1 py-3 rounded-full text-sm font-bold text-slate-400 hover:text-rose-500"
+            >
+              {t('common.cancel')}
+            </button>
+            <button
+              onClick={handleConfirm}
+              disabled={!ending}
+              className="flex-1 bg-rose-500 text-white py-3 rounded-full text-sm font-bold shadow-lg shadow-rose-200 active:scale-95 transition-all disabled:opacity-50"
+            >
+              {t('common.save')}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PregnancyView;
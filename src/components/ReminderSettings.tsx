@@ -0,0 +1,134 @@
+import { Bell } from 'lucide-react';
+
+import type { ReminderSettings as Reminders } from '../types';
+import { DEFAULT_REMINDER_SETTINGS } from '../lib/reminders';
+import { notificationsSupported, requestNotificationPermission } from '../lib/notifications';
+import { useI18n } from '../hooks/useI18n';
+
+const DAY_OPTIONS = [1, 2, 3, 5, 7];
+
+// Reminder preferences inside the settings form. Saved together with the other settings.
+const ReminderSettings = ({
+  value,
+  onChange
+}: {
+  value: Reminders | undefined,
+  onChange: (value: Reminders | undefined) => void
+}) => {
+  const { t } = useI18n();
+  const enabled = !!value;
+  const reminders = value ?? DEFAULT_REMINDER_SETTINGS;
+  const update = (changes: Partial<Reminders>) => onChange({ ...reminders, ...changes });
+
+  const handleToggle = async () => {
+    if (enabled) {
+      onChange(undefined);
+      return;
+    }
+    const permission = await requestNotificationPermission();
+    if (permission !== 'granted') {
+      alert(t('reminders.blocked'));
+      return;
+    }
+    onChange(reminders);
+  };
+
+  if (!notificationsSupported()) {
+    return (
+      <div>
+        <label className="block text-sm font-bold text-slate-700 mb-2">{t('reminders.title')}</label>
+        <p className="text-xs text-slate-400">{t('reminders.unsupported')}</p>
+      </div>
+    );
+  }
+
+  const daySelect = (days: number, onSelect: (days: number) => void) => (
+    <select
+      value={days}
+      onChange={(e) => onSelect(Number(e.target.value))}
+      className="bg-pink-50 rounded-lg p-1 text-xs text-slate-600 outline-none"
+    >
+      {DAY_OPTIONS.map(n => <option key={n} value={n}>{t('reminders.days', { count: n })}</option>)}
+    </select>
+  );
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className="text-sm font-bold text-slate-700 flex items-center gap-2">
+          <Bell size={16} className="text-rose-400" /> {t('reminders.title')}
+        </label>
+        <button
+          onClick={handleToggle}
+          className={`
+            px-3 py-1 rounded-full text-xs font-bold transition-all
+            ${enabled ? 'bg-rose-500 text-white' : 'bg-pink-50 text-pink-400 hover:bg-pink-100'}
+          `}
+        >
+          {enabled ? t('common.on') : t('common.off')}
+        </button>
+      </div>
+      <p className="text-xs text-slate-400 mb-3">{t('reminders.description')}</p>
+
+      {enabled && (
+        <div className="bg-pink-50 rounded-2xl p-4 space-y-3 text-sm text-slate-600">
+          <div className="flex items-center justify-between">
+            <span>{t('reminders.time')}</span>
+            <input
+              type="time"
+              value={reminders.time}
+              onChange={(e) => e.target.value && update({ time: e.target.value })}
+              className="bg-white rounded-lg p-1 text-xs text-slate-600 outline-none"
+            />
+          </div>
+
+          <label className="flex items-center justify-between gap-2">
+            <span className="flex items-center gap-2">
+              <input type="checkbox" checked={reminders.periodSoon} onChange={(e) => update({ periodSoon: e.target.checked })} className="accent-rose-500" />
+              {t('reminders.periodSoon')}
+            </span>
+            {daySelect(reminders.periodSoonDays, (periodSoonDays) => update({ periodSoonDays }))}
+          </label>
+
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={reminders.fertileSoon} onChange={(e) => update({ fertileSoon: e.target.checked })} className="accent-rose-500" />
+            {t('reminders.fertileSoon')}
+          </label>
+
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={reminders.dailyLog} onChange={(e) => update({ dailyLog: e.target.checked })} className="accent-rose-500" />
+            {t('reminders.dailyLog')}
+          </label>
+
+          <label className="flex items-center justify-between gap-2">
+            <span className="flex items-center gap-2">
+              <input type="checkbox" checked={reminders.late} onChange={(e) => update({ late: e.target.checked })} className="accent-rose-500" />
+              {t('reminders.late')}
+            </span>
+            {daySelect(reminders.lateDays, (lateDays) => update({ lateDays }))}
+          </label>
+
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={reminders.discreet} onChange={(e) => update({ discreet: e.target.checked })} className="accent-rose-500" />
+            {t('reminders.discreet')}
+          </label>
+          {reminders.discreet && (
+            <label className="block text-[10px] font-bold text-pink-400 uppercase tracking-wider">
+              {t('reminders.discreetText')}
+              <input
+                type="text"
+                value={reminders.discreetText}
+                placeholder={t('reminders.discreetBody')}
+                maxLength={100}
+                onChange={(e) => update({ discreetText: e.target.value })}
+                className="mt-1 w-full bg-white rounded-lg p-2 text-sm font-normal normal-case tracking-normal text-slate-600 outline-none"
+              />
+            </label>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReminderSettings;
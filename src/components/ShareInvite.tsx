@@ -0,0 +1,115 @@
+import { useState } from 'react';
+import { Heart, Users } from 'lucide-react';
+
+import { SHARE_SCOPES, type Share } from '../lib/sharing';
+import { useI18n } from '../hooks/useI18n';
+
+// Opened from an invite link. `invite` is undefined while it loads and null when it's gone or
+// someone else already accepted it. Without an account, signing in comes first.
+const ShareInvite = ({
+  invite,
+  uid,
+  onSignIn,
+  onAccept,
+  onDecline
+}: {
+  invite: Share | null | undefined,
+  uid: string | null,
+  onSignIn: () => void,
+  onAccept: () => Promise<void>,
+  onDecline: () => void
+}) => {
+  const { t } = useI18n();
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAccept = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      await onAccept();
+    } catch (e) {
+      console.error("Accepting invite failed:", e);
+      setError(t('common.failed'));
+      setBusy(false);
+    }
+  };
+
+  const own = !!invite && invite.ownerUid === uid;
+  const accepted = !!invite && !!uid && invite.recipientUid === uid;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-pink-100 to-rose-200 flex items-center justify-center p-4">
+      <div className="bg-white rounded-3xl shadow-2xl p-8 max-w-md w-full animate-fade-in space-y-5">
+        <div className="flex items-center justify-center gap-3 text-rose-500">
+          <div className="bg-rose-100 p-3 rounded-xl">
+            <Heart className="fill-rose-500" size={28} />
+          </div>
+          <h1 className="font-serif text-3xl font-bold tracking-tight">Gyneo</h1>
+        </div>
+
+        {!uid ? (
+          <p className="text-sm text-slate-600 text-center">
+            {t('invite.signIn')}
+          </p>
+        ) : invite === undefined ? (
+          <p className="text-sm text-slate-400 text-center">{t('invite.opening')}</p>
+        ) : !invite || (invite.recipientUid && !accepted) ? (
+          <p className="text-sm text-slate-600 text-center">
+            {t('invite.gone')}
+          </p>
+        ) : own ? (
+          <p className="text-sm text-slate-600 text-center">
+            {t('invite.own')}
+          </p>
+        ) : (
+          <div className="space-y-3">
+            <p className="text-slate-600 text-center flex items-center justify-center gap-2">
+              <Users size={16} className="text-rose-400" /> {t('invite.wantsToShare', { name: invite.ownerName })}
+            </p>
+            <ul className="text-sm text-slate-600 space-y-1">
+              {SHARE_SCOPES.filter(s => invite.permissions[s.id]).map(s => (
+                <li key={s.id}>
+                  <span className="font-bold">{t(`share.${s.id}`)}</span> <span className="text-slate-400">· {t(`share.${s.id}Detail`)}</span>
+                </li>
+              ))}
+            </ul>
+            <p className="text-xs text-slate-400">
+              {t('invite.readOnly', { name: invite.ownerName, shared: t('nav.shared') })}
+            </p>
+          </div>
+        )}
+
+        {error && <p className="text-xs text-rose-500 text-center">{error}</p>}
+
+        <div className="flex gap-2">
+          <button
+            onClick={onDecline}
+            disabled={busy}
+            className="flex-1 py-3 rounded-full text-sm font-bold text-slate-400 hover:text-rose-500"
+          >
+            {uid && invite && !own && !invite.recipientUid ? t('invite.decline') : t('common.close')}
+          </button>
+          {!uid ? (
+            <button
+              onClick={onSignIn}
+              className="flex-1 bg-rose-500 text-white py-3 rounded-full text-sm font-bold shadow-lg shadow-rose-200 active:scale-95 transition-all"
+            >
+              {t('login.google')}
+            </button>
+          ) : invite && !own && (!invite.recipientUid || accepted) && (
+            <button
+              onClick={accepted ? onDecline : handleAccept}
+              disabled={busy}
+              className="flex-1 bg-rose-500 text-white py-3 rounded-full text-sm font-bold shadow-lg shadow-rose-200 active:scale-95 transition-all disabled:opacity-50"
+            >
+              {busy ? t('invite.accepting') : accepted ? t('invite.open') : t('invite.accept')}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShareInvite;
@@ -0,0 +1,167 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Users } from 'lucide-react';
+
+import { formatDate, parseDate } from '../lib/dates';
+import {
+  getSharedCycle,
+  getSharedDayStatus,
+  type Share,
+  type SharedProfile,
+  type SharingRepository
+} from '../lib/sharing';
+import type { StoredItem } from '../lib/storage';
+import { parseSymptom, translateItemName } from '../lib/symptoms';
+import { useI18n } from '../hooks/useI18n';
+import CycleWheel from './CycleWheel';
+import Calendar from './Calendar';
+
+// Read-only view of a cycle someone shared, showing only the scopes they picked
+const SharedProfileView = ({ share, sharing }: { share: StoredItem<Share>, sharing: SharingRepository }) => {
+  const { t, formatDate: formatLocalDate } = useI18n();
+  const { permissions, ownerName } = share.data;
+  // Tagged like hooks/useStorage.ts, so a change of share or permissions never shows stale scopes
+  const key = `${share.id}:${JSON.stringify(permissions)}`;
+  const [loaded, setLoaded] = useState<{ key: string, profile: SharedProfile } | null>(null);
+  const [selected, setSelected] = useState<string | null>(null);
+
+  useEffect(() => sharing.watchProfile(
+    share.id,
+    permissions,
+    (profile) => setLoaded({ key, profile }),
+    (e) => console.error("Watching shared profile failed:", e)
+  ), [sharing, share.id, permissions, key]);
+
+  const profile = loaded?.key === key ? loaded.profile : null;
+  const getStatus = useMemo(() => profile ? getSharedDayStatus(profile) : null, [profile]);
+
+  if (!profile || !getStatus) {
+    return <p className="text-sm text-slate-400 text-center py-8">{t('shared.loading', { name: ownerName })}</p>;
+  }
+
+  const { predictions, periodDays, fertileWindow, moods, symptoms } = profile;
+  const cycle = predictions ? getSharedCycle(predictions, periodDays) : null;
+  const today = formatDate(new Date());
+  const nextFertile = fertileWindow?.likely.find(w => w.end >= today);
+  const selectedMood = selected ? moods?.days[selected] : undefined;
+  const selectedSymptoms = selected ? symptoms?.days[selected] : undefined;
+
+  return (
+    <div className="space-y-6">
+      {predictions && cycle && (
+        predictions.nextPeriodStart ? (
+          <div className="bg-white rounded-3xl shadow-xl shadow-pink-100/50 p-6 animate-slide-up">
+            <CycleWheel {...cycle} />
+          </div>
+        ) : (
+          <p className="bg-white rounded-2xl p-4 text-sm text-slate-500 text-center">
+            {t('shared.noPredictions', { name: ownerName })}
+          </p>
+        )
+      )}
+
+      {nextFertile && (
+        <p className="bg-purple-50 rounded-2xl p-4 text-sm text-purple-600 text-center">
+          {nextFertile.start <= today
+            ? t('shared.fertileUntil', { date: formatLocalDate(parseDate(nextFertile.end), { month: 'long', day: 'numeric' }) })
+            : t('shared.nextFertile', { date: formatLocalDate(parseDate(nextFertile.start), { month: 'long', day: 'numeric' }) })}
+        </p>
+      )}
+
+      <Calendar
+        getStatus={getStatus}
+        legend={{
+          period: !!periodDays,
+          withdrawal: false,
+          predictions: !!predictions,
+          fertile: !!fertileWindow,
+          signs: false
+        }}
+        selected={selected}
+        onSelectDate={setSelected}
+      />
+
+      {selected && (moods || symptoms || periodDays) && (
+        <div className="bg-white rounded-2xl p-4 shadow-sm border border-pink-100 text-sm text-slate-600 space-y-1 animate-fade-in">
+          <p className="font-bold text-slate-700">
+            {formatLocalDate(parseDate(selected), { weekday: 'long', month: 'long', day: 'numeric' })}
+          </p>
+          {periodDays?.days[selected] && <p>{t('log.flowSummary', { flow: t(`flow.${periodDays.days[selected]}`) })}</p>}
+          {selectedMood && <p>{t('shared.mood', { mood: translateItemName(selectedMood, t) })}</p>}
+          {selectedSymptoms && (
+            <p>
+              {t('shared.symptoms', {
+                symptoms: selectedSymptoms.map(parseSymptom).map(s => `${translateItemName(s.name, t)} (${t(`severity.${s.severity}`)})`).join(', ')
+              })}
+            </p>
+          )}
+          {!periodDays?.days[selected] && !selectedMood && !selectedSymptoms && (
+            <p className="text-slate-400">{t('shared.nothing')}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// "Shared with me": every cycle shared with this user, one at a time
+const SharedDashboard = ({
+  shares,
+  sharing,
+  onLeave
+}: {
+  shares: StoredItem<Share>[],
+  sharing: SharingRepository,
+  onLeave: (id: string) => Promise<void>
+}) => {
+  const { t } = useI18n();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const share = shares.find(s => s.id === selectedId) ?? shares[0];
+
+  const handleLeave = async () => {
+    if (!confirm(t('shared.confirmLeave', { name: share.data.ownerName }))) return;
+    try {
+      await onLeave(share.id);
+    } catch (e) {
+      console.error("Leaving share failed:", e);
+      alert(t('common.failed'));
+    }
+  };
+
+  if (!share) {
+    return (
+      <div className="bg-white rounded-3xl shadow-xl shadow-pink-100/50 p-6 animate-slide-up text-center">
+        <Users size={28} className="text-rose-300 mx-auto mb-2" />
+        <p className="text-sm text-slate-500">
+          {t('shared.empty')}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {shares.length > 1 && (
+        <div className="flex gap-2 overflow-x-auto">
+          {shares.map(s => (
+            <button
+              key={s.id}
+              onClick={() => setSelectedId(s.id)}
+              className={`px-4 py-2 rounded-full text-sm font-bold whitespace-nowrap transition-colors ${s.id === share.id ? 'bg-rose-500 text-white' : 'bg-white text-slate-500 hover:bg-pink-100'}`}
+            >
+              {s.data.ownerName}
+            </button>
+          ))}
+        </div>
+      )}
+      <div className="flex items-center justify-between">
+        <h3 className="text-xl font-bold text-slate-700">{t('shared.title', { name: share.data.ownerName })}</h3>
+        <button onClick={handleLeave} className="text-xs font-bold text-slate-400 hover:text-rose-500">
+          {t('shared.leave')}
+        </button>
+      </div>
+      <SharedProfileView key={share.id} share={share} sharing={sharing} />
+    </div>
+  );
+};
+
+export default SharedDashboard;
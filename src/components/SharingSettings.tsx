@@ -0,0 +1,192 @@
+import { useState } from 'react';
+import { Copy, Users } from 'lucide-react';
+
+import {
+  DEFAULT_PERMISSIONS,
+  SHARE_SCOPES,
+  describePermissions,
+  getInviteLink,
+  type Share,
+  type SharePermissions
+} from '../lib/sharing';
+import type { StoredItem } from '../lib/storage';
+import { useI18n } from '../hooks/useI18n';
+
+// Invites a partner or caregiver, and controls what each one sees. Every change is saved straight
+// away, so it sits outside the settings form.
+const SharingSettings = ({
+  shares,
+  encrypted,
+  onCreate,
+  onChange,
+  onRevoke
+}: {
+  shares: StoredItem<Share>[],
+  encrypted: boolean,
+  onCreate: (permissions: SharePermissions) => Promise<string>,
+  onChange: (id: string, permissions: SharePermissions) => Promise<void>,
+  onRevoke: (id: string) => Promise<void>
+}) => {
+  const i18n = useI18n();
+  const { t } = i18n;
+  // 'new' while picking what a new invite shares, or the id of the share being edited
+  const [editing, setEditing] = useState<string | null>(null);
+  const [permissions, setPermissions] = useState<SharePermissions>(DEFAULT_PERMISSIONS);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState<string | null>(null);
+
+  const edit = (id: string | null, current: SharePermissions = DEFAULT_PERMISSIONS) => {
+    setEditing(id);
+    setPermissions(current);
+    setError(null);
+  };
+
+  const copyLink = (id: string) => {
+    navigator.clipboard?.writeText(getInviteLink(id));
+    setCopied(id);
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      setEditing(null);
+    } catch (e) {
+      console.error("Sharing change failed:", e);
+      setError(t('common.failed'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSave = () => run(async () => {
+    if (editing === 'new') copyLink(await onCreate(permissions));
+    else if (editing) await onChange(editing, permissions);
+  });
+
+  const handleRevoke = (share: StoredItem<Share>) => {
+    const who = share.data.recipientName ?? t('sharing.anyoneWithLink');
+    if (!confirm(t('sharing.confirmStop', { who }))) return;
+    run(() => onRevoke(share.id));
+  };
+
+  const picker = (
+    <div className="space-y-2">
+      {SHARE_SCOPES.map(scope => (
+        <label key={scope.id} className="flex items-start gap-2 text-sm text-slate-600 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={permissions[scope.id]}
+            onChange={(e) => setPermissions({ ...permissions, [scope.id]: e.target.checked })}
+            className="accent-rose-500 mt-1"
+          />
+          <span>
+            {t(`share.${scope.id}`)}
+            <span className="block text-xs text-slate-400">{t(`share.${scope.id}Detail`)}</span>
+          </span>
+        </label>
+      ))}
+      {error && <p className="text-xs text-rose-500">{error}</p>}
+      <div className="flex gap-2 pt-1">
+        <button
+          onClick={() => edit(null)}
+          disabled={busy}
+          className="flex-1 py-3 rounded-full text-sm font-bold text-slate-400 hover:text-rose-500"
+        >
+          {t('common.cancel')}
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={busy}
+          className="flex-1 bg-rose-500 text-white py-3 rounded-full text-sm font-bold shadow-lg shadow-rose-200 active:scale-95 transition-all disabled:opacity-50"
+        >
+          {busy ? t('common.saving') : editing === 'new' ? t('sharing.createLink') : t('common.save')}
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="bg-white rounded-3xl shadow-xl shadow-pink-100/50 p-6 animate-slide-up">
+      <h3 className="text-xl font-bold text-slate-700 mb-1 flex items-center gap-2">
+        <Users size={18} className="text-rose-400" /> {t('sharing.title')}
+      </h3>
+      <p className="text-xs text-slate-400 mb-4">
+        {t('sharing.description')}
+      </p>
+      {encrypted && (
+        <p className="text-xs text-amber-600 bg-amber-50 rounded-xl p-3 mb-4">
+          {t('sharing.notEncrypted')}
+        </p>
+      )}
+
+      <div className="space-y-3">
+        {shares.map(share => (
+          <div key={share.id} className="border border-pink-100 rounded-xl p-3">
+            <div className="flex items-center justify-between gap-2">
+              <div className="min-w-0">
+                <p className="text-sm font-bold text-slate-700 truncate">
+                  {share.data.recipientName ?? t('sharing.notAccepted')}
+                </p>
+                <p className="text-xs text-slate-400">{t('sharing.sees', { what: describePermissions(share.data.permissions, i18n) })}</p>
+              </div>
+              {!share.data.recipientUid && (
+                <button
+                  onClick={() => copyLink(share.id)}
+                  className="flex items-center gap-1 text-xs font-bold text-rose-500 shrink-0"
+                  title={t('sharing.copyLink')}
+                >
+                  <Copy size={14} /> {copied === share.id ? t('sharing.copied') : t('sharing.link')}
+                </button>
+              )}
+            </div>
+            {editing === share.id ? (
+              <div className="mt-3">{picker}</div>
+            ) : (
+              <div className="flex gap-4 mt-2">
+                <button
+                  onClick={() => edit(share.id, share.data.permissions)}
+                  disabled={busy}
+                  className="text-xs font-bold text-slate-400 hover:text-rose-500"
+                >
+                  {t('sharing.change')}
+                </button>
+                <button
+                  onClick={() => handleRevoke(share)}
+                  disabled={busy}
+                  className="text-xs font-bold text-slate-400 hover:text-rose-500"
+                >
+                  {t('sharing.stop')}
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+
+        {editing === 'new' ? (
+          <div className="border border-pink-100 rounded-xl p-3">
+            <p className="text-sm font-bold text-slate-700 mb-2">{t('sharing.whatToShare')}</p>
+            {picker}
+          </div>
+        ) : (
+          <button
+            onClick={() => edit('new')}
+            disabled={busy}
+            className="w-full bg-pink-50 text-rose-500 py-3 rounded-xl text-sm font-bold hover:bg-pink-100 transition-colors"
+          >
+            {t('sharing.invite')}
+          </button>
+        )}
+        {copied && editing === null && (
+          <p className="text-xs text-slate-400 text-center">
+            {t('sharing.linkCopied')}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SharingSettings;
@@ -0,0 +1,94 @@
+import { Sparkles } from 'lucide-react';
+
+import type { DailyLog } from '../types';
+import type { CycleSummary } from '../lib/cycleEngine';
+import { buildHeatmap, describeItem, describePattern, findPatterns } from '../lib/patterns';
+import { useI18n } from '../hooks/useI18n';
+
+const CELL = 10;
+const LABEL_WIDTH = 88;
+
+// Recurring symptoms and moods, and a symptom × cycle day heat-map across tracked cycles
+const SymptomPatterns = ({ logs, summary }: { logs: DailyLog[], summary: CycleSummary }) => {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const patterns = findPatterns(logs, summary);
+  const heatmap = buildHeatmap(logs, summary);
+  if (!heatmap) return null;
+
+  const width = LABEL_WIDTH + heatmap.days * CELL;
+  const height = heatmap.items.length * CELL + 14;
+
+  return (
+    <div className="bg-white rounded-3xl shadow-xl shadow-pink-100/50 p-6 animate-slide-up space-y-4">
+      <div>
+        <h3 className="font-bold text-slate-700 flex items-center gap-2">
+          <Sparkles size={16} className="text-rose-400" /> {t('patterns.title')}
+        </h3>
+        <p className="text-xs text-slate-400">
+          {t('patterns.from', { count: heatmap.tracked })}
+        </p>
+      </div>
+
+      {patterns.length > 0 ? (
+        <ul className="space-y-2">
+          {patterns.map(pattern => (
+            <li key={pattern.item} className="bg-pink-50 rounded-xl px-3 py-2 text-sm text-slate-600">
+              {describePattern(pattern, i18n)}
+              {pattern.phase && (
+                <span className="block text-[10px] font-bold text-pink-400 uppercase tracking-wider mt-0.5">
+                  {t('patterns.mostlyIn', { phase: t(`phase.${pattern.phase}`) })}
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-slate-400">{t('patterns.none')}</p>
+      )}
+
+      <div className="overflow-x-auto custom-scrollbar">
+        <svg width={width} height={height} className="block">
+          {heatmap.items.map((item, row) => {
+            const label = describeItem(item, i18n);
+            return (
+              <g key={item}>
+                <text x={0} y={row * CELL + CELL - 2} className="fill-slate-400 text-[9px]">
+                  {label.length > 16 ? `${label.slice(0, 15)}…` : label}
+                </text>
+                {heatmap.cells[row].map((share, day) => (
+                  <rect
+                    key={day}
+                    x={LABEL_WIDTH + day * CELL}
+                    y={row * CELL}
+                    width={CELL - 1}
+                    height={CELL - 1}
+                    rx={2}
+                    fill={share > 0 ? '#f43f5e' : '#fdf2f8'}
+                    fillOpacity={share > 0 ? 0.15 + share * 0.85 : 1}
+                  >
+                    <title>{t('patterns.cell', { item: label, day: day + 1, share: Math.round(share * 100) })}</title>
+                  </rect>
+                ))}
+              </g>
+            );
+          })}
+          {Array.from({ length: heatmap.days }, (_, day) => (day === 0 || (day + 1) % 7 === 0) && (
+            <text
+              key={day}
+              x={LABEL_WIDTH + day * CELL + CELL / 2}
+              y={height - 2}
+              textAnchor="middle"
+              className="fill-slate-300 text-[8px]"
+            >
+              {day + 1}
+            </text>
+          ))}
+        </svg>
+      </div>
+      <p className="text-[10px] text-slate-400">{t('patterns.legend')}</p>
+    </div>
+  );
+};
+
+export default SymptomPatterns;
@@ -0,0 +1,26 @@
+import { CloudOff, CloudUpload } from 'lucide-react';
+
+import { useI18n } from '../hooks/useI18n';
+
+// Firestore saves to this device first and sends writes once it can reach the server.
+// Nothing is shown while everything is in sync.
+const SyncStatus = ({ online, pending }: { online: boolean, pending: boolean }) => {
+  const { t } = useI18n();
+  if (online && !pending) return null;
+  return (
+    <div className="bg-white p-4 rounded-2xl shadow-sm border border-pink-100 flex items-center gap-3 text-sm text-slate-600 animate-fade-in">
+      {online ? (
+        <CloudUpload size={18} className="text-rose-400 shrink-0 animate-pulse" />
+      ) : (
+        <CloudOff size={18} className="text-slate-400 shrink-0" />
+      )}
+      <p>
+        {!online && pending && t('sync.offlinePending')}
+        {!online && !pending && t('sync.offline')}
+        {online && t('sync.syncing')}
+      </p>
+    </div>
+  );
+};
+
+export default SyncStatus;
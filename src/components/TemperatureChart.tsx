@@ -0,0 +1,142 @@
+import { useState } from 'react';
+import { ChevronLeft, ChevronRight, Thermometer } from 'lucide-react';
+
+import type { DailyLog, TemperatureUnit } from '../types';
+import type { Cycle } from '../lib/cycleEngine';
+import { diffDays, parseDate } from '../lib/dates';
+import { formatTemperature, fromCelsius, getTemperatures } from '../lib/temperature';
+import { useI18n } from '../hooks/useI18n';
+
+const WIDTH = 320;
+const HEIGHT = 180;
+const PAD_X = 32;
+const PAD_Y = 16;
+
+// Basal temperature curve for one cycle, with the coverline and ovulation day once a shift is confirmed
+const TemperatureChart = ({
+  logs,
+  cycles,
+  unit
+}: {
+  logs: DailyLog[],
+  cycles: Cycle[],
+  unit: TemperatureUnit
+}) => {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const charted = cycles.filter(c => getTemperatures(logs, c.start, c.end ?? '9999-12-31').length > 0);
+  // Index from the end, so the newest cycle stays selected as new cycles appear
+  const [offset, setOffset] = useState(0);
+
+  if (charted.length === 0) return null;
+
+  const index = Math.max(0, charted.length - 1 - offset);
+  const cycle = charted[index];
+  const readings = getTemperatures(logs, cycle.start, cycle.end ?? '9999-12-31');
+  const shift = cycle.thermalShift;
+
+  const toDisplay = (celsius: number) => fromCelsius(celsius, unit);
+  const values = readings.map(r => toDisplay(r.celsius));
+  if (shift) values.push(toDisplay(shift.coverline));
+  const margin = unit === 'F' ? 0.2 : 0.1;
+  const minY = Math.min(...values) - margin;
+  const maxY = Math.max(...values) + margin;
+
+  const lastDay = diffDays(cycle.start, cycle.end ?? readings[readings.length - 1].date) + 1;
+  const days = Math.max(lastDay, 14);
+
+  const x = (day: number) => PAD_X + ((day - 1) / (days - 1)) * (WIDTH - PAD_X * 2);
+  const y = (value: number) => HEIGHT - PAD_Y - ((value - minY) / (maxY - minY)) * (HEIGHT - PAD_Y * 2);
+  const dayOf = (date: string) => diffDays(cycle.start, date) + 1;
+
+  const line = readings
+    .filter(r => !r.disturbed)
+    .map((r, i) => `${i === 0 ? 'M' : 'L'} ${x(dayOf(r.date))} ${y(toDisplay(r.celsius))}`)
+    .join(' ');
+
+  const title = i18n.formatDate(parseDate(cycle.start), { month: 'short', day: 'numeric', year: 'numeric' });
+
+  return (
+    <div className="bg-white rounded-3xl shadow-xl shadow-pink-100/50 p-6 animate-slide-up">
+      <div className="flex justify-between items-center mb-4">
+        <button
+          onClick={() => setOffset(offset + 1)}
+          disabled={index === 0}
+          className="p-2 bg-pink-50 rounded-full text-pink-600 hover:bg-pink-100 transition-colors disabled:opacity-30"
+        >
+          <ChevronLeft size={16} className="rtl:rotate-180" />
+        </button>
+        <div className="text-center">
+          <h3 className="font-bold text-slate-700 flex items-center gap-2 justify-center">
+            <Thermometer size={16} className="text-rose-400" /> {t('temperature.title')}
+          </h3>
+          <p className="text-xs text-slate-400">{t('temperature.cycleStarting', { date: title })}</p>
+        </div>
+        <button
+          onClick={() => setOffset(offset - 1)}
+          disabled={index === charted.length - 1}
+          className="p-2 bg-pink-50 rounded-full text-pink-600 hover:bg-pink-100 transition-colors disabled:opacity-30"
+        >
+          <ChevronRight size={16} className="rtl:rotate-180" />
+        </button>
+      </div>
+
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full">
+        {/* Axis labels */}
+        <text x={4} y={PAD_Y + 4} className="fill-slate-300 text-[9px]">{maxY.toFixed(1)}</text>
+        <text x={4} y={HEIGHT - PAD_Y} className="fill-slate-300 text-[9px]">{minY.toFixed(1)}</text>
+        <text x={x(1)} y={HEIGHT - 2} textAnchor="middle" className="fill-slate-300 text-[9px]">1</text>
+        <text x={x(days)} y={HEIGHT - 2} textAnchor="middle" className="fill-slate-300 text-[9px]">{days}</text>
+
+        {shift && (
+          <>
+            {/* Coverline */}
+            <line
+              x1={PAD_X} x2={WIDTH - PAD_X}
+              y1={y(toDisplay(shift.coverline))} y2={y(toDisplay(shift.coverline))}
+              stroke="#c084fc" strokeDasharray="4 3"
+            />
+            {/* Ovulation day */}
+            <line
+              x1={x(dayOf(shift.ovulationDate))} x2={x(dayOf(shift.ovulationDate))}
+              y1={PAD_Y} y2={HEIGHT - PAD_Y}
+              stroke="#e9d5ff" strokeWidth={6}
+            />
+          </>
+        )}
+
+        <path d={line} fill="none" stroke="#f43f5e" strokeWidth={2} strokeLinejoin="round" />
+
+        {readings.map(r => (
+          <circle
+            key={r.date}
+            cx={x(dayOf(r.date))}
+            cy={y(toDisplay(r.celsius))}
+            r={3.5}
+            fill={r.disturbed ? 'white' : '#f43f5e'}
+            stroke="#f43f5e"
+            strokeWidth={1.5}
+          >
+            <title>
+              {t(r.disturbed ? 'temperature.readingDisturbed' : 'temperature.reading', { day: dayOf(r.date), value: formatTemperature(r.celsius, unit) })}
+            </title>
+          </circle>
+        ))}
+      </svg>
+
+      <p className="text-xs text-center mt-3 text-slate-400">
+        {shift
+          ? t('temperature.confirmed', {
+            day: dayOf(shift.ovulationDate),
+            date: i18n.formatDate(parseDate(shift.ovulationDate), { month: 'short', day: 'numeric' }),
+            coverline: formatTemperature(shift.coverline, unit),
+          })
+          : cycle.end === null
+            ? t('temperature.noShiftYet')
+            : t('temperature.noShift')}
+      </p>
+    </div>
+  );
+};
+
+export default TemperatureChart;
@@ -0,0 +1,196 @@
+import { useState } from 'react';
+import { Upload } from 'lucide-react';
+
+import type { CatalogItem, DailyLog } from '../types';
+import type { ImportMode, ParsedImport } from '../lib/backup';
+import {
+  createAppleHealthReader,
+  finalizeDraft,
+  parseTrackerCsv,
+  type ImportDraft,
+  type SymptomMapping
+} from '../lib/trackerImport';
+import { translateItemName } from '../lib/symptoms';
+import type { Translator } from '../lib/i18n';
+import { useI18n } from '../hooks/useI18n';
+import ImportPreview from './ImportPreview';
+
+type Source = 'apple' | 'csv';
+
+const readAppleHealth = async (file: File, i18n: Translator): Promise<ImportDraft> => {
+  const reader = createAppleHealthReader(i18n);
+  const stream = file.stream().pipeThrough(new TextDecoderStream()).getReader();
+  for (;;) {
+    const { done, value } = await stream.read();
+    if (done) break;
+    reader.push(value);
+  }
+  return reader.finish();
+};
+
+const mappingToValue = (mapping: SymptomMapping) =>
+  mapping.action === 'map' ? `map:${mapping.to}` : mapping.action;
+
+const valueToMapping = (value: string): SymptomMapping =>
+  value.startsWith('map:') ? { action: 'map', to: value.slice(4) } : { action: value as 'keep' | 'skip' };
+
+// Brings in history from Apple Health or another tracker's CSV export.
+// Symptom names the app doesn't know are reviewed before anything is written.
+const TrackerImport = ({
+  logs,
+  symptomCatalog,
+  onImport
+}: {
+  logs: DailyLog[],
+  symptomCatalog: CatalogItem[],
+  onImport: (parsed: ParsedImport, mode: ImportMode) => Promise<void>
+}) => {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const [source, setSource] = useState<Source>('apple');
+  const [reading, setReading] = useState(false);
+  const [fileName, setFileName] = useState('');
+  const [draft, setDraft] = useState<ImportDraft | null>(null);
+  const [mappings, setMappings] = useState<Record<string, SymptomMapping>>({});
+  const [parsed, setParsed] = useState<ParsedImport | null>(null);
+
+  const reset = () => {
+    setDraft(null);
+    setParsed(null);
+    setMappings({});
+  };
+
+  const finishReview = (current: ImportDraft, choices: Record<string, SymptomMapping>) => {
+    const { logs: imported, errors } = finalizeDraft(current, choices);
+    setParsed({
+      format: source === 'apple' ? 'xml' : 'csv',
+      settings: null,
+      logs: imported,
+      errors,
+      duplicates: 0,
+    });
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setReading(true);
+    try {
+      const result = source === 'apple'
+        ? await readAppleHealth(file, i18n)
+        : parseTrackerCsv(await file.text(), i18n, file.name);
+      setFileName(file.name);
+      setMappings({});
+      setDraft(result);
+      if (result.unknownSymptoms.size === 0) finishReview(result, {});
+    } catch (e) {
+      console.error("Tracker import failed:", e);
+      alert(t('import.readFailed'));
+    } finally {
+      setReading(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-3xl shadow-xl shadow-pink-100/50 p-6 animate-slide-up">
+      <h3 className="text-xl font-bold text-slate-700 mb-1">{t('import.title')}</h3>
+      <p className="text-xs text-slate-400 mb-6">{t('import.description')}</p>
+
+      {!draft && (
+        <>
+          <div className="flex bg-pink-50 p-1 rounded-xl mb-3">
+            {([['apple', 'import.appleHealth'], ['csv', 'import.otherApp']] as const).map(([id, label]) => (
+              <button
+                key={id}
+                onClick={() => setSource(id)}
+                className={`
+                  flex-1 py-2 rounded-lg text-sm font-medium transition-all
+                  ${source === id ? 'bg-white text-rose-500 shadow-sm' : 'text-pink-300 hover:text-pink-500'}
+                `}
+              >
+                {t(label)}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-slate-400 mb-3">
+            {source === 'apple'
+              ? t('import.appleHelp')
+              : t('import.csvHelp')}
+          </p>
+          <label className={`
+            flex items-center justify-center gap-2 border border-dashed border-pink-200 text-pink-400 py-3 rounded-xl text-sm font-bold cursor-pointer hover:bg-pink-50 transition-colors
+            ${reading ? 'opacity-50 pointer-events-none' : ''}
+          `}>
+            <Upload size={16} /> {reading ? t('import.reading') : t('import.chooseFile')}
+            <input
+              type="file"
+              accept={source === 'apple' ? '.xml,text/xml,application/xml' : '.csv,text/csv'}
+              className="hidden"
+              onChange={(e) => { handleFile(e.target.files?.[0]); e.target.value = ''; }}
+            />
+          </label>
+        </>
+      )}
+
+      {draft && !parsed && (
+        <div className="bg-pink-50 rounded-2xl p-4 space-y-4">
+          <div>
+            <p className="text-sm font-bold text-slate-700">{t('import.reviewTitle')}</p>
+            <p className="text-xs text-slate-400">
+              {t('import.reviewDescription', { source: draft.source })}
+            </p>
+          </div>
+          <ul className="space-y-2">
+            {[...draft.unknownSymptoms].map(([name, days]) => (
+              <li key={name} className="flex items-center justify-between gap-2 bg-white rounded-xl px-3 py-2">
+                <div>
+                  <p className="text-sm font-medium text-slate-700">{name}</p>
+                  <p className="text-[10px] text-slate-400">{t('import.days', { count: days })}</p>
+                </div>
+                <select
+                  value={mappingToValue(mappings[name] ?? { action: 'keep' })}
+                  onChange={(e) => setMappings({ ...mappings, [name]: valueToMapping(e.target.value) })}
+                  className="bg-pink-50 rounded-lg p-2 text-xs text-slate-600 outline-none"
+                >
+                  <option value="keep">{t('import.keepAs', { name })}</option>
+                  {symptomCatalog.map(({ name: symptom }) => (
+                    <option key={symptom} value={`map:${symptom}`}>{t('import.sameAs', { name: translateItemName(symptom, t) })}</option>
+                  ))}
+                  <option value="skip">{t('import.skip')}</option>
+                </select>
+              </li>
+            ))}
+          </ul>
+          <div className="flex gap-2">
+            <button
+              onClick={reset}
+              className="flex-1 py-3 rounded-full text-sm font-bold text-slate-400 hover:text-rose-500"
+            >
+              {t('common.cancel')}
+            </button>
+            <button
+              onClick={() => finishReview(draft, mappings)}
+              className="flex-1 bg-rose-500 text-white py-3 rounded-full text-sm font-bold shadow-lg shadow-rose-200 active:scale-95 transition-all"
+            >
+              {t('import.continue')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {parsed && (
+        <ImportPreview
+          parsed={parsed}
+          fileName={fileName}
+          logs={logs}
+          onApply={async (mode) => {
+            await onImport(parsed, mode);
+            reset();
+          }}
+          onCancel={reset}
+        />
+      )}
+    </div>
+  );
+};
+
+export default TrackerImport;
@@ -0,0 +1,45 @@
+import { Sparkles } from 'lucide-react';
+
+import type { DailyLog } from '../types';
+import type { CycleSummary } from '../lib/cycleEngine';
+import { addDays, formatDate, parseDate } from '../lib/dates';
+import type { Translator } from '../lib/i18n';
+import { describeItem, describePattern, findPatterns, getUpcomingPatterns } from '../lib/patterns';
+import { useI18n } from '../hooks/useI18n';
+
+const describeDay = (date: string, today: string, i18n: Translator) => {
+  if (date === today) return i18n.t('expect.today');
+  if (date === addDays(today, 1)) return i18n.t('expect.tomorrow');
+  return i18n.formatDate(parseDate(date), { weekday: 'long' });
+};
+
+// Dashboard card: what the user's own patterns suggest for the next few days
+const WhatToExpect = ({ logs, summary }: { logs: DailyLog[], summary: CycleSummary }) => {
+  const i18n = useI18n();
+  const today = formatDate(new Date());
+  const upcoming = getUpcomingPatterns(findPatterns(logs, summary), summary, today);
+  if (upcoming.length === 0) return null;
+
+  return (
+    <div className="bg-white p-4 rounded-2xl shadow-sm border border-pink-100">
+      <h3 className="text-sm font-bold text-slate-700 flex items-center gap-2 mb-3">
+        <Sparkles size={16} className="text-rose-400" /> {i18n.t('expect.title')}
+      </h3>
+      <ul className="space-y-2">
+        {upcoming.map(({ pattern, date }) => (
+          <li key={pattern.item} className="flex gap-3 text-sm">
+            <span className="w-20 shrink-0 text-xs font-bold text-pink-400 uppercase tracking-wider pt-0.5">
+              {describeDay(date, today, i18n)}
+            </span>
+            <span className="text-slate-600">
+              {describeItem(pattern.item, i18n)}
+              <span className="block text-xs text-slate-400">{describePattern(pattern, i18n)}</span>
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default WhatToExpect;
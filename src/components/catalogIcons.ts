@@ -0,0 +1,43 @@
+import { createElement } from 'react';
+import {
+  Activity,
+  Angry,
+  Annoyed,
+  BatteryLow,
+  Bed,
+  Bone,
+  Brain,
+  Candy,
+  Circle,
+  Cloud,
+  Coffee,
+  Cookie,
+  Droplets,
+  Flame,
+  Frown,
+  Heart,
+  Laugh,
+  Meh,
+  Moon,
+  Pill,
+  Smile,
+  Sparkles,
+  Sun,
+  Thermometer,
+  Utensils,
+  Waves,
+  Wind,
+  Zap,
+  type LucideIcon,
+  type LucideProps
+} from 'lucide-react';
+
+// Icons a symptom or mood can use, settings store the key
+export const CATALOG_ICONS: Record<string, LucideIcon> = {
+  Activity, Angry, Annoyed, BatteryLow, Bed, Bone, Brain, Candy, Cloud, Coffee, Cookie, Droplets,
+  Flame, Frown, Heart, Laugh, Meh, Moon, Pill, Smile, Sparkles, Sun, Thermometer, Utensils, Waves, Wind, Zap,
+};
+
+// Unknown names (e.g. from a newer version) fall back to a plain circle
+export const CatalogIcon = ({ name, ...props }: { name: string } & LucideProps) =>
+  createElement(CATALOG_ICONS[name] ?? Circle, props);
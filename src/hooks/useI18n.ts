@@ -0,0 +1,15 @@
+import { createContext, useContext } from 'react';
+
+import { createTranslator, getDeviceLocales, resolveLanguage, resolveLocale, type Translator } from '../lib/i18n';
+
+// --- Translation Hook ---
+// The app provides a translator built from the user's settings. Screens shown before those are
+// known, like the login screen, fall back to the device's language.
+
+const deviceLanguage = resolveLanguage(undefined, getDeviceLocales());
+
+export const I18nContext = createContext<Translator>(
+  createTranslator(deviceLanguage, resolveLocale(deviceLanguage, getDeviceLocales()))
+);
+
+export const useI18n = () => useContext(I18nContext);
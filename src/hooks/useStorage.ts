@@ -0,0 +1,62 @@
+import { useEffect, useState } from 'react';
+
+import {
+  IN_SYNC,
+  type CollectionRepository,
+  type DocumentRepository,
+  type StoredItem,
+  type SyncState
+} from '../lib/storage';
+
+// --- Storage Hooks ---
+// Subscribe a component to a repository from lib/storage.ts. Results are tagged with the
+// repository they came from, so switching to another one (a different user, or guest mode)
+// never shows the previous one's data: until the new one answers, `loaded` is false.
+
+// Shared, so an unloaded collection gives the same empty array on every render
+const NO_ITEMS: never[] = [];
+
+export interface CollectionSnapshot<T> {
+  items: StoredItem<T>[];
+  state: SyncState;
+  loaded: boolean;
+}
+
+export interface DocumentSnapshot<T> {
+  value: T | null;
+  state: SyncState;
+  loaded: boolean;
+}
+
+// Only needs `watch`, so read-only collections such as lib/sharing.ts's shares work too
+export const useCollection = <T>(repository: Pick<CollectionRepository<T>, 'watch'> | null): CollectionSnapshot<T> => {
+  const [snapshot, setSnapshot] = useState<{ source: Pick<CollectionRepository<T>, 'watch'>, items: StoredItem<T>[], state: SyncState } | null>(null);
+
+  useEffect(() => {
+    if (!repository) return;
+    return repository.watch(
+      (items, state) => setSnapshot({ source: repository, items, state }),
+      (e) => console.error("Watching collection failed:", e)
+    );
+  }, [repository]);
+
+  return snapshot && snapshot.source === repository
+    ? { items: snapshot.items, state: snapshot.state, loaded: true }
+    : { items: NO_ITEMS, state: IN_SYNC, loaded: false };
+};
+
+export const useDocument = <T>(repository: DocumentRepository<T> | null): DocumentSnapshot<T> => {
+  const [snapshot, setSnapshot] = useState<{ source: DocumentRepository<T>, value: T | null, state: SyncState } | null>(null);
+
+  useEffect(() => {
+    if (!repository) return;
+    return repository.watch(
+      (value, state) => setSnapshot({ source: repository, value, state }),
+      (e) => console.error("Watching document failed:", e)
+    );
+  }, [repository]);
+
+  return snapshot && snapshot.source === repository
+    ? { value: snapshot.value, state: snapshot.state, loaded: true }
+    : { value: null, state: IN_SYNC, loaded: false };
+};
@@ -0,0 +1,145 @@
+// --- App Lock ---
+// A PIN (and optionally the device's fingerprint or face unlock) in front of the app. It is
+// per device, so it lives in localStorage, keyed by user. The PIN is only kept as a salted
+// PBKDF2 hash; repeated failures lock the screen for longer and longer.
+
+export interface PinHash {
+  salt: string; // Base64
+  hash: string;
+  iterations: number;
+}
+
+export interface AppLock {
+  pin: PinHash;
+  credentialId: string | null; // WebAuthn platform authenticator, base64url
+  autoLockMinutes: number; // Of inactivity; 0 only locks when the app is opened again
+  lockWhenHidden: boolean; // Switching tabs or apps locks straight away
+  decoy: boolean; // The lock screen shows a notes app's name (appLock.decoyName) instead of Gyneo
+  failedAttempts: number; // In a row, kept across reloads
+  lockedUntil: number | null; // Epoch ms, after too many failures
+}
+
+export const MIN_PIN_LENGTH = 4;
+export const MAX_PIN_LENGTH = 8;
+export const AUTO_LOCK_OPTIONS = [0, 1, 5, 15, 30];
+
+const PIN_ITERATIONS = 100000;
+const FREE_ATTEMPTS = 5;
+const FIRST_LOCKOUT_MS = 30 * 1000;
+const MAX_LOCKOUT_MS = 60 * 60 * 1000;
+
+const storageKey = (uid: string) => `gyneo-app-lock:${uid}`;
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+const toBase64Url = (bytes: Uint8Array) => toBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (text: string) => fromBase64(text.replace(/-/g, '+').replace(/_/g, '/'));
+
+export const loadAppLock = (uid: string): AppLock | null => {
+  try {
+    const raw = localStorage.getItem(storageKey(uid));
+    return raw ? JSON.parse(raw) as AppLock : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveAppLock = (uid: string, lock: AppLock | null) => {
+  if (lock) localStorage.setItem(storageKey(uid), JSON.stringify(lock));
+  else localStorage.removeItem(storageKey(uid));
+};
+
+const derive = async (pin: string, salt: Uint8Array<ArrayBuffer>, iterations: number) => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(pin), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', salt, iterations, hash: 'SHA-256' }, material, 256);
+  return new Uint8Array(bits);
+};
+
+export const isValidPin = (pin: string) =>
+  new RegExp(`^\\d{${MIN_PIN_LENGTH},${MAX_PIN_LENGTH}}$`).test(pin);
+
+export const hashPin = async (pin: string): Promise<PinHash> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  return { salt: toBase64(salt), hash: toBase64(await derive(pin, salt, PIN_ITERATIONS)), iterations: PIN_ITERATIONS };
+};
+
+export const verifyPin = async (pin: string, stored: PinHash): Promise<boolean> => {
+  const hash = await derive(pin, fromBase64(stored.salt), stored.iterations);
+  const expected = fromBase64(stored.hash);
+  // Compare every byte, so timing says nothing about how much matched
+  let diff = hash.length ^ expected.length;
+  for (let i = 0; i < hash.length; i++) diff |= hash[i] ^ (expected[i] ?? 0);
+  return diff === 0;
+};
+
+export const createAppLock = async (pin: string): Promise<AppLock> => ({
+  pin: await hashPin(pin),
+  credentialId: null,
+  autoLockMinutes: 5,
+  lockWhenHidden: false,
+  decoy: false,
+  failedAttempts: 0,
+  lockedUntil: null,
+});
+
+// 30 seconds after the fifth failure in a row, doubling with each one after, up to an hour
+export const registerFailure = (lock: AppLock, now: number): AppLock => {
+  const failedAttempts = lock.failedAttempts + 1;
+  if (failedAttempts < FREE_ATTEMPTS) return { ...lock, failedAttempts };
+  const wait = Math.min(FIRST_LOCKOUT_MS * 2 ** (failedAttempts - FREE_ATTEMPTS), MAX_LOCKOUT_MS);
+  return { ...lock, failedAttempts, lockedUntil: now + wait };
+};
+
+export const registerSuccess = (lock: AppLock): AppLock => ({ ...lock, failedAttempts: 0, lockedUntil: null });
+
+// Seconds until the PIN can be tried again, 0 when it can
+export const getLockoutSeconds = (lock: AppLock, now: number): number =>
+  lock.lockedUntil && lock.lockedUntil > now ? Math.ceil((lock.lockedUntil - now) / 1000) : 0;
+
+// --- Platform Authenticator ---
+// There's no server to check the assertion against: what unlocks the app is the browser
+// confirming that the device's owner verified (fingerprint, face, device PIN) for this credential.
+
+export const platformAuthenticatorAvailable = async (): Promise<boolean> => {
+  if (!window.PublicKeyCredential) return false;
+  try {
+    return await PublicKeyCredential.isUserVerifyingPlatformAuthenticatorAvailable();
+  } catch {
+    return false;
+  }
+};
+
+export const registerPlatformCredential = async (uid: string, name: string): Promise<string> => {
+  const credential = await navigator.credentials.create({
+    publicKey: {
+      challenge: crypto.getRandomValues(new Uint8Array(32)),
+      rp: { name: 'Gyneo' },
+      user: { id: new TextEncoder().encode(uid), name, displayName: name },
+      pubKeyCredParams: [{ type: 'public-key', alg: -7 }, { type: 'public-key', alg: -257 }],
+      authenticatorSelection: { authenticatorAttachment: 'platform', userVerification: 'required' },
+      timeout: 60000,
+    },
+  }) as PublicKeyCredential | null;
+  if (!credential) throw new Error('No credential was created');
+  return toBase64Url(new Uint8Array(credential.rawId));
+};
+
+// False when the prompt was cancelled or failed
+export const verifyPlatformCredential = async (credentialId: string): Promise<boolean> => {
+  try {
+    const assertion = await navigator.credentials.get({
+      publicKey: {
+        challenge: crypto.getRandomValues(new Uint8Array(32)),
+        allowCredentials: [{ type: 'public-key', id: fromBase64Url(credentialId) }],
+        userVerification: 'required',
+        timeout: 60000,
+      },
+    });
+    return !!assertion;
+  } catch {
+    return false;
+  }
+};
@@ -0,0 +1,381 @@
+import type {
+  CatalogItem,
+  CervicalMucus,
+  ContraceptionMethod,
+  DailyLog,
+  FlowLevel,
+  LhResult,
+  LogData,
+  Pregnancy,
+  PregnancyOutcome,
+  PregnancyTestResult,
+  TemperatureUnit,
+  UserSettings,
+  WeekStart
+} from '../types';
+import { MUCUS_TYPES } from './fertility';
+import { CONTRACEPTION_OPTIONS } from './contraception';
+import { CYCLE_LENGTH_RANGE, PERIOD_LENGTH_RANGE } from './cycleEngine';
+import { formatDate, parseDate } from './dates';
+import { LANGUAGES, WEEK_STARTS } from './i18n';
+import type { Translator } from './i18n';
+import { parseCsvRecords, toCsvRow } from './files';
+import { normalizeReminderSettings } from './reminders';
+import { MAX_NOTE_LENGTH } from './notes';
+import { MAX_PHOTO_LENGTH } from './images';
+import { isPlausibleTemperature } from './temperature';
+import {
+  formatSymptom,
+  MAX_NAME_LENGTH,
+  MAX_SYMPTOMS_PER_DAY,
+  normalizeCatalog,
+  normalizeSymptoms,
+  parseSymptom
+} from './symptoms';
+
+// --- Backup & Restore ---
+// JSON is the complete, versioned backup. CSV is a flat, one-row-per-day view for spreadsheets
+// and leaves out LH strip photos.
+
+export const BACKUP_VERSION = 1;
+
+export interface Backup {
+  app: 'gyneo';
+  version: number;
+  exportedAt: string; // ISO timestamp
+  settings: UserSettings;
+  logs: LogData[];
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+export interface ParsedImport {
+  format: 'json' | 'csv' | 'xml';
+  settings: UserSettings | null;
+  logs: LogData[];
+  errors: string[]; // Rows that were skipped, and why
+  duplicates: number; // Rows sharing a date with a later row, which wins
+}
+
+export interface ImportPlan {
+  added: LogData[];
+  updated: LogData[];
+  unchanged: LogData[];
+  removed: string[]; // Dates deleted in replace mode
+}
+
+const FLOW_LEVELS: FlowLevel[] = ['Spotting', 'Light', 'Medium', 'Heavy'];
+const LH_RESULTS: LhResult[] = ['Negative', 'High', 'Peak'];
+const PREGNANCY_RESULTS: PregnancyTestResult[] = ['Negative', 'Positive'];
+
+export const toLogData = (log: DailyLog): LogData => {
+  const data: Partial<DailyLog> = { ...log };
+  delete data.id;
+  delete data.createdAt;
+  return data as LogData;
+};
+
+// --- Export ---
+
+export const toJsonBackup = (logs: DailyLog[], settings: UserSettings): string => {
+  const backup: Backup = {
+    app: 'gyneo',
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    settings,
+    logs: logs.map(toLogData).sort((a, b) => a.date.localeCompare(b.date)),
+  };
+  return JSON.stringify(backup, null, 2);
+};
+
+const CSV_COLUMNS = [
+  'date', 'flow', 'mood', 'symptoms',
+  'temperature', 'temperature_unit', 'temperature_time', 'temperature_disturbed',
+  'mucus', 'lh_test', 'pregnancy_test', 'contraception_taken', 'planned', 'note'
+];
+
+export const toCsv = (logs: DailyLog[]): string => {
+  const rows = [...logs]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map(l => toCsvRow([
+      l.date,
+      l.flow,
+      l.mood,
+      l.symptoms.map(formatSymptom).join('; '),
+      l.temperature?.value,
+      l.temperature?.unit,
+      l.temperature?.time,
+      l.temperature ? l.temperature.disturbed : null,
+      l.mucus,
+      l.lhTest?.result,
+      l.pregnancyTest,
+      l.contraceptionTaken ? true : null,
+      l.planned ? true : null,
+      l.note,
+    ]));
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+};
+
+export const backupFilename = (extension: string) => `gyneo-backup-${formatDate(new Date())}.${extension}`;
+
+// --- Validation ---
+
+const isValidDate = (value: unknown): value is string =>
+  typeof value === 'string' &&
+  /^\d{4}-\d{2}-\d{2}$/.test(value) &&
+  formatDate(parseDate(value)) === value;
+
+const oneOf = <T extends string>(allowed: T[], value: unknown, field: string): T | null => {
+  if (value === null || value === undefined || value === '') return null;
+  if (allowed.includes(value as T)) return value as T;
+  throw new Error(`unknown ${field} "${value}"`);
+};
+
+// Checks an untrusted log (from a file, an import...) and returns a clean copy.
+// Throws with a short reason when the entry can't be used.
+export const validateLog = (raw: unknown): LogData => {
+  if (typeof raw !== 'object' || raw === null) throw new Error('not an object');
+  const entry = raw as Record<string, unknown>;
+
+  if (!isValidDate(entry.date)) throw new Error(`invalid date "${entry.date}"`);
+
+  // Plain names are backups from before severities
+  const symptoms = entry.symptoms ?? [];
+  if (!Array.isArray(symptoms) || symptoms.some(s => typeof s !== 'string' && typeof s?.name !== 'string')) {
+    throw new Error('symptoms must be a list of names');
+  }
+  if (entry.mood !== null && entry.mood !== undefined && typeof entry.mood !== 'string') {
+    throw new Error('mood must be text');
+  }
+  if (typeof entry.mood === 'string' && entry.mood.length > MAX_NAME_LENGTH) {
+    throw new Error(`mood is longer than ${MAX_NAME_LENGTH} characters`);
+  }
+
+  const log: LogData = {
+    date: entry.date,
+    flow: oneOf(FLOW_LEVELS, entry.flow, 'flow'),
+    mood: (entry.mood as string) || null,
+    symptoms: normalizeSymptoms(symptoms),
+  };
+  if (log.symptoms.length > MAX_SYMPTOMS_PER_DAY) throw new Error(`more than ${MAX_SYMPTOMS_PER_DAY} symptoms`);
+  const longName = log.symptoms.find(s => s.name.length > MAX_NAME_LENGTH);
+  if (longName) throw new Error(`symptom name is longer than ${MAX_NAME_LENGTH} characters`);
+
+  if (entry.temperature) {
+    const t = entry.temperature as Record<string, unknown>;
+    const value = Number(t.value);
+    if (!Number.isFinite(value)) throw new Error('temperature must be a number');
+    const unit = oneOf<TemperatureUnit>(['C', 'F'], t.unit, 'temperature unit') ?? 'C';
+    if (!isPlausibleTemperature(value, unit)) throw new Error(`implausible temperature ${value}°${unit}`);
+    log.temperature = {
+      value,
+      unit,
+      time: typeof t.time === 'string' && /^\d{2}:\d{2}$/.test(t.time) ? t.time : null,
+      disturbed: t.disturbed === true,
+    };
+  }
+
+  const mucus = oneOf<CervicalMucus>(MUCUS_TYPES, entry.mucus, 'mucus type');
+  if (mucus) log.mucus = mucus;
+
+  if (entry.lhTest) {
+    const lh = entry.lhTest as Record<string, unknown>;
+    const result = oneOf(LH_RESULTS, lh.result, 'LH result');
+    if (result) {
+      if (typeof lh.photo === 'string' && lh.photo.length >= MAX_PHOTO_LENGTH) {
+        throw new Error(`LH test photo is larger than ${MAX_PHOTO_LENGTH} characters`);
+      }
+      log.lhTest = {
+        result,
+        photo: typeof lh.photo === 'string' && lh.photo.startsWith('data:image/') ? lh.photo : null,
+      };
+    }
+  }
+
+  const pregnancyTest = oneOf(PREGNANCY_RESULTS, entry.pregnancyTest, 'pregnancy test result');
+  if (pregnancyTest) log.pregnancyTest = pregnancyTest;
+
+  if (entry.contraceptionTaken === true) log.contraceptionTaken = true;
+  if (entry.planned === true) log.planned = true;
+  if (entry.note !== null && entry.note !== undefined && typeof entry.note !== 'string') {
+    throw new Error('note must be text');
+  }
+  if (typeof entry.note === 'string' && entry.note.trim()) log.note = entry.note.slice(0, MAX_NOTE_LENGTH);
+
+  return log;
+};
+
+const validateCatalog = (raw: unknown, field: string): CatalogItem[] => {
+  try {
+    return normalizeCatalog(raw);
+  } catch (e) {
+    throw new Error(`settings: ${field} ${(e as Error).message}`);
+  }
+};
+
+const validatePregnancy = (raw: unknown): Pregnancy => {
+  const entry = (raw ?? {}) as Record<string, unknown>;
+  if (!isValidDate(entry.lmp)) throw new Error('settings: a pregnancy needs the date of the last period');
+  const scan = entry.scan as Record<string, unknown> | null | undefined;
+  const weeks = Number(scan?.weeks);
+  const days = Number(scan?.days);
+  const endedOn = isValidDate(entry.endedOn) ? entry.endedOn : null;
+  return {
+    lmp: entry.lmp,
+    scan: scan && isValidDate(scan.date) && Number.isInteger(weeks) && Number.isInteger(days)
+      ? { date: scan.date, weeks, days }
+      : null,
+    endedOn,
+    outcome: endedOn ? oneOf<PregnancyOutcome>(['birth', 'loss'], entry.outcome, 'pregnancy outcome') : null,
+  };
+};
+
+export const validateSettings = (raw: unknown): UserSettings => {
+  const entry = (raw ?? {}) as Record<string, unknown>;
+  const cycleLength = Number(entry.cycleLength);
+  const periodLength = Number(entry.periodLength);
+  if (!Number.isInteger(cycleLength) || cycleLength < CYCLE_LENGTH_RANGE.min || cycleLength > CYCLE_LENGTH_RANGE.max) {
+    throw new Error(`settings: cycle length must be between ${CYCLE_LENGTH_RANGE.min} and ${CYCLE_LENGTH_RANGE.max} days`);
+  }
+  if (!Number.isInteger(periodLength) || periodLength < PERIOD_LENGTH_RANGE.min || periodLength > PERIOD_LENGTH_RANGE.max) {
+    throw new Error(`settings: period length must be between ${PERIOD_LENGTH_RANGE.min} and ${PERIOD_LENGTH_RANGE.max} days`);
+  }
+  const settings: UserSettings = {
+    cycleLength,
+    periodLength,
+    temperatureUnit: oneOf<TemperatureUnit>(['C', 'F'], entry.temperatureUnit, 'temperature unit') ?? 'C',
+  };
+  if (entry.reminders) settings.reminders = normalizeReminderSettings(entry.reminders);
+  if (entry.contraception) {
+    const profile = entry.contraception as Record<string, unknown>;
+    const method = oneOf<ContraceptionMethod>(CONTRACEPTION_OPTIONS, profile.method, 'contraception method');
+    if (!method || !isValidDate(profile.startDate)) throw new Error('settings: contraception needs a method and a start date');
+    settings.contraception = { method, startDate: profile.startDate };
+  }
+  if (Array.isArray(entry.pregnancies)) settings.pregnancies = entry.pregnancies.map(validatePregnancy);
+  if (entry.symptomCatalog) settings.symptomCatalog = validateCatalog(entry.symptomCatalog, 'symptom list');
+  if (entry.moodCatalog) settings.moodCatalog = validateCatalog(entry.moodCatalog, 'mood list');
+  // Display preferences: anything this version doesn't know is left at the default
+  if (LANGUAGES.some(l => l.id === entry.language)) settings.language = entry.language as string;
+  if (WEEK_STARTS.includes(entry.weekStart as WeekStart)) settings.weekStart = entry.weekStart as WeekStart;
+  return settings;
+};
+
+// --- Import ---
+
+// Validates every entry and keeps one log per date, since the date is the document ID
+const collect = (rawLogs: unknown[], describe: (index: number) => string) => {
+  const byDate = new Map<string, LogData>();
+  const errors: string[] = [];
+  let duplicates = 0;
+
+  rawLogs.forEach((raw, i) => {
+    try {
+      const log = validateLog(raw);
+      if (byDate.has(log.date)) duplicates++;
+      byDate.set(log.date, log);
+    } catch (e) {
+      errors.push(`${describe(i)}: ${(e as Error).message}`);
+    }
+  });
+
+  const logs = [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date));
+  return { logs, errors, duplicates };
+};
+
+const csvRecordToLog = (row: Record<string, string>) => ({
+  date: row.date,
+  flow: row.flow,
+  mood: row.mood,
+  symptoms: row.symptoms ? row.symptoms.split(';').filter(s => s.trim()).map(parseSymptom) : [],
+  temperature: row.temperature
+    ? {
+      value: row.temperature,
+      unit: row.temperature_unit || 'C',
+      time: row.temperature_time,
+      disturbed: row.temperature_disturbed === 'true',
+    }
+    : null,
+  mucus: row.mucus,
+  lhTest: row.lh_test ? { result: row.lh_test, photo: null } : null,
+  pregnancyTest: row.pregnancy_test,
+  contraceptionTaken: row.contraception_taken === 'true',
+  planned: row.planned === 'true',
+  note: row.note,
+});
+
+export const parseImport = (text: string, { t }: Translator): ParsedImport => {
+  const trimmed = text.trim();
+
+  if (trimmed.startsWith('{')) {
+    let backup: Partial<Backup>;
+    try {
+      backup = JSON.parse(trimmed);
+    } catch {
+      throw new Error(t('import.notJson'));
+    }
+    if (backup.app !== 'gyneo' || typeof backup.version !== 'number') {
+      throw new Error(t('import.notBackup'));
+    }
+    if (backup.version > BACKUP_VERSION) {
+      throw new Error(t('import.newerVersion'));
+    }
+    if (!Array.isArray(backup.logs)) throw new Error(t('import.noLogs'));
+
+    const { logs, errors, duplicates } = collect(backup.logs, i => t('import.entry', { number: i + 1 }));
+    let settings: UserSettings | null = null;
+    try {
+      settings = backup.settings ? validateSettings(backup.settings) : null;
+    } catch (e) {
+      errors.push((e as Error).message);
+    }
+    return { format: 'json', settings, logs, errors, duplicates };
+  }
+
+  const records = parseCsvRecords(text);
+  if (records.length === 0 || !('date' in records[0])) {
+    throw new Error(t('import.unknownFormat'));
+  }
+  // Line 1 is the header
+  const { logs, errors, duplicates } = collect(records.map(csvRecordToLog), i => t('import.line', { number: i + 2 }));
+  return { format: 'csv', settings: null, logs, errors, duplicates };
+};
+
+// Imported fields win, but a photo-less LH result (from a CSV) keeps the strip photo already saved
+export const mergeLog = (existing: LogData | undefined, incoming: LogData): LogData => {
+  if (!existing) return incoming;
+  const merged = { ...existing, ...incoming };
+  if (incoming.lhTest && !incoming.lhTest.photo && existing.lhTest?.result === incoming.lhTest.result) {
+    merged.lhTest = existing.lhTest;
+  }
+  return merged;
+};
+
+const sameLog = (a: LogData, b: LogData) => {
+  const normalize = (log: LogData) => JSON.stringify(
+    Object.entries(log)
+      .filter(([, value]) => value !== null && value !== undefined && value !== false && !(Array.isArray(value) && value.length === 0))
+      .sort(([a], [b]) => a.localeCompare(b))
+  );
+  return normalize(a) === normalize(b);
+};
+
+// What applying the import would change, for the preview
+export const planImport = (existing: DailyLog[], incoming: LogData[], mode: ImportMode): ImportPlan => {
+  const current = new Map(existing.map(l => [l.date, toLogData(l)]));
+  const incomingDates = new Set(incoming.map(l => l.date));
+  const plan: ImportPlan = { added: [], updated: [], unchanged: [], removed: [] };
+
+  for (const log of incoming) {
+    const before = current.get(log.date);
+    if (!before) plan.added.push(log);
+    // Merging keeps fields the file doesn't have, so compare against the merged result
+    else if (sameLog(before, mode === 'merge' ? mergeLog(before, log) : log)) plan.unchanged.push(log);
+    else plan.updated.push(log);
+  }
+
+  if (mode === 'replace') {
+    plan.removed = [...current.keys()].filter(date => !incomingDates.has(date)).sort();
+  }
+  return plan;
+};
@@ -0,0 +1,84 @@
+import type { DailyLog, UserSettings } from '../types';
+import { formatDate } from './dates';
+import { forecastCycles, getFertileWindow, getObservedOvulation, isInRange, summarizeCycles } from './cycleEngine';
+import { isPeakMucus, isPositiveLh } from './fertility';
+import { isWithdrawalBleed } from './contraception';
+
+// --- Calendar Days ---
+// How each day of the month grid is marked. The owner's calendar works it out from their logs,
+// a partner's from what was shared with them (lib/sharing.ts).
+
+export interface DayStatus {
+  isPeriod: boolean;
+  isWithdrawal: boolean; // Bleeding in a pack's hormone-free break, not a natural period
+  hasEntry: boolean; // Something other than flow was logged (or planned) for this day
+  isPredicted: boolean;
+  isPossiblePeriod: boolean;
+  isFertile: boolean;
+  isPossibleFertile: boolean;
+  isOvulation: boolean;
+  isLhPositive: boolean;
+  isMucusPeak: boolean;
+}
+
+// Which markers a calendar can show, so its legend only lists those
+export interface CalendarLegend {
+  period: boolean;
+  withdrawal: boolean;
+  predictions: boolean;
+  fertile: boolean;
+  signs: boolean; // LH peak and egg-white mucus
+}
+
+export const EMPTY_DAY: DayStatus = {
+  isPeriod: false,
+  isWithdrawal: false,
+  hasEntry: false,
+  isPredicted: false,
+  isPossiblePeriod: false,
+  isFertile: false,
+  isPossibleFertile: false,
+  isOvulation: false,
+  isLhPositive: false,
+  isMucusPeak: false,
+};
+
+export const getLogDayStatus = (
+  logs: DailyLog[],
+  settings: UserSettings,
+  today: Date = new Date()
+): (date: string) => DayStatus => {
+  // Forecast the coming cycles from the user's own history
+  const summary = summarizeCycles(logs, settings, today);
+  const forecasts = forecastCycles(summary, today);
+  // Observed ovulation (temperature, LH or mucus) is shaded for past cycles too
+  const observedOvulations = summary.cycles.flatMap(c => getObservedOvulation(c)?.date ?? []);
+  const byDate = new Map(logs.map(l => [l.date, l]));
+  const todayStr = formatDate(today);
+
+  return (date) => {
+    const log = byDate.get(date);
+    const isPeriod = !!log?.flow;
+    // Predictions are only shown for days that haven't happened yet
+    const isFuture = date > todayStr;
+    const isPredicted = isFuture && forecasts.some(f => isInRange(date, f.likelyPeriod));
+    const isFertile = observedOvulations.some(o => isInRange(date, getFertileWindow(o))) || (isFuture && (
+      isInRange(date, summary.fertileWindow) || forecasts.some(f => isInRange(date, f.likelyFertileWindow))
+    ));
+    return {
+      isPeriod,
+      isWithdrawal: !!log && isWithdrawalBleed(settings.contraception, log),
+      hasEntry: !!log && !isPeriod && (
+        !!log.mood || log.symptoms.length > 0 || !!log.note || !!log.temperature || !!log.mucus ||
+        !!log.lhTest || !!log.pregnancyTest || !!log.contraceptionTaken
+      ),
+      isPredicted,
+      isPossiblePeriod: isFuture && !isPredicted && forecasts.some(f => isInRange(date, f.possiblePeriod)),
+      isFertile,
+      isPossibleFertile: isFuture && !isFertile && forecasts.some(f => isInRange(date, f.possibleFertileWindow)),
+      isOvulation: observedOvulations.includes(date),
+      isLhPositive: !!log && isPositiveLh(log),
+      isMucusPeak: isPeakMucus(log?.mucus),
+    };
+  };
+};
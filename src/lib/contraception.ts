@@ -0,0 +1,192 @@
+import type { ContraceptionMethod, ContraceptionProfile, DailyLog } from '../types';
+import { addDays, diffDays } from './dates';
+
+// --- Contraception ---
+// Hormonal methods stop ovulation, so while one is active there is nothing to predict a fertile
+// window from, and the bleed in a pack's hormone-free break is a withdrawal bleed, not a period.
+// Pills, patches and rings all run in 28-day packs counted from the profile's start date.
+
+export const PACK_LENGTH = 28;
+
+// Shown as `contraception.task.<task>` in the catalogs
+export type ContraceptionTask = 'pill-taken' | 'patch-changed' | 'patch-removed' | 'ring-inserted' | 'ring-removed';
+
+// Labels are `contraception.method.<method>` in the catalogs
+interface MethodInfo {
+  hormonal: boolean;
+  pill: boolean;
+  usesPacks: boolean;
+  breakStart: number | null; // First hormone-free pack day, null when there is no break
+  task?: (day: number) => ContraceptionTask | null; // What is due on a pack day
+  renewEveryDays?: number;
+}
+
+const everyDay = (): ContraceptionTask => 'pill-taken';
+
+export const CONTRACEPTION_METHODS: Record<ContraceptionMethod, MethodInfo> = {
+  'combined-21': {
+    hormonal: true, pill: true, usesPacks: true, breakStart: 22,
+    task: day => day < 22 ? 'pill-taken' : null,
+  },
+  // The 4 placebo pills are taken too, they keep the daily habit going
+  'combined-24': { hormonal: true, pill: true, usesPacks: true, breakStart: 25, task: everyDay },
+  'progestin-only': { hormonal: true, pill: true, usesPacks: true, breakStart: null, task: everyDay },
+  patch: {
+    hormonal: true, pill: false, usesPacks: true, breakStart: 22,
+    task: day => day === 22 ? 'patch-removed' : [1, 8, 15].includes(day) ? 'patch-changed' : null,
+  },
+  ring: {
+    hormonal: true, pill: false, usesPacks: true, breakStart: 22,
+    task: day => day === 1 ? 'ring-inserted' : day === 22 ? 'ring-removed' : null,
+  },
+  'hormonal-iud': { hormonal: true, pill: false, usesPacks: false, breakStart: null },
+  'copper-iud': { hormonal: false, pill: false, usesPacks: false, breakStart: null },
+  implant: { hormonal: true, pill: false, usesPacks: false, breakStart: null },
+  injection: { hormonal: true, pill: false, usesPacks: false, breakStart: null, renewEveryDays: 91 },
+};
+
+export const CONTRACEPTION_OPTIONS = Object.keys(CONTRACEPTION_METHODS) as ContraceptionMethod[];
+
+export const isOnHormonalContraception = (profile: ContraceptionProfile | undefined, date: string): boolean =>
+  !!profile && CONTRACEPTION_METHODS[profile.method].hormonal && date >= profile.startDate;
+
+// True when bleeding follows the pack's break rather than the natural cycle
+export const hasWithdrawalBleeds = (profile: ContraceptionProfile | undefined, date: string): boolean =>
+  isOnHormonalContraception(profile, date) && CONTRACEPTION_METHODS[profile!.method].breakStart !== null;
+
+// --- Packs ---
+
+export interface PackPosition {
+  pack: number; // 1-based, counted from the start date
+  day: number; // 1-28
+  isBreak: boolean;
+}
+
+export const getPackPosition = (profile: ContraceptionProfile | undefined, date: string): PackPosition | null => {
+  if (!profile || date < profile.startDate) return null;
+  const { usesPacks, breakStart } = CONTRACEPTION_METHODS[profile.method];
+  if (!usesPacks) return null;
+  const elapsed = diffDays(profile.startDate, date);
+  const day = (elapsed % PACK_LENGTH) + 1;
+  return { pack: Math.floor(elapsed / PACK_LENGTH) + 1, day, isBreak: breakStart !== null && day >= breakStart };
+};
+
+// The check-off label for the day, null when nothing is due
+export const getDailyTask = (profile: ContraceptionProfile | undefined, date: string): ContraceptionTask | null => {
+  const position = getPackPosition(profile, date);
+  const task = profile && CONTRACEPTION_METHODS[profile.method].task;
+  return position && task ? task(position.day) : null;
+};
+
+// Start of the next hormone-free break, today's included
+export const getNextWithdrawalBleed = (profile: ContraceptionProfile | undefined, today: string): string | null => {
+  const position = getPackPosition(profile, today);
+  const breakStart = profile && CONTRACEPTION_METHODS[profile.method].breakStart;
+  if (!position || !breakStart || !hasWithdrawalBleeds(profile, today)) return null;
+  const thisBreak = addDays(today, breakStart - position.day);
+  return position.day <= breakStart ? thisBreak : addDays(thisBreak, PACK_LENGTH);
+};
+
+// Withdrawal bleeds often run a few days into the next pack
+const WITHDRAWAL_OVERRUN_DAYS = 3;
+
+export const isWithdrawalBleed = (profile: ContraceptionProfile | undefined, log: DailyLog): boolean => {
+  if (!log.flow || !hasWithdrawalBleeds(profile, log.date)) return false;
+  const position = getPackPosition(profile, log.date)!;
+  return position.isBreak || (position.pack > 1 && position.day <= WITHDRAWAL_OVERRUN_DAYS);
+};
+
+// Next injection due, for methods renewed on a schedule
+export const getNextRenewal = (profile: ContraceptionProfile | undefined, today: string): string | null => {
+  const every = profile && CONTRACEPTION_METHODS[profile.method].renewEveryDays;
+  if (!profile || !every) return null;
+  const elapsed = Math.max(0, diffDays(profile.startDate, today));
+  return addDays(profile.startDate, Math.ceil(elapsed / every) * every);
+};
+
+// --- Missed Pills ---
+// Follows the common leaflet rules. Protection is back after 7 active combined pills in a row,
+// or 2 progestin-only pills. Only days with an active pill count, placebo and break days don't.
+
+// Shown as `contraception.advice.<advice>` in the catalogs, with {count} the pills needed in a row
+export type MissedPillAdvice =
+  'take-now' | 'take-missed' | 'take-latest' | 'backup-on-time' | 'backup-active' | 'emergency' | 'skip-break';
+
+export interface MissedPillGuidance {
+  missed: string[]; // Oldest first
+  advice: MissedPillAdvice[];
+  needed: number; // Pills on time in a row before protection is back
+  backupUntil: string | null; // Use condoms or avoid sex through this day
+}
+
+const LOOKBACK_DAYS = 14;
+
+const isActivePillDay = (profile: ContraceptionProfile, day: number) => {
+  const { breakStart } = CONTRACEPTION_METHODS[profile.method];
+  return breakStart === null || day < breakStart;
+};
+
+export const getMissedPillGuidance = (
+  profile: ContraceptionProfile | undefined,
+  logs: DailyLog[],
+  today: string
+): MissedPillGuidance | null => {
+  if (!profile || !CONTRACEPTION_METHODS[profile.method].pill) return null;
+  const progestinOnly = profile.method === 'progestin-only';
+  const needed = progestinOnly ? 2 : 7;
+  const taken = new Set(logs.filter(l => l.contraceptionTaken).map(l => l.date));
+  // Days before the first check-off weren't tracked, not missed
+  const firstTaken = [...taken].sort()[0];
+  if (!firstTaken) return null;
+
+  // Walk back from yesterday until enough pills in a row were taken to be protected
+  const missed: string[] = [];
+  const missedDays: number[] = [];
+  let run = 0; // Pills taken in a row, counting back
+  let takenSince = 0; // Pills taken after the most recent missed one
+  for (let i = 1; i <= LOOKBACK_DAYS; i++) {
+    const date = addDays(today, -i);
+    const position = getPackPosition(profile, date);
+    if (!position || date < firstTaken) break;
+    if (!isActivePillDay(profile, position.day)) continue;
+    if (taken.has(date)) {
+      run++;
+      if (missed.length === 0) takenSince = run;
+      if (run >= needed) break;
+    } else {
+      missed.unshift(date);
+      missedDays.unshift(position.day);
+      run = 0;
+    }
+  }
+  if (missed.length === 0) return null;
+
+  const caughtUp = takenSince > 0;
+  const backupUntil = addDays(today, needed - takenSince - 1);
+
+  if (progestinOnly) {
+    return {
+      missed,
+      advice: [...(caughtUp ? [] : ['take-now' as const]), 'backup-on-time'],
+      needed,
+      backupUntil,
+    };
+  }
+
+  if (missed.length === 1) {
+    // A single missed combined pill doesn't affect protection once it's made up
+    if (caughtUp) return null;
+    return {
+      missed,
+      advice: ['take-missed'],
+      needed,
+      backupUntil: null,
+    };
+  }
+
+  const breakStart = CONTRACEPTION_METHODS[profile.method].breakStart!;
+  const advice: MissedPillAdvice[] = [...(caughtUp ? [] : ['take-latest' as const]), 'backup-active'];
+  if (missedDays.some(day => day <= 7)) advice.push('emergency');
+  if (missedDays.some(day => day >= breakStart - 7)) advice.push('skip-break');
+  return { missed, advice, needed, backupUntil };
+};
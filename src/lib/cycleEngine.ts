@@ -0,0 +1,364 @@
+import type { DailyLog, UserSettings } from '../types';
+import { addDays, diffDays, formatDate } from './dates';
+import { detectThermalShift, getTemperatures, type ThermalShift } from './temperature';
+import { detectLhSurge, detectMucusPeak, lhSurgeToOvulation, type OvulationSource } from './fertility';
+import { getNextWithdrawalBleed, isOnHormonalContraception, PACK_LENGTH } from './contraception';
+import { getActivePregnancy, getLastEndedPregnancy, getPregnancyCycleStarts } from './pregnancy';
+
+// --- Cycle Engine ---
+// Pure functions that turn raw daily logs into cycles and predictions.
+// Everything works on YYYY-MM-DD strings so results don't depend on the time of day.
+
+export interface Cycle {
+  start: string; // First day of the period that opens this cycle
+  periodEnd: string; // Last bleeding day of that period
+  end: string | null; // Day before the next cycle starts, null for the ongoing cycle
+  periodLength: number;
+  cycleLength: number | null; // null for the ongoing cycle
+  thermalShift: ThermalShift | null; // Ovulation confirmed by basal body temperature
+  lhSurge: string | null; // First positive LH test
+  mucusPeak: string | null; // Last day of egg-white mucus
+}
+
+export interface DateRange {
+  start: string;
+  end: string;
+}
+
+export interface CycleSummary {
+  cycles: Cycle[];
+  naturalCycles: Cycle[]; // The cycles averages come from (no pregnancy or hormonal contraception)
+  currentCycle: Cycle | null;
+  currentDay: number; // 1-based, Day 1 is the first day of the current period
+  cycleLength: number; // Predicted length, from history when available
+  periodLength: number;
+  lutealLength: number; // Days from ovulation to the next period, from history when available
+  nextPeriodStart: string | null;
+  daysUntilNext: number;
+  ovulationDate: string | null;
+  ovulationSource: OvulationSource; // 'calendar' when counted back from the predicted next period
+  fertileWindow: DateRange | null;
+  isPeriodToday: boolean;
+  // A hormonal method is active: no ovulation or fertile window is predicted
+  hormonalContraception: boolean;
+  // Bleeds follow the pack's hormone-free break, so the next one is known exactly
+  withdrawalBleeds: boolean;
+  // Predictions are paused for the whole pregnancy
+  pregnant: boolean;
+  // From the end of a pregnancy until the second period after it
+  postpartum: boolean;
+}
+
+export interface CycleForecast {
+  index: number; // 1 is the next cycle
+  earliestStart: string;
+  likelyStart: string;
+  latestStart: string;
+  likelyPeriod: DateRange;
+  possiblePeriod: DateRange; // Every day the period could fall on, including the likely ones
+  ovulationDate: string | null; // null on hormonal contraception
+  likelyFertileWindow: DateRange | null;
+  possibleFertileWindow: DateRange | null;
+}
+
+export interface EngineOptions {
+  // Bleeding days separated by at most this many unlogged days belong to the same period
+  periodGapDays: number;
+  // Cycles outside this range are ignored when averaging (missed logs, anovulatory cycles...)
+  minCycleLength: number;
+  maxCycleLength: number;
+}
+
+// What the settings accept, in days. firestore.rules enforces the same ranges.
+export const CYCLE_LENGTH_RANGE = { min: 15, max: 90 };
+export const PERIOD_LENGTH_RANGE = { min: 1, max: 15 };
+
+export const DEFAULT_ENGINE_OPTIONS: EngineOptions = {
+  periodGapDays: 2,
+  minCycleLength: 21,
+  maxCycleLength: 44,
+};
+
+// Luteal phase is fairly constant, so ovulation is counted back from the next period.
+// 14 days until the user's own observed ovulations say otherwise.
+export const LUTEAL_PHASE_DAYS = 14;
+const FERTILE_DAYS_BEFORE_OVULATION = 4;
+const FERTILE_DAYS_AFTER_OVULATION = 1;
+
+// Assumed day-to-day variability until there are enough cycles to measure it
+const DEFAULT_CYCLE_DEVIATION = 2;
+const MAX_FORECAST_SPREAD = 10;
+export const DEFAULT_FORECAST_CYCLES = 12;
+
+const isBleeding = (log: DailyLog) => !!log.flow;
+
+// Groups bleeding days into periods. A run made only of spotting is not a period.
+// Spotting before the first real flow day doesn't start the period, trailing spotting still counts.
+export const detectPeriods = (
+  logs: DailyLog[],
+  options: EngineOptions = DEFAULT_ENGINE_OPTIONS
+): DateRange[] => {
+  const days = logs.filter(isBleeding).sort((a, b) => a.date.localeCompare(b.date));
+
+  const runs: DailyLog[][] = [];
+  for (const log of days) {
+    const run = runs[runs.length - 1];
+    if (run && diffDays(run[run.length - 1].date, log.date) <= options.periodGapDays + 1) {
+      run.push(log);
+    } else {
+      runs.push([log]);
+    }
+  }
+
+  return runs.flatMap(run => {
+    const firstFlow = run.find(l => l.flow !== 'Spotting');
+    return firstFlow ? [{ start: firstFlow.date, end: run[run.length - 1].date }] : [];
+  });
+};
+
+export const detectCycles = (
+  logs: DailyLog[],
+  options: EngineOptions = DEFAULT_ENGINE_OPTIONS
+): Cycle[] => {
+  const periods = detectPeriods(logs, options);
+
+  return periods.map((period, i) => {
+    const next = periods[i + 1];
+    const end = next ? addDays(next.start, -1) : null;
+    const rangeEnd = end ?? '9999-12-31';
+    return {
+      start: period.start,
+      periodEnd: period.end,
+      end,
+      periodLength: diffDays(period.start, period.end) + 1,
+      cycleLength: next ? diffDays(period.start, next.start) : null,
+      thermalShift: detectThermalShift(getTemperatures(logs, period.start, rangeEnd)),
+      lhSurge: detectLhSurge(logs, period.start, rangeEnd),
+      mucusPeak: detectMucusPeak(logs, period.start, rangeEnd),
+    };
+  });
+};
+
+// Best available ovulation estimate from what was observed in the cycle.
+// A temperature shift confirms ovulation, an LH surge or mucus peak only points to it.
+export const getObservedOvulation = (cycle: Cycle): { date: string, source: OvulationSource } | null => {
+  if (cycle.thermalShift) return { date: cycle.thermalShift.ovulationDate, source: 'temperature' };
+  if (cycle.lhSurge) return { date: lhSurgeToOvulation(cycle.lhSurge), source: 'lh' };
+  if (cycle.mucusPeak) return { date: cycle.mucusPeak, source: 'mucus' };
+  return null;
+};
+
+const average = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+export const isRegularCycle = (cycle: Cycle, options: EngineOptions = DEFAULT_ENGINE_OPTIONS) =>
+  cycle.cycleLength !== null &&
+  cycle.cycleLength >= options.minCycleLength &&
+  cycle.cycleLength <= options.maxCycleLength;
+
+// Average cycle and period length from history, falling back to the user's settings
+export const getAverages = (
+  cycles: Cycle[],
+  settings: UserSettings,
+  options: EngineOptions = DEFAULT_ENGINE_OPTIONS
+) => {
+  const cycleLengths = cycles.filter(c => isRegularCycle(c, options)).map(c => c.cycleLength!);
+  // The ongoing period may still be running, so only completed cycles count
+  const periodLengths = cycles.filter(c => c.end !== null).map(c => c.periodLength);
+
+  return {
+    cycleLength: cycleLengths.length > 0 ? Math.round(average(cycleLengths)) : settings.cycleLength,
+    periodLength: periodLengths.length > 0 ? Math.round(average(periodLengths)) : settings.periodLength,
+  };
+};
+
+// Sample standard deviation of the regular cycle lengths, or null with fewer than two of them
+export const getCycleDeviation = (
+  cycles: Cycle[],
+  options: EngineOptions = DEFAULT_ENGINE_OPTIONS
+): number | null => {
+  const lengths = cycles.filter(c => isRegularCycle(c, options)).map(c => c.cycleLength!);
+  if (lengths.length < 2) return null;
+  const mean = average(lengths);
+  return Math.sqrt(lengths.reduce((sum, l) => sum + (l - mean) ** 2, 0) / (lengths.length - 1));
+};
+
+// Luteal phases outside this range point at a mistaken ovulation estimate
+const MIN_LUTEAL_LENGTH = 9;
+const MAX_LUTEAL_LENGTH = 18;
+
+// Average luteal phase over completed cycles where ovulation was observed
+export const getLutealLength = (cycles: Cycle[]): number => {
+  const lengths = cycles.flatMap(c => {
+    const ovulation = getObservedOvulation(c);
+    if (!ovulation || !c.end) return [];
+    const length = diffDays(ovulation.date, addDays(c.end, 1));
+    return length >= MIN_LUTEAL_LENGTH && length <= MAX_LUTEAL_LENGTH ? [length] : [];
+  });
+  return lengths.length > 0 ? Math.round(average(lengths)) : LUTEAL_PHASE_DAYS;
+};
+
+export const getOvulationDate = (cycleStart: string, cycleLength: number, lutealLength: number = LUTEAL_PHASE_DAYS): string =>
+  addDays(cycleStart, cycleLength - lutealLength);
+
+export const getFertileWindow = (ovulationDate: string): DateRange => ({
+  start: addDays(ovulationDate, -FERTILE_DAYS_BEFORE_OVULATION),
+  end: addDays(ovulationDate, FERTILE_DAYS_AFTER_OVULATION),
+});
+
+export const isInRange = (date: string, range: DateRange | null) =>
+  !!range && date >= range.start && date <= range.end;
+
+export const summarizeCycles = (
+  logs: DailyLog[],
+  settings: UserSettings,
+  today: Date = new Date(),
+  options: EngineOptions = DEFAULT_ENGINE_OPTIONS
+): CycleSummary => {
+  const todayStr = formatDate(today);
+  const cycles = detectCycles(logs, options).filter(c => c.start <= todayStr);
+  const { contraception, pregnancies } = settings;
+  const hormonalContraception = isOnHormonalContraception(contraception, todayStr);
+  const pregnant = getActivePregnancy(pregnancies, todayStr) !== null;
+  const ended = getLastEndedPregnancy(pregnancies, todayStr);
+  const cyclesSinceEnd = ended ? cycles.filter(c => c.start >= ended.endedOn!) : [];
+  const postpartum = !pregnant && !!ended && cyclesSinceEnd.length < 2;
+
+  // Only natural cycles are averaged: bleeds on hormonal contraception, pregnancies and
+  // the recovery cycle after one say nothing about the usual cycle
+  const pregnancyStarts = getPregnancyCycleStarts(cycles.map(c => c.start), pregnancies);
+  const natural = cycles.filter(c =>
+    !pregnancyStarts.has(c.start) && !(hormonalContraception && c.start >= contraception!.startDate)
+  );
+  const averages = getAverages(natural, settings, options);
+  const lutealLength = getLutealLength(natural);
+  const nextWithdrawal = getNextWithdrawalBleed(contraception, todayStr);
+  const withdrawalBleeds = nextWithdrawal !== null;
+  const cycleLength = withdrawalBleeds ? PACK_LENGTH : averages.cycleLength;
+
+  const base = {
+    cycles,
+    naturalCycles: natural,
+    cycleLength,
+    periodLength: averages.periodLength,
+    lutealLength,
+    isPeriodToday: logs.some(l => l.date === todayStr && isBleeding(l)),
+    hormonalContraception,
+    withdrawalBleeds,
+    pregnant,
+    postpartum,
+  };
+  const noPrediction = {
+    nextPeriodStart: null,
+    ovulationDate: null,
+    ovulationSource: 'calendar' as const,
+    fertileWindow: null,
+  };
+
+  const currentCycle = cycles.length > 0 ? cycles[cycles.length - 1] : null;
+  if (!currentCycle) {
+    return { ...base, ...noPrediction, currentCycle, currentDay: 1, daysUntilNext: cycleLength };
+  }
+
+  if (pregnant) {
+    return { ...base, ...noPrediction, currentCycle, currentDay: diffDays(currentCycle.start, todayStr) + 1, daysUntilNext: 0 };
+  }
+
+  // Nothing to count from until the first period after the pregnancy
+  if (ended && cyclesSinceEnd.length === 0) {
+    return { ...base, ...noPrediction, currentCycle: null, currentDay: diffDays(ended.endedOn!, todayStr) + 1, daysUntilNext: 0 };
+  }
+
+  if (hormonalContraception) {
+    const nextPeriodStart = nextWithdrawal ?? addDays(currentCycle.start, cycleLength);
+    return {
+      ...base,
+      ...noPrediction,
+      currentCycle,
+      currentDay: diffDays(currentCycle.start, todayStr) + 1,
+      nextPeriodStart,
+      daysUntilNext: Math.max(0, diffDays(todayStr, nextPeriodStart)),
+    };
+  }
+
+  // Once ovulation is observed the next period follows after the luteal phase,
+  // which is far more reliable than counting forward from the last period
+  const observed = getObservedOvulation(currentCycle);
+  const ovulationDate = observed?.date ?? getOvulationDate(currentCycle.start, cycleLength, lutealLength);
+  const nextPeriodStart = observed
+    ? addDays(observed.date, lutealLength)
+    : addDays(currentCycle.start, cycleLength);
+
+  return {
+    ...base,
+    currentCycle,
+    currentDay: diffDays(currentCycle.start, todayStr) + 1,
+    nextPeriodStart,
+    daysUntilNext: Math.max(0, diffDays(todayStr, nextPeriodStart)),
+    ovulationDate,
+    ovulationSource: observed?.source ?? 'calendar',
+    fertileWindow: getFertileWindow(ovulationDate),
+  };
+};
+
+// Projects the next `count` cycles. Every cycle adds its own variability, so the
+// earliest/latest range grows with the square root of how far ahead the forecast is.
+export const forecastCycles = (
+  summary: CycleSummary,
+  today: Date = new Date(),
+  count: number = DEFAULT_FORECAST_CYCLES,
+  options: EngineOptions = DEFAULT_ENGINE_OPTIONS
+): CycleForecast[] => {
+  if (!summary.nextPeriodStart) return [];
+
+  const todayStr = formatDate(today);
+  // Withdrawal bleeds follow the pack, they don't drift like natural cycles
+  const deviation = summary.withdrawalBleeds ? 0 : getCycleDeviation(summary.naturalCycles, options) ?? DEFAULT_CYCLE_DEVIATION;
+  const minSpread = summary.withdrawalBleeds ? 0 : 1;
+  const { cycleLength, periodLength } = summary;
+
+  // A late period is still expected any day now, so the first forecast never starts in the past
+  const firstStart = summary.nextPeriodStart < todayStr ? todayStr : summary.nextPeriodStart;
+
+  return Array.from({ length: count }, (_, i) => {
+    const index = i + 1;
+    const spread = Math.min(MAX_FORECAST_SPREAD, Math.max(minSpread, Math.round(deviation * Math.sqrt(index))));
+    const likelyStart = addDays(firstStart, i * cycleLength);
+    const earliest = addDays(likelyStart, -spread);
+    const earliestStart = index === 1 && earliest < todayStr ? todayStr : earliest;
+    const latestStart = addDays(likelyStart, spread);
+
+    const ovulationDate = summary.hormonalContraception
+      ? null
+      : getOvulationDate(likelyStart, cycleLength, summary.lutealLength);
+    const likelyFertileWindow = ovulationDate ? getFertileWindow(ovulationDate) : null;
+
+    return {
+      index,
+      earliestStart,
+      likelyStart,
+      latestStart,
+      likelyPeriod: { start: likelyStart, end: addDays(likelyStart, periodLength - 1) },
+      possiblePeriod: { start: earliestStart, end: addDays(latestStart, periodLength - 1) },
+      ovulationDate,
+      likelyFertileWindow,
+      possibleFertileWindow: likelyFertileWindow && {
+        start: addDays(likelyFertileWindow.start, -spread),
+        end: addDays(likelyFertileWindow.end, spread),
+      },
+    };
+  });
+};
+
+// "3–6" when the next start is uncertain, otherwise a number, so that a translated message
+// still picks the right plural form for it
+export const formatDaysUntil = (
+  forecast: CycleForecast | undefined,
+  fallback: number,
+  today: Date = new Date()
+): number | string => {
+  if (!forecast) return fallback;
+  const todayStr = formatDate(today);
+  const earliest = Math.max(0, diffDays(todayStr, forecast.earliestStart));
+  const latest = Math.max(0, diffDays(todayStr, forecast.latestStart));
+  return earliest === latest ? earliest : `${earliest}–${latest}`;
+};
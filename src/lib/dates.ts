@@ -0,0 +1,32 @@
+// --- Date Helpers ---
+
+const ONE_DAY = 24 * 60 * 60 * 1000;
+
+export const formatDate = (date: Date): string => {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, '0');
+  const d = String(date.getDate()).padStart(2, '0');
+  return `${y}-${m}-${d}`;
+};
+
+// Parses a YYYY-MM-DD string as local midnight.
+// `new Date('2024-01-31')` would be UTC midnight, which is the previous day west of Greenwich.
+export const parseDate = (dateStr: string): Date => {
+  const [y, m, d] = dateStr.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+
+export const addDays = (dateStr: string, days: number): string => {
+  const date = parseDate(dateStr);
+  date.setDate(date.getDate() + days);
+  return formatDate(date);
+};
+
+export const getDaysBetween = (start: Date, end: Date): number => {
+  return Math.round(Math.abs((start.getTime() - end.getTime()) / ONE_DAY));
+};
+
+// Signed number of days from `from` to `to` (both YYYY-MM-DD).
+export const diffDays = (from: string, to: string): number => {
+  return Math.round((parseDate(to).getTime() - parseDate(from).getTime()) / ONE_DAY);
+};
@@ -0,0 +1,219 @@
+import type { LogData } from '../types';
+
+// --- End-to-End Encryption ---
+// Logs are encrypted in the browser with a random AES-GCM data key. The data key is stored
+// wrapped twice: with a key derived from the passphrase (PBKDF2) and with one derived from
+// the recovery key. Neither the passphrase nor the recovery key ever leaves the device, so
+// losing both means the logs can't be read by anyone, us included.
+
+export interface EncryptedPayload {
+  iv: string; // Base64
+  data: string; // Base64 ciphertext with the GCM tag
+}
+
+// Stored next to the user's settings. Everything in it is safe to keep on the server.
+export interface EncryptionConfig {
+  version: 1;
+  iterations: number;
+  salt: string; // Base64
+  wrappedKey: EncryptedPayload; // Data key, under the passphrase key
+  recoverySalt: string;
+  recoveryWrappedKey: EncryptedPayload; // Data key, under the recovery key
+  // The recovery key itself, under the data key, so the passphrase can change (and the data
+  // key rotate) without handing out a new recovery key
+  recoveryKey: EncryptedPayload;
+  // Only while a passphrase change is re-encrypting logs: the old data key, under the new one.
+  // Logs the change didn't reach yet stay readable if it's interrupted.
+  previousKey?: EncryptedPayload;
+}
+
+// The unlocked data key, kept in memory only
+export interface DataKeys {
+  key: CryptoKey;
+  previous: CryptoKey | null; // See EncryptionConfig.previousKey
+}
+
+// What an encrypted log document holds. The date stays readable: it's the document ID anyway.
+export interface EncryptedLog {
+  date: string;
+  encrypted: EncryptedPayload;
+}
+
+export class WrongKeyError extends Error {
+  constructor(message = 'That passphrase is not right.') {
+    super(message);
+    this.name = 'WrongKeyError';
+  }
+}
+
+// Some stored logs didn't open with any key on hand (damaged, or under a key since lost).
+// Rewriting every log now would leave them behind under a key that's about to be thrown away.
+export class UnreadableLogsError extends Error {
+  count: number;
+
+  constructor(count: number) {
+    super(`${count} stored ${count === 1 ? 'log' : 'logs'} couldn't be decrypted.`);
+    this.name = 'UnreadableLogsError';
+    this.count = count;
+  }
+}
+
+export const PBKDF2_ITERATIONS = 310000;
+export const MIN_PASSPHRASE_LENGTH = 10;
+const RECOVERY_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // No 0/O or 1/I to misread
+const RECOVERY_LENGTH = 32;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// In chunks: logs with an LH strip photo are too big to spread into one call
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string): Uint8Array<ArrayBuffer> =>
+  Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+const randomBytes = (length: number) => crypto.getRandomValues(new Uint8Array(length));
+
+const deriveKey = async (secret: string, salt: string, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(secret), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: fromBase64(salt), iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const encrypt = async (key: CryptoKey, plain: Uint8Array<ArrayBuffer>, context?: string): Promise<EncryptedPayload> => {
+  const iv = randomBytes(12);
+  const additionalData = context !== undefined ? encoder.encode(context) : undefined;
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv, additionalData }, key, plain);
+  return { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+};
+
+// AES-GCM fails on any wrong key or tampered data, which is reported as a wrong key
+const decrypt = async (key: CryptoKey, payload: EncryptedPayload, context?: string): Promise<Uint8Array<ArrayBuffer>> => {
+  try {
+    const additionalData = context !== undefined ? encoder.encode(context) : undefined;
+    const plain = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(payload.iv), additionalData }, key, fromBase64(payload.data)
+    );
+    return new Uint8Array(plain);
+  } catch {
+    throw new WrongKeyError();
+  }
+};
+
+// The data key is only extractable long enough to be wrapped, the one kept in memory isn't
+const importDataKey = (raw: Uint8Array<ArrayBuffer>) =>
+  crypto.subtle.importKey('raw', raw, 'AES-GCM', false, ['encrypt', 'decrypt']);
+
+// "ABCD-EFGH-..." from 32 random characters (160 bits)
+export const generateRecoveryKey = (): string => {
+  const chars = [...randomBytes(RECOVERY_LENGTH)].map(b => RECOVERY_ALPHABET[b % RECOVERY_ALPHABET.length]);
+  return chars.join('').match(/.{4}/g)!.join('-');
+};
+
+// Tolerates lowercase, spaces and missing dashes when typed back in
+export const normalizeRecoveryKey = (input: string): string => {
+  const chars = input.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  return (chars.match(/.{1,4}/g) ?? []).join('-');
+};
+
+const buildConfig = async (rawKey: Uint8Array<ArrayBuffer>, passphrase: string, recoveryKey: string): Promise<EncryptionConfig> => {
+  const salt = toBase64(randomBytes(16));
+  const recoverySalt = toBase64(randomBytes(16));
+  const dataKey = await importDataKey(rawKey);
+  return {
+    version: 1,
+    iterations: PBKDF2_ITERATIONS,
+    salt,
+    wrappedKey: await encrypt(await deriveKey(passphrase, salt, PBKDF2_ITERATIONS), rawKey),
+    recoverySalt,
+    recoveryWrappedKey: await encrypt(await deriveKey(recoveryKey, recoverySalt, PBKDF2_ITERATIONS), rawKey),
+    recoveryKey: await encrypt(dataKey, encoder.encode(recoveryKey)),
+  };
+};
+
+const newRawKey = async (): Promise<Uint8Array<ArrayBuffer>> => {
+  const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+  return new Uint8Array(await crypto.subtle.exportKey('raw', key));
+};
+
+const openKeys = async (config: EncryptionConfig, rawKey: Uint8Array<ArrayBuffer>): Promise<DataKeys> => {
+  const key = await importDataKey(rawKey);
+  const previous = config.previousKey ? await importDataKey(await decrypt(key, config.previousKey)) : null;
+  return { key, previous };
+};
+
+const unwrapWithPassphrase = (config: EncryptionConfig, passphrase: string) =>
+  deriveKey(passphrase, config.salt, config.iterations).then(kek => decrypt(kek, config.wrappedKey));
+
+export const createEncryption = async (passphrase: string) => {
+  const rawKey = await newRawKey();
+  const recoveryKey = generateRecoveryKey();
+  const config = await buildConfig(rawKey, passphrase, recoveryKey);
+  return { config, keys: await openKeys(config, rawKey), recoveryKey };
+};
+
+export const unlockWithPassphrase = async (config: EncryptionConfig, passphrase: string): Promise<DataKeys> =>
+  openKeys(config, await unwrapWithPassphrase(config, passphrase));
+
+// Forgotten passphrase: the recovery key unlocks the same data key, wrapped with a new passphrase
+export const resetPassphrase = async (config: EncryptionConfig, recoveryKey: string, passphrase: string) => {
+  const normalized = normalizeRecoveryKey(recoveryKey);
+  let rawKey: Uint8Array<ArrayBuffer>;
+  try {
+    rawKey = await decrypt(await deriveKey(normalized, config.recoverySalt, config.iterations), config.recoveryWrappedKey);
+  } catch {
+    throw new WrongKeyError('That recovery key is not right.');
+  }
+  const next: EncryptionConfig = await buildConfig(rawKey, passphrase, normalized);
+  // Same data key, so an unfinished passphrase change carries over
+  if (config.previousKey) next.previousKey = config.previousKey;
+  return { config: next, keys: await openKeys(next, rawKey) };
+};
+
+// A passphrase change rotates the data key: every log has to be encrypted again with the new
+// key, then the change is completed with finishRotation. Only call that once every stored log
+// was read and rewritten, or the rest can never be opened. The recovery key stays the same.
+export const rotateEncryption = async (config: EncryptionConfig, passphrase: string, newPassphrase: string) => {
+  // Logs still under the key before that would be left behind
+  if (config.previousKey) throw new Error('The last passphrase change is still being finished');
+  const oldRawKey = await unwrapWithPassphrase(config, passphrase);
+  const oldKey = await importDataKey(oldRawKey);
+  const recoveryKey = decoder.decode(await decrypt(oldKey, config.recoveryKey));
+  const rawKey = await newRawKey();
+  const next = await buildConfig(rawKey, newPassphrase, recoveryKey);
+  next.previousKey = await encrypt(await importDataKey(rawKey), oldRawKey);
+  return { config: next, keys: await openKeys(next, rawKey) };
+};
+
+export const finishRotation = (config: EncryptionConfig): EncryptionConfig => {
+  const done = { ...config };
+  delete done.previousKey;
+  return done;
+};
+
+// The date is bound to the ciphertext, so a log can't be moved to another day's document
+export const encryptLog = async (key: CryptoKey, log: LogData): Promise<EncryptedLog> => ({
+  date: log.date,
+  encrypted: await encrypt(key, encoder.encode(JSON.stringify(log)), log.date),
+});
+
+// `stale` logs only opened with the previous key and still need encrypting with the current one
+export const decryptLog = async (keys: DataKeys, stored: EncryptedLog): Promise<{ log: LogData, stale: boolean }> => {
+  try {
+    return { log: JSON.parse(decoder.decode(await decrypt(keys.key, stored.encrypted, stored.date))), stale: false };
+  } catch (e) {
+    if (!keys.previous) throw e;
+    return { log: JSON.parse(decoder.decode(await decrypt(keys.previous, stored.encrypted, stored.date))), stale: true };
+  }
+};
+
+export const isEncryptedLog = (data: object): data is EncryptedLog => 'encrypted' in data;
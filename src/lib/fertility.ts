@@ -0,0 +1,37 @@
+import type { CervicalMucus, DailyLog } from '../types';
+import { addDays } from './dates';
+
+// --- Fertility Signs ---
+
+export const MUCUS_TYPES: CervicalMucus[] = ['Dry', 'Sticky', 'Creamy', 'Watery', 'Egg white'];
+
+// Stretchy, clear mucus is the most fertile type
+export const isPeakMucus = (mucus: CervicalMucus | null | undefined) => mucus === 'Egg white';
+
+export const isPositiveLh = (log: DailyLog) => log.lhTest?.result === 'Peak';
+
+// Ovulation usually follows a positive LH test within 24–36 hours
+const LH_TO_OVULATION_DAYS = 1;
+
+export type OvulationSource = 'temperature' | 'lh' | 'mucus' | 'calendar';
+
+const inRange = (logs: DailyLog[], start: string, end: string) =>
+  logs.filter(l => l.date >= start && l.date <= end).sort((a, b) => a.date.localeCompare(b.date));
+
+// First positive LH test in the range
+export const detectLhSurge = (logs: DailyLog[], start: string, end: string): string | null =>
+  inRange(logs, start, end).find(isPositiveLh)?.date ?? null;
+
+// Peak day: the last day of egg-white mucus before it dries up again.
+// Only known once a less fertile type has been logged after it.
+export const detectMucusPeak = (logs: DailyLog[], start: string, end: string): string | null => {
+  const observed = inRange(logs, start, end).filter(l => l.mucus);
+  for (let i = 0; i + 1 < observed.length; i++) {
+    if (isPeakMucus(observed[i].mucus) && !isPeakMucus(observed[i + 1].mucus)) {
+      return observed[i].date;
+    }
+  }
+  return null;
+};
+
+export const lhSurgeToOvulation = (surge: string) => addDays(surge, LH_TO_OVULATION_DAYS);
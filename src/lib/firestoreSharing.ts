@@ -0,0 +1,121 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocsFromServer,
+  onSnapshot,
+  query,
+  serverTimestamp,
+  updateDoc,
+  where,
+  writeBatch,
+  type Firestore
+} from 'firebase/firestore';
+
+import { IN_SYNC } from './storage';
+import {
+  SHARE_SCOPES,
+  type Share,
+  type SharedData,
+  type SharedProfile,
+  type SharePermissions,
+  type ShareScope,
+  type SharingRepository
+} from './sharing';
+
+// --- Firestore Sharing ---
+// Shares live at artifacts/{appId}/shares/{shareId}, outside either user's own data, with each shared
+// scope at scopes/{scope} under it. The invite link carries the share's id, which is random enough to
+// stand in for a secret until someone accepts. Permissions and scope documents change in one batch,
+// so there's never a moment where the rules (firestore.rules) and what's stored disagree.
+
+export const createFirestoreSharing = (db: Firestore, appId: string, uid: string): SharingRepository => {
+  const shares = () => collection(db, 'artifacts', appId, 'shares');
+  const shareRef = (id: string) => doc(db, 'artifacts', appId, 'shares', id);
+  const scopeRef = (id: string, scope: ShareScope) => doc(db, 'artifacts', appId, 'shares', id, 'scopes', scope);
+
+  const watchShares = (field: 'ownerUid' | 'recipientUid'): SharingRepository['owned'] => ({
+    watch: (onChange, onError) => onSnapshot(query(shares(), where(field, '==', uid)), (snap) => {
+      onChange(snap.docs.map(d => ({ id: d.id, data: d.data() as Share })), IN_SYNC);
+    }, onError),
+  });
+
+  // Sets the shared scopes, and with `clean` also deletes the others
+  const writeScopes = (batch: ReturnType<typeof writeBatch>, id: string, permissions: SharePermissions, data: SharedData, clean: boolean) => {
+    for (const { id: scope } of SHARE_SCOPES) {
+      if (permissions[scope]) batch.set(scopeRef(id, scope), data[scope]);
+      else if (clean) batch.delete(scopeRef(id, scope));
+    }
+  };
+
+  const remove = async (id: string) => {
+    const batch = writeBatch(db);
+    for (const { id: scope } of SHARE_SCOPES) batch.delete(scopeRef(id, scope));
+    batch.delete(shareRef(id));
+    await batch.commit();
+  };
+
+  return {
+    owned: watchShares('ownerUid'),
+    received: watchShares('recipientUid'),
+    getInvite: async (id) => {
+      const snap = await getDoc(shareRef(id));
+      return snap.exists() ? snap.data() as Share : null;
+    },
+    create: async (ownerName, permissions, data) => {
+      const ref = doc(shares());
+      const batch = writeBatch(db);
+      batch.set(ref, {
+        ownerUid: uid,
+        ownerName,
+        recipientUid: null,
+        recipientName: null,
+        permissions,
+        createdAt: serverTimestamp(),
+      });
+      writeScopes(batch, ref.id, permissions, data, false);
+      await batch.commit();
+      return ref.id;
+    },
+    accept: (id, recipientName) => updateDoc(shareRef(id), { recipientUid: uid, recipientName }),
+    setPermissions: async (id, permissions, data) => {
+      const batch = writeBatch(db);
+      batch.update(shareRef(id), { permissions });
+      writeScopes(batch, id, permissions, data, true);
+      await batch.commit();
+    },
+    publish: async (id, permissions, data) => {
+      const batch = writeBatch(db);
+      writeScopes(batch, id, permissions, data, false);
+      await batch.commit();
+    },
+    remove,
+    // Only shared scopes are watched, the others can't be read
+    watchProfile: (id, permissions, onChange, onError) => {
+      const profile: SharedProfile = {};
+      const scopes = SHARE_SCOPES.filter(s => permissions[s.id]).map(s => s.id);
+      let loaded = 0;
+      const unsubscribes = scopes.map(scope => {
+        let first = true;
+        return onSnapshot(scopeRef(id, scope), (snap) => {
+          if (snap.exists()) (profile as Record<ShareScope, unknown>)[scope] = snap.data();
+          else delete profile[scope];
+          if (first) {
+            first = false;
+            loaded++;
+          }
+          // Wait until every scope has answered once, then pass on each change
+          if (loaded === scopes.length) onChange({ ...profile });
+        }, onError);
+      });
+      if (scopes.length === 0) onChange({});
+      return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+    },
+    clear: async () => {
+      for (const field of ['ownerUid', 'recipientUid']) {
+        const found = await getDocsFromServer(query(shares(), where(field, '==', uid)));
+        for (const d of found.docs) await remove(d.id);
+      }
+    },
+  };
+};
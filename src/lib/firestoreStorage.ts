@@ -0,0 +1,108 @@
+import {
+  collection,
+  deleteDoc,
+  doc,
+  getDocsFromServer,
+  onSnapshot,
+  setDoc,
+  writeBatch,
+  type DocumentData,
+  type Firestore,
+  type SnapshotMetadata
+} from 'firebase/firestore';
+
+import type { UserSettings } from '../types';
+import type { EncryptionConfig } from './encryption';
+import {
+  ENCRYPTION_DOC,
+  SETTINGS_DOC,
+  type CollectionChange,
+  type CollectionRepository,
+  type DocumentRepository,
+  type StoredItem,
+  type StoredLogData,
+  type SyncState,
+  type UserStorage
+} from './storage';
+
+// --- Firestore Backend ---
+// Everything for a user lives under artifacts/{appId}/users/{uid}: logs/{date} and
+// settings/{preferences,encryption}. Pass a Firestore connected to the emulator to run against that.
+
+// Firestore batches are capped at 500 writes
+const BATCH_SIZE = 450;
+
+// Every collection under users/{uid}. Clients can't list collections, so a new one must be added here
+// for clear() to reach it.
+const USER_COLLECTIONS = ['logs', 'settings'];
+
+const syncState = (metadata: SnapshotMetadata): SyncState => ({
+  pendingWrites: metadata.hasPendingWrites,
+  fromCache: metadata.fromCache,
+});
+
+const createFirestoreCollection = <T extends DocumentData>(db: Firestore, path: string[]): CollectionRepository<T> => {
+  const ref = () => collection(db, path[0], ...path.slice(1));
+  const docRef = (id: string) => doc(db, path[0], ...path.slice(1), id);
+
+  const write = async (changes: CollectionChange<T>[]) => {
+    for (let i = 0; i < changes.length; i += BATCH_SIZE) {
+      const batch = writeBatch(db);
+      for (const change of changes.slice(i, i + BATCH_SIZE)) {
+        if (change.type === 'delete') batch.delete(docRef(change.id));
+        else if (change.type === 'merge') batch.set(docRef(change.id), change.value, { merge: true });
+        else batch.set(docRef(change.id), change.value);
+      }
+      await batch.commit();
+    }
+  };
+
+  return {
+    // Metadata changes are included so watchers see writes being confirmed. When that's all that
+    // changed, the same items array is passed on, so watchers can tell nothing else did.
+    watch: (onChange, onError) => {
+      let items: StoredItem<T>[] | null = null;
+      return onSnapshot(ref(), { includeMetadataChanges: true }, (snap) => {
+        if (!items || snap.docChanges().length > 0) items = snap.docs.map(d => ({ id: d.id, data: d.data() as T }));
+        onChange(items, syncState(snap.metadata));
+      }, onError);
+    },
+    set: (id, value) => setDoc(docRef(id), value),
+    merge: (id, value) => setDoc(docRef(id), value, { merge: true }),
+    delete: (id) => deleteDoc(docRef(id)),
+    write,
+  };
+};
+
+// Lists from the server rather than the offline cache, which may not hold everything. Fails offline.
+const deleteCollection = async (db: Firestore, path: string[]) => {
+  const stored = await getDocsFromServer(collection(db, path[0], ...path.slice(1)));
+  for (let i = 0; i < stored.docs.length; i += BATCH_SIZE) {
+    const batch = writeBatch(db);
+    for (const d of stored.docs.slice(i, i + BATCH_SIZE)) batch.delete(d.ref);
+    await batch.commit();
+  }
+};
+
+const createFirestoreDocument = <T extends DocumentData>(db: Firestore, path: string[]): DocumentRepository<T> => {
+  const ref = () => doc(db, path[0], ...path.slice(1));
+  return {
+    watch: (onChange, onError) => onSnapshot(ref(), { includeMetadataChanges: true }, (snap) => {
+      onChange(snap.exists() ? snap.data() as T : null, syncState(snap.metadata));
+    }, onError),
+    set: (value) => setDoc(ref(), value),
+    delete: () => deleteDoc(ref()),
+  };
+};
+
+export const createFirestoreStorage = (db: Firestore, appId: string, uid: string): UserStorage => {
+  const root = ['artifacts', appId, 'users', uid];
+  return {
+    logs: createFirestoreCollection<StoredLogData>(db, [...root, 'logs']),
+    settings: createFirestoreDocument<UserSettings>(db, [...root, 'settings', SETTINGS_DOC]),
+    encryption: createFirestoreDocument<EncryptionConfig>(db, [...root, 'settings', ENCRYPTION_DOC]),
+    clear: async () => {
+      for (const name of USER_COLLECTIONS) await deleteCollection(db, [...root, name]);
+    },
+  };
+};
@@ -0,0 +1,52 @@
+import type { LogData, UserSettings } from '../types';
+import { mergeLog, type ImportMode } from './backup';
+
+// --- Guest Mode ---
+// Using Gyneo without an account. The choice is remembered on this device and the data lives in
+// lib/indexedDbStorage.ts. Linking a Google account later moves that data into Firestore, and when the
+// account already has logs the user picks which side wins on days both have.
+
+const GUEST_FLAG = 'gyneo-guest';
+
+// Stands in for a user id in per-device storage such as the app lock
+export const GUEST_ID = 'guest';
+
+// What a guest has on this device
+export interface LocalData {
+  logs: LogData[];
+  settings: UserSettings | null;
+}
+
+export type UpgradeChoice = 'device' | 'account' | 'replace' | 'discard';
+
+export interface UpgradePlan {
+  logs: LogData[]; // Written to the account
+  settings: UserSettings | null; // Written over the account's settings when set
+  mode: ImportMode;
+}
+
+export const isGuest = () => localStorage.getItem(GUEST_FLAG) === 'true';
+
+export const setGuest = (guest: boolean) => {
+  if (guest) localStorage.setItem(GUEST_FLAG, 'true');
+  else localStorage.removeItem(GUEST_FLAG);
+};
+
+export const planUpgrade = (local: LocalData, account: LogData[], choice: UpgradeChoice): UpgradePlan => {
+  const existing = new Map(account.map(log => [log.date, log]));
+  switch (choice) {
+    case 'device':
+      return { logs: local.logs, settings: local.settings, mode: 'merge' };
+    case 'account':
+      // The account's entries win, but fields only the device has still come along
+      return {
+        logs: local.logs.map(log => existing.has(log.date) ? mergeLog(log, existing.get(log.date)!) : log),
+        settings: null,
+        mode: 'merge'
+      };
+    case 'replace':
+      return { logs: local.logs, settings: local.settings, mode: 'replace' };
+    case 'discard':
+      return { logs: [], settings: null, mode: 'merge' };
+  }
+};
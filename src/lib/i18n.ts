@@ -0,0 +1,130 @@
+import type { WeekStart } from '../types';
+import { en, type MessageKey } from '../locales/en';
+import { fr } from '../locales/fr';
+import { sw } from '../locales/sw';
+import { ar } from '../locales/ar';
+
+// --- Internationalization ---
+// Message catalogs live in src/locales, one per language. English is the reference: its keys are
+// the only valid ones and every other catalog must translate all of them.
+// Messages fill in {name} placeholders. Plural messages pick a form for {count} with Intl.PluralRules.
+
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+export type Message = string | PluralMessage;
+export type Catalog = Record<MessageKey, Message>;
+export type { MessageKey };
+
+export type Language = 'en' | 'fr' | 'sw' | 'ar';
+export type TextDirection = 'ltr' | 'rtl';
+
+export const LANGUAGES: { id: Language, label: string }[] = [
+  { id: 'en', label: 'English' },
+  { id: 'fr', label: 'Français' },
+  { id: 'sw', label: 'Kiswahili' },
+  { id: 'ar', label: 'العربية' },
+];
+
+export const WEEK_STARTS: WeekStart[] = [1, 0, 6];
+
+const CATALOGS: Record<Language, Catalog> = { en, fr, sw, ar };
+
+// Languages written right to left. Arabic is the one with a catalog; adding another switches the layout too.
+const RTL_LANGUAGES = ['ar', 'he', 'fa', 'ur', 'ps', 'yi', 'dv', 'ckb'];
+
+// Regions whose week doesn't start on Monday, from CLDR. Only used where Intl can't tell.
+const SUNDAY_REGIONS = [
+  'AG', 'AS', 'BD', 'BR', 'BS', 'BT', 'BW', 'BZ', 'CA', 'CO', 'DM', 'DO', 'ET', 'GT', 'GU', 'HK', 'HN', 'ID',
+  'IL', 'IN', 'JM', 'JP', 'KE', 'KH', 'KR', 'LA', 'MH', 'MM', 'MO', 'MT', 'MX', 'MZ', 'NI', 'NP', 'PA', 'PE',
+  'PH', 'PK', 'PR', 'PT', 'PY', 'SA', 'SG', 'SV', 'TH', 'TT', 'TW', 'UM', 'US', 'VE', 'VI', 'WS', 'YE', 'ZA', 'ZW',
+];
+const SATURDAY_REGIONS = ['AE', 'AF', 'BH', 'DJ', 'DZ', 'EG', 'IQ', 'IR', 'JO', 'KW', 'LY', 'OM', 'QA', 'SD', 'SY'];
+
+const primaryLanguage = (locale: string) => locale.split('-')[0].toLowerCase();
+
+export const getDeviceLocales = (): readonly string[] =>
+  typeof navigator === 'undefined' ? [] : navigator.languages ?? [navigator.language];
+
+// The chosen language if there is one, otherwise the first device language with a catalog
+export const resolveLanguage = (preferred: string | undefined, deviceLocales: readonly string[]): Language => {
+  const supported = (locale: string) => LANGUAGES.find(l => l.id === primaryLanguage(locale))?.id;
+  if (preferred && supported(preferred)) return supported(preferred)!;
+  for (const locale of deviceLocales) {
+    const language = supported(locale);
+    if (language) return language;
+  }
+  return 'en';
+};
+
+// Dates follow the device's region when it speaks the same language (fr-CA, en-GB...)
+export const resolveLocale = (language: Language, deviceLocales: readonly string[]): string =>
+  deviceLocales.find(l => primaryLanguage(l) === language) ?? language;
+
+export const getTextDirection = (locale: string): TextDirection =>
+  RTL_LANGUAGES.includes(primaryLanguage(locale)) ? 'rtl' : 'ltr';
+
+export const getDefaultWeekStart = (locale: string): WeekStart => {
+  try {
+    const intlLocale = new Intl.Locale(locale) as Intl.Locale & {
+      getWeekInfo?: () => { firstDay: number },
+      weekInfo?: { firstDay: number }
+    };
+    // 1 is Monday and 7 Sunday there
+    const firstDay = (intlLocale.getWeekInfo?.() ?? intlLocale.weekInfo)?.firstDay;
+    if (firstDay === 7) return 0;
+    if (firstDay === 1 || firstDay === 6) return firstDay;
+    const region = intlLocale.maximize().region ?? '';
+    if (SUNDAY_REGIONS.includes(region)) return 0;
+    if (SATURDAY_REGIONS.includes(region)) return 6;
+  } catch {
+    // Not a valid locale tag, fall through to Monday
+  }
+  return 1;
+};
+
+// Narrow weekday names starting from `weekStart`, e.g. M T W T F S S
+export const getWeekdayLabels = (locale: string, weekStart: WeekStart, weekday: 'narrow' | 'long' = 'narrow'): string[] => {
+  const format = new Intl.DateTimeFormat(locale, { weekday });
+  // 7 January 2024 was a Sunday
+  return Array.from({ length: 7 }, (_, i) => format.format(new Date(2024, 0, 7 + ((weekStart + i) % 7))));
+};
+
+const interpolate = (template: string, params: Record<string, string | number>) =>
+  template.replace(/\{(\w+)\}/g, (match, name: string) => name in params ? String(params[name]) : match);
+
+export interface Translator {
+  language: Language;
+  locale: string; // BCP 47 tag used for dates and numbers
+  dir: TextDirection;
+  weekStart: WeekStart;
+  t: (key: MessageKey, params?: Record<string, string | number>) => string;
+  formatDate: (date: Date, options: Intl.DateTimeFormatOptions) => string;
+}
+
+export const createTranslator = (
+  language: Language,
+  locale: string = language,
+  weekStart: WeekStart = getDefaultWeekStart(locale)
+): Translator => {
+  const catalog = CATALOGS[language];
+  const plurals = new Intl.PluralRules(locale);
+  const dates = new Map<string, Intl.DateTimeFormat>();
+
+  return {
+    language,
+    locale,
+    dir: getTextDirection(locale),
+    weekStart,
+    t: (key, params = {}) => {
+      const message = catalog[key] ?? en[key];
+      if (typeof message === 'string') return interpolate(message, params);
+      // Ranges like "2–4" aren't a number and take the general form
+      const form = typeof params.count === 'number' ? plurals.select(params.count) : 'other';
+      return interpolate(message[form] ?? message.other, params);
+    },
+    formatDate: (date, options) => {
+      const id = JSON.stringify(options);
+      if (!dates.has(id)) dates.set(id, new Intl.DateTimeFormat(locale, options));
+      return dates.get(id)!.format(date);
+    },
+  };
+};
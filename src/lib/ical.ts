@@ -0,0 +1,210 @@
+import { CYCLE_LENGTH_RANGE, type CycleForecast, type CycleSummary, type DateRange } from './cycleEngine';
+import { addDays, formatDate } from './dates';
+import type { Translator } from './i18n';
+
+// --- iCalendar Export (RFC 5545) ---
+// UIDs start with a per-user calendar id. Logged periods are named after their start date and
+// predictions after how many cycles ahead of the last logged period they are, so exporting again
+// after predictions move updates the same events instead of adding new ones.
+
+export interface CalendarTitles {
+  period: string;
+  predictedPeriod: string;
+  fertile: string;
+  ovulation: string;
+}
+
+export const getDefaultTitles = ({ t }: Translator): CalendarTitles => ({
+  period: t('calendarExport.title.period'),
+  predictedPeriod: t('calendarExport.title.predictedPeriod'),
+  fertile: t('calendarExport.title.fertile'),
+  ovulation: t('calendarExport.title.ovulation'),
+});
+
+// Says nothing about what the events are to anyone glancing at the calendar
+export const getDiscreetTitles = ({ t }: Translator): CalendarTitles => ({
+  period: t('calendarExport.title.discreet'),
+  predictedPeriod: t('calendarExport.title.discreet'),
+  fertile: t('calendarExport.title.discreet'),
+  ovulation: t('calendarExport.title.discreet'),
+});
+
+// How far ahead an export can predict, in months
+export const HORIZON_MONTHS = [3, 6, 12];
+
+// Enough cycles to cover the horizon even for short cycles
+export const getForecastCount = (horizonMonths: number, cycleLength: number) =>
+  Math.ceil((horizonMonths * 31) / cycleLength) + 1;
+
+// No export predicts more cycles ahead than this, whatever its horizon and cycle length
+const MAX_AHEAD = getForecastCount(Math.max(...HORIZON_MONTHS), CYCLE_LENGTH_RANGE.min);
+
+export interface CalendarExportOptions {
+  titles: CalendarTitles;
+  horizonMonths: number;
+  includeLogged: boolean;
+  includeFertile: boolean;
+  calendarId: string; // From getCalendarId
+}
+
+interface CalendarEvent {
+  uid: string;
+  title: string;
+  range: DateRange; // Inclusive
+  cancelled?: boolean;
+}
+
+const UID_DOMAIN = 'gyneo.app';
+
+// Guests have no account id, so they get a random one that stays on this device
+const GUEST_CALENDAR_KEY = 'gyneo-calendar-id';
+
+const toHex = (bytes: Uint8Array) => [...bytes].map(b => b.toString(16).padStart(2, '0')).join('');
+
+// The per-user part of every UID. Hashing the account id gives the same value on every device
+// without putting the id itself in a file that may be shared.
+export const getCalendarId = async (uid: string | null): Promise<string> => {
+  if (!uid) {
+    let id = localStorage.getItem(GUEST_CALENDAR_KEY);
+    if (!id) {
+      id = toHex(crypto.getRandomValues(new Uint8Array(16)));
+      localStorage.setItem(GUEST_CALENDAR_KEY, id);
+    }
+    return id;
+  }
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`gyneo-calendar:${uid}`));
+  return toHex(new Uint8Array(digest).slice(0, 16));
+};
+
+// TEXT values escape backslashes, semicolons, commas and newlines
+const escapeText = (text: string) =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 octets are folded onto continuation lines starting with a space
+const foldLine = (line: string): string => {
+  const bytes = new TextEncoder().encode(line);
+  if (bytes.length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const char of line) {
+    const charSize = new TextEncoder().encode(char).length;
+    // Continuation lines lose one octet to the leading space
+    const limit = parts.length === 0 ? 75 : 74;
+    if (size + charSize > limit) {
+      parts.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += charSize;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const toIcsDate = (date: string) => date.replace(/-/g, '');
+
+const toIcsTimestamp = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const eventLines = (event: CalendarEvent, stamp: string, sequence: number) => [
+  'BEGIN:VEVENT',
+  `UID:${event.uid}@${UID_DOMAIN}`,
+  `DTSTAMP:${stamp}`,
+  `SEQUENCE:${sequence}`,
+  `DTSTART;VALUE=DATE:${toIcsDate(event.range.start)}`,
+  // All-day events end on the following day (exclusive)
+  `DTEND;VALUE=DATE:${toIcsDate(addDays(event.range.end, 1))}`,
+  `SUMMARY:${escapeText(event.title)}`,
+  ...(event.cancelled ? ['STATUS:CANCELLED'] : []),
+  'TRANSP:TRANSPARENT',
+  'END:VEVENT',
+];
+
+export const buildCalendarEvents = (
+  summary: CycleSummary,
+  forecasts: CycleForecast[],
+  options: CalendarExportOptions,
+  today: Date = new Date()
+): CalendarEvent[] => {
+  const { titles, calendarId } = options;
+  const events: CalendarEvent[] = [];
+  const horizon = new Date(today);
+  horizon.setMonth(horizon.getMonth() + options.horizonMonths);
+  const horizonStr = formatDate(horizon);
+  const last = summary.cycles.at(-1);
+  if (!last) return events;
+
+  // "…-period-20260302" for a logged period, "…-period-20260302-ahead-2" for the one predicted
+  // two cycles after it. Fertile windows and ovulation follow the cycle they belong to.
+  const uid = (kind: string, start: string, ahead = 0) =>
+    `${calendarId}-${kind}-${toIcsDate(start)}${ahead ? `-ahead-${ahead}` : ''}`;
+
+  if (options.includeLogged) {
+    summary.cycles.forEach(cycle => events.push({
+      uid: uid('period', cycle.start),
+      title: titles.period,
+      range: { start: cycle.start, end: cycle.periodEnd },
+    }));
+  }
+
+  if (options.includeFertile && summary.fertileWindow && summary.ovulationDate) {
+    events.push({ uid: uid('fertile', last.start), title: titles.fertile, range: summary.fertileWindow });
+    events.push({
+      uid: uid('ovulation', last.start),
+      title: titles.ovulation,
+      range: { start: summary.ovulationDate, end: summary.ovulationDate },
+    });
+  }
+
+  for (const forecast of forecasts) {
+    if (forecast.likelyStart > horizonStr) break;
+    events.push({ uid: uid('period', last.start, forecast.index), title: titles.predictedPeriod, range: forecast.likelyPeriod });
+    if (options.includeFertile && forecast.ovulationDate && forecast.likelyFertileWindow && forecast.ovulationDate <= horizonStr) {
+      events.push({ uid: uid('fertile', last.start, forecast.index), title: titles.fertile, range: forecast.likelyFertileWindow });
+      events.push({
+        uid: uid('ovulation', last.start, forecast.index),
+        title: titles.ovulation,
+        range: { start: forecast.ovulationDate, end: forecast.ovulationDate },
+      });
+    }
+  }
+
+  // Earlier exports may hold predictions this one doesn't repeat: those made from an earlier
+  // cycle's start, however many cycles ago, and those past a horizon that has since shrunk.
+  // They're cancelled rather than left behind.
+  const active = new Set(events.map(e => e.uid));
+  const range = { start: last.start, end: last.periodEnd };
+  const predictions = [
+    { kind: 'period', title: titles.predictedPeriod },
+    { kind: 'fertile', title: titles.fertile },
+    { kind: 'ovulation', title: titles.ovulation },
+  ];
+  for (const cycle of summary.cycles) {
+    for (let ahead = 1; ahead <= MAX_AHEAD; ahead++) {
+      for (const { kind, title } of predictions) {
+        const id = uid(kind, cycle.start, ahead);
+        if (!active.has(id)) events.push({ uid: id, title, range, cancelled: true });
+      }
+    }
+  }
+
+  return events;
+};
+
+export const toIcs = (events: CalendarEvent[], now: Date = new Date()): string => {
+  const stamp = toIcsTimestamp(now);
+  // Calendar apps only apply an update when the sequence number grows
+  const sequence = Math.floor(now.getTime() / 60000);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Gyneo//Cycle Calendar//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    ...events.flatMap(event => eventLines(event, stamp, sequence)),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
@@ -0,0 +1,25 @@
+// --- Image Helpers ---
+
+// firestore.rules rejects a test strip photo this long or longer. compressImage's output stays far below it.
+export const MAX_PHOTO_LENGTH = 500000;
+
+// Downscales a photo to a small JPEG data URL so it fits comfortably inside a Firestore document
+export const compressImage = (file: File, maxSize = 320, quality = 0.6): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      const scale = Math.min(1, maxSize / Math.max(img.width, img.height));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(img.width * scale);
+      canvas.height = Math.round(img.height * scale);
+      canvas.getContext('2d')!.drawImage(img, 0, 0, canvas.width, canvas.height);
+      URL.revokeObjectURL(url);
+      resolve(canvas.toDataURL('image/jpeg', quality));
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not read image'));
+    };
+    img.src = url;
+  });
@@ -0,0 +1,149 @@
+import type { UserSettings } from '../types';
+import type { EncryptionConfig } from './encryption';
+import {
+  ENCRYPTION_DOC,
+  IN_SYNC,
+  SETTINGS_DOC,
+  type CollectionChange,
+  type CollectionRepository,
+  type DocumentRepository,
+  type StoredItem,
+  type StoredLogData,
+  type UserStorage
+} from './storage';
+
+// --- IndexedDB Backend ---
+// Guest mode keeps logs and settings in IndexedDB on this device and never talks to a server.
+// Watchers hear about every write, from this tab or another one, much like Firestore snapshots.
+
+const DB_NAME = 'gyneo-local';
+const DB_VERSION = 1;
+const LOGS = 'logs'; // Keyed by their date, which is also their id
+const SETTINGS = 'settings'; // Single documents, keyed by name
+const CHANNEL_NAME = 'gyneo-local';
+
+type Listener = () => void;
+
+let opening: Promise<IDBDatabase> | null = null;
+const listeners = new Map<string, Set<Listener>>();
+const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+
+const notifyHere = (store: string) => listeners.get(store)?.forEach(listener => listener());
+channel?.addEventListener('message', (event: MessageEvent<string>) => notifyHere(event.data));
+
+const notify = (store: string) => {
+  notifyHere(store);
+  channel?.postMessage(store);
+};
+
+const listen = (store: string, listener: Listener) => {
+  if (!listeners.has(store)) listeners.set(store, new Set());
+  listeners.get(store)!.add(listener);
+  return () => { listeners.get(store)!.delete(listener); };
+};
+
+const openDatabase = () => {
+  opening ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(LOGS, { keyPath: 'date' });
+      request.result.createObjectStore(SETTINGS);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      opening = null;
+      reject(request.error);
+    };
+  });
+  return opening;
+};
+
+// Runs `work` in one transaction and resolves with its request's result once everything is committed
+const transact = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  work: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T> => {
+  const database = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const tx = database.transaction(storeName, mode);
+    const request = work(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request ? request.result : undefined as T);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+// Watchers get the current value straight away and again after every change
+const watchStore = <T>(store: string, read: () => Promise<T>, onChange: (value: T) => void, onError?: (e: Error) => void) => {
+  let active = true;
+  const load = () => read()
+    .then((value) => { if (active) onChange(value); })
+    .catch((e) => onError ? onError(e) : console.error("Reading local data failed:", e));
+  load();
+  const stop = listen(store, load);
+  return () => {
+    active = false;
+    stop();
+  };
+};
+
+const createLogCollection = (): CollectionRepository<StoredLogData> => {
+  const readAll = async (): Promise<StoredItem<StoredLogData>[]> => {
+    const logs = await transact<StoredLogData[]>(LOGS, 'readonly', store => store.getAll());
+    return logs.map(data => ({ id: data.date, data }));
+  };
+
+  const write = async (changes: CollectionChange<StoredLogData>[]) => {
+    await transact(LOGS, 'readwrite', (store) => {
+      for (const change of changes) {
+        if (change.type === 'delete') {
+          store.delete(change.id);
+        } else if (change.type === 'merge') {
+          const existing = store.get(change.id);
+          existing.onsuccess = () => store.put({ ...existing.result, ...change.value, date: change.id });
+        } else {
+          store.put({ ...change.value, date: change.id });
+        }
+      }
+    });
+    notify(LOGS);
+  };
+
+  return {
+    watch: (onChange, onError) => watchStore(LOGS, readAll, items => onChange(items, IN_SYNC), onError),
+    set: (id, value) => write([{ type: 'set', id, value }]),
+    merge: (id, value) => write([{ type: 'merge', id, value }]),
+    delete: (id) => write([{ type: 'delete', id }]),
+    write,
+  };
+};
+
+const createDocument = <T>(key: string): DocumentRepository<T> => ({
+  watch: (onChange, onError) => watchStore(
+    SETTINGS,
+    () => transact<T | undefined>(SETTINGS, 'readonly', store => store.get(key)),
+    value => onChange(value ?? null, IN_SYNC),
+    onError
+  ),
+  set: async (value) => {
+    await transact(SETTINGS, 'readwrite', store => store.put(value, key));
+    notify(SETTINGS);
+  },
+  delete: async () => {
+    await transact(SETTINGS, 'readwrite', store => store.delete(key));
+    notify(SETTINGS);
+  },
+});
+
+export const createIndexedDbStorage = (): UserStorage => ({
+  logs: createLogCollection(),
+  settings: createDocument<UserSettings>(SETTINGS_DOC),
+  encryption: createDocument<EncryptionConfig>(ENCRYPTION_DOC),
+  clear: async () => {
+    await transact(LOGS, 'readwrite', store => store.clear());
+    await transact(SETTINGS, 'readwrite', store => store.clear());
+    notify(LOGS);
+    notify(SETTINGS);
+  },
+});
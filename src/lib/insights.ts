@@ -0,0 +1,93 @@
+import type { UserSettings } from '../types';
+import {
+  DEFAULT_ENGINE_OPTIONS,
+  getCycleDeviation,
+  isRegularCycle,
+  type Cycle,
+  type CycleSummary,
+  type EngineOptions
+} from './cycleEngine';
+import type { Translator } from './i18n';
+
+// --- Insights ---
+// Cycle history with the reason any cycle is left out of the statistics, using the same rules
+// as the predictions so the numbers shown match the ones the app works from.
+
+export type Exclusion = 'pregnancy' | 'recovery' | 'contraception' | 'too-short' | 'too-long';
+
+export interface CycleRow {
+  number: number; // 1 is the first cycle on record
+  cycle: Cycle;
+  exclusion: Exclusion | null; // null when the cycle counts (or is still ongoing)
+}
+
+export interface CycleStats {
+  count: number; // Cycles the statistics come from
+  average: number;
+  shortest: number;
+  longest: number;
+  deviation: number | null; // Sample standard deviation, needs two cycles
+  averagePeriod: number | null;
+}
+
+export const describeExclusion = (
+  exclusion: Exclusion,
+  { t }: Translator,
+  options: EngineOptions = DEFAULT_ENGINE_OPTIONS
+): string => {
+  switch (exclusion) {
+    case 'pregnancy': return t('exclusion.pregnancy');
+    case 'recovery': return t('exclusion.recovery');
+    case 'contraception': return t('exclusion.contraception');
+    case 'too-short': return t('exclusion.tooShort', { count: options.minCycleLength });
+    case 'too-long': return t('exclusion.tooLong', { count: options.maxCycleLength });
+  }
+};
+
+export const getCycleHistory = (
+  summary: CycleSummary,
+  settings: UserSettings,
+  options: EngineOptions = DEFAULT_ENGINE_OPTIONS
+): CycleRow[] => {
+  const natural = new Set(summary.naturalCycles.map(c => c.start));
+
+  return summary.cycles.map((cycle, i) => {
+    let exclusion: Exclusion | null = null;
+    if (!natural.has(cycle.start)) {
+      const pregnancy = settings.pregnancies?.find(p => cycle.start >= p.lmp && (!p.endedOn || cycle.start < p.endedOn));
+      exclusion = pregnancy ? 'pregnancy'
+        : settings.pregnancies?.some(p => p.endedOn && cycle.start >= p.endedOn) ? 'recovery'
+          : 'contraception';
+      // The recovery cycle is the first after the pregnancy, anything later is on contraception
+      if (exclusion === 'recovery' && settings.contraception && cycle.start >= settings.contraception.startDate) {
+        exclusion = 'contraception';
+      }
+    } else if (cycle.cycleLength !== null && !isRegularCycle(cycle, options)) {
+      exclusion = cycle.cycleLength < options.minCycleLength ? 'too-short' : 'too-long';
+    }
+    return { number: i + 1, cycle, exclusion };
+  });
+};
+
+export const getCycleStats = (
+  rows: CycleRow[],
+  options: EngineOptions = DEFAULT_ENGINE_OPTIONS
+): CycleStats | null => {
+  const counted = rows.filter(r => r.exclusion === null && r.cycle.cycleLength !== null).map(r => r.cycle);
+  if (counted.length === 0) return null;
+  const lengths = counted.map(c => c.cycleLength!);
+  // As in the predictions, only completed cycles: the ongoing period may still be running
+  const periods = rows
+    .filter(r => r.exclusion === null || r.exclusion === 'too-short' || r.exclusion === 'too-long')
+    .filter(r => r.cycle.end !== null)
+    .map(r => r.cycle.periodLength);
+
+  return {
+    count: counted.length,
+    average: lengths.reduce((sum, l) => sum + l, 0) / lengths.length,
+    shortest: Math.min(...lengths),
+    longest: Math.max(...lengths),
+    deviation: getCycleDeviation(counted, options),
+    averagePeriod: periods.length > 0 ? periods.reduce((sum, l) => sum + l, 0) / periods.length : null,
+  };
+};
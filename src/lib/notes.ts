@@ -0,0 +1,75 @@
+// --- Notes ---
+// Notes are stored as plain text with a few markdown-style marks: **bold**, *italic* and lines
+// starting with "- " for lists. Anything else is shown as written, never as HTML.
+
+export interface NoteSpan {
+  text: string;
+  bold: boolean;
+  italic: boolean;
+}
+
+export interface NoteBlock {
+  type: 'paragraph' | 'bullet';
+  spans: NoteSpan[];
+}
+
+export interface TextSegment {
+  text: string;
+  match: boolean;
+}
+
+export const MAX_NOTE_LENGTH = 5000;
+
+const INLINE_MARKS = /(\*\*[^*]+\*\*|\*[^*\s][^*]*\*)/g;
+
+const parseSpans = (line: string): NoteSpan[] =>
+  line.split(INLINE_MARKS).filter(Boolean).map(part => {
+    if (/^\*\*[^*]+\*\*$/.test(part)) return { text: part.slice(2, -2), bold: true, italic: false };
+    if (/^\*[^*\s][^*]*\*$/.test(part)) return { text: part.slice(1, -1), bold: false, italic: true };
+    return { text: part, bold: false, italic: false };
+  });
+
+export const parseNote = (note: string): NoteBlock[] =>
+  note.split('\n').filter(line => line.trim()).map(line => {
+    const bullet = line.match(/^\s*[-*]\s+(.*)$/);
+    return bullet
+      ? { type: 'bullet', spans: parseSpans(bullet[1]) }
+      : { type: 'paragraph', spans: parseSpans(line) };
+  });
+
+// The note without formatting marks, for previews
+export const noteToText = (note: string): string =>
+  parseNote(note).map(block => block.spans.map(s => s.text).join('')).join(' ');
+
+// Splits text around every case-insensitive occurrence of the terms
+export const highlight = (text: string, terms: string[]): TextSegment[] => {
+  const escaped = terms.filter(Boolean).map(t => t.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  if (escaped.length === 0) return [{ text, match: false }];
+  const pattern = new RegExp(`(${escaped.join('|')})`, 'gi');
+  return text.split(pattern).filter(Boolean).map(part => ({
+    text: part,
+    match: terms.some(t => t && t.toLowerCase() === part.toLowerCase()),
+  }));
+};
+
+// Wraps the selected range in a mark ("**", "*") or prefixes the selected lines with "- "
+export const applyFormat = (
+  note: string,
+  start: number,
+  end: number,
+  format: 'bold' | 'italic' | 'list'
+): { note: string, start: number, end: number } => {
+  if (format === 'list') {
+    const lineStart = note.lastIndexOf('\n', start - 1) + 1;
+    const lines = note.slice(lineStart, end).split('\n');
+    const listed = lines.map(line => line.startsWith('- ') ? line : `- ${line}`).join('\n');
+    return { note: note.slice(0, lineStart) + listed + note.slice(end), start: lineStart, end: lineStart + listed.length };
+  }
+  const mark = format === 'bold' ? '**' : '*';
+  const selected = note.slice(start, end) || (format === 'bold' ? 'bold' : 'italic');
+  return {
+    note: note.slice(0, start) + mark + selected + mark + note.slice(end),
+    start: start + mark.length,
+    end: start + mark.length + selected.length,
+  };
+};
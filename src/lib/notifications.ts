@@ -0,0 +1,64 @@
+import type { Reminder } from './reminders';
+
+// --- Service Worker & Notifications ---
+// Browsers can't wake a page at a set time, so reminders are handed to the service worker
+// (public/sw.js). It shows them when a scheduled trigger fires, on periodic background sync,
+// or as soon as the app is opened again.
+
+const SERVICE_WORKER_URL = '/sw.js';
+const PERIODIC_SYNC_TAG = 'gyneo-reminders';
+const PERIODIC_SYNC_INTERVAL = 60 * 60 * 1000;
+
+// Not in the DOM typings yet
+interface PeriodicSyncRegistration extends ServiceWorkerRegistration {
+  periodicSync?: { register: (tag: string, options: { minInterval: number }) => Promise<void> };
+}
+
+let checkTimer: ReturnType<typeof setTimeout> | undefined;
+
+export const notificationsSupported = () =>
+  'serviceWorker' in navigator && 'Notification' in window;
+
+export const registerServiceWorker = async () => {
+  if (!('serviceWorker' in navigator)) return;
+  try {
+    await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+  } catch (e) {
+    console.error("Service worker registration failed:", e);
+  }
+};
+
+export const requestNotificationPermission = async (): Promise<NotificationPermission> => {
+  if (!notificationsSupported()) return 'denied';
+  if (Notification.permission !== 'default') return Notification.permission;
+  return Notification.requestPermission();
+};
+
+// Replaces whatever was scheduled before. An empty list cancels every reminder.
+export const scheduleReminders = async (reminders: Reminder[]) => {
+  if (!notificationsSupported()) return;
+  const allowed = Notification.permission === 'granted' ? reminders : [];
+  try {
+    const registration = await navigator.serviceWorker.ready as PeriodicSyncRegistration;
+    registration.active?.postMessage({ type: 'reminders:schedule', reminders: allowed });
+
+    if (allowed.length > 0 && registration.periodicSync) {
+      // Only granted to installed apps; best effort elsewhere
+      await registration.periodicSync
+        .register(PERIODIC_SYNC_TAG, { minInterval: PERIODIC_SYNC_INTERVAL })
+        .catch(() => undefined);
+    }
+
+    // While the app stays open, nudge the worker when the next reminder is due
+    clearTimeout(checkTimer);
+    const next = allowed[0];
+    if (next) {
+      checkTimer = setTimeout(
+        () => registration.active?.postMessage({ type: 'reminders:check' }),
+        Math.min(next.fireAt - Date.now(), 2 ** 31 - 1)
+      );
+    }
+  } catch (e) {
+    console.error("Scheduling reminders failed:", e);
+  }
+};
@@ -0,0 +1,195 @@
+import type { DailyLog } from '../types';
+import {
+  getObservedOvulation,
+  getOvulationDate,
+  getFertileWindow,
+  isInRange,
+  type Cycle,
+  type CycleSummary,
+  type DateRange
+} from './cycleEngine';
+import { addDays, diffDays } from './dates';
+import { translateItemName } from './symptoms';
+import type { Translator } from './i18n';
+
+// --- Symptom & Mood Patterns ---
+// Lines logs up by cycle day across completed cycles. A pattern is a 2-day window, counted
+// from the start of the cycle or back from the next period, where something was logged in
+// most of the cycles the user tracked. Only cycles with at least one mood or symptom count.
+
+export type Phase = 'menstrual' | 'follicular' | 'ovulatory' | 'luteal';
+
+export interface PatternWindow {
+  anchor: 'start' | 'end'; // Cycle days from the start, or days before the next period
+  from: number; // 1-based; for 'end', 1 is the day before the period
+  to: number;
+}
+
+export interface SymptomPattern {
+  item: string; // Symptom name, or "mood:Sad" for moods
+  window: PatternWindow;
+  hits: number; // Cycles with the item inside the window
+  tracked: number; // Cycles looked at
+  phase: Phase | null; // Where most of the item's logs fall, when one phase clearly dominates
+}
+
+export interface Heatmap {
+  items: string[]; // Most frequent first
+  days: number;
+  cells: number[][]; // [item][day - 1]: share of tracked cycles with the item logged that day
+  tracked: number;
+}
+
+const WINDOW_DAYS = 2;
+const MAX_CYCLES = 12;
+const MIN_HITS = 3;
+const MIN_SHARE = 0.5;
+const DOMINANT_PHASE_SHARE = 0.6;
+const MAX_END_OFFSET = 10;
+
+// Moods share the item list with symptoms, so they carry a prefix no catalog name can clash with
+const MOOD_PREFIX = 'mood:';
+
+const itemsOf = (log: DailyLog): string[] =>
+  [...log.symptoms.map(s => s.name), ...(log.mood ? [`${MOOD_PREFIX}${log.mood}`] : [])];
+
+// "Headache", or "Feeling sad" for a mood
+export const describeItem = (item: string, { t, locale }: Translator): string =>
+  item.startsWith(MOOD_PREFIX)
+    ? t('patterns.feeling', { mood: translateItemName(item.slice(MOOD_PREFIX.length), t).toLocaleLowerCase(locale) })
+    : translateItemName(item, t);
+
+// One entry per item logged in the cycle: the cycle days and days-before-next-period it appeared on
+interface TrackedCycle {
+  cycle: Cycle;
+  fromStart: Map<string, Set<number>>;
+  beforeEnd: Map<string, Set<number>>;
+  phases: Map<string, Phase[]>;
+}
+
+export const getPhase = (cycle: Cycle, date: string, lutealLength: number): Phase => {
+  const day = diffDays(cycle.start, date) + 1;
+  if (date <= cycle.periodEnd) return 'menstrual';
+  const length = cycle.cycleLength ?? day;
+  const ovulation = getObservedOvulation(cycle)?.date ?? getOvulationDate(cycle.start, length, lutealLength);
+  if (isInRange(date, getFertileWindow(ovulation))) return 'ovulatory';
+  return date < ovulation ? 'follicular' : 'luteal';
+};
+
+const trackCycles = (logs: DailyLog[], summary: CycleSummary): TrackedCycle[] => {
+  const byDate = new Map(logs.filter(l => !l.planned).map(l => [l.date, l]));
+  const completed = summary.naturalCycles.filter(c => c.end !== null);
+
+  return completed.flatMap(cycle => {
+    const tracked: TrackedCycle = { cycle, fromStart: new Map(), beforeEnd: new Map(), phases: new Map() };
+    const nextStart = addDays(cycle.end!, 1);
+    const add = (map: Map<string, Set<number>>, item: string, day: number) =>
+      map.set(item, (map.get(item) ?? new Set()).add(day));
+
+    for (let date = cycle.start; date <= cycle.end!; date = addDays(date, 1)) {
+      const log = byDate.get(date);
+      if (!log) continue;
+      for (const item of itemsOf(log)) {
+        add(tracked.fromStart, item, diffDays(cycle.start, date) + 1);
+        add(tracked.beforeEnd, item, diffDays(date, nextStart));
+        tracked.phases.set(item, [...(tracked.phases.get(item) ?? []), getPhase(cycle, date, summary.lutealLength)]);
+      }
+    }
+    return tracked.fromStart.size > 0 ? [tracked] : [];
+  }).slice(-MAX_CYCLES);
+};
+
+const dominantPhase = (phases: Phase[]): Phase | null => {
+  const counts = new Map<Phase, number>();
+  phases.forEach(p => counts.set(p, (counts.get(p) ?? 0) + 1));
+  const [phase, count] = [...counts].sort((a, b) => b[1] - a[1])[0] ?? [];
+  return phase && count! / phases.length >= DOMINANT_PHASE_SHARE ? phase : null;
+};
+
+export const findPatterns = (logs: DailyLog[], summary: CycleSummary): SymptomPattern[] => {
+  const cycles = trackCycles(logs, summary);
+  if (cycles.length < MIN_HITS) return [];
+  const items = new Set(cycles.flatMap(c => [...c.fromStart.keys()]));
+  const maxDay = Math.max(...cycles.map(c => c.cycle.cycleLength!));
+
+  const patterns: SymptomPattern[] = [];
+  for (const item of items) {
+    const candidates: PatternWindow[] = [
+      ...Array.from({ length: maxDay - WINDOW_DAYS + 1 }, (_, i) => ({ anchor: 'start' as const, from: i + 1, to: i + WINDOW_DAYS })),
+      ...Array.from({ length: MAX_END_OFFSET - WINDOW_DAYS + 1 }, (_, i) => ({ anchor: 'end' as const, from: i + 1, to: i + WINDOW_DAYS })),
+    ];
+    let best: { window: PatternWindow, hits: number } | null = null;
+    for (const window of candidates) {
+      const hits = cycles.filter(c => {
+        const days = (window.anchor === 'start' ? c.fromStart : c.beforeEnd).get(item);
+        return !!days && [...days].some(d => d >= window.from && d <= window.to);
+      }).length;
+      // Late in the cycle, "before your period" holds up better than a cycle day when both fit
+      const preferEnd = best && hits === best.hits && window.anchor === 'end' &&
+        best.window.anchor === 'start' && best.window.from > summary.cycleLength / 2;
+      if (!best || hits > best.hits || preferEnd) best = { window, hits };
+    }
+    if (best && best.hits >= MIN_HITS && best.hits / cycles.length >= MIN_SHARE) {
+      patterns.push({
+        item,
+        window: best.window,
+        hits: best.hits,
+        tracked: cycles.length,
+        phase: dominantPhase(cycles.flatMap(c => c.phases.get(item) ?? [])),
+      });
+    }
+  }
+  return patterns.sort((a, b) => b.hits / b.tracked - a.hits / a.tracked);
+};
+
+export const describePattern = ({ item, window, hits, tracked }: SymptomPattern, translator: Translator): string => {
+  const params = { item: describeItem(item, translator), from: window.from, to: window.to, hits, count: tracked };
+  return translator.t(window.anchor === 'start' ? 'patterns.onDays' : 'patterns.beforePeriod', params);
+};
+
+export const buildHeatmap = (logs: DailyLog[], summary: CycleSummary): Heatmap | null => {
+  const cycles = trackCycles(logs, summary);
+  if (cycles.length === 0) return null;
+  const days = Math.max(...cycles.map(c => c.cycle.cycleLength!));
+
+  const totals = new Map<string, number>();
+  cycles.forEach(c => c.fromStart.forEach((set, item) => totals.set(item, (totals.get(item) ?? 0) + set.size)));
+  const items = [...totals].sort((a, b) => b[1] - a[1]).map(([item]) => item);
+
+  const cells = items.map(item => Array.from({ length: days }, (_, i) =>
+    cycles.filter(c => c.fromStart.get(item)?.has(i + 1)).length / cycles.length
+  ));
+  return { items, days, cells, tracked: cycles.length };
+};
+
+// Where a pattern falls around today: in the current cycle, or the next one once it's close
+const patternDates = (pattern: SymptomPattern, summary: CycleSummary): DateRange[] => {
+  const { window } = pattern;
+  const ranges: DateRange[] = [];
+  if (window.anchor === 'start') {
+    const starts = [summary.currentCycle?.start, summary.nextPeriodStart].filter((s): s is string => !!s);
+    starts.forEach(start => ranges.push({ start: addDays(start, window.from - 1), end: addDays(start, window.to - 1) }));
+  } else if (summary.nextPeriodStart) {
+    ranges.push({ start: addDays(summary.nextPeriodStart, -window.to), end: addDays(summary.nextPeriodStart, -window.from) });
+  }
+  return ranges;
+};
+
+export interface Expectation {
+  pattern: SymptomPattern;
+  date: string; // First day it's likely, today or later
+}
+
+export const getUpcomingPatterns = (
+  patterns: SymptomPattern[],
+  summary: CycleSummary,
+  today: string,
+  horizonDays: number = 3
+): Expectation[] => {
+  if (summary.pregnant || !summary.nextPeriodStart) return [];
+  const horizon = addDays(today, horizonDays);
+  return patterns.flatMap(pattern => {
+    const range = patternDates(pattern, summary).find(r => r.end >= today && r.start <= horizon);
+    return range ? [{ pattern, date: range.start < today ? today : range.start }] : [];
+  }).sort((a, b) => a.date.localeCompare(b.date));
+};
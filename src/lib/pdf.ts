@@ -0,0 +1,200 @@
+// --- PDF Writer ---
+// Just enough of PDF 1.4 for generated reports: A4 pages with text in the standard Helvetica fonts,
+// lines, rectangles and polylines. Nothing is embedded, so text is limited to what WinAnsiEncoding
+// covers (Latin-1 and a few typographic marks); anything else prints as "?".
+// Coordinates are in points from the top-left corner of the page.
+
+export const PAGE_WIDTH = 595.28;
+export const PAGE_HEIGHT = 841.89;
+
+export interface TextOptions {
+  size?: number; // Points, default 10
+  bold?: boolean;
+  color?: string; // #rrggbb
+  align?: 'left' | 'right' | 'center'; // Relative to x
+}
+
+export interface ShapeOptions {
+  fill?: string;
+  stroke?: string;
+  width?: number; // Line width in points
+}
+
+export interface PdfDocument {
+  addPage(): void;
+  setPage(index: number): void; // 0-based, to go back and add e.g. page numbers
+  pageCount(): number;
+  text(x: number, y: number, value: string, options?: TextOptions): void;
+  line(x1: number, y1: number, x2: number, y2: number, options?: ShapeOptions): void;
+  rect(x: number, y: number, width: number, height: number, options?: ShapeOptions): void;
+  polyline(points: [number, number][], options?: ShapeOptions): void;
+  toBytes(): Uint8Array<ArrayBuffer>;
+}
+
+// Advance widths of characters 32-126 in 1/1000 em, from the Adobe font metrics
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+// Used for the Latin-1 and typographic characters outside the tables above
+const DEFAULT_WIDTH = 556;
+
+// WinAnsiEncoding differs from Latin-1 only in 0x80-0x9F
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97,
+};
+
+const encodeChar = (char: string): number => {
+  const code = char.charCodeAt(0);
+  if ((code >= 32 && code <= 126) || (code >= 0xa0 && code <= 0xff)) return code;
+  return WIN_ANSI_EXTRAS[char] ?? 63; // ?
+};
+
+// Whether the fonts can print every character, anything else comes out as "?". Line breaks are
+// handled by wrapText.
+export const canEncode = (value: string): boolean =>
+  [...value].every(char => char === '\n' || char === '?' || encodeChar(char) !== 63);
+
+export const measureText = (value: string, size: number = 10, bold: boolean = false): number => {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let total = 0;
+  for (const char of value) {
+    const code = encodeChar(char);
+    total += code >= 32 && code <= 126 ? widths[code - 32] : DEFAULT_WIDTH;
+  }
+  return (total * size) / 1000;
+};
+
+// Breaks text into lines no wider than `width`, at spaces where possible
+export const wrapText = (value: string, width: number, size: number = 10, bold: boolean = false): string[] => {
+  const lines: string[] = [];
+  for (const paragraph of value.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(' ')) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (measureText(candidate, size, bold) <= width) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      // A single word wider than the line is cut wherever it has to be
+      line = word;
+      while (measureText(line, size, bold) > width && line.length > 1) {
+        let cut = line.length - 1;
+        while (cut > 1 && measureText(line.slice(0, cut), size, bold) > width) cut--;
+        lines.push(line.slice(0, cut));
+        line = line.slice(cut);
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+};
+
+const escapeText = (value: string): string =>
+  Array.from(value, char => {
+    const code = encodeChar(char);
+    if (char === '(' || char === ')' || char === '\\') return `\\${char}`;
+    return String.fromCharCode(code);
+  }).join('');
+
+const num = (value: number) => (Math.round(value * 100) / 100).toString();
+
+const rgb = (hex: string): string => {
+  const value = parseInt(hex.slice(1), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255].map(c => num(c / 255)).join(' ');
+};
+
+// PDF's origin is the bottom-left corner
+const flip = (y: number) => num(PAGE_HEIGHT - y);
+
+const paint = (options: ShapeOptions): { setup: string, operator: string } => {
+  const setup = [
+    options.fill ? `${rgb(options.fill)} rg` : '',
+    options.stroke ? `${rgb(options.stroke)} RG` : '',
+    `${num(options.width ?? 0.5)} w`,
+  ].filter(Boolean).join(' ');
+  const operator = options.fill && options.stroke ? 'B' : options.fill ? 'f' : 'S';
+  return { setup, operator };
+};
+
+export const createPdf = (): PdfDocument => {
+  const pages: string[][] = [[]];
+  let current = 0;
+  const draw = (operation: string) => pages[current].push(operation);
+
+  return {
+    addPage: () => {
+      pages.push([]);
+      current = pages.length - 1;
+    },
+    setPage: (index) => { current = index; },
+    pageCount: () => pages.length,
+    text: (x, y, value, options = {}) => {
+      const size = options.size ?? 10;
+      const bold = options.bold ?? false;
+      const width = measureText(value, size, bold);
+      const left = options.align === 'right' ? x - width : options.align === 'center' ? x - width / 2 : x;
+      draw(`BT ${rgb(options.color ?? '#334155')} rg /${bold ? 'F2' : 'F1'} ${num(size)} Tf ${num(left)} ${flip(y)} Td (${escapeText(value)}) Tj ET`);
+    },
+    line: (x1, y1, x2, y2, options = {}) => {
+      draw(`q ${rgb(options.stroke ?? '#334155')} RG ${num(options.width ?? 0.5)} w ${num(x1)} ${flip(y1)} m ${num(x2)} ${flip(y2)} l S Q`);
+    },
+    rect: (x, y, width, height, options = {}) => {
+      const { setup, operator } = paint(options.fill || options.stroke ? options : { ...options, stroke: '#334155' });
+      draw(`q ${setup} ${num(x)} ${flip(y + height)} ${num(width)} ${num(height)} re ${operator} Q`);
+    },
+    polyline: (points, options = {}) => {
+      if (points.length < 2) return;
+      const path = points.map(([x, y], i) => `${num(x)} ${flip(y)} ${i === 0 ? 'm' : 'l'}`).join(' ');
+      draw(`q ${rgb(options.stroke ?? '#334155')} RG ${num(options.width ?? 0.5)} w 1 j ${path} S Q`);
+    },
+    toBytes: () => {
+      // 1: catalog, 2: page tree, 3-4: fonts, then a page and its content stream for each page
+      const objects: string[] = [
+        '<< /Type /Catalog /Pages 2 0 R >>',
+        `<< /Type /Pages /Kids [${pages.map((_, i) => `${5 + i * 2} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+        '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+        '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+      ];
+      pages.forEach((operations, i) => {
+        const content = operations.join('\n');
+        objects.push(
+          `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(PAGE_WIDTH)} ${num(PAGE_HEIGHT)}] ` +
+          `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${6 + i * 2} 0 R >>`,
+          `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+        );
+      });
+
+      // Every character is a single byte, so string offsets are byte offsets
+      let output = '%PDF-1.4\n';
+      const offsets = objects.map((object, i) => {
+        const offset = output.length;
+        output += `${i + 1} 0 obj\n${object}\nendobj\n`;
+        return offset;
+      });
+      const xref = output.length;
+      output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+      output += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+      output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+      const bytes = new Uint8Array(output.length);
+      for (let i = 0; i < output.length; i++) bytes[i] = output.charCodeAt(i);
+      return bytes;
+    },
+  };
+};
@@ -0,0 +1,56 @@
+import type { Pregnancy } from '../types';
+import { addDays, diffDays } from './dates';
+
+// --- Pregnancy ---
+// Gestational age counts from the first day of the last period (LMP), or from a dating scan
+// when there is one. Cycle tracking pauses during a pregnancy, and the first cycle after it
+// ends is a recovery (postpartum) cycle that doesn't say much about the usual cycle either.
+
+export const PREGNANCY_DAYS = 280; // 40 weeks from the LMP
+export const TRIMESTER_STARTS = [0, 14, 28]; // Gestational week each trimester starts
+
+export interface GestationalAge {
+  weeks: number;
+  days: number; // 0-6, on top of `weeks`
+  totalDays: number;
+  trimester: 1 | 2 | 3;
+}
+
+// The LMP a pregnancy is dated from, corrected by the scan when there is one
+export const getDatingStart = (pregnancy: Pregnancy): string =>
+  pregnancy.scan
+    ? addDays(pregnancy.scan.date, -(pregnancy.scan.weeks * 7 + pregnancy.scan.days))
+    : pregnancy.lmp;
+
+export const getDueDate = (pregnancy: Pregnancy): string => addDays(getDatingStart(pregnancy), PREGNANCY_DAYS);
+
+export const getGestationalAge = (pregnancy: Pregnancy, today: string): GestationalAge => {
+  const totalDays = Math.max(0, diffDays(getDatingStart(pregnancy), today));
+  const weeks = Math.floor(totalDays / 7);
+  const trimester = weeks >= TRIMESTER_STARTS[2] ? 3 : weeks >= TRIMESTER_STARTS[1] ? 2 : 1;
+  return { weeks, days: totalDays % 7, totalDays, trimester };
+};
+
+export const getActivePregnancy = (pregnancies: Pregnancy[] | undefined, today: string): Pregnancy | null => {
+  const last = pregnancies?.[pregnancies.length - 1];
+  return last && !last.endedOn && last.lmp <= today ? last : null;
+};
+
+export const getLastEndedPregnancy = (pregnancies: Pregnancy[] | undefined, today: string): Pregnancy | null => {
+  const ended = (pregnancies ?? []).filter(p => p.endedOn && p.endedOn <= today);
+  return ended.length > 0 ? ended[ended.length - 1] : null;
+};
+
+// Cycle starts that belong to a pregnancy or its recovery cycle, left out of every average
+export const getPregnancyCycleStarts = (starts: string[], pregnancies: Pregnancy[] | undefined): Set<string> => {
+  const excluded = new Set<string>();
+  for (const pregnancy of pregnancies ?? []) {
+    const { lmp, endedOn } = pregnancy;
+    for (const start of starts) {
+      if (start >= lmp && (!endedOn || start < endedOn)) excluded.add(start);
+    }
+    const recovery = endedOn ? starts.find(start => start >= endedOn) : undefined;
+    if (recovery) excluded.add(recovery);
+  }
+  return excluded;
+};
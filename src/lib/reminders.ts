@@ -0,0 +1,132 @@
+import type { DailyLog, ReminderSettings } from '../types';
+import type { CycleForecast, CycleSummary } from './cycleEngine';
+import { addDays, formatDate, parseDate } from './dates';
+import type { Translator } from './i18n';
+
+// --- Reminders ---
+// The page works out what to remind about and when; the service worker only delivers.
+// The schedule is rebuilt whenever logs or settings change, so it always matches the predictions.
+
+export interface Reminder {
+  id: string; // Stable per reminder, so a rebuilt schedule doesn't notify twice
+  fireAt: number; // Epoch milliseconds
+  title: string;
+  body: string;
+}
+
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
+  time: '09:00',
+  periodSoon: true,
+  periodSoonDays: 2,
+  fertileSoon: false,
+  dailyLog: false,
+  late: true,
+  lateDays: 3,
+  discreet: false,
+  discreetText: '', // The translated default
+};
+
+// Fills in missing or malformed fields from the defaults (e.g. settings restored from a backup)
+export const normalizeReminderSettings = (raw: unknown): ReminderSettings => {
+  const entry = (typeof raw === 'object' && raw !== null ? raw : {}) as Record<string, unknown>;
+  const bool = (key: keyof ReminderSettings) =>
+    typeof entry[key] === 'boolean' ? entry[key] as boolean : DEFAULT_REMINDER_SETTINGS[key] as boolean;
+  const days = (key: 'periodSoonDays' | 'lateDays') => {
+    const value = Number(entry[key]);
+    return Number.isInteger(value) && value >= 1 && value <= 14 ? value : DEFAULT_REMINDER_SETTINGS[key];
+  };
+  return {
+    time: typeof entry.time === 'string' && /^([01]\d|2[0-3]):[0-5]\d$/.test(entry.time)
+      ? entry.time
+      : DEFAULT_REMINDER_SETTINGS.time,
+    periodSoon: bool('periodSoon'),
+    periodSoonDays: days('periodSoonDays'),
+    fertileSoon: bool('fertileSoon'),
+    dailyLog: bool('dailyLog'),
+    late: bool('late'),
+    lateDays: days('lateDays'),
+    discreet: bool('discreet'),
+    discreetText: typeof entry.discreetText === 'string'
+      ? entry.discreetText.trim().slice(0, 100)
+      : DEFAULT_REMINDER_SETTINGS.discreetText,
+  };
+};
+
+// Local time on the given day
+const at = (date: string, time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const d = parseDate(date);
+  d.setHours(hours || 0, minutes || 0, 0, 0);
+  return d.getTime();
+};
+
+export const buildReminderSchedule = (
+  settings: ReminderSettings,
+  summary: CycleSummary,
+  nextForecast: CycleForecast | undefined,
+  logs: DailyLog[],
+  { t }: Translator,
+  now: Date = new Date()
+): Reminder[] => {
+  const today = formatDate(now);
+  const reminders: Reminder[] = [];
+
+  if (summary.nextPeriodStart) {
+    const expected = summary.nextPeriodStart;
+
+    if (settings.periodSoon) {
+      reminders.push({
+        id: `period-soon-${expected}`,
+        fireAt: at(addDays(expected, -settings.periodSoonDays), settings.time),
+        title: t('reminders.periodSoonTitle'),
+        body: t('reminders.periodSoonBody', { count: settings.periodSoonDays }),
+      });
+    }
+
+    if (settings.late) {
+      const day = addDays(expected, settings.lateDays);
+      reminders.push({
+        id: `period-late-${expected}`,
+        fireAt: at(day, settings.time),
+        title: t('reminders.lateTitle'),
+        body: t('reminders.lateBody', { count: settings.lateDays }),
+      });
+    }
+  }
+
+  if (settings.fertileSoon) {
+    // The current cycle's window if it's still ahead, otherwise the next cycle's
+    const window = summary.fertileWindow && summary.fertileWindow.start > today
+      ? summary.fertileWindow
+      : nextForecast?.likelyFertileWindow;
+    if (window) {
+      reminders.push({
+        id: `fertile-soon-${window.start}`,
+        fireAt: at(addDays(window.start, -1), settings.time),
+        title: t('reminders.fertileTitle'),
+        body: t('reminders.fertileBody'),
+      });
+    }
+  }
+
+  if (settings.dailyLog) {
+    // Today only if nothing is logged yet; tomorrow is always pending until then
+    const loggedToday = logs.some(l => l.date === today && !l.planned);
+    const days = loggedToday ? [addDays(today, 1)] : [today, addDays(today, 1)];
+    for (const day of days) {
+      reminders.push({
+        id: `daily-log-${day}`,
+        fireAt: at(day, settings.time),
+        title: t('reminders.dailyLogTitle'),
+        body: t('reminders.dailyLogBody'),
+      });
+    }
+  }
+
+  return reminders
+    .filter(r => r.fireAt > now.getTime())
+    .map(r => settings.discreet
+      ? { ...r, title: t('reminders.discreetTitle'), body: settings.discreetText || t('reminders.discreetBody') }
+      : r)
+    .sort((a, b) => a.fireAt - b.fireAt);
+};
@@ -0,0 +1,517 @@
+import type { DailyLog, FlowLevel, LhResult, PregnancyTestResult, Severity, TemperatureUnit, UserSettings } from '../types';
+import { addDays, diffDays, formatDate, parseDate } from './dates';
+import { isInRange, summarizeCycles, type Cycle, type DateRange } from './cycleEngine';
+import { getCycleHistory, getCycleStats, type CycleStats, type Exclusion } from './insights';
+import { getPhase, type Phase } from './patterns';
+import { getTemperatures, fromCelsius, type DatedTemperature } from './temperature';
+import { SEVERITY_LEVELS, translateItemName } from './symptoms';
+import { noteToText } from './notes';
+import { canEncode, createPdf, measureText, PAGE_HEIGHT, PAGE_WIDTH, wrapText, type PdfDocument } from './pdf';
+import type { Translator } from './i18n';
+
+// --- Doctor Report ---
+// A printable summary of a date range for a gynecologist appointment, built from the logs alone.
+// buildReport() works out what goes in it, reportToPdf() lays it out on A4 pages. Both write in the
+// translator's language.
+
+export interface ReportOptions {
+  range: DateRange;
+  includeMoods: boolean;
+  includeNotes: boolean;
+}
+
+export interface ReportCycle {
+  start: string;
+  cycleLength: number | null; // null for the ongoing cycle
+  periodLength: number;
+  exclusion: Exclusion | null;
+}
+
+export interface PhaseCount {
+  days: number;
+  severity: Severity | null; // Typical severity on those days, symptoms only
+}
+
+export interface PhaseBreakdown {
+  name: string;
+  total: number; // Days logged in the range, including those outside any cycle
+  phases: Record<Phase, PhaseCount>;
+}
+
+export interface TestResult {
+  date: string;
+  test: 'LH' | 'Pregnancy';
+  result: LhResult | PregnancyTestResult;
+}
+
+export interface DoctorReport {
+  range: DateRange;
+  generatedOn: string;
+  context: string[]; // Contraception, pregnancies and anything else that explains the numbers
+  stats: CycleStats | null;
+  cycles: ReportCycle[];
+  flow: Map<string, FlowLevel>;
+  symptoms: PhaseBreakdown[];
+  moods: PhaseBreakdown[] | null; // null when left out
+  irregularities: string[];
+  temperatures: DatedTemperature[];
+  thermalShifts: { cycleStart: string, ovulationDate: string, coverline: number }[];
+  temperatureUnit: TemperatureUnit;
+  tests: TestResult[];
+  notes: { date: string, text: string }[] | null; // null when left out
+}
+
+export const PHASES: Phase[] = ['menstrual', 'follicular', 'ovulatory', 'luteal'];
+
+// FIGO: cycles whose length varies by more than this are irregular, periods longer than this are prolonged
+export const IRREGULAR_VARIATION_DAYS = 7;
+export const PROLONGED_PERIOD_DAYS = 8;
+
+export const formatReportDate = (date: string, i18n: Translator) =>
+  i18n.formatDate(parseDate(date), { day: 'numeric', month: 'short', year: 'numeric' });
+
+const formatRange = (range: DateRange, i18n: Translator) =>
+  `${formatReportDate(range.start, i18n)} – ${formatReportDate(range.end, i18n)}`;
+
+const emptyPhases = (): Record<Phase, PhaseCount> =>
+  Object.fromEntries(PHASES.map(p => [p, { days: 0, severity: null }])) as Record<Phase, PhaseCount>;
+
+// The most common severity, the higher one on a tie
+const typicalSeverity = (severities: Severity[]): Severity | null => {
+  let best: Severity | null = null;
+  let bestCount = 0;
+  for (const level of SEVERITY_LEVELS) {
+    const count = severities.filter(s => s === level).length;
+    if (count > 0 && count >= bestCount) {
+      best = level;
+      bestCount = count;
+    }
+  }
+  return best;
+};
+
+const breakdown = (
+  entries: { date: string, name: string, severity: Severity | null }[],
+  phaseOf: (date: string) => Phase | null
+): PhaseBreakdown[] => {
+  const byName = new Map<string, { total: number, phases: Map<Phase, Severity[]>, days: Map<Phase, number> }>();
+  for (const { date, name, severity } of entries) {
+    const item = byName.get(name) ?? { total: 0, phases: new Map(), days: new Map() };
+    item.total++;
+    const phase = phaseOf(date);
+    if (phase) {
+      item.days.set(phase, (item.days.get(phase) ?? 0) + 1);
+      if (severity) item.phases.set(phase, [...(item.phases.get(phase) ?? []), severity]);
+    }
+    byName.set(name, item);
+  }
+  return [...byName]
+    .map(([name, item]) => {
+      const phases = emptyPhases();
+      for (const phase of PHASES) {
+        phases[phase] = { days: item.days.get(phase) ?? 0, severity: typicalSeverity(item.phases.get(phase) ?? []) };
+      }
+      return { name, total: item.total, phases };
+    })
+    .sort((a, b) => b.total - a.total || a.name.localeCompare(b.name));
+};
+
+const describeIrregularities = (
+  cycles: ReportCycle[],
+  allCycles: Cycle[],
+  stats: CycleStats | null,
+  logs: DailyLog[],
+  i18n: Translator
+): string[] => {
+  const { t } = i18n;
+  const found: string[] = [];
+  for (const cycle of cycles) {
+    if (cycle.exclusion === 'too-short' || cycle.exclusion === 'too-long') {
+      found.push(t('report.longCycle', { date: formatReportDate(cycle.start, i18n), count: cycle.cycleLength! }));
+    }
+    if (cycle.periodLength > PROLONGED_PERIOD_DAYS) {
+      found.push(t('report.longPeriod', { date: formatReportDate(cycle.start, i18n), count: cycle.periodLength }));
+    }
+  }
+  if (stats && stats.count >= 2 && stats.longest - stats.shortest > IRREGULAR_VARIATION_DAYS) {
+    found.push(t('report.variedBy', { count: stats.longest - stats.shortest, shortest: stats.shortest, longest: stats.longest }));
+  }
+  // Spotting outside any period
+  const spotting = logs.filter(l =>
+    l.flow === 'Spotting' && !allCycles.some(c => isInRange(l.date, { start: c.start, end: c.periodEnd }))
+  );
+  if (spotting.length > 0) {
+    found.push(t('report.spotting', { count: spotting.length, dates: spotting.map(l => formatReportDate(l.date, i18n)).join(', ') }));
+  }
+  return found;
+};
+
+export const buildReport = (
+  logs: DailyLog[],
+  settings: UserSettings,
+  options: ReportOptions,
+  i18n: Translator,
+  today: Date = new Date()
+): DoctorReport => {
+  const { t } = i18n;
+  const { range } = options;
+  const summary = summarizeCycles(logs, settings, today);
+  const todayStr = formatDate(today);
+  // Planned entries are for days that haven't happened
+  const inRange = logs
+    .filter(l => !l.planned && isInRange(l.date, range))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  // Every cycle that overlaps the range
+  const rows = getCycleHistory(summary, settings)
+    .filter(r => r.cycle.start <= range.end && (r.cycle.end ?? todayStr) >= range.start);
+  const cycles = rows.map(({ cycle, exclusion }) => ({
+    start: cycle.start,
+    cycleLength: cycle.cycleLength,
+    periodLength: cycle.periodLength,
+    exclusion,
+  }));
+  const stats = getCycleStats(rows);
+
+  const phaseOf = (date: string): Phase | null => {
+    const cycle = summary.cycles.find(c => date >= c.start && (c.end === null || date <= c.end));
+    return cycle ? getPhase(cycle, date, summary.lutealLength) : null;
+  };
+
+  const context: string[] = [];
+  const { contraception, pregnancies } = settings;
+  if (contraception && contraception.startDate <= range.end) {
+    context.push(t('report.contraception', {
+      method: t(`contraception.method.${contraception.method}`),
+      date: formatReportDate(contraception.startDate, i18n),
+    }));
+  }
+  for (const pregnancy of pregnancies ?? []) {
+    if (pregnancy.lmp > range.end || (pregnancy.endedOn && pregnancy.endedOn < range.start)) continue;
+    const lmp = formatReportDate(pregnancy.lmp, i18n);
+    context.push(pregnancy.endedOn
+      ? t(pregnancy.outcome === 'loss' ? 'report.pregnancyLoss' : 'report.pregnancyEnded', { lmp, date: formatReportDate(pregnancy.endedOn, i18n) })
+      : t('report.pregnant', { lmp }));
+  }
+
+  return {
+    range,
+    generatedOn: todayStr,
+    context,
+    stats,
+    cycles,
+    flow: new Map(inRange.flatMap(l => l.flow ? [[l.date, l.flow] as const] : [])),
+    symptoms: breakdown(inRange.flatMap(l => l.symptoms.map(s => ({ date: l.date, name: s.name, severity: s.severity }))), phaseOf),
+    moods: options.includeMoods
+      ? breakdown(inRange.flatMap(l => l.mood ? [{ date: l.date, name: l.mood, severity: null }] : []), phaseOf)
+      : null,
+    irregularities: describeIrregularities(cycles, summary.cycles, stats, inRange, i18n),
+    temperatures: getTemperatures(logs, range.start, range.end),
+    thermalShifts: summary.cycles
+      .filter(c => c.thermalShift && isInRange(c.thermalShift.ovulationDate, range))
+      .map(c => ({ cycleStart: c.start, ovulationDate: c.thermalShift!.ovulationDate, coverline: c.thermalShift!.coverline })),
+    temperatureUnit: settings.temperatureUnit ?? 'C',
+    tests: inRange.flatMap(l => [
+      ...(l.lhTest ? [{ date: l.date, test: 'LH' as const, result: l.lhTest.result }] : []),
+      ...(l.pregnancyTest ? [{ date: l.date, test: 'Pregnancy' as const, result: l.pregnancyTest }] : []),
+    ]),
+    notes: options.includeNotes
+      ? inRange.flatMap(l => l.note ? [{ date: l.date, text: noteToText(l.note) }] : [])
+      : null,
+  };
+};
+
+// Names and notes typed in a script the PDF fonts don't cover (Arabic, for one) print as "?"
+export const hasUnprintableText = (report: DoctorReport, { t }: Translator): boolean =>
+  [...report.symptoms, ...(report.moods ?? [])].some(item => !canEncode(translateItemName(item.name, t))) ||
+  (report.notes ?? []).some(note => !canEncode(note.text));
+
+export const reportFilename = (report: DoctorReport) => `gyneo-report-${report.range.start}-to-${report.range.end}.pdf`;
+
+// --- PDF Layout ---
+
+const MARGIN = 48;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FOOTER_Y = PAGE_HEIGHT - 28;
+
+const COLORS = {
+  text: '#334155',
+  muted: '#94a3b8',
+  rule: '#e2e8f0',
+  accent: '#f43f5e',
+  fertile: '#a855f7',
+};
+
+const FLOW_COLORS: Record<FlowLevel, string> = {
+  Heavy: '#be123c',
+  Medium: '#f43f5e',
+  Light: '#fda4af',
+  Spotting: '#ffe4e6',
+};
+
+interface Column {
+  label: string;
+  width: number;
+  align?: 'left' | 'right';
+}
+
+export const reportToPdf = (report: DoctorReport, i18n: Translator): Uint8Array<ArrayBuffer> => {
+  const { t } = i18n;
+  const formatDay = (date: string) => formatReportDate(date, i18n);
+  const days = (count: number, value: string = String(count)) => t('report.days', { count, days: value });
+  const pdf: PdfDocument = createPdf();
+  let y = MARGIN;
+
+  // Starts a new page when the next `height` points don't fit
+  const reserve = (height: number) => {
+    if (y + height <= FOOTER_Y - 16) return;
+    pdf.addPage();
+    y = MARGIN;
+  };
+
+  const heading = (title: string) => {
+    reserve(48);
+    y += 14;
+    pdf.text(MARGIN, y, title, { size: 13, bold: true, color: COLORS.accent });
+    y += 6;
+    pdf.line(MARGIN, y, MARGIN + CONTENT_WIDTH, y, { stroke: COLORS.rule });
+    y += 14;
+  };
+
+  const paragraph = (text: string, options: { size?: number, color?: string, indent?: number } = {}) => {
+    const size = options.size ?? 10;
+    const indent = options.indent ?? 0;
+    for (const line of wrapText(text, CONTENT_WIDTH - indent, size)) {
+      reserve(size + 4);
+      pdf.text(MARGIN + indent, y, line, { size, color: options.color });
+      y += size + 4;
+    }
+  };
+
+  const table = (columns: Column[], rows: string[][]) => {
+    const row = (cells: string[], bold: boolean) => {
+      reserve(16);
+      let x = MARGIN;
+      cells.forEach((cell, i) => {
+        const { width, align } = columns[i];
+        // Cut rather than overflow into the next column
+        let value = cell;
+        while (value.length > 1 && measureText(value, 9, bold) > width - 6) value = value.slice(0, -1);
+        if (value !== cell) value = `${value.slice(0, -1)}…`;
+        pdf.text(align === 'right' ? x + width - 6 : x, y, value, { size: 9, bold, align: align === 'right' ? 'right' : 'left' });
+        x += width;
+      });
+      y += 5;
+      pdf.line(MARGIN, y, MARGIN + CONTENT_WIDTH, y, { stroke: COLORS.rule });
+      y += 11;
+    };
+    row(columns.map(c => c.label), true);
+    rows.forEach(cells => row(cells, false));
+  };
+
+  // Title
+  pdf.text(MARGIN, y + 12, t('report.title'), { size: 22, bold: true, color: COLORS.accent });
+  pdf.text(MARGIN + CONTENT_WIDTH, y + 4, 'Gyneo', { size: 10, bold: true, color: COLORS.muted, align: 'right' });
+  y += 34;
+  pdf.text(MARGIN, y, formatRange(report.range, i18n), { size: 11, bold: true });
+  pdf.text(MARGIN + CONTENT_WIDTH, y, t('report.generated', { date: formatDay(report.generatedOn) }), { size: 9, color: COLORS.muted, align: 'right' });
+  y += 10;
+  for (const line of report.context) paragraph(line, { size: 9 });
+
+  // Summary
+  heading(t('report.summary'));
+  const { stats } = report;
+  if (stats) {
+    const summary: [string, string][] = [
+      [t('report.averageCycle'), `${days(stats.average, stats.average.toFixed(1))}${stats.deviation !== null ? ` (± ${stats.deviation.toFixed(1)})` : ''}`],
+      [t('report.shortestLongest'), days(stats.longest, `${stats.shortest} / ${stats.longest}`)],
+      [t('report.averagePeriod'), stats.averagePeriod !== null ? days(stats.averagePeriod, stats.averagePeriod.toFixed(1)) : '–'],
+      [t('report.cyclesCounted'), String(stats.count)],
+    ];
+    for (const [label, value] of summary) {
+      reserve(14);
+      pdf.text(MARGIN, y, label, { size: 10, color: COLORS.muted });
+      pdf.text(MARGIN + 180, y, value, { size: 10, bold: true });
+      y += 14;
+    }
+  } else {
+    paragraph(t('report.noAverages'), { color: COLORS.muted });
+  }
+
+  // Cycles
+  heading(t('report.cycles'));
+  if (report.cycles.length > 0) {
+    table(
+      [
+        { label: t('report.start'), width: 110 },
+        { label: t('report.cycleLength'), width: 90, align: 'right' },
+        { label: t('report.periodLength'), width: 100, align: 'right' },
+        { label: t('report.note'), width: CONTENT_WIDTH - 300 },
+      ],
+      report.cycles.map(c => [
+        formatDay(c.start),
+        c.cycleLength !== null ? days(c.cycleLength) : t('report.ongoing'),
+        days(c.periodLength),
+        c.exclusion ? t(`report.exclusion.${c.exclusion}`) : '',
+      ])
+    );
+  } else {
+    paragraph(t('report.noPeriods'), { color: COLORS.muted });
+  }
+
+  // Flow strip: one row per month, one cell per day
+  heading(t('report.flow'));
+  const cell = (CONTENT_WIDTH - 60) / 31;
+  const nextMonth = (month: string) => {
+    const date = parseDate(month);
+    return formatDate(new Date(date.getFullYear(), date.getMonth() + 1, 1));
+  };
+  for (let month = `${report.range.start.slice(0, 7)}-01`; month <= report.range.end; month = nextMonth(month)) {
+    reserve(cell + 8);
+    const date = parseDate(month);
+    pdf.text(MARGIN, y + cell - 3, i18n.formatDate(date, { month: 'short', year: 'numeric' }), { size: 8, color: COLORS.muted });
+    const monthDays = new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
+    for (let day = 1; day <= monthDays; day++) {
+      const dateStr = addDays(month, day - 1);
+      const x = MARGIN + 60 + (day - 1) * cell;
+      const flow = report.flow.get(dateStr);
+      if (!isInRange(dateStr, report.range)) continue;
+      pdf.rect(x + 0.5, y, cell - 1, cell - 1, flow ? { fill: FLOW_COLORS[flow] } : { stroke: COLORS.rule });
+      if (day === 1 || day % 5 === 0) {
+        pdf.text(x + cell / 2, y + cell - 4, String(day), { size: 5, color: flow && flow !== 'Spotting' && flow !== 'Light' ? '#ffffff' : COLORS.muted, align: 'center' });
+      }
+    }
+    y += cell + 3;
+  }
+  reserve(16);
+  y += 6;
+  let legendX = MARGIN + 60;
+  for (const flow of ['Spotting', 'Light', 'Medium', 'Heavy'] as FlowLevel[]) {
+    pdf.rect(legendX, y - 7, 8, 8, { fill: FLOW_COLORS[flow] });
+    const label = t(`flow.${flow}`);
+    pdf.text(legendX + 12, y, label, { size: 8, color: COLORS.muted });
+    legendX += measureText(label, 8) + 24;
+  }
+  y += 10;
+
+  // Symptoms (and moods) by phase
+  const phaseTable = (items: PhaseBreakdown[], withSeverity: boolean) => {
+    const phaseWidth = (CONTENT_WIDTH - 180) / PHASES.length;
+    table(
+      [
+        { label: '', width: 140 },
+        ...PHASES.map(p => ({ label: t(`phase.${p}`), width: phaseWidth, align: 'right' as const })),
+        { label: t('report.total'), width: 40, align: 'right' },
+      ],
+      items.map(item => [
+        translateItemName(item.name, t),
+        ...PHASES.map(p => {
+          const { days, severity } = item.phases[p];
+          if (days === 0) return '–';
+          return withSeverity && severity ? `${days} · ${t(`severity.${severity}`)}` : String(days);
+        }),
+        String(item.total),
+      ])
+    );
+  };
+
+  heading(t('report.symptoms'));
+  if (report.symptoms.length > 0) {
+    paragraph(t('report.symptomsHint'), { size: 8, color: COLORS.muted });
+    y += 2;
+    phaseTable(report.symptoms, true);
+  } else {
+    paragraph(t('report.noSymptoms'), { color: COLORS.muted });
+  }
+
+  if (report.moods) {
+    heading(t('report.moods'));
+    if (report.moods.length > 0) phaseTable(report.moods, false);
+    else paragraph(t('report.noMoods'), { color: COLORS.muted });
+  }
+
+  heading(t('report.irregularities'));
+  if (report.irregularities.length > 0) {
+    for (const item of report.irregularities) paragraph(`• ${item}`);
+  } else {
+    paragraph(t('report.noIrregularities'), { color: COLORS.muted });
+  }
+
+  // Basal body temperature chart, with the coverline of each confirmed shift
+  if (report.temperatures.length > 0) {
+    heading(t('report.temperature'));
+    const unit = report.temperatureUnit;
+    const values = report.temperatures.map(t => fromCelsius(t.celsius, unit));
+    const low = Math.min(...values) - (unit === 'C' ? 0.1 : 0.2);
+    const high = Math.max(...values) + (unit === 'C' ? 0.1 : 0.2);
+    const chartHeight = 120;
+    const chartLeft = MARGIN + 40;
+    const chartWidth = CONTENT_WIDTH - 40;
+    const totalDays = Math.max(1, diffDays(report.range.start, report.range.end));
+    const toX = (date: string) => chartLeft + (diffDays(report.range.start, date) / totalDays) * chartWidth;
+    const toY = (value: number) => y + chartHeight - ((value - low) / (high - low)) * chartHeight;
+
+    reserve(chartHeight + 30);
+    pdf.rect(chartLeft, y, chartWidth, chartHeight, { stroke: COLORS.rule });
+    // Axis labels are already in the display unit
+    pdf.text(chartLeft - 4, y + 4, `${high.toFixed(2)}°${unit}`, { size: 7, color: COLORS.muted, align: 'right' });
+    pdf.text(chartLeft - 4, y + chartHeight, `${low.toFixed(2)}°${unit}`, { size: 7, color: COLORS.muted, align: 'right' });
+    for (const shift of report.thermalShifts) {
+      const coverline = toY(fromCelsius(shift.coverline, unit));
+      pdf.line(toX(shift.cycleStart < report.range.start ? report.range.start : shift.cycleStart), coverline, toX(shift.ovulationDate), coverline, { stroke: COLORS.fertile });
+    }
+    const points: [number, number][] = report.temperatures.map((t, i) => [toX(t.date), toY(values[i])]);
+    pdf.polyline(points, { stroke: COLORS.accent, width: 1 });
+    report.temperatures.forEach((t, i) => {
+      pdf.rect(points[i][0] - 1.5, points[i][1] - 1.5, 3, 3, t.disturbed ? { stroke: COLORS.muted } : { fill: COLORS.accent });
+    });
+    y += chartHeight + 12;
+    pdf.text(chartLeft, y, formatDay(report.range.start), { size: 7, color: COLORS.muted });
+    pdf.text(chartLeft + chartWidth, y, formatDay(report.range.end), { size: 7, color: COLORS.muted, align: 'right' });
+    y += 14;
+    paragraph(
+      `${t('report.readings', { count: report.temperatures.length })} ` +
+      (report.thermalShifts.length > 0
+        ? t('report.shift', { dates: report.thermalShifts.map(s => formatDay(s.ovulationDate)).join(', ') })
+        : t('report.noShift')),
+      { size: 8, color: COLORS.muted }
+    );
+  }
+
+  if (report.tests.length > 0) {
+    heading(t('report.tests'));
+    table(
+      [
+        { label: t('report.date'), width: 110 },
+        { label: t('report.test'), width: 110 },
+        { label: t('report.result'), width: CONTENT_WIDTH - 220 },
+      ],
+      report.tests.map(test => [
+        formatDay(test.date),
+        t(test.test === 'LH' ? 'report.lhTest' : 'report.pregnancyTest'),
+        t(`test.${test.result}`),
+      ])
+    );
+  }
+
+  if (report.notes && report.notes.length > 0) {
+    heading(t('report.notes'));
+    for (const note of report.notes) {
+      reserve(28);
+      pdf.text(MARGIN, y, formatDay(note.date), { size: 9, bold: true });
+      y += 13;
+      paragraph(note.text, { size: 9, indent: 8 });
+      y += 4;
+    }
+  }
+
+  // Footer on every page, now that the page count is known
+  const pages = pdf.pageCount();
+  for (let i = 0; i < pages; i++) {
+    pdf.setPage(i);
+    pdf.text(MARGIN, FOOTER_Y, t('report.footer'), { size: 7, color: COLORS.muted });
+    pdf.text(MARGIN + CONTENT_WIDTH, FOOTER_Y, t('report.page', { page: i + 1, pages }), { size: 7, color: COLORS.muted, align: 'right' });
+  }
+
+  return pdf.toBytes();
+};
@@ -0,0 +1,43 @@
+import type { DailyLog, FlowLevel } from '../types';
+import { addDays } from './dates';
+import { noteToText } from './notes';
+
+// --- Log Search ---
+// Every filter narrows the result: text words must all appear in the day's note, and a day
+// must have every chosen symptom. Planned days are included, they're part of the history too.
+
+export interface LogQuery {
+  text: string;
+  flow: FlowLevel | null;
+  mood: string | null;
+  symptoms: string[];
+  months: number | null; // Only the last N months, everything when null
+}
+
+export const EMPTY_QUERY: LogQuery = { text: '', flow: null, mood: null, symptoms: [], months: null };
+
+export const getSearchTerms = (text: string): string[] =>
+  [...new Set(text.toLowerCase().split(/\s+/).filter(Boolean))];
+
+export const isEmptyQuery = (query: LogQuery): boolean =>
+  getSearchTerms(query.text).length === 0 && !query.flow && !query.mood && query.symptoms.length === 0;
+
+// Newest first
+export const searchLogs = (logs: DailyLog[], query: LogQuery, today: string): DailyLog[] => {
+  if (isEmptyQuery(query)) return [];
+  const terms = getSearchTerms(query.text);
+  // Months counted as 30 days, close enough for "the last 6 months"
+  const since = query.months !== null ? addDays(today, -query.months * 30) : null;
+
+  return logs
+    .filter(log => {
+      if (since && log.date < since) return false;
+      if (query.flow && log.flow !== query.flow) return false;
+      if (query.mood && log.mood !== query.mood) return false;
+      if (!query.symptoms.every(name => log.symptoms.some(s => s.name === name))) return false;
+      if (terms.length === 0) return true;
+      const note = log.note ? noteToText(log.note).toLowerCase() : '';
+      return terms.every(term => note.includes(term));
+    })
+    .sort((a, b) => b.date.localeCompare(a.date));
+};
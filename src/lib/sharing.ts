@@ -0,0 +1,207 @@
+import type { DailyLog, FlowLevel, UserSettings } from '../types';
+import { addDays, diffDays, formatDate } from './dates';
+import {
+  forecastCycles,
+  getFertileWindow,
+  getObservedOvulation,
+  isInRange,
+  summarizeCycles,
+  type DateRange
+} from './cycleEngine';
+import { EMPTY_DAY, type DayStatus } from './calendar';
+import { formatSymptom } from './symptoms';
+import type { CollectionRepository } from './storage';
+import type { Translator } from './i18n';
+
+// --- Sharing ---
+// Letting a partner or caregiver follow along. The owner invites someone with a link and picks
+// what they see. Each scope is published as its own document, worked out from the owner's logs,
+// so the security rules decide per scope who may read it: the recipient never gets the logs
+// themselves, and nothing of a scope that isn't shared. See lib/firestoreSharing.ts.
+
+export type ShareScope = 'predictions' | 'periodDays' | 'fertileWindow' | 'moods' | 'symptoms';
+
+export type SharePermissions = Record<ShareScope, boolean>;
+
+// Labels are `share.<id>` in the catalogs, with a `share.<id>Detail` line under them
+export const SHARE_SCOPES: { id: ShareScope }[] = [
+  { id: 'predictions' },
+  { id: 'periodDays' },
+  { id: 'fertileWindow' },
+  { id: 'moods' },
+  { id: 'symptoms' },
+];
+
+export const DEFAULT_PERMISSIONS: SharePermissions = {
+  predictions: true,
+  periodDays: true,
+  fertileWindow: false,
+  moods: false,
+  symptoms: false,
+};
+
+export interface Share {
+  ownerUid: string;
+  ownerName: string;
+  recipientUid: string | null; // null until the invite is accepted
+  recipientName: string | null;
+  permissions: SharePermissions;
+}
+
+// How far back logged days are shared, and how many cycles ahead predictions go
+export const SHARE_HISTORY_DAYS = 365;
+export const SHARE_FORECAST_CYCLES = 3;
+
+export interface SharedPredictions {
+  cycleStart: string | null; // Day 1 of the current cycle
+  cycleLength: number;
+  periodLength: number;
+  nextPeriodStart: string | null; // null while predictions are paused (pregnancy)
+  periods: { likely: DateRange, possible: DateRange }[];
+}
+
+export interface SharedPeriodDays {
+  days: Record<string, FlowLevel>;
+}
+
+export interface SharedFertileWindow {
+  ovulations: string[]; // Observed, their fertile windows count in the past too
+  likely: DateRange[]; // Predicted, only shown for days to come
+  possible: DateRange[];
+}
+
+export interface SharedMoods {
+  days: Record<string, string>;
+}
+
+export interface SharedSymptoms {
+  days: Record<string, string[]>; // e.g. "Cramps (Mild)"
+}
+
+export interface SharedData {
+  predictions: SharedPredictions;
+  periodDays: SharedPeriodDays;
+  fertileWindow: SharedFertileWindow;
+  moods: SharedMoods;
+  symptoms: SharedSymptoms;
+}
+
+// What a recipient can see: only the shared scopes are there
+export type SharedProfile = Partial<SharedData>;
+
+export interface SharingRepository {
+  owned: Pick<CollectionRepository<Share>, 'watch'>; // Shares this user created
+  received: Pick<CollectionRepository<Share>, 'watch'>; // Shares this user accepted
+  // null when the invite doesn't exist, or was already accepted by someone else
+  getInvite(id: string): Promise<Share | null>;
+  create(ownerName: string, permissions: SharePermissions, data: SharedData): Promise<string>;
+  accept(id: string, recipientName: string): Promise<void>;
+  // Scopes no longer shared are deleted, newly shared ones published
+  setPermissions(id: string, permissions: SharePermissions, data: SharedData): Promise<void>;
+  publish(id: string, permissions: SharePermissions, data: SharedData): Promise<void>;
+  // Revoking by the owner, or leaving by the recipient: the shared data goes too
+  remove(id: string): Promise<void>;
+  watchProfile(
+    id: string,
+    permissions: SharePermissions,
+    onChange: (profile: SharedProfile) => void,
+    onError: (error: Error) => void
+  ): () => void;
+  // Ends every share this user is part of, on either side
+  clear(): Promise<void>;
+}
+
+export const INVITE_PARAM = 'share';
+
+export const getInviteLink = (id: string) => `${window.location.origin}/?${INVITE_PARAM}=${encodeURIComponent(id)}`;
+
+export const readInviteId = (): string | null => new URLSearchParams(window.location.search).get(INVITE_PARAM);
+
+export const clearInviteId = () => {
+  const url = new URL(window.location.href);
+  url.searchParams.delete(INVITE_PARAM);
+  window.history.replaceState(null, '', url);
+};
+
+export const describePermissions = (permissions: SharePermissions, { t, locale }: Translator): string => {
+  const shared = SHARE_SCOPES.filter(s => permissions[s.id]).map(s => t(`share.${s.id}`).toLocaleLowerCase(locale));
+  return shared.length > 0 ? new Intl.ListFormat(locale, { type: 'conjunction' }).format(shared) : t('share.nothingYet');
+};
+
+export const buildSharedData = (logs: DailyLog[], settings: UserSettings, today: Date = new Date()): SharedData => {
+  const todayStr = formatDate(today);
+  const since = addDays(todayStr, -SHARE_HISTORY_DAYS);
+  // Planned entries are for days that haven't happened
+  const recent = logs.filter(l => l.date >= since && l.date <= todayStr);
+  const summary = summarizeCycles(logs, settings, today);
+  const forecasts = forecastCycles(summary, today, SHARE_FORECAST_CYCLES);
+
+  const days = <T>(pick: (log: DailyLog) => T | null | undefined): Record<string, T> => {
+    const picked: Record<string, T> = {};
+    for (const log of recent) {
+      const value = pick(log);
+      if (value !== null && value !== undefined) picked[log.date] = value;
+    }
+    return picked;
+  };
+
+  return {
+    predictions: {
+      cycleStart: summary.currentCycle?.start ?? null,
+      cycleLength: summary.cycleLength,
+      periodLength: summary.periodLength,
+      nextPeriodStart: summary.nextPeriodStart,
+      periods: forecasts.map(f => ({ likely: f.likelyPeriod, possible: f.possiblePeriod })),
+    },
+    periodDays: { days: days(l => l.flow) },
+    fertileWindow: {
+      ovulations: summary.cycles.flatMap(c => getObservedOvulation(c)?.date ?? []).filter(d => d >= since),
+      likely: [summary.fertileWindow, ...forecasts.map(f => f.likelyFertileWindow)].filter(w => w !== null),
+      possible: forecasts.flatMap(f => f.possibleFertileWindow ?? []),
+    },
+    moods: { days: days(l => l.mood) },
+    symptoms: { days: days(l => l.symptoms.length > 0 ? l.symptoms.map(formatSymptom) : null) },
+  };
+};
+
+// Only the scopes that are shared
+export const pickShared = (data: SharedData, permissions: SharePermissions): SharedProfile =>
+  Object.fromEntries(Object.entries(data).filter(([scope]) => permissions[scope as ShareScope]));
+
+// What the cycle wheel shows, counted from today rather than from when it was shared
+export const getSharedCycle = (predictions: SharedPredictions, periodDays: SharedPeriodDays | undefined, today: Date = new Date()) => {
+  const todayStr = formatDate(today);
+  const currentDay = predictions.cycleStart ? diffDays(predictions.cycleStart, todayStr) + 1 : 1;
+  return {
+    currentDay,
+    cycleLength: predictions.cycleLength,
+    periodLength: predictions.periodLength,
+    isPeriodToday: periodDays ? todayStr in periodDays.days : currentDay <= predictions.periodLength,
+    daysUntilNext: predictions.nextPeriodStart ? Math.max(0, diffDays(todayStr, predictions.nextPeriodStart)) : 0,
+  };
+};
+
+// Mirrors getLogDayStatus in lib/calendar.ts, from the shared scopes alone
+export const getSharedDayStatus = (profile: SharedProfile, today: Date = new Date()): (date: string) => DayStatus => {
+  const todayStr = formatDate(today);
+  const { predictions, periodDays, fertileWindow, moods, symptoms } = profile;
+  return (date) => {
+    const isFuture = date > todayStr;
+    const isPeriod = !!periodDays && date in periodDays.days;
+    const isPredicted = isFuture && !!predictions && predictions.periods.some(p => isInRange(date, p.likely));
+    const isFertile = !!fertileWindow && (
+      fertileWindow.ovulations.some(o => isInRange(date, getFertileWindow(o))) ||
+      (isFuture && fertileWindow.likely.some(w => isInRange(date, w)))
+    );
+    return {
+      ...EMPTY_DAY,
+      isPeriod,
+      hasEntry: !isPeriod && ((!!moods && date in moods.days) || (!!symptoms && date in symptoms.days)),
+      isPredicted,
+      isPossiblePeriod: isFuture && !isPredicted && !!predictions && predictions.periods.some(p => isInRange(date, p.possible)),
+      isFertile,
+      isPossibleFertile: isFuture && !isFertile && !!fertileWindow && fertileWindow.possible.some(w => isInRange(date, w)),
+      isOvulation: !!fertileWindow && fertileWindow.ovulations.includes(date),
+    };
+  };
+};
@@ -0,0 +1,135 @@
+import type { LogData, UserSettings } from '../types';
+import type { EncryptedLog, EncryptionConfig } from './encryption';
+
+// --- Storage ---
+// Where a user's data lives, behind one interface: Firestore for accounts (lib/firestoreStorage.ts),
+// IndexedDB for guest mode (lib/indexedDbStorage.ts) and memory for trying things out or tests.
+// Collections hold documents by id, single documents hold one value; both can be watched, and
+// watchers are told about the value and its sync state on every change.
+
+export interface SyncState {
+  pendingWrites: boolean; // Saved here, not yet confirmed by the server
+  fromCache: boolean; // Not confirmed by the server at all yet (offline, or just started)
+}
+
+export interface StoredItem<T> {
+  id: string;
+  data: T;
+}
+
+export type CollectionChange<T> =
+  | { type: 'set', id: string, value: T }
+  | { type: 'merge', id: string, value: Partial<T> }
+  | { type: 'delete', id: string };
+
+export type Unsubscribe = () => void;
+
+export interface CollectionRepository<T> {
+  watch(onChange: (items: StoredItem<T>[], state: SyncState) => void, onError?: (e: Error) => void): Unsubscribe;
+  set(id: string, value: T): Promise<void>;
+  // Only the given fields change; the document is created if missing
+  merge(id: string, value: Partial<T>): Promise<void>;
+  delete(id: string): Promise<void>;
+  // Many changes at once, in as few round trips as the backend allows
+  write(changes: CollectionChange<T>[]): Promise<void>;
+}
+
+export interface DocumentRepository<T> {
+  watch(onChange: (value: T | null, state: SyncState) => void, onError?: (e: Error) => void): Unsubscribe;
+  set(value: T): Promise<void>;
+  delete(): Promise<void>;
+}
+
+// A log as stored: plaintext, or ciphertext while encryption is on (see lib/encryption.ts)
+export type StoredLogData = LogData | EncryptedLog;
+
+export interface UserStorage {
+  logs: CollectionRepository<StoredLogData>; // By date
+  settings: DocumentRepository<UserSettings>;
+  encryption: DocumentRepository<EncryptionConfig>;
+  // Deletes everything this user has stored
+  clear(): Promise<void>;
+}
+
+export const SETTINGS_DOC = 'preferences';
+export const ENCRYPTION_DOC = 'encryption';
+
+// Backends without a server are always in sync
+export const IN_SYNC: SyncState = { pendingWrites: false, fromCache: false };
+
+// --- In-Memory Backend ---
+// Nothing survives a reload. Values are copied in and out, so callers can't change what's stored.
+
+const copy = <T>(value: T): T => structuredClone(value);
+
+const createMemoryCollection = <T>(): CollectionRepository<T> & { clear(): void } => {
+  const items = new Map<string, T>();
+  const listeners = new Set<(items: StoredItem<T>[], state: SyncState) => void>();
+  const snapshot = () => [...items].map(([id, data]) => ({ id, data: copy(data) }));
+  const notify = () => listeners.forEach(listener => listener(snapshot(), IN_SYNC));
+
+  const apply = (change: CollectionChange<T>) => {
+    if (change.type === 'delete') items.delete(change.id);
+    else if (change.type === 'merge') items.set(change.id, { ...items.get(change.id), ...copy(change.value) } as T);
+    else items.set(change.id, copy(change.value));
+  };
+
+  const write = async (changes: CollectionChange<T>[]) => {
+    changes.forEach(apply);
+    notify();
+  };
+
+  return {
+    watch: (onChange) => {
+      listeners.add(onChange);
+      onChange(snapshot(), IN_SYNC);
+      return () => { listeners.delete(onChange); };
+    },
+    set: (id, value) => write([{ type: 'set', id, value }]),
+    merge: (id, value) => write([{ type: 'merge', id, value }]),
+    delete: (id) => write([{ type: 'delete', id }]),
+    write,
+    clear: () => {
+      items.clear();
+      notify();
+    },
+  };
+};
+
+const createMemoryDocument = <T>(): DocumentRepository<T> => {
+  let value: T | null = null;
+  const listeners = new Set<(value: T | null, state: SyncState) => void>();
+  const notify = () => listeners.forEach(listener => listener(value === null ? null : copy(value), IN_SYNC));
+
+  return {
+    watch: (onChange) => {
+      listeners.add(onChange);
+      onChange(value === null ? null : copy(value), IN_SYNC);
+      return () => { listeners.delete(onChange); };
+    },
+    set: async (next) => {
+      value = copy(next);
+      notify();
+    },
+    delete: async () => {
+      value = null;
+      notify();
+    },
+  };
+};
+
+export const createMemoryStorage = (): UserStorage => {
+  const logs = createMemoryCollection<StoredLogData>();
+  const settings = createMemoryDocument<UserSettings>();
+  const encryption = createMemoryDocument<EncryptionConfig>();
+  return {
+    logs,
+    settings,
+    encryption,
+    clear: async () => {
+      logs.clear();
+      await settings.delete();
+      await encryption.delete();
+    },
+  };
+};
@@ -0,0 +1,138 @@
+import type { CatalogItem, LoggedSymptom, Severity, SymptomCategory, UserSettings } from '../types';
+import type { MessageKey, Translator } from './i18n';
+
+// --- Symptoms & Moods ---
+// Users manage their own lists in settings. Logs store symptom names with a severity, so hiding
+// an item never changes history. Logs from before severities existed held plain names.
+
+export const SYMPTOM_CATEGORIES: SymptomCategory[] = ['Physical', 'Emotional', 'Digestive', 'Skin', 'Sleep'];
+
+export const SEVERITY_LEVELS: Severity[] = ['Mild', 'Moderate', 'Severe'];
+
+// Given to plain-name logs and to imports, which say nothing about intensity
+export const DEFAULT_SEVERITY: Severity = 'Moderate';
+
+// firestore.rules rejects a logged mood longer than MAX_NAME_LENGTH and a day with more than
+// MAX_SYMPTOMS_PER_DAY symptoms. Moods come from the catalog, so its names share the limit.
+export const MAX_NAME_LENGTH = 50;
+export const MAX_SYMPTOMS_PER_DAY = 50;
+export const MAX_CATALOG_SIZE = 200;
+
+// Icon a newly added item starts with
+export const CATEGORY_ICONS: Record<SymptomCategory, string> = {
+  Physical: 'Activity',
+  Emotional: 'Heart',
+  Digestive: 'Utensils',
+  Skin: 'Sparkles',
+  Sleep: 'Bed',
+};
+
+const item = (name: string, icon: string, category: SymptomCategory, hidden = false): CatalogItem =>
+  ({ name, icon, category, hidden });
+
+export const DEFAULT_SYMPTOM_CATALOG: CatalogItem[] = [
+  item('Cramps', 'Activity', 'Physical'),
+  item('Headache', 'Brain', 'Physical'),
+  item('Bloating', 'Cloud', 'Digestive'),
+  item('Cravings', 'Coffee', 'Digestive'),
+  item('Tender breasts', 'Heart', 'Physical', true),
+  item('Back pain', 'Bone', 'Physical', true),
+  item('Mood swings', 'Waves', 'Emotional', true),
+  item('Nausea', 'Frown', 'Digestive', true),
+  item('Acne', 'Sparkles', 'Skin', true),
+  item('Insomnia', 'Moon', 'Sleep', true),
+];
+
+export const DEFAULT_MOOD_CATALOG: CatalogItem[] = [
+  item('Happy', 'Smile', 'Emotional'),
+  item('Neutral', 'Meh', 'Emotional'),
+  item('Sad', 'Frown', 'Emotional'),
+  item('Tired', 'Moon', 'Sleep'),
+  item('Anxious', 'Zap', 'Emotional', true),
+  item('Irritable', 'Flame', 'Emotional', true),
+];
+
+export const DEFAULT_SYMPTOMS = DEFAULT_SYMPTOM_CATALOG.map(i => i.name);
+
+// Built-in items are shown in the user's language. Logs and settings keep the English name as their id.
+const BUILT_IN_NAMES = new Map<string, MessageKey>([
+  ['Cramps', 'symptom.cramps'],
+  ['Headache', 'symptom.headache'],
+  ['Bloating', 'symptom.bloating'],
+  ['Cravings', 'symptom.cravings'],
+  ['Tender breasts', 'symptom.tenderBreasts'],
+  ['Back pain', 'symptom.backPain'],
+  ['Mood swings', 'symptom.moodSwings'],
+  ['Nausea', 'symptom.nausea'],
+  ['Acne', 'symptom.acne'],
+  ['Insomnia', 'symptom.insomnia'],
+  ['Happy', 'mood.happy'],
+  ['Neutral', 'mood.neutral'],
+  ['Sad', 'mood.sad'],
+  ['Tired', 'mood.tired'],
+  ['Anxious', 'mood.anxious'],
+  ['Irritable', 'mood.irritable'],
+]);
+
+// A symptom or mood name as displayed: translated if it's built in, as typed otherwise
+export const translateItemName = (name: string, t: Translator['t']): string => {
+  const key = BUILT_IN_NAMES.get(name);
+  return key ? t(key) : name;
+};
+
+export const getSymptomCatalog = (settings: UserSettings): CatalogItem[] =>
+  settings.symptomCatalog ?? DEFAULT_SYMPTOM_CATALOG;
+
+export const getMoodCatalog = (settings: UserSettings): CatalogItem[] =>
+  settings.moodCatalog ?? DEFAULT_MOOD_CATALOG;
+
+// Accepts both shapes and drops anything unusable; the first entry for a name wins
+export const normalizeSymptoms = (raw: unknown): LoggedSymptom[] => {
+  if (!Array.isArray(raw)) return [];
+  const byName = new Map<string, LoggedSymptom>();
+  for (const entry of raw) {
+    const name = typeof entry === 'string' ? entry : (entry as Partial<LoggedSymptom> | null)?.name;
+    if (typeof name !== 'string' || !name.trim() || byName.has(name.trim())) continue;
+    const severity = (entry as Partial<LoggedSymptom>).severity;
+    byName.set(name.trim(), {
+      name: name.trim(),
+      severity: SEVERITY_LEVELS.includes(severity as Severity) ? severity as Severity : DEFAULT_SEVERITY,
+    });
+  }
+  return [...byName.values()];
+};
+
+// True for logs saved before severities, which still need rewriting in the new shape
+export const hasLegacySymptoms = (raw: unknown): boolean =>
+  Array.isArray(raw) && raw.some(entry => typeof entry === 'string');
+
+// "Cramps (Severe)", also how symptoms are written to CSV
+export const formatSymptom = ({ name, severity }: LoggedSymptom): string => `${name} (${severity})`;
+
+export const parseSymptom = (text: string): LoggedSymptom => {
+  const match = text.trim().match(/^(.*?)\s*\((mild|moderate|severe)\)$/i);
+  if (!match) return { name: text.trim(), severity: DEFAULT_SEVERITY };
+  const severity = SEVERITY_LEVELS.find(s => s.toLowerCase() === match[2].toLowerCase())!;
+  return { name: match[1], severity };
+};
+
+// Cleans a list from settings or a backup: known categories, one entry per name
+export const normalizeCatalog = (raw: unknown): CatalogItem[] => {
+  if (!Array.isArray(raw)) throw new Error('must be a list');
+  if (raw.length > MAX_CATALOG_SIZE) throw new Error(`can have at most ${MAX_CATALOG_SIZE} items`);
+  const seen = new Set<string>();
+  return raw.flatMap(entry => {
+    const e = (entry ?? {}) as Partial<CatalogItem>;
+    const name = typeof e.name === 'string' ? e.name.trim() : '';
+    if (name.length > MAX_NAME_LENGTH) throw new Error(`"${name}" is longer than ${MAX_NAME_LENGTH} characters`);
+    if (!name || seen.has(name.toLowerCase())) return [];
+    seen.add(name.toLowerCase());
+    const category = SYMPTOM_CATEGORIES.includes(e.category as SymptomCategory) ? e.category as SymptomCategory : 'Physical';
+    return [{
+      name,
+      icon: typeof e.icon === 'string' && e.icon ? e.icon : CATEGORY_ICONS[category],
+      category,
+      hidden: e.hidden === true,
+    }];
+  });
+};
@@ -0,0 +1,67 @@
+import type { DailyLog, TemperatureReading, TemperatureUnit } from '../types';
+import { addDays } from './dates';
+
+// --- Basal Body Temperature ---
+
+export const toCelsius = (reading: Pick<TemperatureReading, 'value' | 'unit'>): number =>
+  reading.unit === 'F' ? (reading.value - 32) * 5 / 9 : reading.value;
+
+export const fromCelsius = (celsius: number, unit: TemperatureUnit): number =>
+  unit === 'F' ? celsius * 9 / 5 + 32 : celsius;
+
+export const formatTemperature = (celsius: number, unit: TemperatureUnit): string =>
+  `${fromCelsius(celsius, unit).toFixed(2)}°${unit}`;
+
+// Anything outside this range is almost certainly a typo
+export const isPlausibleTemperature = (value: number, unit: TemperatureUnit): boolean => {
+  const celsius = toCelsius({ value, unit });
+  return celsius >= 34 && celsius <= 39;
+};
+
+export interface DatedTemperature {
+  date: string;
+  celsius: number;
+  disturbed: boolean;
+}
+
+export interface ThermalShift {
+  ovulationDate: string; // Day before the first high reading
+  shiftDate: string; // First of the three high readings
+  confirmedOn: string; // Third high reading, ovulation is only known from here on
+  coverline: number; // °C
+}
+
+// Readings in the date range, oldest first
+export const getTemperatures = (logs: DailyLog[], start: string, end: string): DatedTemperature[] =>
+  logs
+    .filter(l => l.temperature && l.date >= start && l.date <= end)
+    .map(l => ({ date: l.date, celsius: toCelsius(l.temperature!), disturbed: l.temperature!.disturbed }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+const LOW_READINGS = 6;
+const HIGH_READINGS = 3;
+// The third high reading must clear the coverline by this much (°C)
+const MIN_SHIFT = 0.2;
+// Keeps float rounding (36.4 + 0.2) from rejecting an exact 0.2° shift
+const EPSILON = 1e-9;
+
+// Three-over-six rule: three consecutive readings above the highest of the six before them,
+// the last one at least 0.2°C above it. Disturbed readings are skipped entirely.
+export const detectThermalShift = (temperatures: DatedTemperature[]): ThermalShift | null => {
+  const readings = temperatures.filter(t => !t.disturbed);
+
+  for (let i = LOW_READINGS; i + HIGH_READINGS <= readings.length; i++) {
+    const coverline = Math.max(...readings.slice(i - LOW_READINGS, i).map(r => r.celsius));
+    const highs = readings.slice(i, i + HIGH_READINGS);
+
+    if (highs.every(r => r.celsius > coverline) && highs[HIGH_READINGS - 1].celsius >= coverline + MIN_SHIFT - EPSILON) {
+      return {
+        ovulationDate: addDays(highs[0].date, -1),
+        shiftDate: highs[0].date,
+        confirmedOn: highs[HIGH_READINGS - 1].date,
+        coverline,
+      };
+    }
+  }
+  return null;
+};
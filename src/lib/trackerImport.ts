@@ -0,0 +1,382 @@
+import type { CervicalMucus, FlowLevel, LhResult, LogData, PregnancyTestResult, Severity } from '../types';
+import { formatDate } from './dates';
+import { parseCsvRecords } from './files';
+import { validateLog } from './backup';
+import { DEFAULT_SEVERITY, DEFAULT_SYMPTOMS, SEVERITY_LEVELS } from './symptoms';
+import type { Translator } from './i18n';
+
+// --- Importers for Other Trackers ---
+// Everything runs in the browser. Each importer produces a draft: logs keyed by date plus the
+// symptom names it couldn't match, which the user maps (or keeps, or skips) before importing.
+
+export interface ImportDraft {
+  source: string;
+  logs: Map<string, LogData>;
+  unknownSymptoms: Map<string, number>; // Name as found in the file → number of days
+  errors: string[];
+}
+
+// What to do with a symptom name the app doesn't know
+export type SymptomMapping = { action: 'map', to: string } | { action: 'keep' } | { action: 'skip' };
+
+const FLOW_ORDER: FlowLevel[] = ['Spotting', 'Light', 'Medium', 'Heavy'];
+
+const createDraft = (source: string): ImportDraft => ({
+  source,
+  logs: new Map(),
+  unknownSymptoms: new Map(),
+  errors: [],
+});
+
+const getDay = (draft: ImportDraft, date: string): LogData => {
+  let log = draft.logs.get(date);
+  if (!log) {
+    log = { date, flow: null, mood: null, symptoms: [] };
+    draft.logs.set(date, log);
+  }
+  return log;
+};
+
+// Several records for one day (e.g. morning and evening) keep the heaviest flow
+const addFlow = (draft: ImportDraft, date: string, flow: FlowLevel) => {
+  const log = getDay(draft, date);
+  if (!log.flow || FLOW_ORDER.indexOf(flow) > FLOW_ORDER.indexOf(log.flow)) log.flow = flow;
+};
+
+const normalizeName = (name: string) => name.toLowerCase().replace(/[^a-z]/g, '');
+
+// Common names other apps use for the symptoms Gyneo knows
+const SYMPTOM_ALIASES: Record<string, string> = {
+  cramps: 'Cramps',
+  cramp: 'Cramps',
+  abdominalcramps: 'Cramps',
+  menstrualcramps: 'Cramps',
+  periodpain: 'Cramps',
+  headache: 'Headache',
+  headaches: 'Headache',
+  migraine: 'Headache',
+  bloating: 'Bloating',
+  bloated: 'Bloating',
+  cravings: 'Cravings',
+  craving: 'Cravings',
+  appetitechanges: 'Cravings',
+  foodcravings: 'Cravings',
+  breasttenderness: 'Tender breasts',
+  sorebreasts: 'Tender breasts',
+  backache: 'Back pain',
+  lowerbackpain: 'Back pain',
+  moodchanges: 'Mood swings',
+  pimples: 'Acne',
+  breakouts: 'Acne',
+  sleeplessness: 'Insomnia',
+  troublesleeping: 'Insomnia',
+};
+
+// Most trackers don't record intensity, so their symptoms come in at the default level.
+// Logged more than once on a day, a symptom keeps its highest severity.
+const addSymptom = (draft: ImportDraft, date: string, name: string, severity: Severity = DEFAULT_SEVERITY) => {
+  const trimmed = name.trim();
+  if (!trimmed) return;
+  const known = SYMPTOM_ALIASES[normalizeName(trimmed)] ??
+    DEFAULT_SYMPTOMS.find(s => normalizeName(s) === normalizeName(trimmed));
+  const log = getDay(draft, date);
+  const symptom = known ?? trimmed;
+  const existing = log.symptoms.find(s => s.name === symptom);
+  if (existing) {
+    if (SEVERITY_LEVELS.indexOf(severity) > SEVERITY_LEVELS.indexOf(existing.severity)) existing.severity = severity;
+    return;
+  }
+  log.symptoms.push({ name: symptom, severity });
+  // Kept under its original name until the user reviews it
+  if (!known) draft.unknownSymptoms.set(trimmed, (draft.unknownSymptoms.get(trimmed) ?? 0) + 1);
+};
+
+// Applies the user's choices for unknown symptoms and validates the result
+export const finalizeDraft = (
+  draft: ImportDraft,
+  mappings: Record<string, SymptomMapping>
+): { logs: LogData[], errors: string[] } => {
+  const errors = [...draft.errors];
+  const logs: LogData[] = [];
+
+  for (const log of draft.logs.values()) {
+    const symptoms = log.symptoms.flatMap(symptom => {
+      if (!draft.unknownSymptoms.has(symptom.name)) return [symptom];
+      const mapping = mappings[symptom.name] ?? { action: 'keep' };
+      if (mapping.action === 'skip') return [];
+      return [mapping.action === 'map' ? { ...symptom, name: mapping.to } : symptom];
+    });
+    try {
+      const clean = validateLog({ ...log, symptoms });
+      // A day that only had skipped symptoms has nothing left to import
+      if (clean.flow || clean.symptoms.length > 0 || clean.temperature || clean.mucus || clean.lhTest || clean.pregnancyTest) {
+        logs.push(clean);
+      }
+    } catch (e) {
+      errors.push(`${log.date}: ${(e as Error).message}`);
+    }
+  }
+
+  return { logs: logs.sort((a, b) => a.date.localeCompare(b.date)), errors };
+};
+
+// --- Apple Health ---
+
+const HK_FLOW: Record<string, FlowLevel | null> = {
+  HKCategoryValueMenstrualFlowUnspecified: 'Medium',
+  HKCategoryValueMenstrualFlowLight: 'Light',
+  HKCategoryValueMenstrualFlowMedium: 'Medium',
+  HKCategoryValueMenstrualFlowHeavy: 'Heavy',
+  HKCategoryValueMenstrualFlowNone: null,
+};
+
+const HK_MUCUS: Record<string, CervicalMucus> = {
+  HKCategoryValueCervicalMucusQualityDry: 'Dry',
+  HKCategoryValueCervicalMucusQualitySticky: 'Sticky',
+  HKCategoryValueCervicalMucusQualityCreamy: 'Creamy',
+  HKCategoryValueCervicalMucusQualityWatery: 'Watery',
+  HKCategoryValueCervicalMucusQualityEggWhite: 'Egg white',
+};
+
+const HK_LH: Record<string, LhResult> = {
+  HKCategoryValueOvulationTestResultNegative: 'Negative',
+  HKCategoryValueOvulationTestResultEstrogenSurge: 'High',
+  HKCategoryValueOvulationTestResultLuteinizingHormoneSurge: 'Peak',
+  HKCategoryValueOvulationTestResultPositive: 'Peak',
+};
+
+const HK_PREGNANCY: Record<string, PregnancyTestResult> = {
+  HKCategoryValuePregnancyTestResultNegative: 'Negative',
+  HKCategoryValuePregnancyTestResultPositive: 'Positive',
+};
+
+// Symptom records without one of these (present, unspecified) get the default severity
+const HK_SEVERITY: Record<string, Severity> = {
+  HKCategoryValueSeverityMild: 'Mild',
+  HKCategoryValueSeverityModerate: 'Moderate',
+  HKCategoryValueSeveritySevere: 'Severe',
+};
+
+const HK_CATEGORY = 'HKCategoryTypeIdentifier';
+
+// Symptom records whose value says the symptom was absent
+const HK_NOT_PRESENT = new Set(['HKCategoryValueSeverityNotPresent', 'HKCategoryValuePresenceNotPresent']);
+
+// Symptom type identifiers, minus the prefix, that aren't cycle data
+const HK_IGNORED = new Set([
+  'MenstrualFlow', 'IntermenstrualBleeding', 'CervicalMucusQuality', 'OvulationTestResult',
+  'PregnancyTestResult', 'SexualActivity', 'SleepAnalysis', 'MindfulSession', 'AppleStandHour',
+  'HighHeartRateEvent', 'LowHeartRateEvent', 'IrregularHeartRhythmEvent', 'AudioExposureEvent',
+  'ToothbrushingEvent', 'HandwashingEvent', 'LowCardioFitnessEvent', 'Contraceptive', 'Lactation',
+  'Pregnancy', 'ProgesteroneTestResult', 'InfrequentMenstrualCycles', 'IrregularMenstrualCycles',
+  'PersistentIntermenstrualBleeding', 'ProlongedMenstrualPeriods', 'EnvironmentalAudioExposureEvent',
+  'HeadphoneAudioExposureEvent', 'AppleWalkingSteadinessEvent', 'SleepApneaEvent',
+]);
+
+// "AbdominalCramps" → "Abdominal Cramps"
+const splitCamelCase = (name: string) => name.replace(/([a-z])([A-Z])/g, '$1 $2');
+
+const parseAttributes = (tag: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  for (const match of tag.matchAll(/(\w+)="([^"]*)"/g)) attributes[match[1]] = match[2];
+  return attributes;
+};
+
+const handleHealthRecord = (draft: ImportDraft, record: Record<string, string>) => {
+  const { type, value, startDate } = record;
+  // "2023-01-05 08:00:00 -0500": the date as the user's phone saw it
+  const date = startDate?.slice(0, 10);
+  if (!type || !date) return;
+
+  if (type === 'HKQuantityTypeIdentifierBasalBodyTemperature') {
+    getDay(draft, date).temperature = {
+      value: Number(value),
+      unit: record.unit === 'degF' ? 'F' : 'C',
+      time: startDate.slice(11, 16) || null,
+      disturbed: false,
+    };
+    return;
+  }
+  if (!type.startsWith(HK_CATEGORY)) return;
+  const category = type.slice(HK_CATEGORY.length);
+
+  switch (category) {
+    case 'MenstrualFlow': {
+      const flow = HK_FLOW[value];
+      if (flow) addFlow(draft, date, flow);
+      return;
+    }
+    case 'IntermenstrualBleeding':
+      addFlow(draft, date, 'Spotting');
+      return;
+    case 'CervicalMucusQuality':
+      if (HK_MUCUS[value]) getDay(draft, date).mucus = HK_MUCUS[value];
+      return;
+    case 'OvulationTestResult':
+      if (HK_LH[value]) getDay(draft, date).lhTest = { result: HK_LH[value], photo: null };
+      return;
+    case 'PregnancyTestResult':
+      if (HK_PREGNANCY[value]) getDay(draft, date).pregnancyTest = HK_PREGNANCY[value];
+      return;
+  }
+
+  if (HK_IGNORED.has(category) || HK_NOT_PRESENT.has(value)) return;
+  addSymptom(draft, date, splitCamelCase(category), HK_SEVERITY[value]);
+};
+
+// Streams through Apple Health's export.xml, which is often hundreds of megabytes,
+// picking out cycle records without building a DOM. Feed it text chunks in order.
+export const createAppleHealthReader = ({ t }: Translator) => {
+  const draft = createDraft('Apple Health');
+  let buffer = '';
+
+  const scan = (final: boolean) => {
+    const pattern = /<Record\s[^>]*>/g;
+    let consumed = 0;
+    for (const match of buffer.matchAll(pattern)) {
+      const attributes = parseAttributes(match[0]);
+      handleHealthRecord(draft, attributes);
+      consumed = match.index! + match[0].length;
+    }
+    buffer = buffer.slice(consumed);
+    // Keep only a possibly unfinished tag for the next chunk
+    const open = buffer.lastIndexOf('<');
+    buffer = final || open === -1 ? '' : buffer.slice(open);
+  };
+
+  return {
+    push: (chunk: string) => {
+      buffer += chunk;
+      scan(false);
+    },
+    finish: (): ImportDraft => {
+      scan(true);
+      if (draft.logs.size === 0) {
+        draft.errors.push(t('import.noCycles'));
+      }
+      return draft;
+    },
+  };
+};
+
+// --- Tracker CSV ---
+// Other apps' CSV exports differ, so columns are recognized by name. Two shapes are supported:
+// one row per day (date, flow, symptoms...) and one row per event (date, type/category, value).
+
+const COLUMN_NAMES = {
+  date: ['date', 'day', 'start date', 'startdate', 'timestamp', 'datetime'],
+  flow: ['flow', 'period', 'bleeding', 'menstruation', 'period flow', 'menstrual flow', 'period intensity'],
+  symptoms: ['symptoms', 'symptom', 'tags', 'pain', 'feelings'],
+  mood: ['mood', 'moods', 'emotions'],
+  type: ['type', 'category', 'event', 'measurement'],
+  value: ['value', 'option', 'details', 'result'],
+};
+
+const findColumn = (columns: string[], names: string[]) => columns.find(c => names.includes(c));
+
+const FLOW_WORDS: Record<string, FlowLevel> = {
+  spotting: 'Spotting',
+  spot: 'Spotting',
+  light: 'Light',
+  low: 'Light',
+  medium: 'Medium',
+  moderate: 'Medium',
+  normal: 'Medium',
+  heavy: 'Heavy',
+  high: 'Heavy',
+  veryheavy: 'Heavy',
+  yes: 'Medium',
+  true: 'Medium',
+  x: 'Medium',
+  '1': 'Medium',
+};
+
+const parseFlow = (value: string): FlowLevel | null => {
+  const word = normalizeName(value) || value.trim();
+  if (!word || ['no', 'none', 'false', '0'].includes(word)) return null;
+  return FLOW_WORDS[word] ?? null;
+};
+
+// Day-first or month-first? Decided once per file from any unambiguous date.
+type DateOrder = 'ymd' | 'dmy' | 'mdy';
+
+const detectDateOrder = (values: string[]): DateOrder => {
+  for (const value of values) {
+    const parts = value.match(/^(\d{1,4})[/.-](\d{1,2})[/.-](\d{1,4})/);
+    if (!parts) continue;
+    if (parts[1].length === 4) return 'ymd';
+    if (Number(parts[1]) > 12) return 'dmy';
+    if (Number(parts[2]) > 12) return 'mdy';
+  }
+  return 'mdy';
+};
+
+const parseTrackerDate = (value: string, order: DateOrder): string | null => {
+  const parts = value.match(/^(\d{1,4})[/.-](\d{1,2})[/.-](\d{1,4})/);
+  if (!parts) return null;
+  const [a, b, c] = [Number(parts[1]), Number(parts[2]), Number(parts[3])];
+  const [y, m, d] = order === 'ymd' ? [a, b, c] : order === 'dmy' ? [c, b, a] : [c, a, b];
+  const date = new Date(y < 100 ? 2000 + y : y, m - 1, d);
+  // Rejects 31/02 and friends instead of rolling over into the next month
+  return date.getMonth() === m - 1 && date.getDate() === d ? formatDate(date) : null;
+};
+
+const splitList = (value: string) => value.split(/[;,|]/).map(s => s.trim()).filter(Boolean);
+
+export const parseTrackerCsv = (text: string, { t }: Translator, source = 'CSV'): ImportDraft => {
+  const draft = createDraft(source);
+  const records = parseCsvRecords(text);
+  if (records.length === 0) {
+    draft.errors.push(t('import.noRows'));
+    return draft;
+  }
+
+  const columns = Object.keys(records[0]);
+  const dateColumn = findColumn(columns, COLUMN_NAMES.date);
+  if (!dateColumn) {
+    draft.errors.push(t('import.noDateColumn', { columns: columns.join(', ') }));
+    return draft;
+  }
+  const flowColumn = findColumn(columns, COLUMN_NAMES.flow);
+  const symptomsColumn = findColumn(columns, COLUMN_NAMES.symptoms);
+  const moodColumn = findColumn(columns, COLUMN_NAMES.mood);
+  const typeColumn = findColumn(columns, COLUMN_NAMES.type);
+  const valueColumn = findColumn(columns, COLUMN_NAMES.value);
+  const order = detectDateOrder(records.map(r => r[dateColumn]));
+
+  records.forEach((row, i) => {
+    const date = parseTrackerDate(row[dateColumn], order);
+    // Line 1 is the header
+    if (!date) {
+      draft.errors.push(t('import.unreadableDate', { line: i + 2, value: row[dateColumn] }));
+      return;
+    }
+
+    if (typeColumn && valueColumn) {
+      const type = normalizeName(row[typeColumn]);
+      const value = row[valueColumn];
+      if (COLUMN_NAMES.flow.map(normalizeName).includes(type)) {
+        const flow = parseFlow(value);
+        if (flow) addFlow(draft, date, flow);
+      } else if (COLUMN_NAMES.mood.includes(type)) {
+        getDay(draft, date).mood = value || null;
+      } else if (value) {
+        // Anything else (pain, digestion, skin...) is treated as a symptom
+        splitList(value).forEach(name => addSymptom(draft, date, name));
+      }
+      return;
+    }
+
+    if (flowColumn) {
+      const flow = parseFlow(row[flowColumn]);
+      if (flow) addFlow(draft, date, flow);
+    }
+    if (symptomsColumn) splitList(row[symptomsColumn]).forEach(name => addSymptom(draft, date, name));
+    if (moodColumn && row[moodColumn]) getDay(draft, date).mood = splitList(row[moodColumn])[0] ?? null;
+  });
+
+  if (!flowColumn && !symptomsColumn && !(typeColumn && valueColumn)) {
+    draft.errors.push(t('import.noColumns'));
+  }
+  return draft;
+};
@@ -0,0 +1,602 @@
+import type { Catalog } from '../lib/i18n';
+
+export const ar: Catalog = {
+  'app.loading': 'جارٍ التحميل...',
+  'app.saveFailed': 'تعذّر الحفظ. راجعي وحدة التحكم.',
+  'app.imported': { zero: 'تم استيراد {count} يوم.', one: 'تم استيراد يوم.', two: 'تم استيراد يومان.', few: 'تم استيراد {count} أيام.', many: 'تم استيراد {count} يومًا.', other: 'تم استيراد {count} يوم.' },
+  'app.importFailed': 'تعذّر الاستيراد. راجعي وحدة التحكم.',
+
+  'common.cancel': 'إلغاء',
+  'common.save': 'حفظ',
+  'common.saving': 'جارٍ الحفظ...',
+  'common.close': 'إغلاق',
+  'common.turnOff': 'إيقاف',
+  'common.repeatIt': 'أعد الإدخال',
+  'common.copy': 'نسخ',
+  'common.failed': 'حدث خطأ ما، يُرجى المحاولة مرة أخرى.',
+  'common.on': 'مفعّل',
+  'common.off': 'متوقف',
+
+  'nav.dashboard': 'دورتي',
+  'nav.calendar': 'التقويم',
+  'nav.log': 'السجل اليومي',
+  'nav.insights': 'إحصاءات',
+  'nav.search': 'بحث',
+  'nav.shared': 'تمت مشاركته معي',
+  'nav.settings': 'الإعدادات',
+  'nav.lock': 'قفل',
+  'nav.signOut': 'تسجيل الخروج',
+  'nav.dueDate': 'موعد الولادة',
+  'nav.nextPeriod': 'الدورة الشهرية القادمة',
+  'nav.nextWithdrawal': 'نزيف الانسحاب القادم',
+  'nav.notPredicted': 'لم يُتوقَّع بعد',
+  'nav.inDays': { zero: 'بعد {count} يوم', one: 'بعد يوم', two: 'بعد يومين', few: 'بعد {count} أيام', many: 'بعد {count} يومًا', other: 'بعد {count} يوم' },
+
+  'login.tagline': 'متتبّع دورتك الشخصي.',
+  'login.google': 'تسجيل الدخول عبر Google',
+  'login.unavailable': 'تسجيل الدخول غير متاح حاليًا.',
+  'login.guest': 'الاستخدام بدون حساب',
+  'login.terms': 'بتسجيل الدخول، فإنك توافق على الشروط والأحكام. بدون حساب، يبقى كل شيء على هذا الجهاز.',
+  'login.googleLogo': 'شعار Google',
+
+  'dashboard.greeting': 'مرحبًا يا جميلة',
+  'dashboard.subtitle': 'إليكِ ملخص دورتك لهذا اليوم.',
+  'dashboard.positiveTest': 'سجّلتِ اختبار حمل إيجابيًا. هل تريدين التبديل إلى وضع الحمل؟ تتوقف توقعات الدورة أثناء تفعيله.',
+  'dashboard.notNow': 'ليس الآن',
+  'dashboard.startPregnancy': 'بدء وضع الحمل',
+  'dashboard.recoveryWeek': 'التعافي · الأسبوع {week}',
+  'dashboard.recoveryCycle': 'غالبًا ما تختلف دورتك الأولى بعد الحمل عن المعتاد، لذا لن تُحتسب في متوسطاتك.',
+  'dashboard.recoveryWaiting': 'سجّلي أول دورة شهرية عند قدومها وستُستأنف التوقعات من هناك.',
+  'dashboard.logSymptoms': 'سجّلي الأعراض',
+  'dashboard.logSymptomsHint': 'كيف تشعرين؟',
+  'dashboard.viewCalendar': 'عرض التقويم',
+  'dashboard.viewCalendarHint': 'راجعي السجل',
+
+  'cycle.day': 'اليوم',
+  'cycle.ofDays': { zero: 'من {count} يوم', one: 'من يوم', two: 'من يومان', few: 'من {count} أيام', many: 'من {count} يومًا', other: 'من {count} يوم' },
+  'cycle.countdown': { zero: '{count} يوم', one: 'يوم', two: 'يومان', few: '{count} أيام', many: '{count} يومًا', other: '{count} يوم' },
+  'cycle.untilNextPeriod': 'حتى الدورة القادمة',
+
+  'calendar.period': 'الدورة الشهرية',
+  'calendar.withdrawal': 'نزيف الانسحاب',
+  'calendar.likely': 'مرجّح',
+  'calendar.possible': 'محتمل',
+  'calendar.fertile': 'خصوبة',
+  'calendar.ovulation': 'الإباضة',
+  'calendar.lhPeak': 'ذروة LH',
+  'calendar.eggWhite': 'إفرازات كبياض البيض',
+
+  'log.logFor': 'سجل {date}',
+  'log.planFor': 'خطة {date}',
+  'log.save': 'حفظ',
+  'log.logged': 'مسجّل',
+  'log.planned': 'مخطط',
+  'log.nothingYet': 'لا شيء بعد',
+  'log.flowSummary': 'نزيف {flow}',
+  'log.mucusSummary': 'إفرازات {mucus}',
+  'log.lhSummary': 'LH {result}',
+  'log.pregnancyTestSummary': 'اختبار الحمل {result}',
+  'log.contraceptionDone': 'تم وسيلة منع الحمل',
+  'log.noteSummary': 'ملاحظة',
+  'log.contraception': 'منع الحمل',
+  'log.pack': 'العلبة {pack} · اليوم {day} من 28',
+  'log.packBreak': 'العلبة {pack} · اليوم {day} من 28 · أسبوع الاستراحة',
+  'log.nextInjection': 'الحقنة التالية في {date}',
+  'log.missedPills': { zero: '{count} حبة فائتة مؤخرًا', one: 'حبة فائتة مؤخرًا', two: 'حبتان فائتتان مؤخرًا', few: '{count} حبات فائتة مؤخرًا', many: '{count} حبة فائتة مؤخرًا', other: '{count} حبة فائتة مؤخرًا' },
+  'log.backupUntil': 'تحتاجين إلى حماية إضافية حتى {date}.',
+  'log.checkLeaflet': 'راجعي نشرة حبوبك أو اسألي الصيدلي إن لم تكوني متأكدة.',
+  'log.futureDay': 'لم يأتِ هذا اليوم بعد. يمكنك التخطيط للمزاج والأعراض مسبقًا، أما النزيف فيُسجَّل في يومه.',
+  'log.flow': 'شدة النزيف',
+  'log.flowHint': 'اضغطي على المستوى المحدد مرة أخرى إذا لم يكن هذا يوم دورة.',
+  'log.temperature': 'حرارة الجسم الأساسية',
+  'log.disturbed': 'مضطربة (نوم سيئ، مرض، كحول...)',
+  'log.implausibleTemperature': 'لا تبدو {value} درجة حرارة جسم. يُرجى التحقق من القراءة.',
+  'log.photoFailed': 'تعذّرت قراءة تلك الصورة. يُرجى تجربة صورة أخرى.',
+  'log.mucus': 'إفرازات عنق الرحم',
+  'log.lhTest': 'اختبار الإباضة (LH)',
+  'log.stripPhoto': 'شريط اختبار LH',
+  'log.pregnancyTest': 'اختبار الحمل',
+  'log.mood': 'المزاج',
+  'log.symptoms': 'الأعراض',
+  'log.symptomsHint': 'اضغطي مرة أخرى لزيادة الشدة: خفيفة، متوسطة، شديدة.',
+  'log.otherSymptoms': 'أخرى',
+  'log.notes': 'ملاحظات',
+
+  'flow.Spotting': 'تبقيع',
+  'flow.Light': 'خفيف',
+  'flow.Medium': 'متوسط',
+  'flow.Heavy': 'غزير',
+
+  'mucus.Dry': 'جافة',
+  'mucus.Sticky': 'لزجة',
+  'mucus.Creamy': 'كريمية',
+  'mucus.Watery': 'مائية',
+  'mucus.Egg white': 'كبياض البيض',
+
+  'test.Negative': 'سلبي',
+  'test.High': 'مرتفع',
+  'test.Peak': 'ذروة',
+  'test.Positive': 'إيجابي',
+
+  'severity.Mild': 'خفيفة',
+  'severity.Moderate': 'متوسطة',
+  'severity.Severe': 'شديدة',
+
+  'category.Physical': 'جسدية',
+  'category.Emotional': 'عاطفية',
+  'category.Digestive': 'هضمية',
+  'category.Skin': 'الجلد',
+  'category.Sleep': 'النوم',
+
+  'symptom.cramps': 'تقلصات',
+  'symptom.headache': 'صداع',
+  'symptom.bloating': 'انتفاخ',
+  'symptom.cravings': 'رغبة شديدة في الأكل',
+  'symptom.tenderBreasts': 'ألم الثدي',
+  'symptom.backPain': 'ألم الظهر',
+  'symptom.moodSwings': 'تقلب المزاج',
+  'symptom.nausea': 'غثيان',
+  'symptom.acne': 'حب الشباب',
+  'symptom.insomnia': 'أرق',
+
+  'mood.happy': 'سعيدة',
+  'mood.neutral': 'عادية',
+  'mood.sad': 'حزينة',
+  'mood.tired': 'متعبة',
+  'mood.anxious': 'قلقة',
+  'mood.irritable': 'سريعة الانفعال',
+
+  'settings.title': 'الإعدادات',
+  'settings.save': 'حفظ التغييرات',
+  'settings.cycleLength': 'متوسط طول الدورة (بالأيام)',
+  'settings.cycleLengthHint': 'عدد الأيام بين بداية دورة شهرية وبداية التالية.',
+  'settings.periodLength': 'مدة الدورة الشهرية (بالأيام)',
+  'settings.periodLengthHint': 'كم يومًا تستمر دورتك الشهرية عادةً.',
+  'settings.temperatureUnit': 'وحدة الحرارة',
+  'settings.temperatureUnitHint': 'تُستخدم عند تسجيل حرارة جسمك الأساسية.',
+  'settings.language': 'اللغة',
+  'settings.languageHint': 'تُستخدم للتطبيق وللتواريخ.',
+  'settings.deviceLanguage': 'مثل هذا الجهاز',
+  'settings.weekStart': 'أول أيام الأسبوع',
+  'settings.weekStartHint': 'اليوم الذي يبدأ به كل أسبوع في التقويم.',
+  'settings.weekStartDefault': 'المعتاد للغتك ({day})',
+  'settings.symptomsHint': 'ما يعرضه السجل. تبقى العناصر المخفية في الأيام التي سجّلتِها فيها.',
+  'settings.moods': 'الحالات المزاجية',
+  'settings.moodsHint': 'اختاري مزاجًا واحدًا يوميًا من هذه القائمة.',
+
+  'phase.menstrual': 'الدورة الشهرية',
+  'phase.follicular': 'المرحلة الجريبية',
+  'phase.ovulatory': 'فترة الخصوبة',
+  'phase.luteal': 'المرحلة الأصفرية',
+
+  'patterns.title': 'أنماط الأعراض والمزاج',
+  'patterns.from': { zero: 'من {count} دورة مكتملة سجّلتِ فيها شعورك.', one: 'من دورة مكتملة سجّلتِ فيها شعورك.', two: 'من دورتين مكتملتين سجّلتِ فيها شعورك.', few: 'من {count} دورات مكتملة سجّلتِ فيها شعورك.', many: 'من {count} دورة مكتملة سجّلتِ فيها شعورك.', other: 'من {count} دورة مكتملة سجّلتِ فيها شعورك.' },
+  'patterns.mostlyIn': 'غالبًا في: {phase}',
+  'patterns.none': 'لا توجد أنماط واضحة بعد. تظهر بعد بضع دورات من التسجيل.',
+  'patterns.cell': '{item}، اليوم {day}: {share}% من الدورات',
+  'patterns.legend': 'يوم الدورة في الأسفل. اللون الأغمق يعني عددًا أكبر من دوراتك.',
+  'patterns.feeling': 'الشعور: {mood}',
+  'patterns.onDays': '{item} في الأيام {from}–{to} في {hits} من آخر {count} دورات',
+  'patterns.beforePeriod': 'يظهر {item} عادةً قبل دورتك بـ {from}–{to} أيام ({hits} من آخر {count} دورات)',
+
+  'expect.title': 'ما الذي تتوقعينه',
+  'expect.today': 'اليوم',
+  'expect.tomorrow': 'غدًا',
+
+  'exclusion.pregnancy': 'أثناء الحمل',
+  'exclusion.recovery': 'الدورة الأولى بعد الحمل، وغالبًا ما تختلف عن المعتاد',
+  'exclusion.contraception': 'مع وسائل منع الحمل الهرمونية، يتبع النزيف العلبة لا الدورة',
+  'exclusion.tooShort': 'أقصر من {count} يومًا. غالبًا تبقيع أو نزيف منتصف الدورة سُجّل كدورة شهرية.',
+  'exclusion.tooLong': 'أطول من {count} يومًا. غالبًا دورة شهرية لم تُسجَّل.',
+
+  'insights.empty': 'سجّلي دوراتك الشهرية وسيظهر سجل دوراتك هنا.',
+  'insights.statistics': 'إحصاءات الدورة',
+  'insights.from': { zero: 'من {count} دورة مكتملة، من {date} حتى اليوم.', one: 'من دورة مكتملة، من {date} حتى اليوم.', two: 'من دورتين مكتملتين، من {date} حتى اليوم.', few: 'من {count} دورات مكتملة، من {date} حتى اليوم.', many: 'من {count} دورة مكتملة، من {date} حتى اليوم.', other: 'من {count} دورة مكتملة، من {date} حتى اليوم.' },
+  'insights.noStatistics': 'تظهر الإحصاءات بعد اكتمال دورة واحدة.',
+  'insights.days': { zero: '{days} يوم', one: 'يوم واحد', two: 'يومان', few: '{days} أيام', many: '{days} يومًا', other: '{days} يوم' },
+  'insights.averageCycle': 'متوسط الدورة',
+  'insights.variation': 'التفاوت',
+  'insights.shortest': 'الأقصر',
+  'insights.longest': 'الأطول',
+  'insights.averagePeriod': 'متوسط الدورة الشهرية',
+  'insights.overTime': 'طول الدورة عبر الزمن',
+  'insights.chartLegend': 'الجزء الأغمق: مدة الدورة الشهرية. الرمادي: مستبعد من الإحصاءات.',
+  'insights.bar': '{date}: دورة من {length} يومًا، دورة شهرية من {period} أيام',
+  'insights.allCycles': 'كل الدورات',
+  'insights.started': 'البداية',
+  'insights.cycle': 'الدورة',
+  'insights.period': 'الدورة الشهرية',
+  'insights.notCounted': 'غير محتسبة: {reason}',
+  'insights.ongoing': 'جارية',
+
+  'reminders.title': 'التذكيرات',
+  'reminders.unsupported': 'هذا المتصفح لا يدعم الإشعارات.',
+  'reminders.blocked': 'الإشعارات محظورة لهذا الموقع. اسمحي بها من إعدادات المتصفح لتلقي التذكيرات.',
+  'reminders.description': 'إشعارات على هذا الجهاز بناءً على توقعاتك. تتبع أحدث ما سجّلتِه.',
+  'reminders.days': { zero: '{count} يوم', one: 'يوم واحد', two: 'يومان', few: '{count} أيام', many: '{count} يومًا', other: '{count} يوم' },
+  'reminders.time': 'ذكّريني في',
+  'reminders.periodSoon': 'الدورة متوقعة خلال',
+  'reminders.fertileSoon': 'تبدأ فترة الخصوبة غدًا',
+  'reminders.dailyLog': 'لم أسجّل شيئًا اليوم',
+  'reminders.late': 'تأخرت الدورة بمقدار',
+  'reminders.discreet': 'إشعارات متحفظة',
+  'reminders.discreetText': 'نص الإشعار',
+  'reminders.periodSoonTitle': 'الدورة قريبة',
+  'reminders.periodSoonBody': { zero: 'دورتك متوقعة خلال {count} يوم.', one: 'دورتك متوقعة خلال يوم واحد.', two: 'دورتك متوقعة خلال يومان.', few: 'دورتك متوقعة خلال {count} أيام.', many: 'دورتك متوقعة خلال {count} يومًا.', other: 'دورتك متوقعة خلال {count} يوم.' },
+  'reminders.lateTitle': 'الدورة متأخرة',
+  'reminders.lateBody': { zero: 'تأخرت دورتك {count} يوم. سجّليها إن كانت قد بدأت.', one: 'تأخرت دورتك يومًا واحدًا. سجّليها إن كانت قد بدأت.', two: 'تأخرت دورتك يومان. سجّليها إن كانت قد بدأت.', few: 'تأخرت دورتك {count} أيام. سجّليها إن كانت قد بدأت.', many: 'تأخرت دورتك {count} يومًا. سجّليها إن كانت قد بدأت.', other: 'تأخرت دورتك {count} يوم. سجّليها إن كانت قد بدأت.' },
+  'reminders.fertileTitle': 'فترة الخصوبة',
+  'reminders.fertileBody': 'تبدأ فترة خصوبتك غدًا.',
+  'reminders.dailyLogTitle': 'السجل اليومي',
+  'reminders.dailyLogBody': 'لم تسجّلي شيئًا اليوم بعد.',
+  'reminders.discreetTitle': 'تذكير',
+  'reminders.discreetBody': 'لديكِ تذكير',
+
+  'share.predictions': 'التوقعات',
+  'share.predictionsDetail': 'يوم الدورة وموعد الدورات الشهرية القادمة',
+  'share.periodDays': 'أيام الدورة الشهرية',
+  'share.periodDaysDetail': 'أيام النزيف ومدى غزارته',
+  'share.fertileWindow': 'فترة الخصوبة',
+  'share.fertileWindowDetail': 'أيام الخصوبة والإباضة',
+  'share.moods': 'الحالات المزاجية',
+  'share.moodsDetail': 'المزاج المسجّل كل يوم',
+  'share.symptoms': 'الأعراض',
+  'share.symptomsDetail': 'الأعراض المسجّلة كل يوم',
+  'share.nothingYet': 'لا شيء بعد',
+
+  'contraception.title': 'منع الحمل',
+  'contraception.description': 'توقف الوسائل الهرمونية الإباضة، لذا تُعطَّل توقعات فترة الخصوبة أثناء استخدامها.',
+  'contraception.none': 'لا شيء',
+  'contraception.startedOn': 'تاريخ البدء (أول يوم في العلبة)',
+  'contraception.fittedOn': 'تاريخ التركيب',
+  'contraception.lastInjection': 'آخر حقنة',
+  'contraception.method.combined-21': 'حبوب مركّبة (21/7)',
+  'contraception.method.combined-24': 'حبوب مركّبة (24/4)',
+  'contraception.method.progestin-only': 'حبوب البروجستين فقط',
+  'contraception.method.patch': 'لصقة',
+  'contraception.method.ring': 'حلقة مهبلية',
+  'contraception.method.hormonal-iud': 'لولب هرموني',
+  'contraception.method.copper-iud': 'لولب نحاسي',
+  'contraception.method.implant': 'غرسة',
+  'contraception.method.injection': 'حقنة',
+  'contraception.task.pill-taken': 'أُخذت الحبة',
+  'contraception.task.patch-changed': 'غُيّرت اللصقة',
+  'contraception.task.patch-removed': 'أُزيلت اللصقة',
+  'contraception.task.ring-inserted': 'أُدخلت الحلقة',
+  'contraception.task.ring-removed': 'أُزيلت الحلقة',
+  'contraception.advice.take-now': 'تناولي حبة فور تذكّرك، ثم تابعي في موعدك المعتاد.',
+  'contraception.advice.take-missed': 'تناولي الحبة الفائتة الآن، حتى لو كان ذلك يعني حبتين اليوم. ما زلتِ محمية.',
+  'contraception.advice.take-latest': 'تناولي آخر حبة فائتة الآن وتابعي بقية العلبة.',
+  'contraception.advice.backup-on-time': { zero: 'استخدمي الواقي الذكري أو تجنبي الجماع حتى تتناولي حبتك في موعدها لمدة {count} يوم متتالية.', one: 'استخدمي الواقي الذكري أو تجنبي الجماع حتى تتناولي حبتك في موعدها لمدة يوم واحد متتالية.', two: 'استخدمي الواقي الذكري أو تجنبي الجماع حتى تتناولي حبتك في موعدها لمدة يومان متتالية.', few: 'استخدمي الواقي الذكري أو تجنبي الجماع حتى تتناولي حبتك في موعدها لمدة {count} أيام متتالية.', many: 'استخدمي الواقي الذكري أو تجنبي الجماع حتى تتناولي حبتك في موعدها لمدة {count} يومًا متتالية.', other: 'استخدمي الواقي الذكري أو تجنبي الجماع حتى تتناولي حبتك في موعدها لمدة {count} يوم متتالية.' },
+  'contraception.advice.backup-active': { zero: 'استخدمي الواقي الذكري أو تجنبي الجماع حتى تتناولي {count} حبة فعالة على التوالي.', one: 'استخدمي الواقي الذكري أو تجنبي الجماع حتى تتناولي حبة فعالة على التوالي.', two: 'استخدمي الواقي الذكري أو تجنبي الجماع حتى تتناولي حبتين فعالتين على التوالي.', few: 'استخدمي الواقي الذكري أو تجنبي الجماع حتى تتناولي {count} حبات فعالة على التوالي.', many: 'استخدمي الواقي الذكري أو تجنبي الجماع حتى تتناولي {count} حبة فعالة على التوالي.', other: 'استخدمي الواقي الذكري أو تجنبي الجماع حتى تتناولي {count} حبة فعالة على التوالي.' },
+  'contraception.advice.emergency': 'إذا مارستِ الجماع خلال الاستراحة أو الأسبوع الأول من هذه العلبة، فاسألي الصيدلي عن وسائل منع الحمل الطارئة.',
+  'contraception.advice.skip-break': 'تخطّي الاستراحة: ابدئي العلبة التالية مباشرة بعد آخر حبة فعالة.',
+
+  'report.title': 'تقرير الدورة',
+  'report.generated': 'أُنشئ في {date}',
+  'report.days': { zero: '{days} يوم', one: 'يوم واحد', two: 'يومان', few: '{days} أيام', many: '{days} يومًا', other: '{days} يوم' },
+  'report.contraception': '{method} منذ {date}.',
+  'report.pregnant': 'حامل، آخر دورة شهرية {lmp}.',
+  'report.pregnancyEnded': 'حمل منذ {lmp} (آخر دورة شهرية)، انتهى في {date}.',
+  'report.pregnancyLoss': 'حمل منذ {lmp} (آخر دورة شهرية)، انتهى في {date} بفقدان الحمل.',
+  'report.longCycle': { zero: 'استمرت الدورة التي بدأت في {date} {count} يوم.', one: 'استمرت الدورة التي بدأت في {date} يومًا واحدًا.', two: 'استمرت الدورة التي بدأت في {date} يومان.', few: 'استمرت الدورة التي بدأت في {date} {count} أيام.', many: 'استمرت الدورة التي بدأت في {date} {count} يومًا.', other: 'استمرت الدورة التي بدأت في {date} {count} يوم.' },
+  'report.longPeriod': { zero: 'استمرت الدورة الشهرية التي بدأت في {date} {count} يوم.', one: 'استمرت الدورة الشهرية التي بدأت في {date} يومًا واحدًا.', two: 'استمرت الدورة الشهرية التي بدأت في {date} يومان.', few: 'استمرت الدورة الشهرية التي بدأت في {date} {count} أيام.', many: 'استمرت الدورة الشهرية التي بدأت في {date} {count} يومًا.', other: 'استمرت الدورة الشهرية التي بدأت في {date} {count} يوم.' },
+  'report.variedBy': 'تفاوت طول الدورة بمقدار {count} أيام (من {shortest} إلى {longest}).',
+  'report.spotting': { zero: 'تبقيع بين الدورات في {count} يوم: {dates}.', one: 'تبقيع بين الدورات في يوم واحد: {dates}.', two: 'تبقيع بين الدورات في يومان: {dates}.', few: 'تبقيع بين الدورات في {count} أيام: {dates}.', many: 'تبقيع بين الدورات في {count} يومًا: {dates}.', other: 'تبقيع بين الدورات في {count} يوم: {dates}.' },
+  'report.summary': 'الملخص',
+  'report.averageCycle': 'متوسط طول الدورة',
+  'report.shortestLongest': 'أقصر / أطول دورة',
+  'report.averagePeriod': 'متوسط مدة الدورة الشهرية',
+  'report.cyclesCounted': 'الدورات المحتسبة',
+  'report.noAverages': 'لا توجد دورات مكتملة كافية في هذه الفترة لحساب المتوسطات.',
+  'report.cycles': 'الدورات',
+  'report.start': 'البداية',
+  'report.cycleLength': 'طول الدورة',
+  'report.periodLength': 'مدة الدورة الشهرية',
+  'report.note': 'ملاحظة',
+  'report.ongoing': 'جارية',
+  'report.exclusion.pregnancy': 'حمل',
+  'report.exclusion.recovery': 'بعد الحمل',
+  'report.exclusion.contraception': 'منع حمل هرموني',
+  'report.exclusion.too-short': 'قصيرة على غير العادة',
+  'report.exclusion.too-long': 'طويلة على غير العادة',
+  'report.noPeriods': 'لم تُسجَّل أي دورة شهرية في هذه الفترة.',
+  'report.flow': 'النزيف',
+  'report.total': 'المجموع',
+  'report.symptoms': 'الأعراض حسب مرحلة الدورة',
+  'report.symptomsHint': 'الأيام المسجّلة في كل مرحلة، مع الشدة الأكثر تكرارًا.',
+  'report.noSymptoms': 'لم تُسجَّل أعراض في هذه الفترة.',
+  'report.moods': 'الحالات المزاجية حسب مرحلة الدورة',
+  'report.noMoods': 'لم تُسجَّل حالات مزاجية في هذه الفترة.',
+  'report.irregularities': 'حالات عدم انتظام ملحوظة',
+  'report.noIrregularities': 'لا شيء في هذه الفترة.',
+  'report.temperature': 'حرارة الجسم الأساسية',
+  'report.readings': { zero: '{count} قراءة. النقاط المفرغة مُعلَّمة كمضطربة.', one: 'قراءة. النقاط المفرغة مُعلَّمة كمضطربة.', two: 'قراءتان. النقاط المفرغة مُعلَّمة كمضطربة.', few: '{count} قراءات. النقاط المفرغة مُعلَّمة كمضطربة.', many: '{count} قراءة. النقاط المفرغة مُعلَّمة كمضطربة.', other: '{count} قراءة. النقاط المفرغة مُعلَّمة كمضطربة.' },
+  'report.shift': 'ارتفاع في الحرارة يؤكد الإباضة نحو {dates} (البنفسجي: خط الأساس).',
+  'report.noShift': 'لا يوجد ارتفاع في الحرارة يؤكد الإباضة.',
+  'report.tests': 'نتائج الاختبارات',
+  'report.date': 'التاريخ',
+  'report.test': 'الاختبار',
+  'report.result': 'النتيجة',
+  'report.lhTest': 'الإباضة (LH)',
+  'report.pregnancyTest': 'الحمل',
+  'report.notes': 'ملاحظات',
+  'report.footer': 'تتبّع ذاتي في Gyneo. التوقعات والأنماط تقديرات وليست تشخيصًا.',
+  'report.page': 'صفحة {page} من {pages}',
+  'report.heading': 'تقرير لطبيبك',
+  'report.description': 'ملف PDF باللغة الإنجليزية يتضمن أطوال دوراتك ومدة الدورة الشهرية والنزيف والأعراض حسب المرحلة وحالات عدم الانتظام والحرارة ونتائج الاختبارات. يُنشأ على هذا الجهاز ولا يُرفع إلى أي مكان.',
+  'report.from': 'من',
+  'report.to': 'إلى',
+  'report.includeMoods': 'تضمين الحالات المزاجية',
+  'report.includeNotes': 'تضمين الملاحظات',
+  'report.download': 'تنزيل PDF',
+  'report.confirmUnprintable': 'بعض أسماء الأعراض أو الملاحظات تستخدم حروفًا لا يمكن لملف PDF عرضها، لذا ستظهر على شكل "?". هل تريدين التنزيل على أي حال؟',
+
+  'sharing.title': 'المشاركة',
+  'sharing.description': 'دعي شريكك أو من يرعاكِ يعرف متى تقترب دورتك الشهرية أو فترة خصوبتك. لا يرى إلا ما تختارينه، ولا يمكنه تغيير أي شيء، ويمكنك إيقاف المشاركة في أي وقت.',
+  'sharing.notEncrypted': 'ما تشاركينه ليس مشفّرًا من طرف إلى طرف، لذا يمكن لمن تشاركين معهم قراءته.',
+  'sharing.anyoneWithLink': 'أي شخص لديه رابط الدعوة هذا',
+  'sharing.confirmStop': 'لن يرى {who} أي شيء بعد الآن. هل تريدين إيقاف المشاركة؟',
+  'sharing.createLink': 'إنشاء رابط دعوة',
+  'sharing.notAccepted': 'لم تُقبل الدعوة بعد',
+  'sharing.sees': 'يرى {what}',
+  'sharing.copyLink': 'نسخ رابط الدعوة',
+  'sharing.copied': 'تم النسخ',
+  'sharing.link': 'الرابط',
+  'sharing.change': 'تغيير ما تتم مشاركته',
+  'sharing.stop': 'إيقاف المشاركة',
+  'sharing.whatToShare': 'ماذا يمكنه أن يرى؟',
+  'sharing.invite': 'دعوة شخص',
+  'sharing.linkCopied': 'تم نسخ رابط الدعوة. أرسليه إلى الشخص الذي تريدين المشاركة معه.',
+  'sharing.someone': 'شخص ما',
+
+  'invite.signIn': 'يريد شخص ما مشاركة دورته معك. سجّل الدخول لرؤية الدعوة.',
+  'invite.opening': 'جارٍ فتح الدعوة...',
+  'invite.gone': 'سُحبت هذه الدعوة أو قُبلت من قبل. اطلب رابطًا جديدًا.',
+  'invite.own': 'هذه دعوتك. أرسلي الرابط إلى الشخص الذي تريدين المشاركة معه.',
+  'invite.wantsToShare': '{name} يريد المشاركة معك',
+  'invite.readOnly': 'سترى هذا للقراءة فقط ضمن «{shared}». يمكن لـ {name} تغيير ما تتم مشاركته أو الإيقاف في أي وقت.',
+  'invite.decline': 'رفض',
+  'invite.accepting': 'جارٍ القبول...',
+  'invite.open': 'فتح',
+  'invite.accept': 'قبول',
+
+  'shared.loading': 'جارٍ تحميل ما يشاركه {name}...',
+  'shared.noPredictions': 'لا توجد توقعات لـ {name} حاليًا.',
+  'shared.fertileUntil': 'فترة الخصوبة حتى {date}',
+  'shared.nextFertile': 'فترة الخصوبة القادمة من {date}',
+  'shared.mood': 'المزاج: {mood}',
+  'shared.symptoms': 'الأعراض: {symptoms}',
+  'shared.nothing': 'لم تتم مشاركة شيء لهذا اليوم.',
+  'shared.confirmLeave': 'إيقاف رؤية دورة {name}؟ سيتعين دعوتك من جديد.',
+  'shared.empty': 'لا أحد يشارك معك بعد. عندما يرسل إليك أحدهم رابط دعوة، افتحه لترى دورته هنا.',
+  'shared.title': 'دورة {name}',
+  'shared.leave': 'إيقاف الرؤية',
+
+  'appLock.decoyName': 'ملاحظات يومية',
+  'appLock.wait': 'محاولات كثيرة جدًا. انتظري {count} ث.',
+  'appLock.wrong': 'رمز المرور غير صحيح، حاولي مرة أخرى',
+  'appLock.enter': 'أدخلي رمز المرور',
+  'appLock.unlockWithDevice': 'فتح القفل بهذا الجهاز',
+  'appLock.checking': 'جارٍ التحقق...',
+  'appLock.unlock': 'فتح القفل',
+  'appLock.forgot': 'نسيتِ رمز المرور؟ سجّلي الدخول مجددًا',
+  'appLock.title': 'قفل التطبيق',
+  'appLock.description': 'طلب رمز PIN قبل عرض أي شيء على هذا الجهاز. تحتفظ الأجهزة الأخرى بإعدادها الخاص.',
+  'appLock.wrongCurrent': 'رمز PIN الحالي غير صحيح.',
+  'appLock.pinLength': 'استخدمي من {min} إلى {max} أرقام.',
+  'appLock.mismatch': 'رمزا PIN غير متطابقين.',
+  'appLock.deviceFailed': 'تعذّر إعداد فتح القفل بهذا الجهاز.',
+  'appLock.currentPin': 'رمز PIN الحالي',
+  'appLock.newPin': 'رمز PIN الجديد',
+  'appLock.pin': 'رمز PIN',
+  'appLock.savePin': 'حفظ رمز PIN',
+  'appLock.setPin': 'تعيين رمز PIN',
+  'appLock.lockAfter': 'القفل بعد',
+  'appLock.whenReopened': 'عند إعادة الفتح فقط',
+  'appLock.idle': { zero: '{count} دقيقة من الخمول', one: 'دقيقة واحدة من الخمول', two: 'دقيقتين من الخمول', few: '{count} دقائق من الخمول', many: '{count} دقيقة من الخمول', other: '{count} دقيقة من الخمول' },
+  'appLock.lockWhenHidden': 'القفل فور الانتقال إلى تطبيق آخر',
+  'appLock.decoy': 'عرض شاشة القفل باسم «{name}»',
+  'appLock.biometric': 'فتح القفل بالبصمة أو الوجه',
+  'appLock.changePin': 'تغيير رمز PIN',
+  'appLock.eraseGuest': 'بدون حساب، الطريقة الوحيدة لتجاوز رمز مرور منسي هي مسح كل شيء على هذا الجهاز. هل تريدين المسح؟',
+
+  'encryption.title': 'التشفير',
+  'encryption.enabled': 'تُشفَّر سجلاتك على هذا الجهاز قبل حفظها. لا يفتحها إلا عبارة المرور أو مفتاح الاسترداد.',
+  'encryption.disabled': 'شفّري سجلاتك على جهازك بعبارة مرور، حتى لا يستطيع أحد غيرك قراءتها، ولا نحن. تبقى الإعدادات مثل طول الدورة مقروءة.',
+  'encryption.tooShort': 'استخدمي {count} أحرف على الأقل.',
+  'encryption.chooseNew': 'اختاري عبارة مرور جديدة من {count} أحرف على الأقل.',
+  'encryption.mismatch': 'عبارتا المرور غير متطابقتين.',
+  'encryption.wrongPassphrase': 'عبارة المرور هذه غير صحيحة.',
+  'encryption.wrongRecoveryKey': 'مفتاح الاسترداد هذا غير صحيح.',
+  'encryption.unreadable': { zero: 'تعذّر فك تشفير {count} سجل محفوظ.', one: 'تعذّر فك تشفير سجل محفوظ.', two: 'تعذّر فك تشفير سجلان محفوظان.', few: 'تعذّر فك تشفير {count} سجلات محفوظة.', many: 'تعذّر فك تشفير {count} سجلًا محفوظًا.', other: 'تعذّر فك تشفير {count} سجل محفوظ.' },
+  'encryption.paused': 'تغيير عبارة المرور أو إيقاف التشفير معلّق حتى يمكن فك تشفيرها، كي لا تضيع.',
+  'encryption.failed': 'حدث خطأ ما. لم تتغير سجلاتك.',
+  'encryption.saveRecoveryKey': 'احفظي مفتاح الاسترداد',
+  'encryption.recoveryKeyHint': 'إنه الطريقة الوحيدة للعودة إذا نسيتِ عبارة المرور. بدونهما معًا، لا يمكن استعادة سجلاتك.',
+  'encryption.saved': 'لقد حفظته',
+  'encryption.change': 'تغيير عبارة المرور',
+  'encryption.changeShort': 'تغيير',
+  'encryption.turnOn': 'تفعيل التشفير',
+  'encryption.currentPassphrase': 'عبارة المرور الحالية',
+  'encryption.newPassphrase': 'عبارة المرور الجديدة',
+  'encryption.passphrase': 'عبارة المرور',
+  'encryption.willDecrypt': 'ستُحفظ سجلاتك دون تشفير مرة أخرى.',
+  'encryption.working': 'جارٍ العمل...',
+  'encryption.encrypt': 'تشفير سجلاتي',
+  'encryption.locked': 'سجلاتك مشفّرة',
+  'encryption.recoveryKey': 'مفتاح الاسترداد (XXXX-XXXX-...)',
+  'encryption.unlockFailed': 'تعذّر فتح القفل. يُرجى المحاولة مرة أخرى.',
+  'encryption.unlocking': 'جارٍ فتح القفل...',
+  'encryption.usePassphrase': 'استخدام عبارة المرور',
+  'encryption.forgot': 'نسيتِ عبارة المرور؟',
+
+  'catalog.changeIcon': 'تغيير الأيقونة',
+  'catalog.moveUp': 'نقل للأعلى',
+  'catalog.moveDown': 'نقل للأسفل',
+  'catalog.show': 'إظهار في السجل',
+  'catalog.hide': 'إخفاء من السجل',
+  'catalog.add': 'أضيفي عنصرك...',
+  'catalog.full': 'هذه القائمة ممتلئة ({count} عنصرًا). العناصر المخفية محتسبة أيضًا.',
+
+  'import.notJson': 'هذا الملف ليس JSON صالحًا.',
+  'import.notBackup': 'ملف JSON هذا ليس نسخة احتياطية من Gyneo.',
+  'import.newerVersion': 'أُنشئت هذه النسخة الاحتياطية بإصدار أحدث من Gyneo. يُرجى تحديث التطبيق أولًا.',
+  'import.noLogs': 'لا تحتوي هذه النسخة الاحتياطية على سجلات.',
+  'import.unknownFormat': 'هذا الملف ليس نسخة احتياطية JSON من Gyneo ولا ملف CSV يحتوي عمود «date».',
+  'import.entry': 'الإدخال {number}',
+  'import.line': 'السطر {number}',
+  'import.noCycles': 'لم يُعثر على سجلات للدورة الشهرية في هذا الملف.',
+  'import.noRows': 'لا يحتوي هذا الملف على صفوف.',
+  'import.noDateColumn': 'لم يُعثر على عمود للتاريخ. الأعمدة في هذا الملف: {columns}',
+  'import.unreadableDate': 'السطر {line}: تاريخ غير مقروء «{value}»',
+  'import.noColumns': 'لم يُعثر على أعمدة للنزيف أو الأعراض في هذا الملف.',
+  'import.readFailed': 'تعذّرت قراءة ذلك الملف. راجعي وحدة التحكم.',
+  'import.title': 'الاستيراد من تطبيق آخر',
+  'import.description': 'احضري سجل دوراتك معك. تُقرأ الملفات على هذا الجهاز فقط.',
+  'import.appleHealth': 'Apple Health',
+  'import.otherApp': 'تطبيق آخر (CSV)',
+  'import.appleHelp': 'في تطبيق الصحة، اضغطي على ملفك الشخصي ثم «تصدير كل البيانات الصحية». فكّي ضغط الملف واختاري export.xml.',
+  'import.csvHelp': 'صدّري بياناتك بصيغة CSV من تطبيق التتبع. يبحث Gyneo عن أعمدة التاريخ والنزيف/الدورة والأعراض.',
+  'import.reading': 'جارٍ قراءة الملف...',
+  'import.chooseFile': 'اختيار ملف',
+  'import.reviewTitle': 'مراجعة الأعراض',
+  'import.reviewDescription': 'يستخدم {source} أسماء أعراض لا يعرفها Gyneo. طابقيها مع أعراضك، أو أبقيها كما هي، أو استبعديها.',
+  'import.days': { zero: '{count} يوم', one: 'يوم واحد', two: 'يومان', few: '{count} أيام', many: '{count} يومًا', other: '{count} يوم' },
+  'import.keepAs': 'الإبقاء باسم «{name}»',
+  'import.sameAs': 'مثل {name}',
+  'import.skip': 'عدم الاستيراد',
+  'import.continue': 'متابعة',
+  'import.inFile': { zero: '{count} يوم في ملف {format} هذا', one: 'يوم واحد في ملف {format} هذا', two: 'يومان في ملف {format} هذا', few: '{count} أيام في ملف {format} هذا', many: '{count} يومًا في ملف {format} هذا', other: '{count} يوم في ملف {format} هذا' },
+  'import.inFileWithSettings': { zero: '{count} يوم والإعدادات في ملف {format} هذا', one: 'يوم واحد والإعدادات في ملف {format} هذا', two: 'يومان والإعدادات في ملف {format} هذا', few: '{count} أيام والإعدادات في ملف {format} هذا', many: '{count} يومًا والإعدادات في ملف {format} هذا', other: '{count} يوم والإعدادات في ملف {format} هذا' },
+  'import.merge': 'دمج',
+  'import.replace': 'استبدال الكل',
+  'import.added': 'أيام جديدة',
+  'import.updated': 'أيام محدّثة',
+  'import.unchanged': 'أيام دون تغيير',
+  'import.removed': 'أيام محذوفة',
+  'import.restoresSettings': 'ستُستعاد إعدادات الدورة',
+  'import.duplicates': { zero: 'دُمج {count} تاريخ مكرر، مع الإبقاء على الإدخال الأخير.', one: 'دُمج تاريخ مكرر، مع الإبقاء على الإدخال الأخير.', two: 'دُمج تاريخان مكرران، مع الإبقاء على الإدخال الأخير.', few: 'دُمج {count} تواريخ مكررة، مع الإبقاء على الإدخال الأخير.', many: 'دُمج {count} تاريخًا مكررًا، مع الإبقاء على الإدخال الأخير.', other: 'دُمج {count} تاريخ مكرر، مع الإبقاء على الإدخال الأخير.' },
+  'import.skipped': { zero: 'سيُتخطى {count} إدخال', one: 'سيُتخطى إدخال', two: 'سيُتخطى إدخالان', few: 'سيُتخطى {count} إدخالات', many: 'سيُتخطى {count} إدخالًا', other: 'سيُتخطى {count} إدخال' },
+  'import.confirmReplace': { zero: 'سيحذف الاستبدال {count} يوم مسجّلة غير موجودة في هذا الملف. متابعة؟', one: 'سيحذف الاستبدال يومًا واحدًا مسجّلة غير موجودة في هذا الملف. متابعة؟', two: 'سيحذف الاستبدال يومان مسجّلة غير موجودة في هذا الملف. متابعة؟', few: 'سيحذف الاستبدال {count} أيام مسجّلة غير موجودة في هذا الملف. متابعة؟', many: 'سيحذف الاستبدال {count} يومًا مسجّلة غير موجودة في هذا الملف. متابعة؟', other: 'سيحذف الاستبدال {count} يوم مسجّلة غير موجودة في هذا الملف. متابعة؟' },
+  'import.importing': 'جارٍ الاستيراد...',
+  'import.apply': 'تطبيق الاستيراد',
+
+  'backup.title': 'بياناتك',
+  'backup.description': 'نزّلي نسخة من كل ما سجّلتِه، أو استعيديها من نسخة احتياطية.',
+  'backup.json': 'نسخة احتياطية JSON',
+  'backup.csv': 'CSV',
+  'backup.import': 'الاستيراد من ملف',
+
+  'deleteData.title': 'حذف بياناتي',
+  'deleteData.description': 'امسحي نهائيًا كل سجل وإعداد من خوادمنا ومن هذا الجهاز. لا يمكن التراجع عن ذلك.',
+  'deleteData.open': 'حذف بياناتي...',
+  'deleteData.download': 'تنزيل نسخة احتياطية أولًا',
+  'deleteData.downloadAgain': 'تم التنزيل، تنزيل مرة أخرى',
+  'deleteData.account': 'حذف حسابي أيضًا',
+  'deleteData.accountDetail': 'وإلا يمكنك تسجيل الدخول لاحقًا والبدء من جديد.',
+  'deleteData.offline': 'أنتِ غير متصلة. اتصلي بالإنترنت لحذف بياناتك.',
+  'deleteData.confirmNoBackup': 'لم تنزّلي نسخة احتياطية. هل تريدين حذف كل شيء على أي حال؟',
+  'deleteData.signInAgain': 'سجّلي الدخول مرة أخرى للتأكيد. لم يُحذف شيء.',
+  'deleteData.failed': 'حدث خطأ ما. قد يبقى بعض بياناتك، يُرجى المحاولة مرة أخرى.',
+  'deleteData.deleting': 'جارٍ الحذف...',
+  'deleteData.confirm': 'تسجيل الدخول والحذف',
+
+  'calendarExport.title.period': 'الدورة الشهرية',
+  'calendarExport.title.predictedPeriod': 'الدورة الشهرية (متوقعة)',
+  'calendarExport.title.fertile': 'فترة الخصوبة',
+  'calendarExport.title.ovulation': 'الإباضة (تقديرية)',
+  'calendarExport.title.discreet': 'تذكير',
+  'calendarExport.heading': 'الإضافة إلى تقويمك',
+  'calendarExport.description': 'استوردي الملف إلى تقويم Google أو Apple أو Outlook. استيراد ملف أحدث يحدّث الأحداث نفسها.',
+  'calendarExport.horizon': 'التوقع لمدة',
+  'calendarExport.months': { zero: '{count} شهر', one: 'شهر واحد', two: 'شهران', few: '{count} أشهر', many: '{count} شهرًا', other: '{count} شهر' },
+  'calendarExport.includeLogged': 'تضمين الدورات السابقة',
+  'calendarExport.includeFertile': 'تضمين فترات الخصوبة والإباضة',
+  'calendarExport.discreet': 'عناوين متحفظة (كل حدث اسمه «{title}»)',
+  'calendarExport.field.period': 'الدورة المسجّلة',
+  'calendarExport.field.predictedPeriod': 'الدورة المتوقعة',
+  'calendarExport.field.fertile': 'فترة الخصوبة',
+  'calendarExport.field.ovulation': 'الإباضة',
+  'calendarExport.download': 'تنزيل ملف .ics',
+
+  'guest.title': 'على هذا الجهاز فقط',
+  'guest.description': 'أنتِ تستخدمين Gyneo دون حساب. تُحفظ سجلاتك وإعداداتك في هذا المتصفح فقط، لذا فإن مسح بياناته أو فقدان الجهاز يعني فقدانها أيضًا. اربطي حساب Google لنسخها احتياطيًا واستخدامها على أجهزة أخرى؛ وستختارين ما يحدث إذا كان الحساب يحتوي على سجلات بالفعل.',
+  'guest.link': 'ربط حساب Google',
+
+  'upgrade.device': 'الاحتفاظ بالاثنين، وتُقدَّم بيانات هذا الجهاز',
+  'upgrade.deviceDetail': 'الأيام المسجّلة في المكانين تأخذ ما على هذا الجهاز.',
+  'upgrade.account': 'الاحتفاظ بالاثنين، وتُقدَّم بيانات الحساب',
+  'upgrade.accountDetail': 'الأيام المسجّلة في المكانين تحتفظ بما في الحساب.',
+  'upgrade.replace': 'استبدال الحساب',
+  'upgrade.replaceDetail': 'يُحتفظ فقط بما على هذا الجهاز. تُحذف الأيام الموجودة في الحساب فقط.',
+  'upgrade.discard': 'استخدام الحساب كما هو',
+  'upgrade.discardDetail': 'يُتخلص مما سُجّل على هذا الجهاز.',
+  'upgrade.confirmReplace': { zero: 'سيحذف هذا {count} يوم موجودة في الحساب فقط. متابعة؟', one: 'سيحذف هذا يومًا واحدًا موجودة في الحساب فقط. متابعة؟', two: 'سيحذف هذا يومان موجودة في الحساب فقط. متابعة؟', few: 'سيحذف هذا {count} أيام موجودة في الحساب فقط. متابعة؟', many: 'سيحذف هذا {count} يومًا موجودة في الحساب فقط. متابعة؟', other: 'سيحذف هذا {count} يوم موجودة في الحساب فقط. متابعة؟' },
+  'upgrade.failed': 'حدث خطأ ما. ما زالت بياناتك على هذا الجهاز، يُرجى المحاولة مرة أخرى.',
+  'upgrade.title': 'نقل بياناتك إلى {email}',
+  'upgrade.counts': { zero: '{count} يوم على هذا الجهاز، و{account} في الحساب', one: 'يوم واحد على هذا الجهاز، و{account} في الحساب', two: 'يومان على هذا الجهاز، و{account} في الحساب', few: '{count} أيام على هذا الجهاز، و{account} في الحساب', many: '{count} يومًا على هذا الجهاز، و{account} في الحساب', other: '{count} يوم على هذا الجهاز، و{account} في الحساب' },
+  'upgrade.comparing': 'جارٍ مقارنة بياناتك...',
+  'upgrade.onlyDevice': 'أيام على هذا الجهاز فقط',
+  'upgrade.onlyAccount': 'أيام في الحساب فقط',
+  'upgrade.different': 'أيام مسجّلة بشكل مختلف في المكانين',
+  'upgrade.willAdd': { zero: 'ستُضاف {count} يوم إلى حسابك.', one: 'ستُضاف يوم واحد إلى حسابك.', two: 'ستُضاف يومان إلى حسابك.', few: 'ستُضاف {count} أيام إلى حسابك.', many: 'ستُضاف {count} يومًا إلى حسابك.', other: 'ستُضاف {count} يوم إلى حسابك.' },
+  'upgrade.nothingToAdd': 'يحتوي حسابك بالفعل على كل ما سُجّل على هذا الجهاز.',
+  'upgrade.notNow': 'ليس الآن',
+  'upgrade.moving': 'جارٍ النقل...',
+  'upgrade.notNowHint': 'يؤدي «{button}» إلى تسجيل الخروج ومواصلة استخدام البيانات على هذا الجهاز.',
+  'upgrade.yourAccount': 'حسابك',
+
+  'sync.offlinePending': 'أنتِ غير متصلة. تغييراتك محفوظة على هذا الجهاز وستُزامَن عند عودة الاتصال.',
+  'sync.offline': 'أنتِ غير متصلة. يُعرض ما هو محفوظ على هذا الجهاز.',
+  'sync.syncing': 'جارٍ مزامنة تغييراتك...',
+
+  'note.bold': 'غامق',
+  'note.italic': 'مائل',
+  'note.list': 'قائمة',
+  'note.placeholder': 'أي شيء آخر عن اليوم...',
+
+  'search.placeholder': 'ابحثي في ملاحظاتك',
+  'search.anyFlow': 'أي نزيف',
+  'search.anyMood': 'أي مزاج',
+  'search.allTime': 'كل الأوقات',
+  'search.lastMonths': { zero: 'آخر {count} شهر', one: 'آخر الشهر الماضي', two: 'آخر شهرين', few: 'آخر {count} أشهر', many: 'آخر {count} شهرًا', other: 'آخر {count} شهر' },
+  'search.hint': 'اكتبي كلمة أو اختاري نزيفًا أو مزاجًا أو عرضًا للعثور على الأيام.',
+  'search.results': { zero: '{count} يوم', one: 'يوم واحد', two: 'يومان', few: '{count} أيام', many: '{count} يومًا', other: '{count} يوم' },
+
+  'pregnancy.week': 'الأسبوع',
+  'pregnancy.trimester': 'الثلث {trimester}',
+  'pregnancy.daysAndTrimester': { zero: 'و{count} يوم · الثلث {trimester}', one: 'ويوم واحد · الثلث {trimester}', two: 'ويومان · الثلث {trimester}', few: 'و{count} أيام · الثلث {trimester}', many: 'و{count} يومًا · الثلث {trimester}', other: 'و{count} يوم · الثلث {trimester}' },
+  'pregnancy.trimester1': 'الأول',
+  'pregnancy.trimester2': 'الثاني',
+  'pregnancy.trimester3': 'الثالث',
+  'pregnancy.dueDate': 'موعد الولادة المتوقع',
+  'pregnancy.daysToGo': { zero: 'بقي {count} يوم', one: 'بقي يوم واحد', two: 'بقي يومان', few: 'بقي {count} أيام', many: 'بقي {count} يومًا', other: 'بقي {count} يوم' },
+  'pregnancy.anyDay': 'في أي يوم الآن',
+  'pregnancy.byScan': 'مؤرَّخ بالتصوير',
+  'pregnancy.byPeriod': 'من آخر دورة شهرية',
+  'pregnancy.ended': 'هل انتهى الحمل؟',
+  'pregnancy.endedDescription': 'مهما حدث، خذي الوقت الذي تحتاجينه. تُستأنف متابعة الدورة عندما تكونين مستعدة.',
+  'pregnancy.ending.birth': 'وُلد طفلي',
+  'pregnancy.ending.loss': 'انتهى حملي',
+  'pregnancy.ending.mistake': 'لستُ حاملًا، فُعّل هذا عن طريق الخطأ',
+  'pregnancy.lossNote': 'نحن آسفون جدًا. غالبًا ما تختلف دورتك الأولى بعد ذلك عن المعتاد، لذا لن تُحتسب في متوسطاتك.',
+  'pregnancy.birthNote': 'لن تُحتسب دورتك الأولى بعد الولادة في متوسطاتك. قد تستغرق الدورة الشهرية وقتًا للعودة، خاصة أثناء الرضاعة الطبيعية.',
+  'pregnancy.date': 'التاريخ',
+  'pregnancy.mode': 'وضع الحمل',
+  'pregnancy.pausedHint': 'توقعات الدورة الشهرية متوقفة مؤقتًا. إذا انتهى حملك، أخبرينا من لوحة المعلومات.',
+  'pregnancy.modeHint': 'تابعي حملك أسبوعًا بأسبوع. تتوقف توقعات الدورة الشهرية ما دام مفعّلًا.',
+  'pregnancy.lmp': 'أول يوم من آخر دورة شهرية',
+  'pregnancy.scan': 'مؤرَّخ بالتصوير',
+  'pregnancy.weeksShort': 'أ',
+  'pregnancy.daysShort': 'ي',
+  'pregnancy.dueOn': 'موعد الولادة: {date}',
+
+  'temperature.title': 'الحرارة',
+  'temperature.cycleStarting': 'الدورة التي تبدأ في {date}',
+  'temperature.reading': 'اليوم {day}: {value}',
+  'temperature.readingDisturbed': 'اليوم {day}: {value} (مضطربة)',
+  'temperature.confirmed': 'تأكدت الإباضة في اليوم {day} ({date})، خط الأساس {coverline}',
+  'temperature.noShiftYet': 'لا يوجد ارتفاع في الحرارة بعد. واصلي القياس كل صباح.',
+  'temperature.noShift': 'لم يُرصد ارتفاع مستمر في الحرارة في هذه الدورة.',
+};
@@ -0,0 +1,606 @@
+import type { Message } from '../lib/i18n';
+
+// English, the reference catalog. Keys are grouped by screen; {name} is a placeholder and
+// { one, other } messages are plural forms chosen by {count}.
+export const en = {
+  'app.loading': 'Loading...',
+  'app.saveFailed': 'Failed to save. Check console.',
+  'app.imported': { one: 'Imported {count} day.', other: 'Imported {count} days.' },
+  'app.importFailed': 'Import failed. Check console.',
+
+  'common.cancel': 'Cancel',
+  'common.save': 'Save',
+  'common.saving': 'Saving...',
+  'common.close': 'Close',
+  'common.turnOff': 'Turn off',
+  'common.repeatIt': 'Repeat it',
+  'common.copy': 'Copy',
+  'common.failed': 'Something went wrong, please try again.',
+  'common.on': 'On',
+  'common.off': 'Off',
+
+  'nav.dashboard': 'My Cycle',
+  'nav.calendar': 'Calendar',
+  'nav.log': 'Daily Log',
+  'nav.insights': 'Insights',
+  'nav.search': 'Search',
+  'nav.shared': 'Shared with me',
+  'nav.settings': 'Settings',
+  'nav.lock': 'Lock',
+  'nav.signOut': 'Sign Out',
+  'nav.dueDate': 'Due Date',
+  'nav.nextPeriod': 'Next Period',
+  'nav.nextWithdrawal': 'Next Withdrawal Bleed',
+  'nav.notPredicted': 'Not predicted yet',
+  'nav.inDays': { one: 'In {count} Day', other: 'In {count} Days' },
+
+  'login.tagline': 'Your personal cycle tracker.',
+  'login.google': 'Sign in with Google',
+  'login.unavailable': 'Signing in is unavailable right now.',
+  'login.guest': 'Use without an account',
+  'login.terms': 'By signing in, you agree to our terms and conditions. Without an account, everything stays on this device.',
+  'login.googleLogo': 'Google logo',
+
+  'dashboard.greeting': 'Hello, Beautiful',
+  'dashboard.subtitle': 'Here is your cycle summary for today.',
+  'dashboard.positiveTest': "You logged a positive pregnancy test. Would you like to switch to pregnancy mode? Period predictions pause while it's on.",
+  'dashboard.notNow': 'Not now',
+  'dashboard.startPregnancy': 'Start pregnancy mode',
+  'dashboard.recoveryWeek': 'Recovery · week {week}',
+  'dashboard.recoveryCycle': "Your first cycle back is often different. It won't count toward your averages.",
+  'dashboard.recoveryWaiting': 'Log your first period when it comes and predictions will pick up from there.',
+  'dashboard.logSymptoms': 'Log Symptoms',
+  'dashboard.logSymptomsHint': 'How do you feel?',
+  'dashboard.viewCalendar': 'View Calendar',
+  'dashboard.viewCalendarHint': 'Check history',
+
+  'cycle.day': 'Day',
+  'cycle.ofDays': { one: 'of {count} Day', other: 'of {count} Days' },
+  'cycle.countdown': { one: '{count} Day', other: '{count} Days' },
+  'cycle.untilNextPeriod': 'until next period',
+
+  'calendar.period': 'Period',
+  'calendar.withdrawal': 'Withdrawal bleed',
+  'calendar.likely': 'Likely',
+  'calendar.possible': 'Possible',
+  'calendar.fertile': 'Fertile',
+  'calendar.ovulation': 'Ovulation',
+  'calendar.lhPeak': 'LH peak',
+  'calendar.eggWhite': 'Egg-white mucus',
+
+  'log.logFor': 'Log for {date}',
+  'log.planFor': 'Plan for {date}',
+  'log.save': 'Save',
+  'log.logged': 'Logged',
+  'log.planned': 'Planned',
+  'log.nothingYet': 'Nothing yet',
+  'log.flowSummary': '{flow} flow',
+  'log.mucusSummary': '{mucus} mucus',
+  'log.lhSummary': 'LH {result}',
+  'log.pregnancyTestSummary': 'Pregnancy test {result}',
+  'log.contraceptionDone': 'Contraception done',
+  'log.noteSummary': 'Note',
+  'log.contraception': 'Contraception',
+  'log.pack': 'Pack {pack} · Day {day} of 28',
+  'log.packBreak': 'Pack {pack} · Day {day} of 28 · Break week',
+  'log.nextInjection': 'Next injection due {date}',
+  'log.missedPills': { one: '{count} missed pill recently', other: '{count} missed pills recently' },
+  'log.backupUntil': 'Extra protection needed until {date}.',
+  'log.checkLeaflet': "Check your pill's leaflet or ask a pharmacist if you're unsure.",
+  'log.futureDay': "This day hasn't happened yet. You can plan moods and symptoms ahead, flow is logged on the day.",
+  'log.flow': 'Flow Intensity',
+  'log.flowHint': "Tap the selected level again if this wasn't a period day.",
+  'log.temperature': 'Basal Temperature',
+  'log.disturbed': 'Disturbed (poor sleep, illness, alcohol...)',
+  'log.implausibleTemperature': "{value} doesn't look like a body temperature. Please check the reading.",
+  'log.photoFailed': "Couldn't read that photo. Please try another one.",
+  'log.mucus': 'Cervical Mucus',
+  'log.lhTest': 'Ovulation Test (LH)',
+  'log.stripPhoto': 'LH test strip',
+  'log.pregnancyTest': 'Pregnancy Test',
+  'log.mood': 'Mood',
+  'log.symptoms': 'Symptoms',
+  'log.symptomsHint': 'Tap again for stronger: mild, moderate, severe.',
+  'log.otherSymptoms': 'Other',
+  'log.notes': 'Notes',
+
+  'flow.Spotting': 'Spotting',
+  'flow.Light': 'Light',
+  'flow.Medium': 'Medium',
+  'flow.Heavy': 'Heavy',
+
+  'mucus.Dry': 'Dry',
+  'mucus.Sticky': 'Sticky',
+  'mucus.Creamy': 'Creamy',
+  'mucus.Watery': 'Watery',
+  'mucus.Egg white': 'Egg white',
+
+  'test.Negative': 'Negative',
+  'test.High': 'High',
+  'test.Peak': 'Peak',
+  'test.Positive': 'Positive',
+
+  'severity.Mild': 'Mild',
+  'severity.Moderate': 'Moderate',
+  'severity.Severe': 'Severe',
+
+  'category.Physical': 'Physical',
+  'category.Emotional': 'Emotional',
+  'category.Digestive': 'Digestive',
+  'category.Skin': 'Skin',
+  'category.Sleep': 'Sleep',
+
+  'symptom.cramps': 'Cramps',
+  'symptom.headache': 'Headache',
+  'symptom.bloating': 'Bloating',
+  'symptom.cravings': 'Cravings',
+  'symptom.tenderBreasts': 'Tender breasts',
+  'symptom.backPain': 'Back pain',
+  'symptom.moodSwings': 'Mood swings',
+  'symptom.nausea': 'Nausea',
+  'symptom.acne': 'Acne',
+  'symptom.insomnia': 'Insomnia',
+
+  'mood.happy': 'Happy',
+  'mood.neutral': 'Neutral',
+  'mood.sad': 'Sad',
+  'mood.tired': 'Tired',
+  'mood.anxious': 'Anxious',
+  'mood.irritable': 'Irritable',
+
+  'settings.title': 'Settings',
+  'settings.save': 'Save Changes',
+  'settings.cycleLength': 'Average Cycle Length (Days)',
+  'settings.cycleLengthHint': 'The number of days between the start of one period and the next.',
+  'settings.periodLength': 'Period Duration (Days)',
+  'settings.periodLengthHint': 'How many days your period usually lasts.',
+  'settings.temperatureUnit': 'Temperature Unit',
+  'settings.temperatureUnitHint': 'Used when logging your basal body temperature.',
+  'settings.language': 'Language',
+  'settings.languageHint': 'Used for the app and for dates.',
+  'settings.deviceLanguage': 'Same as this device',
+  'settings.weekStart': 'First Day of the Week',
+  'settings.weekStartHint': 'Where each week starts in the calendar.',
+  'settings.weekStartDefault': 'Usual for your language ({day})',
+  'settings.symptomsHint': 'What the log offers. Hidden ones stay on the days you logged them.',
+  'settings.moods': 'Moods',
+  'settings.moodsHint': 'Pick one mood per day from this list.',
+
+  'phase.menstrual': 'Period',
+  'phase.follicular': 'Follicular',
+  'phase.ovulatory': 'Fertile window',
+  'phase.luteal': 'Luteal',
+
+  'patterns.title': 'Symptom & Mood Patterns',
+  'patterns.from': { one: 'From {count} completed cycle where you logged how you felt.', other: 'From {count} completed cycles where you logged how you felt.' },
+  'patterns.mostlyIn': 'Mostly in: {phase}',
+  'patterns.none': 'No clear patterns yet. They show up after a few cycles of logging.',
+  'patterns.cell': '{item}, day {day}: {share}% of cycles',
+  'patterns.legend': 'Cycle day across the bottom. Darker means more of your cycles.',
+  'patterns.feeling': 'Feeling {mood}',
+  'patterns.onDays': '{item} on days {from}–{to} in {hits} of your last {count} cycles',
+  'patterns.beforePeriod': '{item} tends to appear {from}–{to} days before your period ({hits} of your last {count} cycles)',
+
+  'expect.title': 'What to Expect',
+  'expect.today': 'Today',
+  'expect.tomorrow': 'Tomorrow',
+
+  'exclusion.pregnancy': 'During a pregnancy',
+  'exclusion.recovery': 'First cycle after a pregnancy, which often differs from usual',
+  'exclusion.contraception': 'On hormonal contraception, bleeding follows the pack rather than the cycle',
+  'exclusion.tooShort': 'Shorter than {count} days. Often spotting or mid-cycle bleeding logged as a period.',
+  'exclusion.tooLong': "Longer than {count} days. Often a period that wasn't logged.",
+
+  'insights.empty': 'Log your periods and your cycle history will appear here.',
+  'insights.statistics': 'Cycle Statistics',
+  'insights.from': { one: 'From {count} completed cycle, {date} to today.', other: 'From {count} completed cycles, {date} to today.' },
+  'insights.noStatistics': 'Statistics appear once a cycle has been completed.',
+  'insights.days': { one: '{days} day', other: '{days} days' },
+  'insights.averageCycle': 'Average cycle',
+  'insights.variation': 'Variation',
+  'insights.shortest': 'Shortest',
+  'insights.longest': 'Longest',
+  'insights.averagePeriod': 'Average period',
+  'insights.overTime': 'Cycle Length Over Time',
+  'insights.chartLegend': 'Darker part: period length. Grey: left out of the statistics.',
+  'insights.bar': '{date}: {length}-day cycle, {period}-day period',
+  'insights.allCycles': 'All Cycles',
+  'insights.started': 'Started',
+  'insights.cycle': 'Cycle',
+  'insights.period': 'Period',
+  'insights.notCounted': 'Not counted: {reason}',
+  'insights.ongoing': 'Ongoing',
+
+  'reminders.title': 'Reminders',
+  'reminders.unsupported': "This browser doesn't support notifications.",
+  'reminders.blocked': 'Notifications are blocked for this site. Allow them in your browser settings to get reminders.',
+  'reminders.description': 'Notifications on this device, based on your predictions. They follow your latest logs.',
+  'reminders.days': { one: '{count} day', other: '{count} days' },
+  'reminders.time': 'Remind me at',
+  'reminders.periodSoon': 'Period expected in',
+  'reminders.fertileSoon': 'Fertile window starts tomorrow',
+  'reminders.dailyLog': "I haven't logged today",
+  'reminders.late': 'Period is late by',
+  'reminders.discreet': 'Discreet notifications',
+  'reminders.discreetText': 'Notification text',
+  'reminders.periodSoonTitle': 'Period coming up',
+  'reminders.periodSoonBody': { one: 'Your period is expected in {count} day.', other: 'Your period is expected in {count} days.' },
+  'reminders.lateTitle': 'Period is late',
+  'reminders.lateBody': { one: 'Your period is late by {count} day. Log it if it has started.', other: 'Your period is late by {count} days. Log it if it has started.' },
+  'reminders.fertileTitle': 'Fertile window',
+  'reminders.fertileBody': 'Your fertile window starts tomorrow.',
+  'reminders.dailyLogTitle': 'Daily log',
+  'reminders.dailyLogBody': "You haven't logged today yet.",
+  'reminders.discreetTitle': 'Reminder',
+  'reminders.discreetBody': 'You have a reminder',
+
+  'share.predictions': 'Predictions',
+  'share.predictionsDetail': 'Cycle day and when the next periods are expected',
+  'share.periodDays': 'Period days',
+  'share.periodDaysDetail': 'Days with bleeding, and how heavy',
+  'share.fertileWindow': 'Fertile window',
+  'share.fertileWindowDetail': 'Fertile days and ovulation',
+  'share.moods': 'Moods',
+  'share.moodsDetail': 'The mood logged each day',
+  'share.symptoms': 'Symptoms',
+  'share.symptomsDetail': 'Symptoms logged each day',
+  'share.nothingYet': 'nothing yet',
+
+  'contraception.title': 'Contraception',
+  'contraception.description': 'Hormonal methods pause ovulation, so fertile window predictions are turned off while you use one.',
+  'contraception.none': 'None',
+  'contraception.startedOn': 'Started on (first day of a pack)',
+  'contraception.fittedOn': 'Fitted on',
+  'contraception.lastInjection': 'Last injection',
+  'contraception.method.combined-21': 'Combined pill (21/7)',
+  'contraception.method.combined-24': 'Combined pill (24/4)',
+  'contraception.method.progestin-only': 'Progestin-only pill',
+  'contraception.method.patch': 'Patch',
+  'contraception.method.ring': 'Vaginal ring',
+  'contraception.method.hormonal-iud': 'Hormonal IUD',
+  'contraception.method.copper-iud': 'Copper IUD',
+  'contraception.method.implant': 'Implant',
+  'contraception.method.injection': 'Injection',
+  'contraception.task.pill-taken': 'Pill taken',
+  'contraception.task.patch-changed': 'Patch changed',
+  'contraception.task.patch-removed': 'Patch removed',
+  'contraception.task.ring-inserted': 'Ring inserted',
+  'contraception.task.ring-removed': 'Ring removed',
+  'contraception.advice.take-now': 'Take a pill as soon as you remember, then carry on at your usual time.',
+  'contraception.advice.take-missed': "Take the missed pill now, even if that means two pills today. You're still protected.",
+  'contraception.advice.take-latest': 'Take the most recent missed pill now and carry on with the rest of the pack.',
+  'contraception.advice.backup-on-time': { one: "Use condoms or avoid sex until you've taken your pill on time for {count} day in a row.", other: "Use condoms or avoid sex until you've taken your pill on time for {count} days in a row." },
+  'contraception.advice.backup-active': { one: "Use condoms or avoid sex until you've taken {count} active pill in a row.", other: "Use condoms or avoid sex until you've taken {count} active pills in a row." },
+  'contraception.advice.emergency': 'If you had sex in the break or the first week of this pack, ask a pharmacist about emergency contraception.',
+  'contraception.advice.skip-break': 'Skip the break: start your next pack straight after the last active pill.',
+
+  'report.title': 'Cycle report',
+  'report.generated': 'Generated {date}',
+  'report.days': { one: '{days} day', other: '{days} days' },
+  'report.contraception': '{method} since {date}.',
+  'report.pregnant': 'Pregnant, LMP {lmp}.',
+  'report.pregnancyEnded': 'Pregnancy from {lmp} (LMP), ended {date}.',
+  'report.pregnancyLoss': 'Pregnancy from {lmp} (LMP), ended {date} in a loss.',
+  'report.longCycle': { one: 'Cycle starting {date} lasted {count} day.', other: 'Cycle starting {date} lasted {count} days.' },
+  'report.longPeriod': { one: 'Period starting {date} lasted {count} day.', other: 'Period starting {date} lasted {count} days.' },
+  'report.variedBy': 'Cycle length varied by {count} days ({shortest} to {longest}).',
+  'report.spotting': { one: 'Spotting between periods on {count} day: {dates}.', other: 'Spotting between periods on {count} days: {dates}.' },
+  'report.summary': 'Summary',
+  'report.averageCycle': 'Average cycle length',
+  'report.shortestLongest': 'Shortest / longest cycle',
+  'report.averagePeriod': 'Average period length',
+  'report.cyclesCounted': 'Cycles counted',
+  'report.noAverages': 'Not enough complete cycles in this range for averages.',
+  'report.cycles': 'Cycles',
+  'report.start': 'Start',
+  'report.cycleLength': 'Cycle length',
+  'report.periodLength': 'Period length',
+  'report.note': 'Note',
+  'report.ongoing': 'Ongoing',
+  'report.exclusion.pregnancy': 'Pregnancy',
+  'report.exclusion.recovery': 'After pregnancy',
+  'report.exclusion.contraception': 'Hormonal contraception',
+  'report.exclusion.too-short': 'Unusually short',
+  'report.exclusion.too-long': 'Unusually long',
+  'report.noPeriods': 'No periods logged in this range.',
+  'report.flow': 'Flow',
+  'report.total': 'Total',
+  'report.symptoms': 'Symptoms by cycle phase',
+  'report.symptomsHint': 'Days logged in each phase, with the most common severity.',
+  'report.noSymptoms': 'No symptoms logged in this range.',
+  'report.moods': 'Moods by cycle phase',
+  'report.noMoods': 'No moods logged in this range.',
+  'report.irregularities': 'Notable irregularities',
+  'report.noIrregularities': 'None noted in this range.',
+  'report.temperature': 'Basal body temperature',
+  'report.readings': { one: '{count} reading. Hollow points were marked as disturbed.', other: '{count} readings. Hollow points were marked as disturbed.' },
+  'report.shift': 'Temperature shift confirming ovulation around {dates} (purple: coverline).',
+  'report.noShift': 'No temperature shift confirming ovulation.',
+  'report.tests': 'Test results',
+  'report.date': 'Date',
+  'report.test': 'Test',
+  'report.result': 'Result',
+  'report.lhTest': 'Ovulation (LH)',
+  'report.pregnancyTest': 'Pregnancy',
+  'report.notes': 'Notes',
+  'report.footer': 'Self-tracked in Gyneo. Predictions and patterns are estimates, not a diagnosis.',
+  'report.page': 'Page {page} of {pages}',
+  'report.heading': 'Report for Your Doctor',
+  'report.description': "A PDF with your cycle and period lengths, flow, symptoms by phase, irregularities, temperatures and test results. It's created on this device and isn't uploaded anywhere.",
+  'report.from': 'From',
+  'report.to': 'To',
+  'report.includeMoods': 'Include moods',
+  'report.includeNotes': 'Include notes',
+  'report.download': 'Download PDF',
+  'report.confirmUnprintable': 'Some symptom names or notes use letters the PDF can\'t show, so they will print as "?". Download anyway?',
+
+  'sharing.title': 'Sharing',
+  'sharing.description': "Let a partner or caregiver see when your period or fertile window is coming. They only see what you choose, can't change anything, and you can stop sharing at any time.",
+  'sharing.notEncrypted': "What you share isn't end-to-end encrypted, so the people you share with can read it.",
+  'sharing.anyoneWithLink': 'Anyone with this invite link',
+  'sharing.confirmStop': '{who} will no longer see anything. Stop sharing?',
+  'sharing.createLink': 'Create invite link',
+  'sharing.notAccepted': 'Invite not accepted yet',
+  'sharing.sees': 'Sees {what}',
+  'sharing.copyLink': 'Copy invite link',
+  'sharing.copied': 'Copied',
+  'sharing.link': 'Link',
+  'sharing.change': "Change what's shared",
+  'sharing.stop': 'Stop sharing',
+  'sharing.whatToShare': 'What should they see?',
+  'sharing.invite': 'Invite someone',
+  'sharing.linkCopied': 'Invite link copied. Send it to the person you want to share with.',
+  'sharing.someone': 'Someone',
+
+  'invite.signIn': 'Someone wants to share their cycle with you. Sign in to see the invite.',
+  'invite.opening': 'Opening the invite...',
+  'invite.gone': 'This invite has been withdrawn or was already accepted. Ask for a new link.',
+  'invite.own': 'This is your own invite. Send the link to the person you want to share with.',
+  'invite.wantsToShare': '{name} wants to share with you',
+  'invite.readOnly': "You'll see this read-only under \"{shared}\". {name} can change what's shared or stop at any time.",
+  'invite.decline': 'Decline',
+  'invite.accepting': 'Accepting...',
+  'invite.open': 'Open',
+  'invite.accept': 'Accept',
+
+  'shared.loading': 'Loading what {name} shares...',
+  'shared.noPredictions': 'There are no predictions for {name} right now.',
+  'shared.fertileUntil': 'Fertile window until {date}',
+  'shared.nextFertile': 'Next fertile window from {date}',
+  'shared.mood': 'Mood: {mood}',
+  'shared.symptoms': 'Symptoms: {symptoms}',
+  'shared.nothing': 'Nothing shared for this day.',
+  'shared.confirmLeave': "Stop seeing {name}'s cycle? They'd have to invite you again.",
+  'shared.empty': 'Nobody is sharing with you yet. When someone sends you an invite link, open it to see their cycle here.',
+  'shared.title': "{name}'s cycle",
+  'shared.leave': 'Stop seeing',
+
+  'appLock.decoyName': 'Daily Notes',
+  'appLock.wait': 'Too many tries. Wait {count} s.',
+  'appLock.wrong': 'Wrong passcode, try again',
+  'appLock.enter': 'Enter passcode',
+  'appLock.unlockWithDevice': 'Unlock with this device',
+  'appLock.checking': 'Checking...',
+  'appLock.unlock': 'Unlock',
+  'appLock.forgot': 'Forgot passcode? Sign in again',
+  'appLock.title': 'App Lock',
+  'appLock.description': 'Ask for a PIN before showing anything on this device. Other devices keep their own setting.',
+  'appLock.wrongCurrent': 'The current PIN is not right.',
+  'appLock.pinLength': 'Use {min} to {max} digits.',
+  'appLock.mismatch': "The PINs don't match.",
+  'appLock.deviceFailed': "Couldn't set up unlocking with this device.",
+  'appLock.currentPin': 'Current PIN',
+  'appLock.newPin': 'New PIN',
+  'appLock.pin': 'PIN',
+  'appLock.savePin': 'Save PIN',
+  'appLock.setPin': 'Set a PIN',
+  'appLock.lockAfter': 'Lock after',
+  'appLock.whenReopened': 'Only when reopened',
+  'appLock.idle': { one: '{count} minute idle', other: '{count} minutes idle' },
+  'appLock.lockWhenHidden': 'Lock as soon as I switch away',
+  'appLock.decoy': 'Show the lock screen as "{name}"',
+  'appLock.biometric': 'Unlock with fingerprint or face',
+  'appLock.changePin': 'Change PIN',
+  'appLock.eraseGuest': 'Without an account, the only way past a forgotten passcode is to erase everything on this device. Erase it?',
+
+  'encryption.title': 'Encryption',
+  'encryption.enabled': 'Your logs are encrypted on this device before they are saved. Only your passphrase or recovery key can open them.',
+  'encryption.disabled': 'Encrypt your logs on your device with a passphrase, so no one else, including us, can read them. Settings such as cycle length stay readable.',
+  'encryption.tooShort': 'Use at least {count} characters.',
+  'encryption.chooseNew': 'Choose a new passphrase of at least {count} characters.',
+  'encryption.mismatch': "The passphrases don't match.",
+  'encryption.wrongPassphrase': 'That passphrase is not right.',
+  'encryption.wrongRecoveryKey': 'That recovery key is not right.',
+  'encryption.unreadable': { one: "{count} stored log couldn't be decrypted.", other: "{count} stored logs couldn't be decrypted." },
+  'encryption.paused': "Changing the passphrase or turning encryption off is paused until they can be, so they aren't lost.",
+  'encryption.failed': 'Something went wrong. Your logs were not changed.',
+  'encryption.saveRecoveryKey': 'Save your recovery key',
+  'encryption.recoveryKeyHint': "It's the only way back in if you forget your passphrase. Without both, your logs can't be recovered.",
+  'encryption.saved': "I've saved it",
+  'encryption.change': 'Change passphrase',
+  'encryption.changeShort': 'Change',
+  'encryption.turnOn': 'Turn on encryption',
+  'encryption.currentPassphrase': 'Current passphrase',
+  'encryption.newPassphrase': 'New passphrase',
+  'encryption.passphrase': 'Passphrase',
+  'encryption.willDecrypt': 'Your logs will be saved unencrypted again.',
+  'encryption.working': 'Working...',
+  'encryption.encrypt': 'Encrypt my logs',
+  'encryption.locked': 'Your logs are encrypted',
+  'encryption.recoveryKey': 'Recovery key (XXXX-XXXX-...)',
+  'encryption.unlockFailed': "Couldn't unlock. Please try again.",
+  'encryption.unlocking': 'Unlocking...',
+  'encryption.usePassphrase': 'Use my passphrase',
+  'encryption.forgot': 'Forgot your passphrase?',
+
+  'catalog.changeIcon': 'Change icon',
+  'catalog.moveUp': 'Move up',
+  'catalog.moveDown': 'Move down',
+  'catalog.show': 'Show in the log',
+  'catalog.hide': 'Hide from the log',
+  'catalog.add': 'Add your own...',
+  'catalog.full': 'This list is full ({count} items). Hidden ones count too.',
+
+  'import.notJson': 'This file is not valid JSON.',
+  'import.notBackup': 'This JSON file is not a Gyneo backup.',
+  'import.newerVersion': 'This backup was made by a newer version of Gyneo. Please update the app first.',
+  'import.noLogs': 'This backup contains no logs.',
+  'import.unknownFormat': 'This file is neither a Gyneo JSON backup nor a CSV with a "date" column.',
+  'import.entry': 'Entry {number}',
+  'import.line': 'Line {number}',
+  'import.noCycles': 'No menstrual cycle records were found in this file.',
+  'import.noRows': 'This file has no rows.',
+  'import.noDateColumn': 'No date column found. Columns in this file: {columns}',
+  'import.unreadableDate': 'Line {line}: unreadable date "{value}"',
+  'import.noColumns': 'No flow or symptom columns found in this file.',
+  'import.readFailed': "Couldn't read that file. Check console.",
+  'import.title': 'Import From Another App',
+  'import.description': 'Bring your period history with you. Files are read on this device only.',
+  'import.appleHealth': 'Apple Health',
+  'import.otherApp': 'Other app (CSV)',
+  'import.appleHelp': 'In the Health app, tap your profile, then "Export All Health Data". Unzip the export and pick export.xml.',
+  'import.csvHelp': 'Export your data as CSV from your tracker. Gyneo looks for date, flow/period and symptom columns.',
+  'import.reading': 'Reading file...',
+  'import.chooseFile': 'Choose file',
+  'import.reviewTitle': 'Review symptoms',
+  'import.reviewDescription': "{source} uses some symptom names Gyneo doesn't know. Match them to yours, keep them as they are, or leave them out.",
+  'import.days': { one: '{count} day', other: '{count} days' },
+  'import.keepAs': 'Keep as "{name}"',
+  'import.sameAs': 'Same as {name}',
+  'import.skip': "Don't import",
+  'import.continue': 'Continue',
+  'import.inFile': { one: '{count} day in this {format} file', other: '{count} days in this {format} file' },
+  'import.inFileWithSettings': { one: '{count} day and settings in this {format} file', other: '{count} days and settings in this {format} file' },
+  'import.merge': 'Merge',
+  'import.replace': 'Replace all',
+  'import.added': 'new days',
+  'import.updated': 'days updated',
+  'import.unchanged': 'days unchanged',
+  'import.removed': 'days deleted',
+  'import.restoresSettings': 'Cycle settings will be restored',
+  'import.duplicates': { one: '{count} repeated date was combined, keeping the last entry.', other: '{count} repeated dates were combined, keeping the last entry.' },
+  'import.skipped': { one: '{count} entry will be skipped', other: '{count} entries will be skipped' },
+  'import.confirmReplace': { one: "Replacing will delete {count} logged day that isn't in this file. Continue?", other: "Replacing will delete {count} logged days that aren't in this file. Continue?" },
+  'import.importing': 'Importing...',
+  'import.apply': 'Apply Import',
+
+  'backup.title': 'Your Data',
+  'backup.description': "Download a copy of everything you've logged, or restore it from a backup.",
+  'backup.json': 'JSON backup',
+  'backup.csv': 'CSV',
+  'backup.import': 'Import from file',
+
+  'deleteData.title': 'Delete my data',
+  'deleteData.description': "Permanently erase every log and setting from our servers and from this device. This can't be undone.",
+  'deleteData.open': 'Delete my data...',
+  'deleteData.download': 'Download a backup first',
+  'deleteData.downloadAgain': 'Downloaded, download again',
+  'deleteData.account': 'Also delete my account',
+  'deleteData.accountDetail': 'Otherwise you can sign in again later and start over.',
+  'deleteData.offline': "You're offline. Connect to delete your data.",
+  'deleteData.confirmNoBackup': "You haven't downloaded a backup. Delete everything anyway?",
+  'deleteData.signInAgain': 'Sign in again to confirm. Nothing was deleted.',
+  'deleteData.failed': 'Something went wrong. Some of your data may be left, please try again.',
+  'deleteData.deleting': 'Deleting...',
+  'deleteData.confirm': 'Sign in and delete',
+
+  'calendarExport.title.period': 'Period',
+  'calendarExport.title.predictedPeriod': 'Period (predicted)',
+  'calendarExport.title.fertile': 'Fertile window',
+  'calendarExport.title.ovulation': 'Ovulation (estimated)',
+  'calendarExport.title.discreet': 'Reminder',
+  'calendarExport.heading': 'Add to Your Calendar',
+  'calendarExport.description': 'Import the file into Google, Apple or Outlook Calendar. Importing a newer file updates the same events.',
+  'calendarExport.horizon': 'Predict ahead',
+  'calendarExport.months': { one: '{count} month', other: '{count} months' },
+  'calendarExport.includeLogged': 'Include past periods',
+  'calendarExport.includeFertile': 'Include fertile windows and ovulation',
+  'calendarExport.discreet': 'Discreet titles (every event is called "{title}")',
+  'calendarExport.field.period': 'Logged period',
+  'calendarExport.field.predictedPeriod': 'Predicted period',
+  'calendarExport.field.fertile': 'Fertile window',
+  'calendarExport.field.ovulation': 'Ovulation',
+  'calendarExport.download': 'Download .ics',
+
+  'guest.title': 'On This Device Only',
+  'guest.description': "You're using Gyneo without an account. Your logs and settings are stored in this browser and nowhere else, so clearing its data or losing the device loses them too. Link a Google account to back them up and use them on other devices; you'll choose what happens if the account already has logs.",
+  'guest.link': 'Link a Google account',
+
+  'upgrade.device': 'Keep both, this device wins',
+  'upgrade.deviceDetail': 'Days logged in both places take what is on this device.',
+  'upgrade.account': 'Keep both, the account wins',
+  'upgrade.accountDetail': 'Days logged in both places keep what the account has.',
+  'upgrade.replace': 'Replace the account',
+  'upgrade.replaceDetail': 'Only what is on this device is kept. Days only in the account are deleted.',
+  'upgrade.discard': 'Use the account as it is',
+  'upgrade.discardDetail': 'What was logged on this device is thrown away.',
+  'upgrade.confirmReplace': { one: 'This deletes {count} day that is only in the account. Continue?', other: 'This deletes {count} days that are only in the account. Continue?' },
+  'upgrade.failed': 'Something went wrong. Your data is still on this device, please try again.',
+  'upgrade.title': 'Move your data to {email}',
+  'upgrade.counts': { one: '{count} day on this device, {account} in the account', other: '{count} days on this device, {account} in the account' },
+  'upgrade.comparing': 'Comparing your data...',
+  'upgrade.onlyDevice': 'days only on this device',
+  'upgrade.onlyAccount': 'days only in the account',
+  'upgrade.different': 'days logged differently in both',
+  'upgrade.willAdd': { one: '{count} day will be added to your account.', other: '{count} days will be added to your account.' },
+  'upgrade.nothingToAdd': 'Your account already has everything logged on this device.',
+  'upgrade.notNow': 'Not now',
+  'upgrade.moving': 'Moving...',
+  'upgrade.notNowHint': '"{button}" signs out and keeps using the data on this device.',
+  'upgrade.yourAccount': 'your account',
+
+  'sync.offlinePending': "You're offline. Your changes are saved on this device and will sync when you reconnect.",
+  'sync.offline': "You're offline. Showing what's saved on this device.",
+  'sync.syncing': 'Syncing your changes...',
+
+  'note.bold': 'Bold',
+  'note.italic': 'Italic',
+  'note.list': 'List',
+  'note.placeholder': 'Anything else about today...',
+
+  'search.placeholder': 'Search your notes',
+  'search.anyFlow': 'Any flow',
+  'search.anyMood': 'Any mood',
+  'search.allTime': 'All time',
+  'search.lastMonths': { one: 'Last month', other: 'Last {count} months' },
+  'search.hint': 'Type a word or pick a flow, mood or symptom to find days.',
+  'search.results': { one: '{count} day', other: '{count} days' },
+
+  'pregnancy.week': 'Week',
+  'pregnancy.trimester': 'Trimester {trimester}',
+  'pregnancy.daysAndTrimester': { one: 'and {count} day · Trimester {trimester}', other: 'and {count} days · Trimester {trimester}' },
+  'pregnancy.trimester1': '1st',
+  'pregnancy.trimester2': '2nd',
+  'pregnancy.trimester3': '3rd',
+  'pregnancy.dueDate': 'Estimated due date',
+  'pregnancy.daysToGo': { one: '{count} day to go', other: '{count} days to go' },
+  'pregnancy.anyDay': 'Any day now',
+  'pregnancy.byScan': 'dated by scan',
+  'pregnancy.byPeriod': 'from your last period',
+  'pregnancy.ended': 'Pregnancy ended?',
+  'pregnancy.endedDescription': "Whatever happened, take the time you need. Cycle tracking picks up again when you're ready.",
+  'pregnancy.ending.birth': 'My baby was born',
+  'pregnancy.ending.loss': 'My pregnancy ended',
+  'pregnancy.ending.mistake': "I'm not pregnant, this was turned on by mistake",
+  'pregnancy.lossNote': "We're so sorry. Your first cycle afterwards often differs from usual, so it won't count toward your averages.",
+  'pregnancy.birthNote': "Your first cycle after giving birth won't count toward your averages. Periods can take a while to come back, especially while breastfeeding.",
+  'pregnancy.date': 'Date',
+  'pregnancy.mode': 'Pregnancy Mode',
+  'pregnancy.pausedHint': 'Period predictions are paused. If your pregnancy has ended, let us know from the dashboard.',
+  'pregnancy.modeHint': 'Follow your pregnancy week by week. Period predictions pause while it is on.',
+  'pregnancy.lmp': 'First day of last period',
+  'pregnancy.scan': 'Dated by a scan',
+  'pregnancy.weeksShort': 'w',
+  'pregnancy.daysShort': 'd',
+  'pregnancy.dueOn': 'Due date: {date}',
+
+  'temperature.title': 'Temperature',
+  'temperature.cycleStarting': 'Cycle starting {date}',
+  'temperature.reading': 'Day {day}: {value}',
+  'temperature.readingDisturbed': 'Day {day}: {value} (disturbed)',
+  'temperature.confirmed': 'Ovulation confirmed on day {day} ({date}), coverline {coverline}',
+  'temperature.noShiftYet': 'No temperature shift yet. Keep measuring every morning.',
+  'temperature.noShift': 'No sustained temperature shift was detected in this cycle.',
+} satisfies Record<string, Message>;
+
+export type MessageKey = keyof typeof en;
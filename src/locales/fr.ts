@@ -0,0 +1,602 @@
+import type { Catalog } from '../lib/i18n';
+
+export const fr: Catalog = {
+  'app.loading': 'Chargement...',
+  'app.saveFailed': "Échec de l'enregistrement. Voir la console.",
+  'app.imported': { one: '{count} jour importé.', other: '{count} jours importés.' },
+  'app.importFailed': "Échec de l'import. Voir la console.",
+
+  'common.cancel': 'Annuler',
+  'common.save': 'Enregistrer',
+  'common.saving': 'Enregistrement...',
+  'common.close': 'Fermer',
+  'common.turnOff': 'Désactiver',
+  'common.repeatIt': 'Confirmez',
+  'common.copy': 'Copier',
+  'common.failed': "Une erreur s'est produite, veuillez réessayer.",
+  'common.on': 'Activé',
+  'common.off': 'Désactivé',
+
+  'nav.dashboard': 'Mon cycle',
+  'nav.calendar': 'Calendrier',
+  'nav.log': 'Journal du jour',
+  'nav.insights': 'Analyses',
+  'nav.search': 'Recherche',
+  'nav.shared': 'Partagé avec moi',
+  'nav.settings': 'Réglages',
+  'nav.lock': 'Verrouiller',
+  'nav.signOut': 'Se déconnecter',
+  'nav.dueDate': 'Terme prévu',
+  'nav.nextPeriod': 'Prochaines règles',
+  'nav.nextWithdrawal': 'Prochaines règles artificielles',
+  'nav.notPredicted': 'Pas encore prévu',
+  'nav.inDays': { one: 'Dans {count} jour', other: 'Dans {count} jours' },
+
+  'login.tagline': 'Votre suivi de cycle personnel.',
+  'login.google': 'Se connecter avec Google',
+  'login.unavailable': 'La connexion est indisponible pour le moment.',
+  'login.guest': 'Utiliser sans compte',
+  'login.terms': 'En vous connectant, vous acceptez nos conditions générales. Sans compte, tout reste sur cet appareil.',
+  'login.googleLogo': 'Logo Google',
+
+  'dashboard.greeting': 'Bonjour, beauté',
+  'dashboard.subtitle': "Voici le résumé de votre cycle pour aujourd'hui.",
+  'dashboard.positiveTest': 'Vous avez noté un test de grossesse positif. Voulez-vous passer en mode grossesse ? Les prévisions de règles sont suspendues pendant ce mode.',
+  'dashboard.notNow': 'Pas maintenant',
+  'dashboard.startPregnancy': 'Activer le mode grossesse',
+  'dashboard.recoveryWeek': 'Récupération · semaine {week}',
+  'dashboard.recoveryCycle': 'Le premier cycle après une grossesse est souvent différent. Il ne comptera pas dans vos moyennes.',
+  'dashboard.recoveryWaiting': 'Notez vos premières règles quand elles arrivent, les prévisions reprendront à partir de là.',
+  'dashboard.logSymptoms': 'Noter mes symptômes',
+  'dashboard.logSymptomsHint': 'Comment vous sentez-vous ?',
+  'dashboard.viewCalendar': 'Voir le calendrier',
+  'dashboard.viewCalendarHint': "Consulter l'historique",
+
+  'cycle.day': 'Jour',
+  'cycle.ofDays': { one: 'sur {count} jour', other: 'sur {count} jours' },
+  'cycle.countdown': { one: '{count} jour', other: '{count} jours' },
+  'cycle.untilNextPeriod': 'avant les prochaines règles',
+
+  'calendar.period': 'Règles',
+  'calendar.withdrawal': 'Règles artificielles',
+  'calendar.likely': 'Probable',
+  'calendar.possible': 'Possible',
+  'calendar.fertile': 'Fertile',
+  'calendar.ovulation': 'Ovulation',
+  'calendar.lhPeak': 'Pic de LH',
+  'calendar.eggWhite': "Glaire blanc d'œuf",
+
+  'log.logFor': 'Journal du {date}',
+  'log.planFor': 'Prévoir le {date}',
+  'log.save': 'Enregistrer',
+  'log.logged': 'Noté',
+  'log.planned': 'Prévu',
+  'log.nothingYet': "Rien pour l'instant",
+  'log.flowSummary': 'Flux : {flow}',
+  'log.mucusSummary': 'Glaire : {mucus}',
+  'log.lhSummary': 'LH : {result}',
+  'log.pregnancyTestSummary': 'Test de grossesse : {result}',
+  'log.contraceptionDone': 'Contraception faite',
+  'log.noteSummary': 'Note',
+  'log.contraception': 'Contraception',
+  'log.pack': 'Plaquette {pack} · Jour {day} sur 28',
+  'log.packBreak': "Plaquette {pack} · Jour {day} sur 28 · Semaine d'arrêt",
+  'log.nextInjection': 'Prochaine injection le {date}',
+  'log.missedPills': { one: '{count} pilule oubliée récemment', other: '{count} pilules oubliées récemment' },
+  'log.backupUntil': "Protection supplémentaire nécessaire jusqu'au {date}.",
+  'log.checkLeaflet': 'Consultez la notice de votre pilule ou demandez à un pharmacien en cas de doute.',
+  'log.futureDay': "Ce jour n'est pas encore arrivé. Vous pouvez prévoir humeurs et symptômes à l'avance, le flux se note le jour même.",
+  'log.flow': 'Intensité du flux',
+  'log.flowHint': "Touchez à nouveau le niveau choisi si ce n'était pas un jour de règles.",
+  'log.temperature': 'Température basale',
+  'log.disturbed': 'Perturbée (mauvais sommeil, maladie, alcool...)',
+  'log.implausibleTemperature': '{value} ne ressemble pas à une température corporelle. Vérifiez la mesure.',
+  'log.photoFailed': 'Impossible de lire cette photo. Essayez-en une autre.',
+  'log.mucus': 'Glaire cervicale',
+  'log.lhTest': "Test d'ovulation (LH)",
+  'log.stripPhoto': 'Bandelette de test LH',
+  'log.pregnancyTest': 'Test de grossesse',
+  'log.mood': 'Humeur',
+  'log.symptoms': 'Symptômes',
+  'log.symptomsHint': 'Touchez à nouveau pour plus fort : léger, modéré, sévère.',
+  'log.otherSymptoms': 'Autres',
+  'log.notes': 'Notes',
+
+  'flow.Spotting': 'Traces',
+  'flow.Light': 'Léger',
+  'flow.Medium': 'Moyen',
+  'flow.Heavy': 'Abondant',
+
+  'mucus.Dry': 'Sèche',
+  'mucus.Sticky': 'Collante',
+  'mucus.Creamy': 'Crémeuse',
+  'mucus.Watery': 'Aqueuse',
+  'mucus.Egg white': "Blanc d'œuf",
+
+  'test.Negative': 'Négatif',
+  'test.High': 'Élevé',
+  'test.Peak': 'Pic',
+  'test.Positive': 'Positif',
+
+  'severity.Mild': 'Léger',
+  'severity.Moderate': 'Modéré',
+  'severity.Severe': 'Sévère',
+
+  'category.Physical': 'Physique',
+  'category.Emotional': 'Émotionnel',
+  'category.Digestive': 'Digestif',
+  'category.Skin': 'Peau',
+  'category.Sleep': 'Sommeil',
+
+  'symptom.cramps': 'Crampes',
+  'symptom.headache': 'Maux de tête',
+  'symptom.bloating': 'Ballonnements',
+  'symptom.cravings': 'Fringales',
+  'symptom.tenderBreasts': 'Seins sensibles',
+  'symptom.backPain': 'Mal de dos',
+  'symptom.moodSwings': "Sautes d'humeur",
+  'symptom.nausea': 'Nausées',
+  'symptom.acne': 'Acné',
+  'symptom.insomnia': 'Insomnie',
+
+  'mood.happy': 'Joie',
+  'mood.neutral': 'Neutre',
+  'mood.sad': 'Tristesse',
+  'mood.tired': 'Fatigue',
+  'mood.anxious': 'Anxiété',
+  'mood.irritable': 'Irritabilité',
+
+  'settings.title': 'Réglages',
+  'settings.save': 'Enregistrer',
+  'settings.cycleLength': 'Durée moyenne du cycle (jours)',
+  'settings.cycleLengthHint': 'Le nombre de jours entre le début de vos règles et le début des suivantes.',
+  'settings.periodLength': 'Durée des règles (jours)',
+  'settings.periodLengthHint': 'Combien de jours durent habituellement vos règles.',
+  'settings.temperatureUnit': 'Unité de température',
+  'settings.temperatureUnitHint': 'Utilisée pour noter votre température basale.',
+  'settings.language': 'Langue',
+  'settings.languageHint': "Utilisée pour l'application et les dates.",
+  'settings.deviceLanguage': 'Comme sur cet appareil',
+  'settings.weekStart': 'Premier jour de la semaine',
+  'settings.weekStartHint': 'Le jour où commence chaque semaine dans le calendrier.',
+  'settings.weekStartDefault': 'Habituel pour votre langue ({day})',
+  'settings.symptomsHint': 'Ce que propose le journal. Les symptômes masqués restent sur les jours où vous les avez notés.',
+  'settings.moods': 'Humeurs',
+  'settings.moodsHint': 'Choisissez une humeur par jour dans cette liste.',
+
+  'phase.menstrual': 'Règles',
+  'phase.follicular': 'Phase folliculaire',
+  'phase.ovulatory': 'Fenêtre fertile',
+  'phase.luteal': 'Phase lutéale',
+
+  'patterns.title': 'Tendances des symptômes et humeurs',
+  'patterns.from': { one: "D'après {count} cycle terminé où vous avez noté votre ressenti.", other: "D'après {count} cycles terminés où vous avez noté votre ressenti." },
+  'patterns.mostlyIn': 'Surtout pendant : {phase}',
+  'patterns.none': 'Pas encore de tendance claire. Elles apparaissent après quelques cycles notés.',
+  'patterns.cell': '{item}, jour {day} : {share} % des cycles',
+  'patterns.legend': 'Jour du cycle en bas. Plus la couleur est foncée, plus cela concerne de cycles.',
+  'patterns.feeling': 'Humeur : {mood}',
+  'patterns.onDays': '{item} aux jours {from}–{to} dans {hits} de vos {count} derniers cycles',
+  'patterns.beforePeriod': '{item} apparaît souvent {from}–{to} jours avant vos règles ({hits} de vos {count} derniers cycles)',
+
+  'expect.title': 'À quoi vous attendre',
+  'expect.today': "Aujourd'hui",
+  'expect.tomorrow': 'Demain',
+
+  'exclusion.pregnancy': 'Pendant une grossesse',
+  'exclusion.recovery': "Premier cycle après une grossesse, souvent différent de d'habitude",
+  'exclusion.contraception': 'Sous contraception hormonale, les saignements suivent la plaquette plutôt que le cycle',
+  'exclusion.tooShort': 'Moins de {count} jours. Souvent des spottings ou des saignements en milieu de cycle notés comme des règles.',
+  'exclusion.tooLong': "Plus de {count} jours. Souvent des règles qui n'ont pas été notées.",
+
+  'insights.empty': 'Notez vos règles et votre historique de cycles apparaîtra ici.',
+  'insights.statistics': 'Statistiques du cycle',
+  'insights.from': { one: "D'après {count} cycle terminé, du {date} à aujourd'hui.", other: "D'après {count} cycles terminés, du {date} à aujourd'hui." },
+  'insights.noStatistics': "Les statistiques apparaissent dès qu'un cycle est terminé.",
+  'insights.days': { one: '{days} jour', other: '{days} jours' },
+  'insights.averageCycle': 'Cycle moyen',
+  'insights.variation': 'Variation',
+  'insights.shortest': 'Le plus court',
+  'insights.longest': 'Le plus long',
+  'insights.averagePeriod': 'Règles en moyenne',
+  'insights.overTime': 'Durée des cycles au fil du temps',
+  'insights.chartLegend': 'Partie foncée : durée des règles. Gris : exclu des statistiques.',
+  'insights.bar': '{date} : cycle de {length} jours, règles de {period} jours',
+  'insights.allCycles': 'Tous les cycles',
+  'insights.started': 'Début',
+  'insights.cycle': 'Cycle',
+  'insights.period': 'Règles',
+  'insights.notCounted': 'Non comptabilisé : {reason}',
+  'insights.ongoing': 'En cours',
+
+  'reminders.title': 'Rappels',
+  'reminders.unsupported': 'Ce navigateur ne prend pas en charge les notifications.',
+  'reminders.blocked': 'Les notifications sont bloquées pour ce site. Autorisez-les dans les réglages du navigateur pour recevoir des rappels.',
+  'reminders.description': 'Des notifications sur cet appareil, selon vos prévisions. Elles suivent vos dernières saisies.',
+  'reminders.days': { one: '{count} jour', other: '{count} jours' },
+  'reminders.time': 'Me le rappeler à',
+  'reminders.periodSoon': 'Règles prévues dans',
+  'reminders.fertileSoon': 'La fenêtre fertile commence demain',
+  'reminders.dailyLog': "Je n'ai rien noté aujourd'hui",
+  'reminders.late': 'Règles en retard de',
+  'reminders.discreet': 'Notifications discrètes',
+  'reminders.discreetText': 'Texte de la notification',
+  'reminders.periodSoonTitle': 'Règles bientôt',
+  'reminders.periodSoonBody': { one: 'Vos règles sont prévues dans {count} jour.', other: 'Vos règles sont prévues dans {count} jours.' },
+  'reminders.lateTitle': 'Règles en retard',
+  'reminders.lateBody': { one: 'Vos règles ont {count} jour de retard. Notez-les si elles ont commencé.', other: 'Vos règles ont {count} jours de retard. Notez-les si elles ont commencé.' },
+  'reminders.fertileTitle': 'Fenêtre fertile',
+  'reminders.fertileBody': 'Votre fenêtre fertile commence demain.',
+  'reminders.dailyLogTitle': 'Journal du jour',
+  'reminders.dailyLogBody': "Vous n'avez encore rien noté aujourd'hui.",
+  'reminders.discreetTitle': 'Rappel',
+  'reminders.discreetBody': 'Vous avez un rappel',
+
+  'share.predictions': 'Prévisions',
+  'share.predictionsDetail': 'Jour du cycle et date prévue des prochaines règles',
+  'share.periodDays': 'Jours de règles',
+  'share.periodDaysDetail': 'Jours de saignement, et leur abondance',
+  'share.fertileWindow': 'Fenêtre fertile',
+  'share.fertileWindowDetail': 'Jours fertiles et ovulation',
+  'share.moods': 'Humeurs',
+  'share.moodsDetail': "L'humeur notée chaque jour",
+  'share.symptoms': 'Symptômes',
+  'share.symptomsDetail': 'Les symptômes notés chaque jour',
+  'share.nothingYet': "rien pour l'instant",
+
+  'contraception.title': 'Contraception',
+  'contraception.description': "Les méthodes hormonales bloquent l'ovulation : les prévisions de fenêtre fertile sont désactivées pendant leur utilisation.",
+  'contraception.none': 'Aucune',
+  'contraception.startedOn': "Commencée le (premier jour d'une plaquette)",
+  'contraception.fittedOn': 'Posé le',
+  'contraception.lastInjection': 'Dernière injection',
+  'contraception.method.combined-21': 'Pilule combinée (21/7)',
+  'contraception.method.combined-24': 'Pilule combinée (24/4)',
+  'contraception.method.progestin-only': 'Pilule progestative',
+  'contraception.method.patch': 'Patch',
+  'contraception.method.ring': 'Anneau vaginal',
+  'contraception.method.hormonal-iud': 'DIU hormonal',
+  'contraception.method.copper-iud': 'DIU au cuivre',
+  'contraception.method.implant': 'Implant',
+  'contraception.method.injection': 'Injection',
+  'contraception.task.pill-taken': 'Pilule prise',
+  'contraception.task.patch-changed': 'Patch changé',
+  'contraception.task.patch-removed': 'Patch retiré',
+  'contraception.task.ring-inserted': 'Anneau inséré',
+  'contraception.task.ring-removed': 'Anneau retiré',
+  'contraception.advice.take-now': "Prenez un comprimé dès que vous y pensez, puis continuez à l'heure habituelle.",
+  'contraception.advice.take-missed': "Prenez le comprimé oublié maintenant, même si cela fait deux comprimés aujourd'hui. Vous êtes toujours protégée.",
+  'contraception.advice.take-latest': 'Prenez maintenant le dernier comprimé oublié et continuez la plaquette normalement.',
+  'contraception.advice.backup-on-time': { one: "Utilisez des préservatifs ou évitez les rapports jusqu'à avoir pris votre pilule à l'heure pendant {count} jour d'affilée.", other: "Utilisez des préservatifs ou évitez les rapports jusqu'à avoir pris votre pilule à l'heure pendant {count} jours d'affilée." },
+  'contraception.advice.backup-active': { one: "Utilisez des préservatifs ou évitez les rapports jusqu'à avoir pris {count} comprimé actif d'affilée.", other: "Utilisez des préservatifs ou évitez les rapports jusqu'à avoir pris {count} comprimés actifs d'affilée." },
+  'contraception.advice.emergency': "Si vous avez eu un rapport pendant la pause ou la première semaine de cette plaquette, demandez conseil à un pharmacien sur la contraception d'urgence.",
+  'contraception.advice.skip-break': 'Sautez la pause : commencez la plaquette suivante juste après le dernier comprimé actif.',
+
+  'report.title': 'Rapport de cycle',
+  'report.generated': 'Créé le {date}',
+  'report.days': { one: '{days} jour', other: '{days} jours' },
+  'report.contraception': '{method} depuis le {date}.',
+  'report.pregnant': 'Enceinte, DDR {lmp}.',
+  'report.pregnancyEnded': 'Grossesse depuis le {lmp} (DDR), terminée le {date}.',
+  'report.pregnancyLoss': 'Grossesse depuis le {lmp} (DDR), terminée le {date} par une perte.',
+  'report.longCycle': { one: 'Le cycle commencé le {date} a duré {count} jour.', other: 'Le cycle commencé le {date} a duré {count} jours.' },
+  'report.longPeriod': { one: 'Les règles commencées le {date} ont duré {count} jour.', other: 'Les règles commencées le {date} ont duré {count} jours.' },
+  'report.variedBy': 'La durée des cycles a varié de {count} jours ({shortest} à {longest}).',
+  'report.spotting': { one: 'Spotting entre les règles sur {count} jour : {dates}.', other: 'Spotting entre les règles sur {count} jours : {dates}.' },
+  'report.summary': 'Résumé',
+  'report.averageCycle': 'Durée moyenne du cycle',
+  'report.shortestLongest': 'Cycle le plus court / le plus long',
+  'report.averagePeriod': 'Durée moyenne des règles',
+  'report.cyclesCounted': 'Cycles comptabilisés',
+  'report.noAverages': 'Pas assez de cycles complets sur cette période pour calculer des moyennes.',
+  'report.cycles': 'Cycles',
+  'report.start': 'Début',
+  'report.cycleLength': 'Durée du cycle',
+  'report.periodLength': 'Durée des règles',
+  'report.note': 'Remarque',
+  'report.ongoing': 'En cours',
+  'report.exclusion.pregnancy': 'Grossesse',
+  'report.exclusion.recovery': 'Après une grossesse',
+  'report.exclusion.contraception': 'Contraception hormonale',
+  'report.exclusion.too-short': 'Inhabituellement court',
+  'report.exclusion.too-long': 'Inhabituellement long',
+  'report.noPeriods': 'Aucunes règles notées sur cette période.',
+  'report.flow': 'Flux',
+  'report.total': 'Total',
+  'report.symptoms': 'Symptômes par phase du cycle',
+  'report.symptomsHint': 'Jours notés dans chaque phase, avec la sévérité la plus fréquente.',
+  'report.noSymptoms': 'Aucun symptôme noté sur cette période.',
+  'report.moods': 'Humeurs par phase du cycle',
+  'report.noMoods': 'Aucune humeur notée sur cette période.',
+  'report.irregularities': 'Irrégularités notables',
+  'report.noIrregularities': 'Aucune sur cette période.',
+  'report.temperature': 'Température basale',
+  'report.readings': { one: '{count} mesure. Les points creux ont été marqués comme perturbés.', other: '{count} mesures. Les points creux ont été marqués comme perturbés.' },
+  'report.shift': "Décalage de température confirmant l'ovulation vers le {dates} (violet : ligne de base).",
+  'report.noShift': "Aucun décalage de température confirmant l'ovulation.",
+  'report.tests': 'Résultats des tests',
+  'report.date': 'Date',
+  'report.test': 'Test',
+  'report.result': 'Résultat',
+  'report.lhTest': 'Ovulation (LH)',
+  'report.pregnancyTest': 'Grossesse',
+  'report.notes': 'Notes',
+  'report.footer': 'Suivi personnel dans Gyneo. Les prévisions et tendances sont des estimations, pas un diagnostic.',
+  'report.page': 'Page {page} sur {pages}',
+  'report.heading': 'Rapport pour votre médecin',
+  'report.description': "Un PDF avec la durée de vos cycles et de vos règles, le flux, les symptômes par phase, les irrégularités, les températures et les résultats de tests. Il est créé sur cet appareil et n'est envoyé nulle part.",
+  'report.from': 'Du',
+  'report.to': 'Au',
+  'report.includeMoods': 'Inclure les humeurs',
+  'report.includeNotes': 'Inclure les notes',
+  'report.download': 'Télécharger le PDF',
+  'report.confirmUnprintable': 'Certains noms de symptômes ou certaines notes utilisent des lettres que le PDF ne peut pas afficher : elles seront remplacées par « ? ». Télécharger quand même ?',
+
+  'sharing.title': 'Partage',
+  'sharing.description': 'Permettez à un partenaire ou à un proche de voir quand arrivent vos règles ou votre fenêtre fertile. Cette personne ne voit que ce que vous choisissez, ne peut rien modifier, et vous pouvez arrêter le partage à tout moment.',
+  'sharing.notEncrypted': "Ce que vous partagez n'est pas chiffré de bout en bout : les personnes avec qui vous partagez peuvent le lire.",
+  'sharing.anyoneWithLink': "Toute personne ayant ce lien d'invitation",
+  'sharing.confirmStop': '{who} ne verra plus rien. Arrêter le partage ?',
+  'sharing.createLink': "Créer un lien d'invitation",
+  'sharing.notAccepted': 'Invitation pas encore acceptée',
+  'sharing.sees': 'Voit : {what}',
+  'sharing.copyLink': "Copier le lien d'invitation",
+  'sharing.copied': 'Copié',
+  'sharing.link': 'Lien',
+  'sharing.change': 'Modifier ce qui est partagé',
+  'sharing.stop': 'Arrêter le partage',
+  'sharing.whatToShare': 'Que peut voir cette personne ?',
+  'sharing.invite': "Inviter quelqu'un",
+  'sharing.linkCopied': "Lien d'invitation copié. Envoyez-le à la personne avec qui vous voulez partager.",
+  'sharing.someone': "Quelqu'un",
+
+  'invite.signIn': "Quelqu'un veut partager son cycle avec vous. Connectez-vous pour voir l'invitation.",
+  'invite.opening': "Ouverture de l'invitation...",
+  'invite.gone': 'Cette invitation a été retirée ou déjà acceptée. Demandez un nouveau lien.',
+  'invite.own': "C'est votre propre invitation. Envoyez le lien à la personne avec qui vous voulez partager.",
+  'invite.wantsToShare': '{name} veut partager avec vous',
+  'invite.readOnly': 'Vous le verrez en lecture seule dans « {shared} ». {name} peut modifier ce qui est partagé ou arrêter à tout moment.',
+  'invite.decline': 'Refuser',
+  'invite.accepting': 'Acceptation...',
+  'invite.open': 'Ouvrir',
+  'invite.accept': 'Accepter',
+
+  'shared.loading': 'Chargement de ce que partage {name}...',
+  'shared.noPredictions': "Il n'y a pas de prévisions pour {name} en ce moment.",
+  'shared.fertileUntil': "Fenêtre fertile jusqu'au {date}",
+  'shared.nextFertile': 'Prochaine fenêtre fertile à partir du {date}',
+  'shared.mood': 'Humeur : {mood}',
+  'shared.symptoms': 'Symptômes : {symptoms}',
+  'shared.nothing': 'Rien de partagé pour ce jour.',
+  'shared.confirmLeave': 'Ne plus voir le cycle de {name} ? Il faudra une nouvelle invitation.',
+  'shared.empty': "Personne ne partage avec vous pour l'instant. Quand quelqu'un vous envoie un lien d'invitation, ouvrez-le pour voir son cycle ici.",
+  'shared.title': 'Cycle de {name}',
+  'shared.leave': 'Ne plus voir',
+
+  'appLock.decoyName': 'Notes du jour',
+  'appLock.wait': 'Trop de tentatives. Attendez {count} s.',
+  'appLock.wrong': 'Code incorrect, réessayez',
+  'appLock.enter': 'Saisissez le code',
+  'appLock.unlockWithDevice': 'Déverrouiller avec cet appareil',
+  'appLock.checking': 'Vérification...',
+  'appLock.unlock': 'Déverrouiller',
+  'appLock.forgot': 'Code oublié ? Se reconnecter',
+  'appLock.title': "Verrouillage de l'app",
+  'appLock.description': "Demander un code PIN avant d'afficher quoi que ce soit sur cet appareil. Les autres appareils gardent leur propre réglage.",
+  'appLock.wrongCurrent': "Le code PIN actuel n'est pas le bon.",
+  'appLock.pinLength': 'Utilisez {min} à {max} chiffres.',
+  'appLock.mismatch': 'Les codes PIN ne correspondent pas.',
+  'appLock.deviceFailed': 'Impossible de configurer le déverrouillage avec cet appareil.',
+  'appLock.currentPin': 'Code PIN actuel',
+  'appLock.newPin': 'Nouveau code PIN',
+  'appLock.pin': 'Code PIN',
+  'appLock.savePin': 'Enregistrer le code PIN',
+  'appLock.setPin': 'Définir un code PIN',
+  'appLock.lockAfter': 'Verrouiller après',
+  'appLock.whenReopened': 'Seulement à la réouverture',
+  'appLock.idle': { one: "{count} minute d'inactivité", other: "{count} minutes d'inactivité" },
+  'appLock.lockWhenHidden': "Verrouiller dès que je change d'app",
+  'appLock.decoy': "Afficher l'écran de verrouillage sous le nom « {name} »",
+  'appLock.biometric': 'Déverrouiller avec une empreinte ou le visage',
+  'appLock.changePin': 'Changer le code PIN',
+  'appLock.eraseGuest': "Sans compte, le seul moyen de passer un code oublié est d'effacer tout ce qui se trouve sur cet appareil. Tout effacer ?",
+
+  'encryption.title': 'Chiffrement',
+  'encryption.enabled': "Vos saisies sont chiffrées sur cet appareil avant d'être enregistrées. Seuls votre phrase secrète ou votre clé de récupération peuvent les ouvrir.",
+  'encryption.disabled': "Chiffrez vos saisies sur votre appareil avec une phrase secrète, pour que personne d'autre, nous compris, ne puisse les lire. Les réglages comme la durée du cycle restent lisibles.",
+  'encryption.tooShort': 'Utilisez au moins {count} caractères.',
+  'encryption.chooseNew': "Choisissez une nouvelle phrase secrète d'au moins {count} caractères.",
+  'encryption.mismatch': 'Les phrases secrètes ne correspondent pas.',
+  'encryption.wrongPassphrase': "Cette phrase secrète n'est pas la bonne.",
+  'encryption.wrongRecoveryKey': "Cette clé de récupération n'est pas la bonne.",
+  'encryption.unreadable': { one: "{count} saisie enregistrée n'a pas pu être déchiffrée.", other: "{count} saisies enregistrées n'ont pas pu être déchiffrées." },
+  'encryption.paused': "Changer la phrase secrète ou désactiver le chiffrement est suspendu tant qu'elles ne peuvent pas l'être, pour ne pas les perdre.",
+  'encryption.failed': "Une erreur s'est produite. Vos saisies n'ont pas été modifiées.",
+  'encryption.saveRecoveryKey': 'Conservez votre clé de récupération',
+  'encryption.recoveryKeyHint': "C'est le seul moyen de retrouver l'accès si vous oubliez votre phrase secrète. Sans les deux, vos saisies ne peuvent pas être récupérées.",
+  'encryption.saved': "Je l'ai conservée",
+  'encryption.change': 'Changer la phrase secrète',
+  'encryption.changeShort': 'Changer',
+  'encryption.turnOn': 'Activer le chiffrement',
+  'encryption.currentPassphrase': 'Phrase secrète actuelle',
+  'encryption.newPassphrase': 'Nouvelle phrase secrète',
+  'encryption.passphrase': 'Phrase secrète',
+  'encryption.willDecrypt': 'Vos saisies seront de nouveau enregistrées sans chiffrement.',
+  'encryption.working': 'En cours...',
+  'encryption.encrypt': 'Chiffrer mes saisies',
+  'encryption.locked': 'Vos saisies sont chiffrées',
+  'encryption.recoveryKey': 'Clé de récupération (XXXX-XXXX-...)',
+  'encryption.unlockFailed': 'Déverrouillage impossible. Veuillez réessayer.',
+  'encryption.unlocking': 'Déverrouillage...',
+  'encryption.usePassphrase': 'Utiliser ma phrase secrète',
+  'encryption.forgot': 'Phrase secrète oubliée ?',
+
+  'catalog.changeIcon': "Changer l'icône",
+  'catalog.moveUp': 'Monter',
+  'catalog.moveDown': 'Descendre',
+  'catalog.show': 'Afficher dans le journal',
+  'catalog.hide': 'Masquer du journal',
+  'catalog.add': 'Ajouter le vôtre...',
+  'catalog.full': 'Cette liste est pleine ({count} éléments). Les éléments masqués comptent aussi.',
+
+  'import.notJson': "Ce fichier n'est pas un JSON valide.",
+  'import.notBackup': "Ce fichier JSON n'est pas une sauvegarde Gyneo.",
+  'import.newerVersion': "Cette sauvegarde a été créée par une version plus récente de Gyneo. Mettez d'abord l'app à jour.",
+  'import.noLogs': 'Cette sauvegarde ne contient aucune saisie.',
+  'import.unknownFormat': "Ce fichier n'est ni une sauvegarde JSON de Gyneo ni un CSV avec une colonne « date ».",
+  'import.entry': 'Entrée {number}',
+  'import.line': 'Ligne {number}',
+  'import.noCycles': "Aucune donnée de cycle menstruel n'a été trouvée dans ce fichier.",
+  'import.noRows': "Ce fichier n'a aucune ligne.",
+  'import.noDateColumn': 'Aucune colonne de date trouvée. Colonnes de ce fichier : {columns}',
+  'import.unreadableDate': 'Ligne {line} : date illisible « {value} »',
+  'import.noColumns': 'Aucune colonne de flux ou de symptômes trouvée dans ce fichier.',
+  'import.readFailed': 'Impossible de lire ce fichier. Voir la console.',
+  'import.title': 'Importer depuis une autre app',
+  'import.description': 'Emportez votre historique de règles. Les fichiers sont lus uniquement sur cet appareil.',
+  'import.appleHealth': 'Apple Santé',
+  'import.otherApp': 'Autre app (CSV)',
+  'import.appleHelp': "Dans l'app Santé, touchez votre profil, puis « Exporter toutes les données de santé ». Décompressez l'export et choisissez export.xml.",
+  'import.csvHelp': 'Exportez vos données en CSV depuis votre app de suivi. Gyneo cherche des colonnes de date, de flux/règles et de symptômes.',
+  'import.reading': 'Lecture du fichier...',
+  'import.chooseFile': 'Choisir un fichier',
+  'import.reviewTitle': 'Vérifier les symptômes',
+  'import.reviewDescription': '{source} utilise des noms de symptômes que Gyneo ne connaît pas. Associez-les aux vôtres, gardez-les tels quels ou laissez-les de côté.',
+  'import.days': { one: '{count} jour', other: '{count} jours' },
+  'import.keepAs': 'Garder « {name} »',
+  'import.sameAs': 'Identique à {name}',
+  'import.skip': 'Ne pas importer',
+  'import.continue': 'Continuer',
+  'import.inFile': { one: '{count} jour dans ce fichier {format}', other: '{count} jours dans ce fichier {format}' },
+  'import.inFileWithSettings': { one: '{count} jour et les réglages dans ce fichier {format}', other: '{count} jours et les réglages dans ce fichier {format}' },
+  'import.merge': 'Fusionner',
+  'import.replace': 'Tout remplacer',
+  'import.added': 'nouveaux jours',
+  'import.updated': 'jours mis à jour',
+  'import.unchanged': 'jours inchangés',
+  'import.removed': 'jours supprimés',
+  'import.restoresSettings': 'Les réglages du cycle seront restaurés',
+  'import.duplicates': { one: '{count} date en double a été fusionnée, en gardant la dernière entrée.', other: '{count} dates en double ont été fusionnées, en gardant la dernière entrée.' },
+  'import.skipped': { one: '{count} entrée sera ignorée', other: '{count} entrées seront ignorées' },
+  'import.confirmReplace': { one: "Remplacer supprimera {count} jour noté qui n'est pas dans ce fichier. Continuer ?", other: 'Remplacer supprimera {count} jours notés qui ne sont pas dans ce fichier. Continuer ?' },
+  'import.importing': 'Import...',
+  'import.apply': "Appliquer l'import",
+
+  'backup.title': 'Vos données',
+  'backup.description': 'Téléchargez une copie de tout ce que vous avez noté, ou restaurez-la depuis une sauvegarde.',
+  'backup.json': 'Sauvegarde JSON',
+  'backup.csv': 'CSV',
+  'backup.import': 'Importer un fichier',
+
+  'deleteData.title': 'Supprimer mes données',
+  'deleteData.description': 'Effacer définitivement chaque saisie et chaque réglage de nos serveurs et de cet appareil. Cette action est irréversible.',
+  'deleteData.open': 'Supprimer mes données...',
+  'deleteData.download': "Télécharger d'abord une sauvegarde",
+  'deleteData.downloadAgain': 'Téléchargée, télécharger à nouveau',
+  'deleteData.account': 'Supprimer aussi mon compte',
+  'deleteData.accountDetail': 'Sinon, vous pourrez vous reconnecter plus tard et repartir de zéro.',
+  'deleteData.offline': 'Vous êtes hors ligne. Connectez-vous pour supprimer vos données.',
+  'deleteData.confirmNoBackup': "Vous n'avez pas téléchargé de sauvegarde. Tout supprimer quand même ?",
+  'deleteData.signInAgain': "Reconnectez-vous pour confirmer. Rien n'a été supprimé.",
+  'deleteData.failed': "Une erreur s'est produite. Une partie de vos données peut subsister, veuillez réessayer.",
+  'deleteData.deleting': 'Suppression...',
+  'deleteData.confirm': 'Se connecter et supprimer',
+
+  'calendarExport.title.period': 'Règles',
+  'calendarExport.title.predictedPeriod': 'Règles (prévues)',
+  'calendarExport.title.fertile': 'Fenêtre fertile',
+  'calendarExport.title.ovulation': 'Ovulation (estimée)',
+  'calendarExport.title.discreet': 'Rappel',
+  'calendarExport.heading': 'Ajouter à votre agenda',
+  'calendarExport.description': 'Importez le fichier dans Google Agenda, Apple Calendrier ou Outlook. Importer un fichier plus récent met à jour les mêmes événements.',
+  'calendarExport.horizon': 'Prévoir sur',
+  'calendarExport.months': { one: '{count} mois', other: '{count} mois' },
+  'calendarExport.includeLogged': 'Inclure les règles passées',
+  'calendarExport.includeFertile': "Inclure les fenêtres fertiles et l'ovulation",
+  'calendarExport.discreet': "Titres discrets (chaque événement s'appelle « {title} »)",
+  'calendarExport.field.period': 'Règles notées',
+  'calendarExport.field.predictedPeriod': 'Règles prévues',
+  'calendarExport.field.fertile': 'Fenêtre fertile',
+  'calendarExport.field.ovulation': 'Ovulation',
+  'calendarExport.download': 'Télécharger le .ics',
+
+  'guest.title': 'Sur cet appareil uniquement',
+  'guest.description': "Vous utilisez Gyneo sans compte. Vos saisies et réglages sont stockés dans ce navigateur et nulle part ailleurs : effacer ses données ou perdre l'appareil les fait disparaître aussi. Associez un compte Google pour les sauvegarder et les utiliser sur d'autres appareils ; vous choisirez quoi faire si le compte contient déjà des saisies.",
+  'guest.link': 'Associer un compte Google',
+
+  'upgrade.device': 'Garder les deux, cet appareil prime',
+  'upgrade.deviceDetail': 'Les jours notés aux deux endroits prennent ce qui est sur cet appareil.',
+  'upgrade.account': 'Garder les deux, le compte prime',
+  'upgrade.accountDetail': 'Les jours notés aux deux endroits gardent ce que contient le compte.',
+  'upgrade.replace': 'Remplacer le compte',
+  'upgrade.replaceDetail': 'Seul ce qui est sur cet appareil est conservé. Les jours présents uniquement dans le compte sont supprimés.',
+  'upgrade.discard': 'Utiliser le compte tel quel',
+  'upgrade.discardDetail': 'Ce qui a été noté sur cet appareil est abandonné.',
+  'upgrade.confirmReplace': { one: 'Cela supprime {count} jour présent uniquement dans le compte. Continuer ?', other: 'Cela supprime {count} jours présents uniquement dans le compte. Continuer ?' },
+  'upgrade.failed': "Une erreur s'est produite. Vos données sont toujours sur cet appareil, veuillez réessayer.",
+  'upgrade.title': 'Transférer vos données vers {email}',
+  'upgrade.counts': { one: '{count} jour sur cet appareil, {account} dans le compte', other: '{count} jours sur cet appareil, {account} dans le compte' },
+  'upgrade.comparing': 'Comparaison de vos données...',
+  'upgrade.onlyDevice': 'jours uniquement sur cet appareil',
+  'upgrade.onlyAccount': 'jours uniquement dans le compte',
+  'upgrade.different': 'jours notés différemment aux deux endroits',
+  'upgrade.willAdd': { one: '{count} jour sera ajouté à votre compte.', other: '{count} jours seront ajoutés à votre compte.' },
+  'upgrade.nothingToAdd': 'Votre compte contient déjà tout ce qui a été noté sur cet appareil.',
+  'upgrade.notNow': 'Pas maintenant',
+  'upgrade.moving': 'Transfert...',
+  'upgrade.notNowHint': '« {button} » vous déconnecte et continue avec les données de cet appareil.',
+  'upgrade.yourAccount': 'votre compte',
+
+  'sync.offlinePending': 'Vous êtes hors ligne. Vos modifications sont enregistrées sur cet appareil et seront synchronisées à la reconnexion.',
+  'sync.offline': 'Vous êtes hors ligne. Affichage de ce qui est enregistré sur cet appareil.',
+  'sync.syncing': 'Synchronisation de vos modifications...',
+
+  'note.bold': 'Gras',
+  'note.italic': 'Italique',
+  'note.list': 'Liste',
+  'note.placeholder': "Autre chose à propos d'aujourd'hui...",
+
+  'search.placeholder': 'Rechercher dans vos notes',
+  'search.anyFlow': 'Tout flux',
+  'search.anyMood': 'Toute humeur',
+  'search.allTime': 'Depuis le début',
+  'search.lastMonths': { one: 'Le mois dernier', other: 'Les {count} derniers mois' },
+  'search.hint': 'Tapez un mot ou choisissez un flux, une humeur ou un symptôme pour trouver des jours.',
+  'search.results': { one: '{count} jour', other: '{count} jours' },
+
+  'pregnancy.week': 'Semaine',
+  'pregnancy.trimester': 'Trimestre {trimester}',
+  'pregnancy.daysAndTrimester': { one: 'et {count} jour · Trimestre {trimester}', other: 'et {count} jours · Trimestre {trimester}' },
+  'pregnancy.trimester1': '1er',
+  'pregnancy.trimester2': '2e',
+  'pregnancy.trimester3': '3e',
+  'pregnancy.dueDate': "Date prévue d'accouchement",
+  'pregnancy.daysToGo': { one: 'Encore {count} jour', other: 'Encore {count} jours' },
+  'pregnancy.anyDay': "D'un jour à l'autre",
+  'pregnancy.byScan': 'datée par échographie',
+  'pregnancy.byPeriod': 'depuis vos dernières règles',
+  'pregnancy.ended': 'Grossesse terminée ?',
+  'pregnancy.endedDescription': "Quoi qu'il se soit passé, prenez le temps qu'il vous faut. Le suivi du cycle reprendra quand vous serez prête.",
+  'pregnancy.ending.birth': 'Mon bébé est né',
+  'pregnancy.ending.loss': "Ma grossesse s'est arrêtée",
+  'pregnancy.ending.mistake': 'Je ne suis pas enceinte, ce mode a été activé par erreur',
+  'pregnancy.lossNote': 'Nous sommes sincèrement désolés. Le premier cycle qui suit est souvent différent, il ne comptera donc pas dans vos moyennes.',
+  'pregnancy.birthNote': "Le premier cycle après l'accouchement ne comptera pas dans vos moyennes. Les règles peuvent mettre du temps à revenir, surtout pendant l'allaitement.",
+  'pregnancy.date': 'Date',
+  'pregnancy.mode': 'Mode grossesse',
+  'pregnancy.pausedHint': 'Les prévisions de règles sont en pause. Si votre grossesse est terminée, indiquez-le depuis le tableau de bord.',
+  'pregnancy.modeHint': 'Suivez votre grossesse semaine après semaine. Les prévisions de règles sont en pause pendant ce mode.',
+  'pregnancy.lmp': 'Premier jour des dernières règles',
+  'pregnancy.scan': 'Datée par échographie',
+  'pregnancy.weeksShort': 'sem.',
+  'pregnancy.daysShort': 'j',
+  'pregnancy.dueOn': 'Terme prévu : {date}',
+
+  'temperature.title': 'Température',
+  'temperature.cycleStarting': 'Cycle commencé le {date}',
+  'temperature.reading': 'Jour {day} : {value}',
+  'temperature.readingDisturbed': 'Jour {day} : {value} (perturbée)',
+  'temperature.confirmed': 'Ovulation confirmée au jour {day} ({date}), ligne de base {coverline}',
+  'temperature.noShiftYet': 'Pas encore de décalage de température. Continuez à mesurer chaque matin.',
+  'temperature.noShift': "Aucun décalage durable de température n'a été détecté dans ce cycle.",
+};
@@ -0,0 +1,602 @@
+import type { Catalog } from '../lib/i18n';
+
+export const sw: Catalog = {
+  'app.loading': 'Inapakia...',
+  'app.saveFailed': 'Imeshindikana kuhifadhi. Angalia console.',
+  'app.imported': { one: 'Siku {count} imeingizwa.', other: 'Siku {count} zimeingizwa.' },
+  'app.importFailed': 'Imeshindikana kuingiza. Angalia console.',
+
+  'common.cancel': 'Ghairi',
+  'common.save': 'Hifadhi',
+  'common.saving': 'Inahifadhi...',
+  'common.close': 'Funga',
+  'common.turnOff': 'Zima',
+  'common.repeatIt': 'Rudia',
+  'common.copy': 'Nakili',
+  'common.failed': 'Kuna hitilafu imetokea, tafadhali jaribu tena.',
+  'common.on': 'Imewashwa',
+  'common.off': 'Imezimwa',
+
+  'nav.dashboard': 'Mzunguko Wangu',
+  'nav.calendar': 'Kalenda',
+  'nav.log': 'Kumbukumbu ya Siku',
+  'nav.insights': 'Maarifa',
+  'nav.search': 'Tafuta',
+  'nav.shared': 'Vilivyoshirikiwa nami',
+  'nav.settings': 'Mipangilio',
+  'nav.lock': 'Funga',
+  'nav.signOut': 'Toka',
+  'nav.dueDate': 'Tarehe ya Kujifungua',
+  'nav.nextPeriod': 'Hedhi Ijayo',
+  'nav.nextWithdrawal': 'Damu ya Kusitisha Ijayo',
+  'nav.notPredicted': 'Bado haijatabiriwa',
+  'nav.inDays': { one: 'Baada ya Siku {count}', other: 'Baada ya Siku {count}' },
+
+  'login.tagline': 'Kifuatiliaji chako binafsi cha mzunguko.',
+  'login.google': 'Ingia kwa Google',
+  'login.unavailable': 'Kuingia hakupatikani kwa sasa.',
+  'login.guest': 'Tumia bila akaunti',
+  'login.terms': 'Kwa kuingia, unakubali sheria na masharti yetu. Bila akaunti, kila kitu kinabaki kwenye kifaa hiki.',
+  'login.googleLogo': 'Nembo ya Google',
+
+  'dashboard.greeting': 'Habari, Mrembo',
+  'dashboard.subtitle': 'Huu ni muhtasari wa mzunguko wako wa leo.',
+  'dashboard.positiveTest': 'Umeandika kipimo chanya cha ujauzito. Ungependa kubadili kwenda hali ya ujauzito? Utabiri wa hedhi husimama wakati huo.',
+  'dashboard.notNow': 'Si sasa',
+  'dashboard.startPregnancy': 'Anza hali ya ujauzito',
+  'dashboard.recoveryWeek': 'Kupona · wiki {week}',
+  'dashboard.recoveryCycle': 'Mzunguko wako wa kwanza baada ya ujauzito mara nyingi huwa tofauti. Hautahesabiwa kwenye wastani wako.',
+  'dashboard.recoveryWaiting': 'Andika hedhi yako ya kwanza itakapokuja na utabiri utaendelea kutoka hapo.',
+  'dashboard.logSymptoms': 'Andika Dalili',
+  'dashboard.logSymptomsHint': 'Unajisikiaje?',
+  'dashboard.viewCalendar': 'Tazama Kalenda',
+  'dashboard.viewCalendarHint': 'Angalia historia',
+
+  'cycle.day': 'Siku',
+  'cycle.ofDays': { one: 'kati ya siku {count}', other: 'kati ya siku {count}' },
+  'cycle.countdown': { one: 'Siku {count}', other: 'Siku {count}' },
+  'cycle.untilNextPeriod': 'hadi hedhi ijayo',
+
+  'calendar.period': 'Hedhi',
+  'calendar.withdrawal': 'Damu ya kusitisha',
+  'calendar.likely': 'Uwezekano mkubwa',
+  'calendar.possible': 'Inawezekana',
+  'calendar.fertile': 'Siku za rutuba',
+  'calendar.ovulation': 'Kutoa yai',
+  'calendar.lhPeak': 'Kilele cha LH',
+  'calendar.eggWhite': 'Ute kama yai bichi',
+
+  'log.logFor': 'Kumbukumbu ya {date}',
+  'log.planFor': 'Mpango wa {date}',
+  'log.save': 'Hifadhi',
+  'log.logged': 'Imeandikwa',
+  'log.planned': 'Imepangwa',
+  'log.nothingYet': 'Bado hakuna kitu',
+  'log.flowSummary': 'Damu: {flow}',
+  'log.mucusSummary': 'Ute: {mucus}',
+  'log.lhSummary': 'LH: {result}',
+  'log.pregnancyTestSummary': 'Kipimo cha ujauzito: {result}',
+  'log.contraceptionDone': 'Uzazi wa mpango umefanyika',
+  'log.noteSummary': 'Dokezo',
+  'log.contraception': 'Uzazi wa mpango',
+  'log.pack': 'Pakiti {pack} · Siku {day} kati ya 28',
+  'log.packBreak': 'Pakiti {pack} · Siku {day} kati ya 28 · Wiki ya mapumziko',
+  'log.nextInjection': 'Sindano ijayo tarehe {date}',
+  'log.missedPills': { one: 'Kidonge {count} kimesahaulika hivi karibuni', other: 'Vidonge {count} vimesahaulika hivi karibuni' },
+  'log.backupUntil': 'Kinga ya ziada inahitajika hadi {date}.',
+  'log.checkLeaflet': 'Soma karatasi ya maelezo ya vidonge vyako au muulize mfamasia ukiwa na shaka.',
+  'log.futureDay': 'Siku hii bado haijafika. Unaweza kupanga hisia na dalili mapema, damu huandikwa siku yenyewe.',
+  'log.flow': 'Kiasi cha Damu',
+  'log.flowHint': 'Gusa tena kiwango ulichochagua kama hii haikuwa siku ya hedhi.',
+  'log.temperature': 'Joto la Msingi la Mwili',
+  'log.disturbed': 'Limevurugika (usingizi mbaya, ugonjwa, pombe...)',
+  'log.implausibleTemperature': '{value} haionekani kuwa joto la mwili. Tafadhali hakiki kipimo.',
+  'log.photoFailed': 'Imeshindikana kusoma picha hiyo. Tafadhali jaribu nyingine.',
+  'log.mucus': 'Ute wa Mlango wa Kizazi',
+  'log.lhTest': 'Kipimo cha Kutoa Yai (LH)',
+  'log.stripPhoto': 'Kipande cha kipimo cha LH',
+  'log.pregnancyTest': 'Kipimo cha Ujauzito',
+  'log.mood': 'Hisia',
+  'log.symptoms': 'Dalili',
+  'log.symptomsHint': 'Gusa tena kuongeza ukali: kidogo, wastani, kali.',
+  'log.otherSymptoms': 'Nyingine',
+  'log.notes': 'Madokezo',
+
+  'flow.Spotting': 'Matone',
+  'flow.Light': 'Kidogo',
+  'flow.Medium': 'Wastani',
+  'flow.Heavy': 'Nyingi',
+
+  'mucus.Dry': 'Kavu',
+  'mucus.Sticky': 'Nata',
+  'mucus.Creamy': 'Kama krimu',
+  'mucus.Watery': 'Majimaji',
+  'mucus.Egg white': 'Kama yai bichi',
+
+  'test.Negative': 'Hasi',
+  'test.High': 'Juu',
+  'test.Peak': 'Kilele',
+  'test.Positive': 'Chanya',
+
+  'severity.Mild': 'Kidogo',
+  'severity.Moderate': 'Wastani',
+  'severity.Severe': 'Kali',
+
+  'category.Physical': 'Kimwili',
+  'category.Emotional': 'Kihisia',
+  'category.Digestive': "Mmeng'enyo",
+  'category.Skin': 'Ngozi',
+  'category.Sleep': 'Usingizi',
+
+  'symptom.cramps': 'Maumivu ya tumbo',
+  'symptom.headache': 'Maumivu ya kichwa',
+  'symptom.bloating': 'Tumbo kujaa gesi',
+  'symptom.cravings': 'Hamu ya vyakula',
+  'symptom.tenderBreasts': 'Matiti kuuma',
+  'symptom.backPain': 'Maumivu ya mgongo',
+  'symptom.moodSwings': 'Mabadiliko ya hisia',
+  'symptom.nausea': 'Kichefuchefu',
+  'symptom.acne': 'Chunusi',
+  'symptom.insomnia': 'Kukosa usingizi',
+
+  'mood.happy': 'Furaha',
+  'mood.neutral': 'Kawaida',
+  'mood.sad': 'Huzuni',
+  'mood.tired': 'Uchovu',
+  'mood.anxious': 'Wasiwasi',
+  'mood.irritable': 'Hasira',
+
+  'settings.title': 'Mipangilio',
+  'settings.save': 'Hifadhi Mabadiliko',
+  'settings.cycleLength': 'Wastani wa Urefu wa Mzunguko (Siku)',
+  'settings.cycleLengthHint': 'Idadi ya siku kati ya mwanzo wa hedhi moja na inayofuata.',
+  'settings.periodLength': 'Muda wa Hedhi (Siku)',
+  'settings.periodLengthHint': 'Hedhi yako kwa kawaida huchukua siku ngapi.',
+  'settings.temperatureUnit': 'Kipimo cha Joto',
+  'settings.temperatureUnitHint': 'Hutumika unapoandika joto lako la msingi la mwili.',
+  'settings.language': 'Lugha',
+  'settings.languageHint': 'Hutumika kwa programu na kwa tarehe.',
+  'settings.deviceLanguage': 'Sawa na kifaa hiki',
+  'settings.weekStart': 'Siku ya Kwanza ya Wiki',
+  'settings.weekStartHint': 'Siku ambayo kila wiki inaanzia kwenye kalenda.',
+  'settings.weekStartDefault': 'Kawaida kwa lugha yako ({day})',
+  'settings.symptomsHint': 'Kile ambacho kumbukumbu inatoa. Zilizofichwa hubaki kwenye siku ulizoziandika.',
+  'settings.moods': 'Hisia',
+  'settings.moodsHint': 'Chagua hisia moja kwa siku kutoka orodha hii.',
+
+  'phase.menstrual': 'Hedhi',
+  'phase.follicular': 'Awamu ya folikali',
+  'phase.ovulatory': 'Siku za rutuba',
+  'phase.luteal': 'Awamu ya luteali',
+
+  'patterns.title': 'Mienendo ya Dalili na Hisia',
+  'patterns.from': { one: 'Kutoka mzunguko {count} uliokamilika ambapo uliandika ulivyojisikia.', other: 'Kutoka mizunguko {count} iliyokamilika ambapo uliandika ulivyojisikia.' },
+  'patterns.mostlyIn': 'Mara nyingi katika: {phase}',
+  'patterns.none': 'Bado hakuna mienendo wazi. Huonekana baada ya mizunguko michache ya kuandika.',
+  'patterns.cell': '{item}, siku {day}: {share}% ya mizunguko',
+  'patterns.legend': 'Siku ya mzunguko iko chini. Rangi nzito zaidi ina maana mizunguko mingi zaidi.',
+  'patterns.feeling': 'Kujisikia {mood}',
+  'patterns.onDays': '{item} siku {from}–{to} katika mizunguko {hits} kati ya {count} ya mwisho',
+  'patterns.beforePeriod': '{item} huelekea kutokea siku {from}–{to} kabla ya hedhi yako (mizunguko {hits} kati ya {count} ya mwisho)',
+
+  'expect.title': 'Cha Kutarajia',
+  'expect.today': 'Leo',
+  'expect.tomorrow': 'Kesho',
+
+  'exclusion.pregnancy': 'Wakati wa ujauzito',
+  'exclusion.recovery': 'Mzunguko wa kwanza baada ya ujauzito, ambao mara nyingi huwa tofauti',
+  'exclusion.contraception': 'Ukiwa kwenye uzazi wa mpango wa homoni, damu hufuata pakiti badala ya mzunguko',
+  'exclusion.tooShort': 'Mfupi kuliko siku {count}. Mara nyingi ni matone au damu ya katikati ya mzunguko iliyoandikwa kama hedhi.',
+  'exclusion.tooLong': 'Mrefu kuliko siku {count}. Mara nyingi ni hedhi ambayo haikuandikwa.',
+
+  'insights.empty': 'Andika hedhi zako na historia ya mzunguko wako itaonekana hapa.',
+  'insights.statistics': 'Takwimu za Mzunguko',
+  'insights.from': { one: 'Kutoka mzunguko {count} uliokamilika, {date} hadi leo.', other: 'Kutoka mizunguko {count} iliyokamilika, {date} hadi leo.' },
+  'insights.noStatistics': 'Takwimu huonekana mzunguko mmoja ukishakamilika.',
+  'insights.days': { one: 'siku {days}', other: 'siku {days}' },
+  'insights.averageCycle': 'Wastani wa mzunguko',
+  'insights.variation': 'Tofauti',
+  'insights.shortest': 'Mfupi zaidi',
+  'insights.longest': 'Mrefu zaidi',
+  'insights.averagePeriod': 'Wastani wa hedhi',
+  'insights.overTime': 'Urefu wa Mzunguko kwa Muda',
+  'insights.chartLegend': 'Sehemu nzito: urefu wa hedhi. Kijivu: haijahesabiwa kwenye takwimu.',
+  'insights.bar': '{date}: mzunguko wa siku {length}, hedhi ya siku {period}',
+  'insights.allCycles': 'Mizunguko Yote',
+  'insights.started': 'Ilianza',
+  'insights.cycle': 'Mzunguko',
+  'insights.period': 'Hedhi',
+  'insights.notCounted': 'Haijahesabiwa: {reason}',
+  'insights.ongoing': 'Inaendelea',
+
+  'reminders.title': 'Vikumbusho',
+  'reminders.unsupported': 'Kivinjari hiki hakitumii arifa.',
+  'reminders.blocked': 'Arifa zimezuiwa kwa tovuti hii. Ziruhusu kwenye mipangilio ya kivinjari chako ili upate vikumbusho.',
+  'reminders.description': 'Arifa kwenye kifaa hiki, kulingana na utabiri wako. Hufuata kumbukumbu zako za hivi karibuni.',
+  'reminders.days': { one: 'siku {count}', other: 'siku {count}' },
+  'reminders.time': 'Nikumbushe saa',
+  'reminders.periodSoon': 'Hedhi inatarajiwa baada ya',
+  'reminders.fertileSoon': 'Siku za rutuba zinaanza kesho',
+  'reminders.dailyLog': 'Sijaandika chochote leo',
+  'reminders.late': 'Hedhi imechelewa kwa',
+  'reminders.discreet': 'Arifa za siri',
+  'reminders.discreetText': 'Maandishi ya arifa',
+  'reminders.periodSoonTitle': 'Hedhi inakaribia',
+  'reminders.periodSoonBody': { one: 'Hedhi yako inatarajiwa baada ya siku {count}.', other: 'Hedhi yako inatarajiwa baada ya siku {count}.' },
+  'reminders.lateTitle': 'Hedhi imechelewa',
+  'reminders.lateBody': { one: 'Hedhi yako imechelewa kwa siku {count}. Iandike kama imeanza.', other: 'Hedhi yako imechelewa kwa siku {count}. Iandike kama imeanza.' },
+  'reminders.fertileTitle': 'Siku za rutuba',
+  'reminders.fertileBody': 'Siku zako za rutuba zinaanza kesho.',
+  'reminders.dailyLogTitle': 'Kumbukumbu ya siku',
+  'reminders.dailyLogBody': 'Bado hujaandika chochote leo.',
+  'reminders.discreetTitle': 'Kikumbusho',
+  'reminders.discreetBody': 'Una kikumbusho',
+
+  'share.predictions': 'Utabiri',
+  'share.predictionsDetail': 'Siku ya mzunguko na lini hedhi zijazo zinatarajiwa',
+  'share.periodDays': 'Siku za hedhi',
+  'share.periodDaysDetail': 'Siku zenye damu, na kiasi chake',
+  'share.fertileWindow': 'Siku za rutuba',
+  'share.fertileWindowDetail': 'Siku za rutuba na kutoa yai',
+  'share.moods': 'Hisia',
+  'share.moodsDetail': 'Hisia iliyoandikwa kila siku',
+  'share.symptoms': 'Dalili',
+  'share.symptomsDetail': 'Dalili zilizoandikwa kila siku',
+  'share.nothingYet': 'bado hakuna kitu',
+
+  'contraception.title': 'Uzazi wa mpango',
+  'contraception.description': 'Njia za homoni husimamisha utoaji wa yai, hivyo utabiri wa siku za rutuba huzimwa unapotumia mojawapo.',
+  'contraception.none': 'Hakuna',
+  'contraception.startedOn': 'Ilianza tarehe (siku ya kwanza ya pakiti)',
+  'contraception.fittedOn': 'Iliwekwa tarehe',
+  'contraception.lastInjection': 'Sindano ya mwisho',
+  'contraception.method.combined-21': 'Kidonge mchanganyiko (21/7)',
+  'contraception.method.combined-24': 'Kidonge mchanganyiko (24/4)',
+  'contraception.method.progestin-only': 'Kidonge cha projestini pekee',
+  'contraception.method.patch': 'Kibandiko',
+  'contraception.method.ring': 'Pete ya ukeni',
+  'contraception.method.hormonal-iud': 'Kitanzi cha homoni',
+  'contraception.method.copper-iud': 'Kitanzi cha shaba',
+  'contraception.method.implant': 'Kipandikizi',
+  'contraception.method.injection': 'Sindano',
+  'contraception.task.pill-taken': 'Kidonge kimemezwa',
+  'contraception.task.patch-changed': 'Kibandiko kimebadilishwa',
+  'contraception.task.patch-removed': 'Kibandiko kimeondolewa',
+  'contraception.task.ring-inserted': 'Pete imewekwa',
+  'contraception.task.ring-removed': 'Pete imeondolewa',
+  'contraception.advice.take-now': 'Meza kidonge mara unapokumbuka, kisha endelea na muda wako wa kawaida.',
+  'contraception.advice.take-missed': 'Meza kidonge ulichosahau sasa, hata kama ni vidonge viwili leo. Bado umekingwa.',
+  'contraception.advice.take-latest': 'Meza sasa kidonge cha mwisho ulichosahau na uendelee na pakiti iliyobaki.',
+  'contraception.advice.backup-on-time': { one: 'Tumia kondomu au epuka ngono hadi umeze kidonge chako kwa wakati kwa siku {count} mfululizo.', other: 'Tumia kondomu au epuka ngono hadi umeze kidonge chako kwa wakati kwa siku {count} mfululizo.' },
+  'contraception.advice.backup-active': { one: 'Tumia kondomu au epuka ngono hadi umeze kidonge {count} chenye homoni mfululizo.', other: 'Tumia kondomu au epuka ngono hadi umeze vidonge {count} vyenye homoni mfululizo.' },
+  'contraception.advice.emergency': 'Kama ulifanya ngono wakati wa mapumziko au wiki ya kwanza ya pakiti hii, muulize mfamasia kuhusu uzazi wa mpango wa dharura.',
+  'contraception.advice.skip-break': 'Ruka mapumziko: anza pakiti inayofuata mara baada ya kidonge cha mwisho chenye homoni.',
+
+  'report.title': 'Ripoti ya mzunguko',
+  'report.generated': 'Imetengenezwa {date}',
+  'report.days': { one: 'siku {days}', other: 'siku {days}' },
+  'report.contraception': '{method} tangu {date}.',
+  'report.pregnant': 'Mjamzito, hedhi ya mwisho {lmp}.',
+  'report.pregnancyEnded': 'Ujauzito tangu {lmp} (hedhi ya mwisho), uliisha {date}.',
+  'report.pregnancyLoss': 'Ujauzito tangu {lmp} (hedhi ya mwisho), uliisha {date} kwa kupoteza mimba.',
+  'report.longCycle': { one: 'Mzunguko ulioanza {date} ulidumu siku {count}.', other: 'Mzunguko ulioanza {date} ulidumu siku {count}.' },
+  'report.longPeriod': { one: 'Hedhi iliyoanza {date} ilidumu siku {count}.', other: 'Hedhi iliyoanza {date} ilidumu siku {count}.' },
+  'report.variedBy': 'Urefu wa mzunguko ulitofautiana kwa siku {count} ({shortest} hadi {longest}).',
+  'report.spotting': { one: 'Matone kati ya hedhi kwa siku {count}: {dates}.', other: 'Matone kati ya hedhi kwa siku {count}: {dates}.' },
+  'report.summary': 'Muhtasari',
+  'report.averageCycle': 'Wastani wa urefu wa mzunguko',
+  'report.shortestLongest': 'Mzunguko mfupi / mrefu zaidi',
+  'report.averagePeriod': 'Wastani wa urefu wa hedhi',
+  'report.cyclesCounted': 'Mizunguko iliyohesabiwa',
+  'report.noAverages': 'Hakuna mizunguko kamili ya kutosha katika kipindi hiki kwa wastani.',
+  'report.cycles': 'Mizunguko',
+  'report.start': 'Mwanzo',
+  'report.cycleLength': 'Urefu wa mzunguko',
+  'report.periodLength': 'Urefu wa hedhi',
+  'report.note': 'Dokezo',
+  'report.ongoing': 'Unaendelea',
+  'report.exclusion.pregnancy': 'Ujauzito',
+  'report.exclusion.recovery': 'Baada ya ujauzito',
+  'report.exclusion.contraception': 'Uzazi wa mpango wa homoni',
+  'report.exclusion.too-short': 'Mfupi kuliko kawaida',
+  'report.exclusion.too-long': 'Mrefu kuliko kawaida',
+  'report.noPeriods': 'Hakuna hedhi iliyoandikwa katika kipindi hiki.',
+  'report.flow': 'Damu',
+  'report.total': 'Jumla',
+  'report.symptoms': 'Dalili kwa awamu ya mzunguko',
+  'report.symptomsHint': 'Siku zilizoandikwa katika kila awamu, pamoja na ukali unaojitokeza zaidi.',
+  'report.noSymptoms': 'Hakuna dalili zilizoandikwa katika kipindi hiki.',
+  'report.moods': 'Hisia kwa awamu ya mzunguko',
+  'report.noMoods': 'Hakuna hisia zilizoandikwa katika kipindi hiki.',
+  'report.irregularities': 'Kasoro zinazostahili kutajwa',
+  'report.noIrregularities': 'Hakuna katika kipindi hiki.',
+  'report.temperature': 'Joto la msingi la mwili',
+  'report.readings': { one: 'Kipimo {count}. Nukta zilizo wazi ziliwekwa alama kuwa zimevurugika.', other: 'Vipimo {count}. Nukta zilizo wazi ziliwekwa alama kuwa zimevurugika.' },
+  'report.shift': 'Mabadiliko ya joto yanayothibitisha kutoa yai karibu na {dates} (zambarau: mstari wa msingi).',
+  'report.noShift': 'Hakuna mabadiliko ya joto yanayothibitisha kutoa yai.',
+  'report.tests': 'Matokeo ya vipimo',
+  'report.date': 'Tarehe',
+  'report.test': 'Kipimo',
+  'report.result': 'Matokeo',
+  'report.lhTest': 'Kutoa yai (LH)',
+  'report.pregnancyTest': 'Ujauzito',
+  'report.notes': 'Madokezo',
+  'report.footer': 'Imefuatiliwa binafsi katika Gyneo. Utabiri na mienendo ni makadirio, si uchunguzi wa kitabibu.',
+  'report.page': 'Ukurasa {page} kati ya {pages}',
+  'report.heading': 'Ripoti kwa Daktari Wako',
+  'report.description': 'PDF yenye urefu wa mizunguko na hedhi zako, kiasi cha damu, dalili kwa awamu, kasoro, joto na matokeo ya vipimo. Inatengenezwa kwenye kifaa hiki na haipakiwi popote.',
+  'report.from': 'Kuanzia',
+  'report.to': 'Hadi',
+  'report.includeMoods': 'Jumuisha hisia',
+  'report.includeNotes': 'Jumuisha madokezo',
+  'report.download': 'Pakua PDF',
+  'report.confirmUnprintable': 'Baadhi ya majina ya dalili au madokezo yanatumia herufi ambazo PDF haiwezi kuonyesha, kwa hivyo zitachapishwa kama "?". Pakua hata hivyo?',
+
+  'sharing.title': 'Kushiriki',
+  'sharing.description': 'Mruhusu mwenzi au mlezi aone lini hedhi yako au siku zako za rutuba zinakuja. Anaona tu kile unachochagua, hawezi kubadilisha chochote, na unaweza kuacha kushiriki wakati wowote.',
+  'sharing.notEncrypted': 'Unachoshiriki hakijasimbwa kutoka mwanzo hadi mwisho, hivyo watu unaoshiriki nao wanaweza kukisoma.',
+  'sharing.anyoneWithLink': 'Yeyote mwenye kiungo hiki cha mwaliko',
+  'sharing.confirmStop': '{who} hataona chochote tena. Acha kushiriki?',
+  'sharing.createLink': 'Tengeneza kiungo cha mwaliko',
+  'sharing.notAccepted': 'Mwaliko bado haujakubaliwa',
+  'sharing.sees': 'Anaona {what}',
+  'sharing.copyLink': 'Nakili kiungo cha mwaliko',
+  'sharing.copied': 'Imenakiliwa',
+  'sharing.link': 'Kiungo',
+  'sharing.change': 'Badilisha kinachoshirikiwa',
+  'sharing.stop': 'Acha kushiriki',
+  'sharing.whatToShare': 'Waone nini?',
+  'sharing.invite': 'Mwalike mtu',
+  'sharing.linkCopied': 'Kiungo cha mwaliko kimenakiliwa. Mtumie mtu unayetaka kushiriki naye.',
+  'sharing.someone': 'Mtu fulani',
+
+  'invite.signIn': 'Kuna mtu anataka kushiriki mzunguko wake nawe. Ingia ili uone mwaliko.',
+  'invite.opening': 'Inafungua mwaliko...',
+  'invite.gone': 'Mwaliko huu umeondolewa au tayari ulikubaliwa. Omba kiungo kipya.',
+  'invite.own': 'Huu ni mwaliko wako mwenyewe. Mtumie kiungo mtu unayetaka kushiriki naye.',
+  'invite.wantsToShare': '{name} anataka kushiriki nawe',
+  'invite.readOnly': 'Utaona hili kwa kusoma tu chini ya "{shared}". {name} anaweza kubadilisha kinachoshirikiwa au kuacha wakati wowote.',
+  'invite.decline': 'Kataa',
+  'invite.accepting': 'Inakubali...',
+  'invite.open': 'Fungua',
+  'invite.accept': 'Kubali',
+
+  'shared.loading': 'Inapakia anachoshiriki {name}...',
+  'shared.noPredictions': 'Hakuna utabiri kwa {name} kwa sasa.',
+  'shared.fertileUntil': 'Siku za rutuba hadi {date}',
+  'shared.nextFertile': 'Siku za rutuba zijazo kuanzia {date}',
+  'shared.mood': 'Hisia: {mood}',
+  'shared.symptoms': 'Dalili: {symptoms}',
+  'shared.nothing': 'Hakuna kilichoshirikiwa kwa siku hii.',
+  'shared.confirmLeave': 'Acha kuona mzunguko wa {name}? Atalazimika kukualika tena.',
+  'shared.empty': 'Bado hakuna anayeshiriki nawe. Mtu akikutumia kiungo cha mwaliko, kifungue ili uone mzunguko wake hapa.',
+  'shared.title': 'Mzunguko wa {name}',
+  'shared.leave': 'Acha kuona',
+
+  'appLock.decoyName': 'Madokezo ya Kila Siku',
+  'appLock.wait': 'Majaribio mengi mno. Subiri sekunde {count}.',
+  'appLock.wrong': 'Nambari ya siri si sahihi, jaribu tena',
+  'appLock.enter': 'Weka nambari ya siri',
+  'appLock.unlockWithDevice': 'Fungua kwa kifaa hiki',
+  'appLock.checking': 'Inakagua...',
+  'appLock.unlock': 'Fungua',
+  'appLock.forgot': 'Umesahau nambari ya siri? Ingia tena',
+  'appLock.title': 'Kufuli ya Programu',
+  'appLock.description': 'Omba PIN kabla ya kuonyesha chochote kwenye kifaa hiki. Vifaa vingine vina mipangilio yake.',
+  'appLock.wrongCurrent': 'PIN ya sasa si sahihi.',
+  'appLock.pinLength': 'Tumia tarakimu {min} hadi {max}.',
+  'appLock.mismatch': 'PIN hazilingani.',
+  'appLock.deviceFailed': 'Imeshindikana kuweka ufunguaji kwa kifaa hiki.',
+  'appLock.currentPin': 'PIN ya sasa',
+  'appLock.newPin': 'PIN mpya',
+  'appLock.pin': 'PIN',
+  'appLock.savePin': 'Hifadhi PIN',
+  'appLock.setPin': 'Weka PIN',
+  'appLock.lockAfter': 'Funga baada ya',
+  'appLock.whenReopened': 'Inapofunguliwa upya tu',
+  'appLock.idle': { one: 'dakika {count} bila kutumika', other: 'dakika {count} bila kutumika' },
+  'appLock.lockWhenHidden': 'Funga mara ninapohamia programu nyingine',
+  'appLock.decoy': 'Onyesha skrini ya kufuli kama "{name}"',
+  'appLock.biometric': 'Fungua kwa alama ya kidole au uso',
+  'appLock.changePin': 'Badilisha PIN',
+  'appLock.eraseGuest': 'Bila akaunti, njia pekee ya kupita nambari ya siri uliyosahau ni kufuta kila kitu kwenye kifaa hiki. Futa?',
+
+  'encryption.title': 'Usimbaji',
+  'encryption.enabled': 'Kumbukumbu zako husimbwa kwenye kifaa hiki kabla ya kuhifadhiwa. Ni kaulisiri yako au ufunguo wa kurejesha pekee unaoweza kuzifungua.',
+  'encryption.disabled': 'Simba kumbukumbu zako kwenye kifaa chako kwa kaulisiri, ili mtu mwingine yeyote, hata sisi, asiweze kuzisoma. Mipangilio kama urefu wa mzunguko inabaki kusomeka.',
+  'encryption.tooShort': 'Tumia angalau herufi {count}.',
+  'encryption.chooseNew': 'Chagua kaulisiri mpya yenye angalau herufi {count}.',
+  'encryption.mismatch': 'Kaulisiri hazilingani.',
+  'encryption.wrongPassphrase': 'Kaulisiri hiyo si sahihi.',
+  'encryption.wrongRecoveryKey': 'Ufunguo huo wa kurejesha si sahihi.',
+  'encryption.unreadable': { one: 'Kumbukumbu {count} iliyohifadhiwa haikuweza kufunguliwa.', other: 'Kumbukumbu {count} zilizohifadhiwa hazikuweza kufunguliwa.' },
+  'encryption.paused': 'Kubadilisha kaulisiri au kuzima usimbaji kumesimamishwa hadi ziweze kufunguliwa, ili zisipotee.',
+  'encryption.failed': 'Kuna hitilafu imetokea. Kumbukumbu zako hazijabadilishwa.',
+  'encryption.saveRecoveryKey': 'Hifadhi ufunguo wako wa kurejesha',
+  'encryption.recoveryKeyHint': 'Ndiyo njia pekee ya kuingia tena ukisahau kaulisiri yako. Bila vyote viwili, kumbukumbu zako haziwezi kurejeshwa.',
+  'encryption.saved': 'Nimeuhifadhi',
+  'encryption.change': 'Badilisha kaulisiri',
+  'encryption.changeShort': 'Badilisha',
+  'encryption.turnOn': 'Washa usimbaji',
+  'encryption.currentPassphrase': 'Kaulisiri ya sasa',
+  'encryption.newPassphrase': 'Kaulisiri mpya',
+  'encryption.passphrase': 'Kaulisiri',
+  'encryption.willDecrypt': 'Kumbukumbu zako zitahifadhiwa tena bila kusimbwa.',
+  'encryption.working': 'Inafanya kazi...',
+  'encryption.encrypt': 'Simba kumbukumbu zangu',
+  'encryption.locked': 'Kumbukumbu zako zimesimbwa',
+  'encryption.recoveryKey': 'Ufunguo wa kurejesha (XXXX-XXXX-...)',
+  'encryption.unlockFailed': 'Imeshindikana kufungua. Tafadhali jaribu tena.',
+  'encryption.unlocking': 'Inafungua...',
+  'encryption.usePassphrase': 'Tumia kaulisiri yangu',
+  'encryption.forgot': 'Umesahau kaulisiri yako?',
+
+  'catalog.changeIcon': 'Badilisha ikoni',
+  'catalog.moveUp': 'Sogeza juu',
+  'catalog.moveDown': 'Sogeza chini',
+  'catalog.show': 'Onyesha kwenye kumbukumbu',
+  'catalog.hide': 'Ficha kwenye kumbukumbu',
+  'catalog.add': 'Ongeza yako...',
+  'catalog.full': 'Orodha hii imejaa (vipengele {count}). Vilivyofichwa vinahesabiwa pia.',
+
+  'import.notJson': 'Faili hili si JSON halali.',
+  'import.notBackup': 'Faili hili la JSON si nakala rudufu ya Gyneo.',
+  'import.newerVersion': 'Nakala hii rudufu ilitengenezwa na toleo jipya zaidi la Gyneo. Tafadhali sasisha programu kwanza.',
+  'import.noLogs': 'Nakala hii rudufu haina kumbukumbu.',
+  'import.unknownFormat': 'Faili hili si nakala rudufu ya JSON ya Gyneo wala CSV yenye safu ya "date".',
+  'import.entry': 'Kipengele {number}',
+  'import.line': 'Mstari {number}',
+  'import.noCycles': 'Hakuna rekodi za mzunguko wa hedhi zilizopatikana kwenye faili hili.',
+  'import.noRows': 'Faili hili halina mistari.',
+  'import.noDateColumn': 'Hakuna safu ya tarehe iliyopatikana. Safu zilizo kwenye faili hili: {columns}',
+  'import.unreadableDate': 'Mstari {line}: tarehe isiyosomeka "{value}"',
+  'import.noColumns': 'Hakuna safu za damu au dalili zilizopatikana kwenye faili hili.',
+  'import.readFailed': 'Imeshindikana kusoma faili hilo. Angalia console.',
+  'import.title': 'Ingiza Kutoka Programu Nyingine',
+  'import.description': 'Leta historia ya hedhi zako. Mafaili husomwa kwenye kifaa hiki pekee.',
+  'import.appleHealth': 'Apple Health',
+  'import.otherApp': 'Programu nyingine (CSV)',
+  'import.appleHelp': 'Katika programu ya Health, gusa wasifu wako, kisha "Export All Health Data". Fungua faili la zip na uchague export.xml.',
+  'import.csvHelp': 'Hamisha data yako kama CSV kutoka kifuatiliaji chako. Gyneo hutafuta safu za tarehe, damu/hedhi na dalili.',
+  'import.reading': 'Inasoma faili...',
+  'import.chooseFile': 'Chagua faili',
+  'import.reviewTitle': 'Kagua dalili',
+  'import.reviewDescription': '{source} inatumia majina ya dalili ambayo Gyneo haiyajui. Yalinganishe na yako, yaache kama yalivyo, au usiyaingize.',
+  'import.days': { one: 'siku {count}', other: 'siku {count}' },
+  'import.keepAs': 'Acha kama "{name}"',
+  'import.sameAs': 'Sawa na {name}',
+  'import.skip': 'Usiingize',
+  'import.continue': 'Endelea',
+  'import.inFile': { one: 'Siku {count} katika faili hili la {format}', other: 'Siku {count} katika faili hili la {format}' },
+  'import.inFileWithSettings': { one: 'Siku {count} na mipangilio katika faili hili la {format}', other: 'Siku {count} na mipangilio katika faili hili la {format}' },
+  'import.merge': 'Unganisha',
+  'import.replace': 'Badilisha zote',
+  'import.added': 'siku mpya',
+  'import.updated': 'siku zilizosasishwa',
+  'import.unchanged': 'siku zisizobadilika',
+  'import.removed': 'siku zilizofutwa',
+  'import.restoresSettings': 'Mipangilio ya mzunguko itarejeshwa',
+  'import.duplicates': { one: 'Tarehe {count} iliyojirudia iliunganishwa, ikibaki ya mwisho.', other: 'Tarehe {count} zilizojirudia ziliunganishwa, zikibaki za mwisho.' },
+  'import.skipped': { one: 'Kipengele {count} kitarukwa', other: 'Vipengele {count} vitarukwa' },
+  'import.confirmReplace': { one: 'Kubadilisha kutafuta siku {count} iliyoandikwa ambayo haipo kwenye faili hili. Endelea?', other: 'Kubadilisha kutafuta siku {count} zilizoandikwa ambazo hazipo kwenye faili hili. Endelea?' },
+  'import.importing': 'Inaingiza...',
+  'import.apply': 'Ingiza',
+
+  'backup.title': 'Data Yako',
+  'backup.description': 'Pakua nakala ya kila kitu ulichoandika, au irejeshe kutoka nakala rudufu.',
+  'backup.json': 'Nakala rudufu ya JSON',
+  'backup.csv': 'CSV',
+  'backup.import': 'Ingiza kutoka faili',
+
+  'deleteData.title': 'Futa data yangu',
+  'deleteData.description': 'Futa kabisa kila kumbukumbu na mpangilio kutoka seva zetu na kutoka kifaa hiki. Hili haliwezi kutenduliwa.',
+  'deleteData.open': 'Futa data yangu...',
+  'deleteData.download': 'Pakua nakala rudufu kwanza',
+  'deleteData.downloadAgain': 'Imepakuliwa, pakua tena',
+  'deleteData.account': 'Futa pia akaunti yangu',
+  'deleteData.accountDetail': 'La sivyo unaweza kuingia tena baadaye na kuanza upya.',
+  'deleteData.offline': 'Uko nje ya mtandao. Unganisha ili kufuta data yako.',
+  'deleteData.confirmNoBackup': 'Hujapakua nakala rudufu. Futa kila kitu hata hivyo?',
+  'deleteData.signInAgain': 'Ingia tena kuthibitisha. Hakuna kilichofutwa.',
+  'deleteData.failed': 'Kuna hitilafu imetokea. Baadhi ya data yako inaweza kuwa imebaki, tafadhali jaribu tena.',
+  'deleteData.deleting': 'Inafuta...',
+  'deleteData.confirm': 'Ingia na ufute',
+
+  'calendarExport.title.period': 'Hedhi',
+  'calendarExport.title.predictedPeriod': 'Hedhi (iliyotabiriwa)',
+  'calendarExport.title.fertile': 'Siku za rutuba',
+  'calendarExport.title.ovulation': 'Kutoa yai (makadirio)',
+  'calendarExport.title.discreet': 'Kikumbusho',
+  'calendarExport.heading': 'Ongeza kwenye Kalenda Yako',
+  'calendarExport.description': 'Ingiza faili kwenye Google, Apple au Outlook Calendar. Kuingiza faili jipya zaidi husasisha matukio yale yale.',
+  'calendarExport.horizon': 'Tabiri mbele',
+  'calendarExport.months': { one: 'mwezi {count}', other: 'miezi {count}' },
+  'calendarExport.includeLogged': 'Jumuisha hedhi zilizopita',
+  'calendarExport.includeFertile': 'Jumuisha siku za rutuba na kutoa yai',
+  'calendarExport.discreet': 'Majina ya siri (kila tukio linaitwa "{title}")',
+  'calendarExport.field.period': 'Hedhi iliyoandikwa',
+  'calendarExport.field.predictedPeriod': 'Hedhi iliyotabiriwa',
+  'calendarExport.field.fertile': 'Siku za rutuba',
+  'calendarExport.field.ovulation': 'Kutoa yai',
+  'calendarExport.download': 'Pakua .ics',
+
+  'guest.title': 'Kwenye Kifaa Hiki Pekee',
+  'guest.description': 'Unatumia Gyneo bila akaunti. Kumbukumbu na mipangilio yako imehifadhiwa kwenye kivinjari hiki na si kwingine, hivyo kufuta data yake au kupoteza kifaa kunazipoteza pia. Unganisha akaunti ya Google ili kuzihifadhi na kuzitumia kwenye vifaa vingine; utachagua kitakachotokea kama akaunti tayari ina kumbukumbu.',
+  'guest.link': 'Unganisha akaunti ya Google',
+
+  'upgrade.device': 'Weka zote, kifaa hiki kinashinda',
+  'upgrade.deviceDetail': 'Siku zilizoandikwa sehemu zote mbili zinachukua kilicho kwenye kifaa hiki.',
+  'upgrade.account': 'Weka zote, akaunti inashinda',
+  'upgrade.accountDetail': 'Siku zilizoandikwa sehemu zote mbili zinabaki na kilicho kwenye akaunti.',
+  'upgrade.replace': 'Badilisha akaunti',
+  'upgrade.replaceDetail': 'Kilicho kwenye kifaa hiki pekee ndicho kinabaki. Siku zilizo kwenye akaunti pekee zinafutwa.',
+  'upgrade.discard': 'Tumia akaunti kama ilivyo',
+  'upgrade.discardDetail': 'Kilichoandikwa kwenye kifaa hiki kinatupwa.',
+  'upgrade.confirmReplace': { one: 'Hii inafuta siku {count} iliyo kwenye akaunti pekee. Endelea?', other: 'Hii inafuta siku {count} zilizo kwenye akaunti pekee. Endelea?' },
+  'upgrade.failed': 'Kuna hitilafu imetokea. Data yako bado iko kwenye kifaa hiki, tafadhali jaribu tena.',
+  'upgrade.title': 'Hamisha data yako kwenda {email}',
+  'upgrade.counts': { one: 'Siku {count} kwenye kifaa hiki, {account} kwenye akaunti', other: 'Siku {count} kwenye kifaa hiki, {account} kwenye akaunti' },
+  'upgrade.comparing': 'Inalinganisha data yako...',
+  'upgrade.onlyDevice': 'siku zilizo kwenye kifaa hiki pekee',
+  'upgrade.onlyAccount': 'siku zilizo kwenye akaunti pekee',
+  'upgrade.different': 'siku zilizoandikwa tofauti sehemu zote mbili',
+  'upgrade.willAdd': { one: 'Siku {count} itaongezwa kwenye akaunti yako.', other: 'Siku {count} zitaongezwa kwenye akaunti yako.' },
+  'upgrade.nothingToAdd': 'Akaunti yako tayari ina kila kitu kilichoandikwa kwenye kifaa hiki.',
+  'upgrade.notNow': 'Si sasa',
+  'upgrade.moving': 'Inahamisha...',
+  'upgrade.notNowHint': '"{button}" inakutoa na kuendelea kutumia data iliyo kwenye kifaa hiki.',
+  'upgrade.yourAccount': 'akaunti yako',
+
+  'sync.offlinePending': 'Uko nje ya mtandao. Mabadiliko yako yamehifadhiwa kwenye kifaa hiki na yatasawazishwa utakapounganishwa tena.',
+  'sync.offline': 'Uko nje ya mtandao. Inaonyesha kilichohifadhiwa kwenye kifaa hiki.',
+  'sync.syncing': 'Inasawazisha mabadiliko yako...',
+
+  'note.bold': 'Herufi nzito',
+  'note.italic': 'Herufi za mlalo',
+  'note.list': 'Orodha',
+  'note.placeholder': 'Kitu kingine chochote kuhusu leo...',
+
+  'search.placeholder': 'Tafuta kwenye madokezo yako',
+  'search.anyFlow': 'Damu yoyote',
+  'search.anyMood': 'Hisia yoyote',
+  'search.allTime': 'Muda wote',
+  'search.lastMonths': { one: 'Mwezi uliopita', other: 'Miezi {count} iliyopita' },
+  'search.hint': 'Andika neno au chagua damu, hisia au dalili ili kupata siku.',
+  'search.results': { one: 'siku {count}', other: 'siku {count}' },
+
+  'pregnancy.week': 'Wiki',
+  'pregnancy.trimester': 'Kipindi cha {trimester}',
+  'pregnancy.daysAndTrimester': { one: 'na siku {count} · Kipindi cha {trimester}', other: 'na siku {count} · Kipindi cha {trimester}' },
+  'pregnancy.trimester1': '1',
+  'pregnancy.trimester2': '2',
+  'pregnancy.trimester3': '3',
+  'pregnancy.dueDate': 'Makadirio ya tarehe ya kujifungua',
+  'pregnancy.daysToGo': { one: 'Imebaki siku {count}', other: 'Zimebaki siku {count}' },
+  'pregnancy.anyDay': 'Siku yoyote sasa',
+  'pregnancy.byScan': 'kwa kipimo cha picha',
+  'pregnancy.byPeriod': 'kutoka hedhi yako ya mwisho',
+  'pregnancy.ended': 'Ujauzito umeisha?',
+  'pregnancy.endedDescription': 'Chochote kilichotokea, chukua muda unaohitaji. Ufuatiliaji wa mzunguko utaendelea utakapokuwa tayari.',
+  'pregnancy.ending.birth': 'Mtoto wangu amezaliwa',
+  'pregnancy.ending.loss': 'Ujauzito wangu umeisha',
+  'pregnancy.ending.mistake': 'Si mjamzito, hali hii iliwashwa kwa makosa',
+  'pregnancy.lossNote': 'Tunasikitika sana. Mzunguko wako wa kwanza baada ya hapo mara nyingi huwa tofauti, hivyo hautahesabiwa kwenye wastani wako.',
+  'pregnancy.birthNote': 'Mzunguko wako wa kwanza baada ya kujifungua hautahesabiwa kwenye wastani wako. Hedhi inaweza kuchukua muda kurudi, hasa wakati wa kunyonyesha.',
+  'pregnancy.date': 'Tarehe',
+  'pregnancy.mode': 'Hali ya Ujauzito',
+  'pregnancy.pausedHint': 'Utabiri wa hedhi umesimamishwa. Kama ujauzito wako umeisha, tujulishe kutoka ukurasa mkuu.',
+  'pregnancy.modeHint': 'Fuatilia ujauzito wako wiki kwa wiki. Utabiri wa hedhi husimama wakati huo.',
+  'pregnancy.lmp': 'Siku ya kwanza ya hedhi ya mwisho',
+  'pregnancy.scan': 'Tarehe kwa kipimo cha picha',
+  'pregnancy.weeksShort': 'w',
+  'pregnancy.daysShort': 's',
+  'pregnancy.dueOn': 'Tarehe ya kujifungua: {date}',
+
+  'temperature.title': 'Joto',
+  'temperature.cycleStarting': 'Mzunguko ulioanza {date}',
+  'temperature.reading': 'Siku {day}: {value}',
+  'temperature.readingDisturbed': 'Siku {day}: {value} (limevurugika)',
+  'temperature.confirmed': 'Kutoa yai kumethibitishwa siku {day} ({date}), mstari wa msingi {coverline}',
+  'temperature.noShiftYet': 'Bado hakuna mabadiliko ya joto. Endelea kupima kila asubuhi.',
+  'temperature.noShift': 'Hakuna mabadiliko ya kudumu ya joto yaliyogunduliwa katika mzunguko huu.',
+};
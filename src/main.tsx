@@ -2,6 +2,7 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { registerServiceWorker } from './lib/notifications'
 
 console.log("main.tsx executing, finding root...");
 const root = document.getElementById('root');
@@ -11,3 +12,5 @@ createRoot(root!).render(
     <App />
   </StrictMode>,
 )
+
+registerServiceWorker()
@@ -0,0 +1,115 @@
+import type { Timestamp } from 'firebase/firestore';
+
+// --- Types ---
+
+export type TemperatureUnit = 'C' | 'F';
+
+export type WeekStart = 0 | 1 | 6; // Sunday, Monday or Saturday, as Date.getDay() numbers them
+
+export interface ReminderSettings {
+  time: string; // HH:MM, when reminders are delivered
+  periodSoon: boolean;
+  periodSoonDays: number; // Remind this many days before the expected start
+  fertileSoon: boolean; // The day before the fertile window
+  dailyLog: boolean; // Only when nothing was logged yet that day
+  late: boolean;
+  lateDays: number;
+  discreet: boolean; // Replace every notification's text with `discreetText`
+  discreetText: string; // Empty for the default text in the user's language
+}
+
+export type ContraceptionMethod =
+  | 'combined-21' // Combined pill, 21 active days and a 7-day break
+  | 'combined-24' // Combined pill, 24 active and 4 placebo pills
+  | 'progestin-only'
+  | 'patch'
+  | 'ring'
+  | 'hormonal-iud'
+  | 'copper-iud'
+  | 'implant'
+  | 'injection';
+
+export interface ContraceptionProfile {
+  method: ContraceptionMethod;
+  startDate: string; // YYYY-MM-DD: day 1 of the first pack, or when it was fitted or injected
+}
+
+export type PregnancyOutcome = 'birth' | 'loss';
+
+export interface Pregnancy {
+  lmp: string; // First day of the last menstrual period
+  // A dating scan overrides the LMP: gestational age measured on that day
+  scan: { date: string, weeks: number, days: number } | null;
+  endedOn: string | null;
+  outcome: PregnancyOutcome | null;
+}
+
+export type SymptomCategory = 'Physical' | 'Emotional' | 'Digestive' | 'Skin' | 'Sleep';
+
+// One entry of the user's symptom or mood list, shown in the logger in list order
+export interface CatalogItem {
+  name: string; // What gets stored in logs, unique within its list
+  icon: string; // Lucide icon name, see components/catalogIcons.ts
+  category: SymptomCategory;
+  hidden: boolean; // Left out of the logger, past logs keep it
+}
+
+export interface UserSettings {
+  cycleLength: number; // Default 28
+  periodLength: number; // Default 5
+  temperatureUnit?: TemperatureUnit; // Default 'C'
+  reminders?: ReminderSettings; // Off when missing
+  contraception?: ContraceptionProfile; // None when missing
+  pregnancies?: Pregnancy[]; // Oldest first, the last one is ongoing while it has no end date
+  symptomCatalog?: CatalogItem[]; // Built-in list when missing
+  moodCatalog?: CatalogItem[];
+  language?: string; // See LANGUAGES in lib/i18n.ts, the device's language when missing
+  weekStart?: WeekStart; // The language's usual first day when missing
+}
+
+export type FlowLevel = 'Light' | 'Medium' | 'Heavy' | 'Spotting';
+
+// Basal body temperature, taken on waking before getting up
+export interface TemperatureReading {
+  value: number; // In `unit`, as entered
+  unit: TemperatureUnit;
+  time: string | null; // HH:MM
+  disturbed: boolean; // Short sleep, illness, alcohol... excluded from ovulation detection
+}
+
+export type CervicalMucus = 'Dry' | 'Sticky' | 'Creamy' | 'Watery' | 'Egg white';
+
+export type LhResult = 'Negative' | 'High' | 'Peak';
+
+export interface LhTest {
+  result: LhResult;
+  photo: string | null; // Downscaled JPEG data URL of the test strip
+}
+
+export type PregnancyTestResult = 'Negative' | 'Positive';
+
+export type Severity = 'Mild' | 'Moderate' | 'Severe';
+
+export interface LoggedSymptom {
+  name: string;
+  severity: Severity;
+}
+
+export interface DailyLog {
+  id: string;
+  date: string; // YYYY-MM-DD
+  flow: FlowLevel | null;
+  mood: string | null;
+  symptoms: LoggedSymptom[]; // Older logs stored plain names, see normalizeSymptoms
+  temperature?: TemperatureReading | null;
+  mucus?: CervicalMucus | null;
+  lhTest?: LhTest | null;
+  pregnancyTest?: PregnancyTestResult | null;
+  contraceptionTaken?: boolean; // Pill taken, patch changed or ring inserted/removed as due that day
+  note?: string | null; // Free text with light formatting, see lib/notes.ts
+  planned?: boolean; // Entered ahead of time for a day that hasn't happened yet
+  createdAt: Timestamp;
+}
+
+// A log's own content, without the Firestore bookkeeping (used by exports and imports)
+export type LogData = Omit<DailyLog, 'id' | 'createdAt'>;
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+
+import { validateLog } from '../src/lib/backup';
+import { normalizeCatalog } from '../src/lib/symptoms';
+
+// --- Backup Validation Tests ---
+// The limits firestore.rules enforces are checked before anything is written.
+
+const symptoms = (count: number) => Array.from({ length: count }, (_, i) => `Symptom ${i + 1}`);
+
+describe('validateLog', () => {
+  it('accepts a mood up to 50 characters and rejects a longer one', () => {
+    expect(validateLog({ date: '2026-03-14', mood: 'x'.repeat(50) }).mood).toHaveLength(50);
+    expect(() => validateLog({ date: '2026-03-14', mood: 'x'.repeat(51) })).toThrow('mood is longer than 50 characters');
+  });
+
+  it('accepts up to 50 symptoms a day', () => {
+    expect(validateLog({ date: '2026-03-14', symptoms: symptoms(50) }).symptoms).toHaveLength(50);
+    expect(() => validateLog({ date: '2026-03-14', symptoms: symptoms(51) })).toThrow('more than 50 symptoms');
+  });
+
+  it('accepts a symptom name up to 50 characters and rejects a longer one', () => {
+    const log = (name: string) => ({ date: '2026-03-14', symptoms: [{ name, severity: 'Mild' }] });
+    expect(validateLog(log('x'.repeat(50))).symptoms[0].name).toHaveLength(50);
+    expect(() => validateLog(log('x'.repeat(51)))).toThrow('symptom name is longer than 50 characters');
+  });
+
+  it('rejects a temperature the log form would not accept', () => {
+    const log = (value: number, unit: string) => ({ date: '2026-03-14', temperature: { value, unit } });
+    expect(validateLog(log(36.5, 'C')).temperature?.value).toBe(36.5);
+    expect(validateLog(log(97.7, 'F')).temperature?.unit).toBe('F');
+    expect(() => validateLog(log(365, 'C'))).toThrow('implausible temperature 365°C');
+    expect(() => validateLog(log(36.5, 'F'))).toThrow('implausible temperature 36.5°F');
+  });
+
+  it('keeps a test strip photo below the size firestore.rules allows', () => {
+    const photo = (length: number) => `data:image/jpeg;base64,${'A'.repeat(length - 23)}`;
+    const log = (length: number) => ({ date: '2026-03-14', lhTest: { result: 'Peak', photo: photo(length) } });
+    expect(validateLog(log(499999)).lhTest?.photo).toHaveLength(499999);
+    expect(() => validateLog(log(500000))).toThrow('larger than 500000 characters');
+  });
+});
+
+describe('normalizeCatalog', () => {
+  it('rejects names longer than 50 characters and lists longer than 200 items', () => {
+    expect(() => normalizeCatalog([{ name: 'x'.repeat(51) }])).toThrow('longer than 50 characters');
+    expect(() => normalizeCatalog(symptoms(201).map(name => ({ name })))).toThrow('at most 200 items');
+    expect(normalizeCatalog(symptoms(200).map(name => ({ name })))).toHaveLength(200);
+  });
+});
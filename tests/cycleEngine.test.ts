@@ -0,0 +1,195 @@
+import { describe, expect, it } from 'vitest';
+
+import type { UserSettings } from '../src/types';
+import { diffDays } from '../src/lib/dates';
+import { detectCycles, detectPeriods, forecastCycles, formatDaysUntil, summarizeCycles } from '../src/lib/cycleEngine';
+import { createTranslator } from '../src/lib/i18n';
+import { log, period } from './fixtures/logs';
+
+// --- Cycle Engine Tests ---
+
+const SETTINGS: UserSettings = { cycleLength: 30, periodLength: 4 };
+
+// Four 28-day cycles, the last one ongoing
+const HISTORY = [
+  ...period('2026-01-05'),
+  ...period('2026-02-02'),
+  ...period('2026-03-02'),
+  ...period('2026-03-30'),
+];
+
+describe('detectPeriods', () => {
+  it('groups consecutive bleeding days, whatever order they were logged in', () => {
+    expect(detectPeriods([...period('2026-03-02', 3), ...period('2026-01-05', 4)].reverse())).toEqual([
+      { start: '2026-01-05', end: '2026-01-08' },
+      { start: '2026-03-02', end: '2026-03-04' },
+    ]);
+  });
+
+  it('ignores days logged without flow', () => {
+    expect(detectPeriods([log('2026-03-01', null), ...period('2026-03-02', 2), log('2026-03-05', null)])).toEqual([
+      { start: '2026-03-02', end: '2026-03-03' },
+    ]);
+  });
+
+  it("doesn't count spotting-only days as a period", () => {
+    expect(detectPeriods(period('2026-03-10', 3, 'Spotting'))).toEqual([]);
+    expect(detectPeriods([...period('2026-03-02', 4), log('2026-03-17', 'Spotting')])).toEqual([
+      { start: '2026-03-02', end: '2026-03-05' },
+    ]);
+  });
+
+  it('starts at the first real flow day, but keeps trailing spotting', () => {
+    expect(detectPeriods([
+      log('2026-03-01', 'Spotting'),
+      ...period('2026-03-02', 3),
+      log('2026-03-05', 'Spotting'),
+      log('2026-03-06', 'Spotting'),
+    ])).toEqual([{ start: '2026-03-02', end: '2026-03-06' }]);
+  });
+
+  it('bridges up to two unlogged days inside a period', () => {
+    expect(detectPeriods([log('2026-03-02'), log('2026-03-05')])).toEqual([{ start: '2026-03-02', end: '2026-03-05' }]);
+    expect(detectPeriods([log('2026-03-02'), log('2026-03-06')])).toEqual([
+      { start: '2026-03-02', end: '2026-03-02' },
+      { start: '2026-03-06', end: '2026-03-06' },
+    ]);
+  });
+
+  it('keeps a period spanning a month or year boundary together', () => {
+    expect(detectPeriods(period('2026-01-30', 5))).toEqual([{ start: '2026-01-30', end: '2026-02-03' }]);
+    expect(detectPeriods(period('2026-02-27', 4))).toEqual([{ start: '2026-02-27', end: '2026-03-02' }]);
+    expect(detectPeriods(period('2025-12-30', 5))).toEqual([{ start: '2025-12-30', end: '2026-01-03' }]);
+  });
+
+  it('bridges a gap that crosses the end of February', () => {
+    expect(detectPeriods([log('2028-02-28'), log('2028-03-02')])).toEqual([{ start: '2028-02-28', end: '2028-03-02' }]);
+  });
+});
+
+describe('detectCycles', () => {
+  it('measures each cycle from one period start to the next', () => {
+    const cycles = detectCycles(HISTORY);
+    expect(cycles.map(c => [c.start, c.end, c.cycleLength, c.periodLength])).toEqual([
+      ['2026-01-05', '2026-02-01', 28, 5],
+      ['2026-02-02', '2026-03-01', 28, 5],
+      ['2026-03-02', '2026-03-29', 28, 5],
+      ['2026-03-30', null, null, 5],
+    ]);
+  });
+
+  it('counts month lengths correctly across boundaries', () => {
+    const cycles = detectCycles([...period('2026-01-30', 5), ...period('2026-02-27', 5), ...period('2026-03-29', 4)]);
+    expect(cycles.map(c => c.cycleLength)).toEqual([28, 30, null]);
+    expect(cycles[0].periodEnd).toBe('2026-02-03');
+  });
+
+  it('turns a missed period into one long cycle', () => {
+    const cycles = detectCycles([...period('2026-01-05'), ...period('2026-03-02')]);
+    expect(cycles.map(c => c.cycleLength)).toEqual([56, null]);
+  });
+});
+
+describe('summarizeCycles', () => {
+  it('falls back to the settings without any logs', () => {
+    const summary = summarizeCycles([], SETTINGS, new Date(2026, 3, 10));
+    expect(summary.currentCycle).toBeNull();
+    expect(summary.cycleLength).toBe(30);
+    expect(summary.periodLength).toBe(4);
+    expect(summary.nextPeriodStart).toBeNull();
+  });
+
+  it('predicts from the averages of past cycles', () => {
+    const summary = summarizeCycles(HISTORY, SETTINGS, new Date(2026, 3, 10));
+    expect(summary.cycleLength).toBe(28);
+    expect(summary.periodLength).toBe(5);
+    expect(summary.currentDay).toBe(12);
+    expect(summary.nextPeriodStart).toBe('2026-04-27');
+    expect(summary.daysUntilNext).toBe(17);
+    expect(summary.ovulationDate).toBe('2026-04-13');
+    expect(summary.ovulationSource).toBe('calendar');
+    expect(summary.fertileWindow).toEqual({ start: '2026-04-09', end: '2026-04-14' });
+    expect(summary.isPeriodToday).toBe(false);
+  });
+
+  it('leaves a cycle stretched by a logging gap out of the averages', () => {
+    const logs = [...period('2026-01-05'), ...period('2026-02-02'), ...period('2026-03-30'), ...period('2026-04-27')];
+    const summary = summarizeCycles(logs, SETTINGS, new Date(2026, 4, 1));
+    expect(summary.cycles.map(c => c.cycleLength)).toEqual([28, 56, 28, null]);
+    expect(summary.cycleLength).toBe(28);
+  });
+
+  it("doesn't let spotting start a new cycle", () => {
+    const logs = [...HISTORY, log('2026-04-10', 'Spotting')];
+    const summary = summarizeCycles(logs, SETTINGS, new Date(2026, 3, 10));
+    expect(summary.currentCycle?.start).toBe('2026-03-30');
+    expect(summary.nextPeriodStart).toBe('2026-04-27');
+  });
+
+  it('ignores periods logged after today', () => {
+    const summary = summarizeCycles([...HISTORY, ...period('2026-04-27')], SETTINGS, new Date(2026, 3, 10));
+    expect(summary.currentCycle?.start).toBe('2026-03-30');
+  });
+
+  it('knows a period day, across a month boundary', () => {
+    const logs = [...period('2026-03-02'), ...period('2026-03-30', 5)];
+    const summary = summarizeCycles(logs, SETTINGS, new Date(2026, 3, 2));
+    expect(summary.isPeriodToday).toBe(true);
+    expect(summary.currentDay).toBe(4);
+  });
+});
+
+describe('forecastCycles', () => {
+  it('has nothing to forecast without a prediction', () => {
+    expect(forecastCycles(summarizeCycles([], SETTINGS, new Date(2026, 3, 10)), new Date(2026, 3, 10))).toEqual([]);
+  });
+
+  it('spaces cycles by the average length', () => {
+    const today = new Date(2026, 3, 10);
+    const forecast = forecastCycles(summarizeCycles(HISTORY, SETTINGS, today), today, 3);
+    expect(forecast.map(f => [f.index, f.earliestStart, f.likelyStart, f.latestStart])).toEqual([
+      [1, '2026-04-26', '2026-04-27', '2026-04-28'],
+      [2, '2026-05-24', '2026-05-25', '2026-05-26'],
+      [3, '2026-06-21', '2026-06-22', '2026-06-23'],
+    ]);
+    expect(forecast[0].likelyPeriod).toEqual({ start: '2026-04-27', end: '2026-05-01' });
+    // Ovulation of the forecast cycle itself, 14 days before the one after it
+    expect(forecast[0].ovulationDate).toBe('2026-05-11');
+  });
+
+  it('uses the spread of past cycles once there is one', () => {
+    const logs = [...period('2026-01-01'), ...period('2026-01-27'), ...period('2026-02-26'), ...period('2026-03-24')];
+    const today = new Date(2026, 3, 1);
+    const forecast = forecastCycles(summarizeCycles(logs, SETTINGS, today), today, 4);
+    const spreads = forecast.map(f => diffDays(f.likelyStart, f.latestStart));
+    // Lengths 26, 30 and 26: a deviation of about 2.3 days that grows with the square root of the distance
+    expect(spreads).toEqual([2, 3, 4, 5]);
+  });
+
+  it('never starts a late period in the past', () => {
+    const today = new Date(2026, 3, 30);
+    const summary = summarizeCycles(HISTORY, SETTINGS, today);
+    expect(summary.nextPeriodStart).toBe('2026-04-27');
+    expect(summary.daysUntilNext).toBe(0);
+    const [next] = forecastCycles(summary, today, 1);
+    expect(next.likelyStart).toBe('2026-04-30');
+    expect(next.earliestStart).toBe('2026-04-30');
+  });
+});
+
+describe('formatDaysUntil', () => {
+  const today = new Date(2026, 3, 10);
+  const [next] = forecastCycles(summarizeCycles(HISTORY, SETTINGS, today), today, 1);
+
+  it('gives a range while the start is uncertain', () => {
+    expect(formatDaysUntil(next, 17, today)).toBe('16–18');
+  });
+
+  it('gives a single day as a number, so messages pick its plural form', () => {
+    const known = { ...next, earliestStart: '2026-04-11', latestStart: '2026-04-11' };
+    expect(formatDaysUntil(known, 17, today)).toBe(1);
+    expect(createTranslator('en').t('nav.inDays', { count: formatDaysUntil(known, 17, today) })).toBe('In 1 Day');
+    expect(createTranslator('fr').t('nav.inDays', { count: formatDaysUntil(undefined, 0, today) })).toBe('Dans 0 jour');
+    expect(createTranslator('ar').t('nav.inDays', { count: 2 })).toBe('بعد يومين');
+  });
+});
@@ -0,0 +1,354 @@
+import { readFileSync } from 'node:fs';
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest';
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  type RulesTestEnvironment
+} from '@firebase/rules-unit-testing';
+import {
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+  where,
+  writeBatch,
+  type Firestore
+} from 'firebase/firestore';
+
+// --- Firestore Rules Tests ---
+// Runs firestore.rules against the local emulator: `npm run test:rules` starts it and runs this.
+
+const APP_ID = 'gyneo-test';
+const [host, port] = (process.env.FIRESTORE_EMULATOR_HOST ?? '127.0.0.1:8080').split(':');
+
+let env: RulesTestEnvironment;
+
+const userPath = (uid: string) => `artifacts/${APP_ID}/users/${uid}`;
+const logRef = (db: Firestore, uid: string, date: string) => doc(db, userPath(uid), 'logs', date);
+const settingsRef = (db: Firestore, uid: string, name = 'preferences') => doc(db, userPath(uid), 'settings', name);
+
+const asUser = (uid: string) => env.authenticatedContext(uid).firestore() as unknown as Firestore;
+const asGuest = () => env.unauthenticatedContext().firestore() as unknown as Firestore;
+
+const LOG = {
+  date: '2026-03-14',
+  flow: 'Medium',
+  mood: 'Calm',
+  symptoms: ['Cramps', 'Headache'],
+  temperature: { value: 36.6, unit: 'C', time: '07:00' },
+  mucus: 'Creamy',
+  note: 'Slept well',
+};
+
+const SETTINGS = { cycleLength: 28, periodLength: 5, temperatureUnit: 'C' };
+
+const ENCRYPTION = {
+  version: 1,
+  iterations: 600000,
+  salt: 'c2FsdA==',
+  wrappedKey: 'a2V5',
+  recoverySalt: 'c2FsdA==',
+  recoveryWrappedKey: 'a2V5',
+  recoveryKey: 'a2V5',
+};
+
+beforeAll(async () => {
+  env = await initializeTestEnvironment({
+    projectId: 'demo-gyneo',
+    firestore: { rules: readFileSync('firestore.rules', 'utf8'), host, port: Number(port) },
+  });
+});
+
+beforeEach(async () => {
+  await env.clearFirestore();
+});
+
+afterAll(async () => {
+  await env.cleanup();
+});
+
+// Stores data as it would be before the rules apply, for the read tests
+const seed = (path: string, data: object) => env.withSecurityRulesDisabled(async (context) => {
+  await setDoc(doc(context.firestore() as unknown as Firestore, path), data);
+});
+
+describe('ownership', () => {
+  it('lets a user read and write their own logs and settings', async () => {
+    const db = asUser('alice');
+    await assertSucceeds(setDoc(logRef(db, 'alice', LOG.date), LOG));
+    await assertSucceeds(getDoc(logRef(db, 'alice', LOG.date)));
+    await assertSucceeds(getDocs(collection(db, userPath('alice'), 'logs')));
+    await assertSucceeds(deleteDoc(logRef(db, 'alice', LOG.date)));
+    await assertSucceeds(setDoc(settingsRef(db, 'alice'), SETTINGS));
+    await assertSucceeds(getDoc(settingsRef(db, 'alice')));
+    await assertSucceeds(setDoc(settingsRef(db, 'alice', 'encryption'), ENCRYPTION));
+  });
+
+  it("never lets one user read another user's data", async () => {
+    await seed(`${userPath('alice')}/logs/${LOG.date}`, LOG);
+    await seed(`${userPath('alice')}/settings/preferences`, SETTINGS);
+    const db = asUser('mallory');
+    await assertFails(getDoc(logRef(db, 'alice', LOG.date)));
+    await assertFails(getDocs(collection(db, userPath('alice'), 'logs')));
+    await assertFails(getDoc(settingsRef(db, 'alice')));
+    await assertFails(getDoc(settingsRef(db, 'alice', 'encryption')));
+  });
+
+  it("never lets one user change another user's data", async () => {
+    await seed(`${userPath('alice')}/logs/${LOG.date}`, LOG);
+    const db = asUser('mallory');
+    await assertFails(setDoc(logRef(db, 'alice', LOG.date), { ...LOG, flow: 'Heavy' }));
+    await assertFails(setDoc(logRef(db, 'alice', '2026-03-15'), { ...LOG, date: '2026-03-15' }));
+    await assertFails(deleteDoc(logRef(db, 'alice', LOG.date)));
+    await assertFails(setDoc(settingsRef(db, 'alice'), SETTINGS));
+    await assertFails(setDoc(settingsRef(db, 'alice', 'encryption'), ENCRYPTION));
+  });
+
+  it('denies everything when signed out', async () => {
+    await seed(`${userPath('alice')}/logs/${LOG.date}`, LOG);
+    const db = asGuest();
+    await assertFails(getDoc(logRef(db, 'alice', LOG.date)));
+    await assertFails(setDoc(logRef(db, 'alice', LOG.date), LOG));
+    await assertFails(getDoc(settingsRef(db, 'alice')));
+  });
+
+  it('closes every other path', async () => {
+    const db = asUser('alice');
+    await assertFails(setDoc(doc(db, 'artifacts', APP_ID), { owner: 'alice' }));
+    await assertFails(setDoc(doc(db, userPath('alice')), { name: 'Alice' }));
+    await assertFails(setDoc(doc(db, userPath('alice'), 'notes', 'one'), { note: 'hi' }));
+    await assertFails(setDoc(settingsRef(db, 'alice', 'other'), SETTINGS));
+  });
+});
+
+describe('wiping an account', () => {
+  it('lets the owner list and delete every document they have', async () => {
+    await seed(`${userPath('alice')}/logs/${LOG.date}`, LOG);
+    await seed(`${userPath('alice')}/settings/preferences`, SETTINGS);
+    await seed(`${userPath('alice')}/settings/retired`, { old: true });
+    const db = asUser('alice');
+    const settings = await assertSucceeds(getDocs(collection(db, userPath('alice'), 'settings')));
+    for (const d of settings.docs) await assertSucceeds(deleteDoc(d.ref));
+    await assertSucceeds(deleteDoc(logRef(db, 'alice', LOG.date)));
+  });
+
+  it('never lets anyone else list or delete them', async () => {
+    await seed(`${userPath('alice')}/settings/retired`, { old: true });
+    const db = asUser('mallory');
+    await assertFails(getDocs(collection(db, userPath('alice'), 'settings')));
+    await assertFails(deleteDoc(settingsRef(db, 'alice', 'retired')));
+    await assertFails(deleteDoc(settingsRef(asGuest(), 'alice', 'retired')));
+  });
+});
+
+describe('logs', () => {
+  const write = (data: object, date = LOG.date) => setDoc(logRef(asUser('alice'), 'alice', date), data);
+
+  it('accepts a minimal log and every flow value', async () => {
+    await assertSucceeds(write({ date: LOG.date }));
+    for (const flow of ['Light', 'Medium', 'Heavy', 'Spotting']) {
+      await assertSucceeds(write({ ...LOG, flow }));
+    }
+  });
+
+  it('requires the date to match the document id', async () => {
+    await assertFails(write({ ...LOG, date: '2026-03-15' }));
+    await assertFails(write({ ...LOG }, '2026-3-14'));
+    await assertFails(write({ ...LOG, date: 'today' }, 'today'));
+  });
+
+  it('rejects unknown flow values', async () => {
+    await assertFails(write({ ...LOG, flow: 'Extreme' }));
+    await assertFails(write({ ...LOG, flow: 3 }));
+  });
+
+  it('bounds the symptoms list', async () => {
+    await assertSucceeds(write({ ...LOG, symptoms: Array.from({ length: 50 }, (_, i) => `Symptom ${i}`) }));
+    await assertFails(write({ ...LOG, symptoms: Array.from({ length: 51 }, (_, i) => `Symptom ${i}`) }));
+    await assertFails(write({ ...LOG, symptoms: 'Cramps' }));
+  });
+
+  it('bounds the test strip photo', async () => {
+    const photo = (length: number) => `data:image/jpeg;base64,${'A'.repeat(length - 23)}`;
+    await assertSucceeds(write({ ...LOG, lhTest: { result: 'Peak', photo: photo(499999) } }));
+    await assertSucceeds(write({ ...LOG, lhTest: { result: 'Peak', photo: null } }));
+    await assertFails(write({ ...LOG, lhTest: { result: 'Peak', photo: photo(500000) } }));
+    await assertFails(write({ ...LOG, lhTest: { result: 'Peak', photo: 'https://example.com/strip.jpg' } }));
+  });
+
+  it('rejects malformed fields and unknown ones', async () => {
+    await assertFails(write({ ...LOG, temperature: { value: 'warm', unit: 'C' } }));
+    await assertFails(write({ ...LOG, mucus: 'Oily' }));
+    await assertFails(write({ ...LOG, note: 'x'.repeat(5001) }));
+    await assertFails(write({ ...LOG, sharedWith: 'mallory' }));
+  });
+
+  it('accepts encrypted logs, but only their shape', async () => {
+    const encrypted = { date: LOG.date, encrypted: { iv: 'aXY=', data: 'ZGF0YQ==' } };
+    await assertSucceeds(write(encrypted));
+    await assertFails(write({ ...encrypted, flow: 'Heavy' }));
+    await assertFails(write({ date: LOG.date, encrypted: 'plain text' }));
+  });
+});
+
+describe('settings', () => {
+  const write = (data: object) => setDoc(settingsRef(asUser('alice'), 'alice'), data);
+
+  it('accepts settings within range', async () => {
+    await assertSucceeds(write({ cycleLength: 15, periodLength: 1 }));
+    await assertSucceeds(write({ cycleLength: 90, periodLength: 15, temperatureUnit: 'F' }));
+    await assertSucceeds(write({ ...SETTINGS, contraception: { method: 'patch', startDate: '2026-01-05' } }));
+    await assertSucceeds(write({ ...SETTINGS, language: 'sw-KE', weekStart: 6 }));
+  });
+
+  it('rejects lengths out of range', async () => {
+    await assertFails(write({ ...SETTINGS, cycleLength: 14 }));
+    await assertFails(write({ ...SETTINGS, cycleLength: 91 }));
+    await assertFails(write({ ...SETTINGS, cycleLength: 28.5 }));
+    await assertFails(write({ ...SETTINGS, periodLength: 0 }));
+    await assertFails(write({ ...SETTINGS, periodLength: 16 }));
+    await assertFails(write({ temperatureUnit: 'C' }));
+  });
+
+  it('rejects unknown values and fields', async () => {
+    await assertFails(write({ ...SETTINGS, temperatureUnit: 'K' }));
+    await assertFails(write({ ...SETTINGS, contraception: { method: 'wish', startDate: '2026-01-05' } }));
+    await assertFails(write({ ...SETTINGS, admin: true }));
+    await assertFails(write({ ...SETTINGS, language: 'not a language' }));
+    await assertFails(write({ ...SETTINGS, weekStart: 3 }));
+  });
+
+  it('only accepts a complete encryption config', async () => {
+    const db = asUser('alice');
+    await assertSucceeds(setDoc(settingsRef(db, 'alice', 'encryption'), ENCRYPTION));
+    await assertFails(setDoc(settingsRef(db, 'alice', 'encryption'), { ...ENCRYPTION, version: 2 }));
+    await assertFails(setDoc(settingsRef(db, 'alice', 'encryption'), { version: 1, iterations: 1 }));
+  });
+});
+
+describe('sharing', () => {
+  const SHARE_ID = 'invite-token';
+  const shareRef = (db: Firestore) => doc(db, 'artifacts', APP_ID, 'shares', SHARE_ID);
+  const scopeRef = (db: Firestore, scope: string) => doc(db, 'artifacts', APP_ID, 'shares', SHARE_ID, 'scopes', scope);
+  const PERMISSIONS = { predictions: true, periodDays: true, fertileWindow: false, moods: false, symptoms: false };
+  const PREDICTIONS = { cycleStart: '2026-03-01', cycleLength: 28, periodLength: 5, nextPeriodStart: '2026-03-29', periods: [] };
+  const MOODS = { days: { '2026-03-14': 'Calm' } };
+
+  // Alice shares predictions and period days, and Bob accepted
+  const seedShare = async (recipientUid: string | null = 'bob') => {
+    await seed(`artifacts/${APP_ID}/shares/${SHARE_ID}`, {
+      ownerUid: 'alice',
+      ownerName: 'Alice',
+      recipientUid,
+      recipientName: recipientUid ? 'Bob' : null,
+      permissions: PERMISSIONS,
+    });
+    await seed(`artifacts/${APP_ID}/shares/${SHARE_ID}/scopes/predictions`, PREDICTIONS);
+    await seed(`artifacts/${APP_ID}/shares/${SHARE_ID}/scopes/moods`, MOODS);
+  };
+
+  it('lets the owner create an invite with its scopes in one batch', async () => {
+    const db = asUser('alice');
+    const batch = writeBatch(db);
+    batch.set(shareRef(db), {
+      ownerUid: 'alice',
+      ownerName: 'Alice',
+      recipientUid: null,
+      recipientName: null,
+      permissions: PERMISSIONS,
+      createdAt: serverTimestamp(),
+    });
+    batch.set(scopeRef(db, 'predictions'), PREDICTIONS);
+    await assertSucceeds(batch.commit());
+  });
+
+  it('rejects invites for someone else or already accepted', async () => {
+    const db = asUser('mallory');
+    const invite = { ownerName: 'Alice', recipientName: null, permissions: PERMISSIONS, createdAt: serverTimestamp() };
+    await assertFails(setDoc(shareRef(db), { ...invite, ownerUid: 'alice', recipientUid: null }));
+    await assertFails(setDoc(shareRef(db), { ...invite, ownerUid: 'mallory', recipientUid: 'bob' }));
+  });
+
+  it('lets anyone with the link open an invite nobody accepted, but not list invites', async () => {
+    await seedShare(null);
+    const db = asUser('bob');
+    await assertSucceeds(getDoc(shareRef(db)));
+    await assertFails(getDocs(collection(db, 'artifacts', APP_ID, 'shares')));
+    await assertFails(getDoc(shareRef(asGuest())));
+  });
+
+  it('lets the invite be accepted once, and not by its owner', async () => {
+    await seedShare(null);
+    await assertFails(updateDoc(shareRef(asUser('alice')), { recipientUid: 'alice', recipientName: 'Alice' }));
+    await assertFails(updateDoc(shareRef(asUser('bob')), { recipientUid: 'carol', recipientName: 'Carol' }));
+    await assertFails(updateDoc(shareRef(asUser('bob')), {
+      recipientUid: 'bob',
+      recipientName: 'Bob',
+      permissions: { ...PERMISSIONS, moods: true }
+    }));
+    await assertSucceeds(updateDoc(shareRef(asUser('bob')), { recipientUid: 'bob', recipientName: 'Bob' }));
+    await assertFails(getDoc(shareRef(asUser('mallory'))));
+    await assertFails(updateDoc(shareRef(asUser('mallory')), { recipientUid: 'mallory', recipientName: 'Mallory' }));
+  });
+
+  it('lets the recipient read only the scopes that are shared', async () => {
+    await seedShare();
+    const db = asUser('bob');
+    await assertSucceeds(getDocs(query(collection(db, 'artifacts', APP_ID, 'shares'), where('recipientUid', '==', 'bob'))));
+    await assertSucceeds(getDoc(scopeRef(db, 'predictions')));
+    await assertFails(getDoc(scopeRef(db, 'moods')));
+    await assertFails(getDoc(scopeRef(asUser('mallory'), 'predictions')));
+    await assertFails(getDocs(query(collection(db, 'artifacts', APP_ID, 'shares'), where('recipientUid', '==', 'carol'))));
+  });
+
+  it('never lets the recipient change what is shared or write to it', async () => {
+    await seedShare();
+    const db = asUser('bob');
+    await assertFails(updateDoc(shareRef(db), { permissions: { ...PERMISSIONS, moods: true } }));
+    await assertFails(setDoc(scopeRef(db, 'predictions'), PREDICTIONS));
+  });
+
+  it('only lets the owner publish scopes that are shared, in their own shape', async () => {
+    await seedShare();
+    const db = asUser('alice');
+    await assertSucceeds(setDoc(scopeRef(db, 'predictions'), PREDICTIONS));
+    await assertSucceeds(setDoc(scopeRef(db, 'periodDays'), { days: { '2026-03-01': 'Heavy' } }));
+    await assertFails(setDoc(scopeRef(db, 'moods'), MOODS));
+    await assertFails(setDoc(scopeRef(db, 'predictions'), { ...PREDICTIONS, days: MOODS.days }));
+    await assertFails(setDoc(scopeRef(db, 'notes'), { days: {} }));
+  });
+
+  it('shares a scope as soon as the owner allows it, and stops when they take it back', async () => {
+    await seedShare();
+    const db = asUser('alice');
+    const share = writeBatch(db);
+    share.update(shareRef(db), { permissions: { ...PERMISSIONS, moods: true } });
+    share.set(scopeRef(db, 'moods'), MOODS);
+    await assertSucceeds(share.commit());
+    await assertSucceeds(getDoc(scopeRef(asUser('bob'), 'moods')));
+
+    const unshare = writeBatch(db);
+    unshare.update(shareRef(db), { permissions: PERMISSIONS });
+    unshare.delete(scopeRef(db, 'moods'));
+    await assertSucceeds(unshare.commit());
+    await assertFails(getDoc(scopeRef(asUser('bob'), 'moods')));
+  });
+
+  it('lets either side end the share, and no one else', async () => {
+    await seedShare();
+    await assertFails(deleteDoc(scopeRef(asUser('mallory'), 'predictions')));
+    await assertFails(deleteDoc(shareRef(asUser('mallory'))));
+    const db = asUser('bob');
+    const batch = writeBatch(db);
+    batch.delete(scopeRef(db, 'predictions'));
+    batch.delete(scopeRef(db, 'moods'));
+    batch.delete(shareRef(db));
+    await assertSucceeds(batch.commit());
+  });
+});
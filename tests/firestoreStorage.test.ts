@@ -0,0 +1,147 @@
+import { readFileSync } from 'node:fs';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { initializeTestEnvironment, type RulesTestEnvironment } from '@firebase/rules-unit-testing';
+import { collection, getDocs, type Firestore } from 'firebase/firestore';
+
+import type { LogData, UserSettings } from '../src/types';
+import { addDays } from '../src/lib/dates';
+import { createFirestoreStorage } from '../src/lib/firestoreStorage';
+import type { StoredItem, StoredLogData, SyncState, UserStorage } from '../src/lib/storage';
+
+// --- Firestore Storage Tests ---
+// Runs lib/firestoreStorage.ts against the local emulator, with the real rules:
+// `npm run test:rules` starts it and runs this.
+
+const APP_ID = 'gyneo-test';
+const UID = 'alice';
+const [host, port] = (process.env.FIRESTORE_EMULATOR_HOST ?? '127.0.0.1:8080').split(':');
+
+let env: RulesTestEnvironment;
+
+const LOG: LogData = { date: '2026-03-14', flow: 'Medium', mood: 'Calm', symptoms: [{ name: 'Cramps', severity: 'Mild' }] };
+const SETTINGS: UserSettings = { cycleLength: 28, periodLength: 5 };
+
+const logAt = (date: string): LogData => ({ ...LOG, date });
+
+const storageFor = (uid: string): UserStorage =>
+  createFirestoreStorage(env.authenticatedContext(uid).firestore() as unknown as Firestore, APP_ID, uid);
+
+// How many documents the server has for a user
+const countStored = async (uid: string) => {
+  let count = 0;
+  await env.withSecurityRulesDisabled(async (context) => {
+    const db = context.firestore() as unknown as Firestore;
+    const path = `artifacts/${APP_ID}/users/${uid}`;
+    const [logs, settings] = await Promise.all([getDocs(collection(db, path, 'logs')), getDocs(collection(db, path, 'settings'))]);
+    count = logs.size + settings.size;
+  });
+  return count;
+};
+
+// Resolves with the first watched value the server has confirmed that passes `done`
+const waitForLogs = (storage: UserStorage, done: (items: StoredItem<StoredLogData>[]) => boolean) =>
+  new Promise<StoredItem<StoredLogData>[]>((resolve, reject) => {
+    const unsubscribe = storage.logs.watch((items, state: SyncState) => {
+      if (state.pendingWrites || state.fromCache || !done(items)) return;
+      unsubscribe();
+      resolve(items);
+    }, reject);
+  });
+
+const byId = (items: StoredItem<StoredLogData>[]) => Object.fromEntries(items.map(i => [i.id, i.data]));
+
+beforeAll(async () => {
+  env = await initializeTestEnvironment({
+    projectId: 'demo-gyneo',
+    firestore: { rules: readFileSync('firestore.rules', 'utf8'), host, port: Number(port) },
+  });
+});
+
+beforeEach(async () => {
+  await env.clearFirestore();
+});
+
+afterAll(async () => {
+  await env.cleanup();
+});
+
+describe('createFirestoreStorage', () => {
+  it('tells watchers about logs as they change', async () => {
+    const storage = storageFor(UID);
+    expect(await waitForLogs(storage, () => true)).toEqual([]);
+
+    await storage.logs.set(LOG.date, LOG);
+    expect(byId(await waitForLogs(storage, items => items.length === 1))).toEqual({ [LOG.date]: LOG });
+
+    await storage.logs.delete(LOG.date);
+    expect(await waitForLogs(storage, items => items.length === 0)).toEqual([]);
+  });
+
+  it('passes the same items on when only the sync state changed', async () => {
+    const storage = storageFor(UID);
+    const seen: { items: StoredItem<StoredLogData>[], state: SyncState }[] = [];
+    const unsubscribe = storage.logs.watch((items, state) => seen.push({ items, state }));
+    await storage.logs.set(LOG.date, LOG);
+    await waitForLogs(storage, items => items.length === 1);
+    unsubscribe();
+
+    const pending = seen.findIndex(s => s.items.length === 1 && s.state.pendingWrites);
+    const confirmed = seen.findIndex(s => s.items.length === 1 && !s.state.pendingWrites);
+    expect(pending).toBeGreaterThanOrEqual(0);
+    expect(confirmed).toBeGreaterThan(pending);
+    expect(seen[confirmed].items).toBe(seen[pending].items);
+  });
+
+  it('merges only the given fields, creating the log if needed', async () => {
+    const storage = storageFor(UID);
+    await storage.logs.set(LOG.date, LOG);
+    await storage.logs.merge(LOG.date, { flow: 'Heavy' });
+    await storage.logs.merge('2026-03-15', { date: '2026-03-15', flow: 'Light' });
+    const items = await waitForLogs(storage, items => items.length === 2);
+    expect(byId(items)).toEqual({
+      [LOG.date]: { ...LOG, flow: 'Heavy' },
+      '2026-03-15': { date: '2026-03-15', flow: 'Light' },
+    });
+  });
+
+  it('writes more changes than fit in one batch', async () => {
+    const storage = storageFor(UID);
+    const dates = Array.from({ length: 600 }, (_, i) => addDays('2024-01-01', i));
+    await storage.logs.write(dates.map(date => ({ type: 'set', id: date, value: logAt(date) })));
+    expect(await countStored(UID)).toBe(600);
+
+    await storage.logs.write([
+      ...dates.slice(0, 500).map(date => ({ type: 'delete' as const, id: date })),
+      { type: 'merge', id: dates[599], value: { mood: null } },
+    ]);
+    const items = await waitForLogs(storage, items => items.length === 100);
+    expect(byId(items)[dates[599]]).toEqual({ ...logAt(dates[599]), mood: null });
+  });
+
+  it('watches single documents', async () => {
+    const storage = storageFor(UID);
+    const values: (UserSettings | null)[] = [];
+    const unsubscribe = storage.settings.watch((value, state) => {
+      if (!state.pendingWrites && !state.fromCache) values.push(value);
+    });
+    await storage.settings.set(SETTINGS);
+    await expect.poll(() => values.at(-1)).toEqual(SETTINGS);
+    await storage.settings.delete();
+    await expect.poll(() => values.at(-1)).toBeNull();
+    unsubscribe();
+    expect(values[0]).toBeNull();
+  });
+
+  it("clears everything the user stored, and nobody else's", async () => {
+    const storage = storageFor(UID);
+    const other = storageFor('bob');
+    const dates = Array.from({ length: 500 }, (_, i) => addDays('2024-01-01', i));
+    await storage.logs.write(dates.map(date => ({ type: 'set', id: date, value: logAt(date) })));
+    await storage.settings.set(SETTINGS);
+    await other.logs.set(LOG.date, LOG);
+
+    await storage.clear();
+    expect(await countStored(UID)).toBe(0);
+    expect(await countStored('bob')).toBe(1);
+  });
+});
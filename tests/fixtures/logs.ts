@@ -0,0 +1,21 @@
+import { Timestamp } from 'firebase/firestore';
+
+import type { DailyLog, FlowLevel } from '../../src/types';
+import { addDays, parseDate } from '../../src/lib/dates';
+
+// --- Log Fixtures ---
+// Daily logs as the app saves them, for tests that work out cycles from a history.
+
+export const log = (date: string, flow: FlowLevel | null = 'Medium', extra: Partial<DailyLog> = {}): DailyLog => ({
+  id: date,
+  date,
+  flow,
+  mood: null,
+  symptoms: [],
+  createdAt: Timestamp.fromDate(parseDate(date)),
+  ...extra,
+});
+
+// `days` consecutive bleeding days from `start`
+export const period = (start: string, days = 5, flow: FlowLevel = 'Medium'): DailyLog[] =>
+  Array.from({ length: days }, (_, i) => log(addDays(start, i), flow));
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import postcss from 'postcss';
+import tailwindcss from 'tailwindcss';
+
+import { LANGUAGES, createTranslator, resolveLanguage } from '../src/lib/i18n';
+import { DEFAULT_MOOD_CATALOG, DEFAULT_SYMPTOM_CATALOG, translateItemName } from '../src/lib/symptoms';
+
+// --- Internationalization Tests ---
+
+describe('right-to-left languages', () => {
+  it('ships a right-to-left catalog', () => {
+    const rtl = LANGUAGES.filter(l => createTranslator(l.id).dir === 'rtl');
+    expect(rtl.map(l => l.id)).toContain('ar');
+  });
+
+  it('follows an Arabic device locale', () => {
+    const language = resolveLanguage(undefined, ['ar-EG', 'en-US']);
+    expect(language).toBe('ar');
+    expect(createTranslator(language, 'ar-EG').dir).toBe('rtl');
+  });
+
+  it('picks Arabic plural forms', () => {
+    const { t } = createTranslator('ar');
+    expect(t('reminders.days', { count: 1 })).not.toBe(t('reminders.days', { count: 2 }));
+    expect(t('reminders.days', { count: 5 })).toContain('أيام');
+    expect(t('reminders.days', { count: 12 })).toContain('يومًا');
+  });
+
+  it('generates the rtl: variants the layout uses', async () => {
+    // Uses the repo's tailwind.config.js, so only classes found in src are generated
+    const { css } = await postcss([tailwindcss()]).process('@tailwind utilities;', { from: undefined });
+    for (const utility of ['rotate-180', 'translate-x-full']) {
+      const rule = css.split('}').find(r => r.includes(`.rtl\\:${utility}`));
+      expect(rule, utility).toContain('[dir="rtl"]');
+    }
+  });
+});
+
+describe('built-in symptoms and moods', () => {
+  const names = [...DEFAULT_SYMPTOM_CATALOG, ...DEFAULT_MOOD_CATALOG].map(i => i.name);
+
+  it('are translated for display', () => {
+    const { t } = createTranslator('fr');
+    expect(translateItemName('Cramps', t)).toBe('Crampes');
+    expect(names.filter(name => translateItemName(name, t) === name)).toEqual([]);
+  });
+
+  it('keep their English name as it is stored', () => {
+    const { t } = createTranslator('en');
+    expect(names.map(name => translateItemName(name, t))).toEqual(names);
+  });
+
+  it('leave names the user typed alone', () => {
+    expect(translateItemName('Migraine aura', createTranslator('fr').t)).toBe('Migraine aura');
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+
+import type { DailyLog, UserSettings } from '../src/types';
+import { forecastCycles, summarizeCycles } from '../src/lib/cycleEngine';
+import { buildCalendarEvents, getCalendarId, getDefaultTitles, toIcs, type CalendarExportOptions } from '../src/lib/ical';
+import { createTranslator } from '../src/lib/i18n';
+import { period } from './fixtures/logs';
+
+// --- Calendar Export Tests ---
+
+const SETTINGS: UserSettings = { cycleLength: 28, periodLength: 5 };
+const TODAY = new Date(2026, 3, 10);
+
+const OPTIONS: CalendarExportOptions = {
+  titles: getDefaultTitles(createTranslator('en')),
+  horizonMonths: 3,
+  includeLogged: true,
+  includeFertile: true,
+  calendarId: 'abc',
+};
+
+const build = (logs: DailyLog[]) => {
+  const summary = summarizeCycles(logs, SETTINGS, TODAY);
+  return buildCalendarEvents(summary, forecastCycles(summary, TODAY, 4), OPTIONS, TODAY);
+};
+
+const activeUids = (logs: DailyLog[]) => build(logs).filter(e => !e.cancelled).map(e => e.uid);
+
+describe('buildCalendarEvents', () => {
+  it('names logged periods by start date and predictions by cycles ahead of the last one', () => {
+    const uids = activeUids([...period('2026-03-02'), ...period('2026-03-30')]);
+    expect(uids.filter(uid => uid.includes('-period-'))).toEqual([
+      'abc-period-20260302',
+      'abc-period-20260330',
+      'abc-period-20260330-ahead-1',
+      'abc-period-20260330-ahead-2',
+      'abc-period-20260330-ahead-3',
+    ]);
+    expect(uids).toContain('abc-fertile-20260330');
+    expect(uids).toContain('abc-ovulation-20260330-ahead-1');
+  });
+
+  it('keeps every UID when older history is logged later', () => {
+    const recent = activeUids([...period('2026-03-02'), ...period('2026-03-30')]);
+    const withHistory = activeUids([...period('2026-02-02'), ...period('2026-03-02'), ...period('2026-03-30')]);
+    expect(withHistory).toEqual(['abc-period-20260202', ...recent]);
+  });
+
+  it("cancels the previous cycle's predictions", () => {
+    const cancelled = build([...period('2026-03-02'), ...period('2026-03-30')]).filter(e => e.cancelled);
+    expect(cancelled.map(e => e.uid)).toContain('abc-period-20260302-ahead-1');
+    expect(cancelled.map(e => e.uid)).toContain('abc-ovulation-20260302-ahead-2');
+    expect(toIcs(cancelled)).toContain('STATUS:CANCELLED');
+  });
+
+  it('cancels predictions from cycles several exports ago', () => {
+    const cancelled = build([...period('2026-02-02'), ...period('2026-03-02'), ...period('2026-03-30')])
+      .filter(e => e.cancelled).map(e => e.uid);
+    expect(cancelled).toContain('abc-period-20260202-ahead-1');
+    expect(cancelled).toContain('abc-fertile-20260202-ahead-3');
+    expect(cancelled).toContain('abc-period-20260302-ahead-12');
+  });
+
+  it('cancels predictions past a horizon that shrank', () => {
+    const logs = [...period('2026-03-02'), ...period('2026-03-30')];
+    const summary = summarizeCycles(logs, SETTINGS, TODAY);
+    const forecasts = forecastCycles(summary, TODAY, 14);
+    const longer = buildCalendarEvents(summary, forecasts, { ...OPTIONS, horizonMonths: 12 }, TODAY);
+    const shorter = buildCalendarEvents(summary, forecasts, OPTIONS, TODAY);
+
+    const dropped = longer.filter(e => !e.cancelled && e.uid.includes('-ahead-'))
+      .map(e => e.uid)
+      .filter(uid => !shorter.some(e => e.uid === uid && !e.cancelled));
+    expect(dropped).toContain('abc-period-20260330-ahead-4');
+    expect(dropped.every(uid => shorter.some(e => e.uid === uid && e.cancelled))).toBe(true);
+  });
+
+  it('never cancels an event it also exports, and titles each cancelled one by its kind', () => {
+    const events = build([...period('2026-03-02'), ...period('2026-03-30')]);
+    const active = new Set(events.filter(e => !e.cancelled).map(e => e.uid));
+    expect(events.filter(e => e.cancelled && active.has(e.uid))).toEqual([]);
+    const title = (uid: string) => events.find(e => e.uid === uid)?.title;
+    expect(title('abc-period-20260302-ahead-1')).toBe(OPTIONS.titles.predictedPeriod);
+    expect(title('abc-fertile-20260302-ahead-1')).toBe(OPTIONS.titles.fertile);
+    expect(title('abc-ovulation-20260302-ahead-1')).toBe(OPTIONS.titles.ovulation);
+  });
+});
+
+describe('getCalendarId', () => {
+  it('is the same for an account on every device and differs between accounts', async () => {
+    const id = await getCalendarId('user-1');
+    expect(id).toMatch(/^[0-9a-f]{32}$/);
+    expect(await getCalendarId('user-1')).toBe(id);
+    expect(await getCalendarId('user-2')).not.toBe(id);
+    expect(id).not.toContain('user-1');
+  });
+});
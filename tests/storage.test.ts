@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+
+import type { LogData, UserSettings } from '../src/types';
+import { createMemoryStorage, IN_SYNC, type StoredItem, type StoredLogData } from '../src/lib/storage';
+
+// --- In-Memory Storage Tests ---
+// The same behaviour tests/firestoreStorage.test.ts checks against the emulator.
+
+const LOG: LogData = { date: '2026-03-14', flow: 'Medium', mood: 'Calm', symptoms: [{ name: 'Cramps', severity: 'Mild' }] };
+const SETTINGS: UserSettings = { cycleLength: 28, periodLength: 5 };
+
+// Every value the watcher was called with, starting with the current one
+const watchLogs = (storage: ReturnType<typeof createMemoryStorage>) => {
+  const calls: StoredItem<StoredLogData>[][] = [];
+  const unsubscribe = storage.logs.watch((items, state) => {
+    expect(state).toEqual(IN_SYNC);
+    calls.push(items);
+  });
+  return { calls, unsubscribe, latest: () => calls[calls.length - 1] };
+};
+
+describe('createMemoryStorage', () => {
+  it('tells a new watcher the current logs straight away, then every change', async () => {
+    const storage = createMemoryStorage();
+    await storage.logs.set(LOG.date, LOG);
+    const watcher = watchLogs(storage);
+    expect(watcher.calls).toEqual([[{ id: LOG.date, data: LOG }]]);
+
+    await storage.logs.delete(LOG.date);
+    expect(watcher.latest()).toEqual([]);
+
+    watcher.unsubscribe();
+    await storage.logs.set(LOG.date, LOG);
+    expect(watcher.calls).toHaveLength(2);
+  });
+
+  it('merges only the given fields, creating the log if needed', async () => {
+    const storage = createMemoryStorage();
+    const watcher = watchLogs(storage);
+    await storage.logs.set(LOG.date, LOG);
+    await storage.logs.merge(LOG.date, { flow: 'Heavy' });
+    await storage.logs.merge('2026-03-15', { date: '2026-03-15', flow: 'Light' });
+    expect(watcher.latest()).toEqual([
+      { id: LOG.date, data: { ...LOG, flow: 'Heavy' } },
+      { id: '2026-03-15', data: { date: '2026-03-15', flow: 'Light' } },
+    ]);
+  });
+
+  it('applies a batch of changes in order and notifies once', async () => {
+    const storage = createMemoryStorage();
+    const watcher = watchLogs(storage);
+    await storage.logs.write([
+      { type: 'set', id: '2026-03-01', value: { ...LOG, date: '2026-03-01' } },
+      { type: 'set', id: '2026-03-02', value: { ...LOG, date: '2026-03-02' } },
+      { type: 'merge', id: '2026-03-01', value: { mood: null } },
+      { type: 'delete', id: '2026-03-02' },
+    ]);
+    expect(watcher.calls).toHaveLength(2);
+    expect(watcher.latest()).toEqual([{ id: '2026-03-01', data: { ...LOG, date: '2026-03-01', mood: null } }]);
+  });
+
+  it('keeps what is stored apart from the values passed in and out', async () => {
+    const storage = createMemoryStorage();
+    const log = structuredClone(LOG);
+    await storage.logs.set(log.date, log);
+    log.symptoms.push({ name: 'Headache', severity: 'Severe' });
+
+    const watcher = watchLogs(storage);
+    (watcher.latest()[0].data as LogData).flow = 'Heavy';
+    await storage.logs.merge(LOG.date, {});
+    expect(watcher.latest()[0].data).toEqual(LOG);
+  });
+
+  it('watches single documents', async () => {
+    const storage = createMemoryStorage();
+    const values: (UserSettings | null)[] = [];
+    storage.settings.watch(value => values.push(value));
+    await storage.settings.set(SETTINGS);
+    await storage.settings.delete();
+    expect(values).toEqual([null, SETTINGS, null]);
+  });
+
+  it('clears everything the user stored', async () => {
+    const storage = createMemoryStorage();
+    await storage.logs.set(LOG.date, LOG);
+    await storage.settings.set(SETTINGS);
+    const watcher = watchLogs(storage);
+    let settings: UserSettings | null = SETTINGS;
+    storage.settings.watch(value => { settings = value; });
+
+    await storage.clear();
+    expect(watcher.latest()).toEqual([]);
+    expect(settings).toBeNull();
+  });
+});
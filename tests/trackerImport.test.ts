@@ -0,0 +1,145 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+
+import { createTranslator } from '../src/lib/i18n';
+import { createAppleHealthReader, finalizeDraft, parseTrackerCsv, type ImportDraft } from '../src/lib/trackerImport';
+
+// --- Tracker Import Tests ---
+// Runs the importers over the small exports in tests/fixtures.
+
+const HEALTH_EXPORT = readFileSync('tests/fixtures/apple-health-export.xml', 'utf8');
+const TRACKER_CSV = readFileSync('tests/fixtures/tracker-export.csv', 'utf8');
+const en = createTranslator('en');
+
+const readHealth = (chunks: string[]): ImportDraft => {
+  const reader = createAppleHealthReader(en);
+  chunks.forEach(reader.push);
+  return reader.finish();
+};
+
+const chunked = (text: string, size: number) =>
+  Array.from({ length: Math.ceil(text.length / size) }, (_, i) => text.slice(i * size, (i + 1) * size));
+
+const symptomNames = (draft: ImportDraft, date: string) => draft.logs.get(date)?.symptoms.map(s => s.name);
+
+describe('createAppleHealthReader', () => {
+  const draft = readHealth([HEALTH_EXPORT]);
+
+  it('keeps the heaviest flow of the day and skips "none"', () => {
+    expect(draft.logs.get('2026-03-02')?.flow).toBe('Heavy');
+    expect(draft.logs.get('2026-03-03')?.flow).toBe('Medium');
+    expect(draft.logs.has('2026-03-04')).toBe(false);
+    expect(draft.logs.get('2026-03-16')?.flow).toBe('Spotting');
+  });
+
+  it('reads temperature, mucus and ovulation tests', () => {
+    expect(draft.logs.get('2026-03-14')).toMatchObject({
+      temperature: { value: 97.7, unit: 'F', time: '06:40', disturbed: false },
+      mucus: 'Egg white',
+      lhTest: { result: 'Peak', photo: null },
+    });
+  });
+
+  it('maps known symptoms and leaves out absent ones and non-cycle records', () => {
+    expect(symptomNames(draft, '2026-03-02')).toEqual(['Cramps']);
+    expect(symptomNames(draft, '2026-03-16')).toEqual(['Mood swings']);
+    expect(draft.logs.has('2026-03-01')).toBe(false);
+    expect(draft.logs.has('2026-03-05')).toBe(false);
+    expect(draft.errors).toEqual([]);
+  });
+
+  it('keeps the severity Health recorded, the highest when a symptom is logged twice', () => {
+    expect(draft.logs.get('2026-03-02')?.symptoms).toEqual([{ name: 'Cramps', severity: 'Moderate' }]);
+    expect(draft.logs.get('2026-03-03')?.symptoms).toEqual([
+      { name: 'Hot Flashes', severity: 'Mild' },
+      { name: 'Bloating', severity: 'Severe' },
+    ]);
+    expect(draft.logs.get('2026-03-17')?.symptoms).toEqual([
+      { name: 'Headache', severity: 'Moderate' },
+      { name: 'Hot Flashes', severity: 'Severe' },
+    ]);
+  });
+
+  it('collects unknown symptoms with the number of days they were logged', () => {
+    expect(draft.unknownSymptoms).toEqual(new Map([['Hot Flashes', 2]]));
+  });
+
+  it('gives the same result however the file is split into chunks', () => {
+    for (const size of [1, 7, 100, 1024]) {
+      expect(readHealth(chunked(HEALTH_EXPORT, size))).toEqual(draft);
+    }
+  });
+
+  it('finishes a record split inside its tag name and inside an attribute', () => {
+    for (const cut of ['<Rec', 'value="HKCategoryValueMenstrualFlow']) {
+      const at = HEALTH_EXPORT.indexOf(cut) + cut.length;
+      expect(readHealth([HEALTH_EXPORT.slice(0, at), HEALTH_EXPORT.slice(at)])).toEqual(draft);
+    }
+  });
+
+  it('reports a file without cycle records', () => {
+    const empty = readHealth(['<HealthData><Record type="HKQuantityTypeIdentifierStepCount" startDate="2026-03-01" value="5"/></HealthData>']);
+    expect(empty.logs.size).toBe(0);
+    expect(empty.errors).toHaveLength(1);
+  });
+});
+
+describe('parseTrackerCsv', () => {
+  const draft = parseTrackerCsv(TRACKER_CSV, en, 'Tracker');
+
+  it('reads day-first dates once a day past the 12th shows up', () => {
+    expect([...draft.logs.keys()]).toEqual([
+      '2026-02-03', '2026-02-04', '2026-02-05', '2026-02-06', '2026-02-14', '2026-02-15',
+    ]);
+    expect(draft.errors).toEqual([]);
+  });
+
+  it('reads month-first dates the same way', () => {
+    const us = parseTrackerCsv('Date,Flow\n02/03/2026,Light\n02/14/2026,Heavy\n', en);
+    expect([...us.logs.keys()]).toEqual(['2026-02-03', '2026-02-14']);
+  });
+
+  it('defaults to month-first when every date is ambiguous, and takes ISO dates as they are', () => {
+    expect([...parseTrackerCsv('Date,Flow\n02/03/2026,Light\n', en).logs.keys()]).toEqual(['2026-02-03']);
+    expect([...parseTrackerCsv('date,flow\n2026-03-02,Light\n', en).logs.keys()]).toEqual(['2026-03-02']);
+  });
+
+  it('rejects dates that roll over into the next month', () => {
+    const bad = parseTrackerCsv('Date,Flow\n31/02/2026,Light\n13/02/2026,Light\n', en);
+    expect([...bad.logs.keys()]).toEqual(['2026-02-13']);
+    expect(bad.errors).toEqual(['Line 2: unreadable date "31/02/2026"']);
+  });
+
+  it('reads flow words, symptoms and the first mood', () => {
+    expect(draft.logs.get('2026-02-03')).toMatchObject({ flow: 'Light', mood: 'Tired' });
+    expect(symptomNames(draft, '2026-02-03')).toEqual(['Cramps', 'Headache']);
+    expect(symptomNames(draft, '2026-02-04')).toEqual(['Cramps', 'Back pain']);
+    expect(draft.logs.get('2026-02-06')?.flow).toBe('Spotting');
+    expect(draft.logs.get('2026-02-15')?.flow).toBeNull();
+  });
+
+  it('collects unknown symptoms with the number of days they were logged', () => {
+    expect(draft.unknownSymptoms).toEqual(new Map([['Brain fog', 2], ['Egg-white discharge', 1]]));
+    expect(symptomNames(draft, '2026-02-14')).toEqual(['Egg-white discharge', 'Bloating']);
+  });
+
+  it('reads one event per row', () => {
+    const events = parseTrackerCsv('date,type,value\n2026-03-02,Period,heavy\n2026-03-02,Pain,Cramps;Joint pain\n2026-03-02,Mood,Calm\n', en);
+    expect(events.logs.get('2026-03-02')).toMatchObject({ flow: 'Heavy', mood: 'Calm' });
+    expect(events.unknownSymptoms).toEqual(new Map([['Joint pain', 1]]));
+  });
+});
+
+describe('finalizeDraft', () => {
+  it('maps, keeps or skips unknown symptoms as the user chose', () => {
+    const draft = parseTrackerCsv(TRACKER_CSV, en, 'Tracker');
+    const { logs, errors } = finalizeDraft(draft, {
+      'Brain fog': { action: 'skip' },
+      'Egg-white discharge': { action: 'map', to: 'Discharge' },
+    });
+    expect(errors).toEqual([]);
+    expect(logs.find(l => l.date === '2026-02-14')?.symptoms.map(s => s.name)).toEqual(['Discharge', 'Bloating']);
+    // Only a skipped symptom was logged that day
+    expect(logs.some(l => l.date === '2026-02-15')).toBe(false);
+  });
+});